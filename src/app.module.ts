@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ThrottlerModule, ThrottlerGuard } from '@nestjs/throttler';
+import { ScheduleModule } from '@nestjs/schedule';
 import { APP_GUARD } from '@nestjs/core';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
@@ -34,6 +35,8 @@ import { StorageModule } from './storage/storage.module';
       }],
       inject: [ConfigService],
     }),
+    // Tareas programadas (purga de sesiones de subida expiradas, etc.)
+    ScheduleModule.forRoot(),
     StorageModule,
   ],
   controllers: [AppController],
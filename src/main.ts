@@ -26,7 +26,9 @@ async function bootstrap() {
     origin: isProduction ? corsOrigins : true,
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'Range', 'If-None-Match', 'If-Modified-Since', 'If-Range'],
+    // Headers de streaming/caché legibles por visores de PDF y video en el navegador
+    exposedHeaders: ['Content-Range', 'Accept-Ranges', 'Content-Length', 'ETag', 'Last-Modified', 'Content-Disposition'],
   });
 
   // Global validation pipe
@@ -78,6 +80,9 @@ Todos los endpoints requieren **API Key** en el header \`X-API-Key\`.
     logger.log('🔒 Swagger docs disabled in production');
   }
 
+  // Los workers de la cola de procesamiento terminan su trabajo en curso al apagar
+  app.enableShutdownHooks();
+
   const port = config.get<number>('PORT') || 3001;
   await app.listen(port);
   logger.log(`🚀 Storage service running on port ${port}`);
@@ -0,0 +1,91 @@
+import { Controller, Post, Get, Delete, Param, Body, UseGuards, ParseUUIDPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiSecurity } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { ApiKeyService } from './api-key.service';
+import { ApiKeyGuard } from './guards/api-key.guard';
+import { RequireScope } from './decorators/require-scope.decorator';
+import { ApiKeyScope } from './entities/api-key.entity';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+
+/**
+ * Controlador de administración de API keys.
+ * Permite crear, listar, rotar y revocar keys con permisos acotados.
+ * Requiere una key con permiso admin (las keys de entorno lo tienen).
+ * @class ApiKeyController
+ */
+@ApiTags('API Keys')
+@ApiSecurity('api-key')
+@Controller('storage/api-keys')
+@UseGuards(ApiKeyGuard)
+@RequireScope(ApiKeyScope.ADMIN)
+@Throttle({ default: { limit: 20, ttl: 60000 } })
+export class ApiKeyController {
+  constructor(private readonly apiKeyService: ApiKeyService) {}
+
+  /**
+   * Crea una API key. El secreto solo se retorna en esta respuesta.
+   * @param dto - Nombre, permisos, restricciones y expiración
+   * @returns Key creada y su secreto
+   */
+  @Post()
+  @ApiOperation({ summary: 'Create a scoped API key' })
+  @ApiResponse({ status: 201, description: 'API key created (secret shown only once)' })
+  async createKey(@Body() dto: CreateApiKeyDto) {
+    const { apiKey, secret } = await this.apiKeyService.create(dto);
+    return {
+      success: true,
+      apiKey,
+      secret,
+    };
+  }
+
+  /**
+   * Lista las API keys (sin secretos).
+   * @returns Keys registradas, incluyendo las revocadas
+   */
+  @Get()
+  @ApiOperation({ summary: 'List API keys' })
+  @ApiResponse({ status: 200, description: 'API keys listed' })
+  async listKeys() {
+    return {
+      success: true,
+      data: await this.apiKeyService.list(),
+    };
+  }
+
+  /**
+   * Rota el secreto de una key conservando sus permisos.
+   * @param id - UUID de la key
+   * @returns Key actualizada y su nuevo secreto
+   * @throws NotFoundException si la key no existe o está revocada
+   */
+  @Post(':id/rotate')
+  @ApiOperation({ summary: 'Rotate the secret of an API key' })
+  @ApiResponse({ status: 201, description: 'Secret rotated (new secret shown only once)' })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async rotateKey(@Param('id', ParseUUIDPipe) id: string) {
+    const { apiKey, secret } = await this.apiKeyService.rotate(id);
+    return {
+      success: true,
+      apiKey,
+      secret,
+    };
+  }
+
+  /**
+   * Revoca una API key de forma inmediata.
+   * @param id - UUID de la key
+   * @returns Key revocada
+   * @throws NotFoundException si la key no existe
+   */
+  @Delete(':id')
+  @ApiOperation({ summary: 'Revoke an API key' })
+  @ApiResponse({ status: 200, description: 'API key revoked' })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async revokeKey(@Param('id', ParseUUIDPipe) id: string) {
+    return {
+      success: true,
+      apiKey: await this.apiKeyService.revoke(id),
+    };
+  }
+}
@@ -0,0 +1,151 @@
+import { ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { ApiKeyPrincipal, ApiKeyService, assertFileAccess, hasScope } from './api-key.service';
+import { ApiKey, ApiKeyScope } from './entities/api-key.entity';
+import { EntityType, FileCategory } from './entities/file-metadata.entity';
+
+// uuid solo se publica como ESM y Jest carga los módulos como CommonJS
+jest.mock('uuid', () => ({ v4: () => jest.requireActual<typeof import('crypto')>('crypto').randomUUID() }));
+
+/**
+ * Repositorio en memoria con las operaciones que usa ApiKeyService.
+ */
+function createFakeRepository() {
+  const rows = new Map<string, ApiKey>();
+  let sequence = 0;
+
+  const repository = {
+    create: (data: Partial<ApiKey>) => Object.assign(new ApiKey(), data),
+    save: (apiKey: ApiKey) => {
+      apiKey.id = apiKey.id || `key-${++sequence}`;
+      rows.set(apiKey.id, { ...apiKey } as ApiKey);
+      return Promise.resolve(apiKey);
+    },
+    findOne: ({ where }: { where: { id: string } }) => {
+      const row = rows.get(where.id);
+      return Promise.resolve(row ? Object.assign(new ApiKey(), row) : null);
+    },
+    update: (criteria: { id: string }, changes: Partial<ApiKey>) => {
+      Object.assign(rows.get(criteria.id)!, changes);
+      return Promise.resolve();
+    },
+    createQueryBuilder: () => {
+      let keyPrefix: string | undefined;
+      const builder = {
+        addSelect: () => builder,
+        where: (_sql: string, params: { keyPrefix: string }) => {
+          keyPrefix = params.keyPrefix;
+          return builder;
+        },
+        getOne: () =>
+          Promise.resolve([...rows.values()].find((row) => row.keyPrefix === keyPrefix) ?? null),
+      };
+      return builder;
+    },
+  };
+
+  return { rows, repository: repository as unknown as Repository<ApiKey> };
+}
+
+describe('ApiKeyService', () => {
+  let service: ApiKeyService;
+  let rows: Map<string, ApiKey>;
+
+  beforeEach(() => {
+    const fake = createFakeRepository();
+    rows = fake.rows;
+    service = new ApiKeyService(fake.repository, new ConfigService({ API_KEY_MAIN: 'main-env-key' }));
+  });
+
+  it('should authenticate environment keys as unrestricted admins', async () => {
+    const principal = await service.authenticate('main-env-key');
+
+    expect(principal).toMatchObject({ id: 'env:main', source: 'env', scopes: [ApiKeyScope.ADMIN] });
+    await expect(service.authenticate('main-env-key-x')).resolves.toBeNull();
+  });
+
+  it('should create keys whose secret is only stored hashed', async () => {
+    const { apiKey, secret } = await service.create({
+      name: 'portal',
+      scopes: [ApiKeyScope.UPLOAD, ApiKeyScope.READ],
+      allowedCategories: [FileCategory.DOCUMENT],
+    });
+
+    expect(secret.startsWith(`${apiKey.keyPrefix}_`)).toBe(true);
+    expect(apiKey).not.toHaveProperty('secretHash');
+    expect(rows.get(apiKey.id)!.secretHash).not.toContain(secret);
+
+    const principal = await service.authenticate(secret);
+    expect(principal).toMatchObject({
+      id: apiKey.id,
+      source: 'database',
+      scopes: [ApiKeyScope.UPLOAD, ApiKeyScope.READ],
+      allowedCategories: [FileCategory.DOCUMENT],
+      allowedEntityTypes: null,
+    });
+    expect(rows.get(apiKey.id)!.lastUsedAt).toBeInstanceOf(Date);
+  });
+
+  it('should reject revoked, expired and rotated-out secrets', async () => {
+    const revoked = await service.create({ name: 'revoked', scopes: [ApiKeyScope.READ] });
+    await service.revoke(revoked.apiKey.id);
+    await expect(service.authenticate(revoked.secret)).resolves.toBeNull();
+
+    const expired = await service.create({
+      name: 'expired',
+      scopes: [ApiKeyScope.READ],
+      expiresAt: '2020-01-01T00:00:00Z',
+    });
+    await expect(service.authenticate(expired.secret)).resolves.toBeNull();
+
+    const rotating = await service.create({ name: 'rotating', scopes: [ApiKeyScope.READ] });
+    const rotated = await service.rotate(rotating.apiKey.id);
+    await expect(service.authenticate(rotating.secret)).resolves.toBeNull();
+    await expect(service.authenticate(rotated.secret)).resolves.toMatchObject({ id: rotating.apiKey.id });
+  });
+
+  it('should reject well-formed keys with a wrong secret', async () => {
+    const { secret } = await service.create({ name: 'portal', scopes: [ApiKeyScope.READ] });
+    const forged = `${secret.slice(0, -1)}${secret.endsWith('0') ? '1' : '0'}`;
+
+    await expect(service.authenticate(forged)).resolves.toBeNull();
+  });
+});
+
+describe('API key permissions', () => {
+  const principal = (overrides: Partial<ApiKeyPrincipal>): ApiKeyPrincipal => ({
+    id: 'key-1',
+    name: 'test',
+    source: 'database',
+    scopes: [ApiKeyScope.READ],
+    allowedCategories: null,
+    allowedEntityTypes: null,
+    ...overrides,
+  });
+
+  it('should treat admin as having every scope', () => {
+    expect(hasScope(principal({ scopes: [ApiKeyScope.ADMIN] }), ApiKeyScope.DELETE)).toBe(true);
+    expect(hasScope(principal({ scopes: [ApiKeyScope.READ] }), ApiKeyScope.READ)).toBe(true);
+    expect(hasScope(principal({ scopes: [ApiKeyScope.READ] }), ApiKeyScope.UPLOAD)).toBe(false);
+  });
+
+  it('should enforce category and entity type restrictions', () => {
+    const restricted = principal({
+      allowedCategories: [FileCategory.FORM_FIELD],
+      allowedEntityTypes: [EntityType.APPLICATION],
+    });
+
+    expect(() =>
+      assertFileAccess(restricted, { category: FileCategory.FORM_FIELD, entityType: EntityType.APPLICATION }),
+    ).not.toThrow();
+    expect(() =>
+      assertFileAccess(restricted, { category: FileCategory.PROFILE, entityType: EntityType.APPLICATION }),
+    ).toThrow(ForbiddenException);
+    expect(() => assertFileAccess(restricted, { category: FileCategory.FORM_FIELD })).toThrow(ForbiddenException);
+  });
+
+  it('should allow requests authorized by signed URL', () => {
+    expect(() => assertFileAccess(undefined, { category: FileCategory.PROFILE })).not.toThrow();
+  });
+});
@@ -0,0 +1,275 @@
+import { Injectable, ForbiddenException, NotFoundException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import { ApiKey, ApiKeyScope } from './entities/api-key.entity';
+import { FileCategory, EntityType } from './entities/file-metadata.entity';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+
+/** Formato de las keys generadas: fcg_<prefijo 8 hex>_<secreto 48 hex> */
+const KEY_PATTERN = /^(fcg_[0-9a-f]{8})_[0-9a-f]{48}$/;
+
+/** Intervalo mínimo entre actualizaciones de lastUsedAt (evita una escritura por request) */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Identidad autenticada de una petición.
+ * Las keys de entorno (API_KEY_MAIN, API_KEY_SECONDARY) son administradoras sin restricciones.
+ */
+export interface ApiKeyPrincipal {
+  /** ID de la key en BD, o "env:main"/"env:secondary" */
+  id: string;
+  /** Nombre descriptivo de la key */
+  name: string;
+  /** Origen de la key */
+  source: 'env' | 'database';
+  /** Permisos otorgados */
+  scopes: ApiKeyScope[];
+  /** Categorías permitidas (null = todas) */
+  allowedCategories: FileCategory[] | null;
+  /** Tipos de entidad permitidos (null = todos) */
+  allowedEntityTypes: EntityType[] | null;
+}
+
+/**
+ * Indica si una identidad tiene un permiso (ADMIN incluye todos).
+ * @param principal - Identidad autenticada
+ * @param scope - Permiso requerido
+ */
+export function hasScope(principal: ApiKeyPrincipal, scope: ApiKeyScope): boolean {
+  return principal.scopes.includes(ApiKeyScope.ADMIN) || principal.scopes.includes(scope);
+}
+
+/**
+ * Verifica que una identidad pueda operar sobre archivos de una categoría/tipo de entidad.
+ * Las peticiones autorizadas por URL firmada no tienen identidad: la firma ya acota el archivo.
+ * @param principal - Identidad autenticada (undefined en peticiones con URL firmada)
+ * @param target - Categoría y tipo de entidad del archivo
+ * @throws ForbiddenException si la key no tiene acceso
+ */
+export function assertFileAccess(
+  principal: ApiKeyPrincipal | undefined,
+  target: { category?: FileCategory | null; entityType?: EntityType | null },
+): void {
+  if (!principal) {
+    return;
+  }
+
+  const { allowedCategories, allowedEntityTypes } = principal;
+  if (allowedCategories && !(target.category && allowedCategories.includes(target.category))) {
+    throw new ForbiddenException(`API key is not allowed to access category ${target.category ?? '(none)'}`);
+  }
+  if (allowedEntityTypes && !(target.entityType && allowedEntityTypes.includes(target.entityType))) {
+    throw new ForbiddenException(`API key is not allowed to access entity type ${target.entityType ?? '(none)'}`);
+  }
+}
+
+/**
+ * Servicio de API keys.
+ * Autentica keys de entorno y de BD, y gestiona el ciclo de vida de las keys de BD
+ * (creación, rotación y revocación).
+ * @class ApiKeyService
+ */
+@Injectable()
+export class ApiKeyService {
+  private readonly logger = new Logger(ApiKeyService.name);
+
+  constructor(
+    @InjectRepository(ApiKey)
+    private apiKeyRepository: Repository<ApiKey>,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Autentica una API key.
+   * @param rawKey - Valor del header X-API-Key
+   * @returns Identidad de la key o null si no es válida, está revocada o expiró
+   */
+  async authenticate(rawKey: string): Promise<ApiKeyPrincipal | null> {
+    const envPrincipal = this.authenticateEnvKey(rawKey);
+    if (envPrincipal) {
+      return envPrincipal;
+    }
+
+    const match = KEY_PATTERN.exec(rawKey);
+    if (!match) {
+      return null;
+    }
+
+    const apiKey = await this.apiKeyRepository
+      .createQueryBuilder('key')
+      .addSelect('key.secretHash')
+      .where('key.keyPrefix = :keyPrefix', { keyPrefix: match[1] })
+      .getOne();
+
+    if (!apiKey || !this.secureCompare(this.hashSecret(rawKey), apiKey.secretHash)) {
+      return null;
+    }
+    if (apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now())) {
+      return null;
+    }
+
+    if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      await this.apiKeyRepository.update({ id: apiKey.id }, { lastUsedAt: new Date() });
+    }
+
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      source: 'database',
+      scopes: apiKey.scopes,
+      allowedCategories: apiKey.allowedCategories?.length ? apiKey.allowedCategories : null,
+      allowedEntityTypes: apiKey.allowedEntityTypes?.length ? apiKey.allowedEntityTypes : null,
+    };
+  }
+
+  /**
+   * Crea una API key.
+   * @param dto - Nombre, permisos, restricciones y expiración
+   * @returns Key creada y su secreto (solo se muestra esta vez)
+   */
+  async create(dto: CreateApiKeyDto): Promise<{ apiKey: ApiKey; secret: string }> {
+    const { keyPrefix, secret } = this.generateSecret();
+
+    const apiKey = this.apiKeyRepository.create({
+      name: dto.name,
+      keyPrefix,
+      secretHash: this.hashSecret(secret),
+      scopes: [...new Set(dto.scopes)],
+      allowedCategories: dto.allowedCategories?.length ? dto.allowedCategories : null,
+      allowedEntityTypes: dto.allowedEntityTypes?.length ? dto.allowedEntityTypes : null,
+      expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : null,
+    });
+
+    const saved = await this.apiKeyRepository.save(apiKey);
+    this.logger.log(`🔑 API key created: ${saved.name} (${saved.keyPrefix}) scopes=${saved.scopes.join(',')}`);
+    return { apiKey: this.withoutSecret(saved), secret };
+  }
+
+  /**
+   * Lista las API keys (sin secretos).
+   */
+  async list(): Promise<ApiKey[]> {
+    return this.apiKeyRepository.find({ order: { createdAt: 'DESC' } });
+  }
+
+  /**
+   * Rota el secreto de una key conservando sus permisos. El secreto anterior deja de funcionar.
+   * @param id - UUID de la key
+   * @returns Key actualizada y su nuevo secreto
+   * @throws NotFoundException si la key no existe o está revocada
+   */
+  async rotate(id: string): Promise<{ apiKey: ApiKey; secret: string }> {
+    const apiKey = await this.apiKeyRepository.findOne({ where: { id } });
+    if (!apiKey || apiKey.revokedAt) {
+      throw new NotFoundException('API key not found');
+    }
+
+    const { keyPrefix, secret } = this.generateSecret();
+    apiKey.keyPrefix = keyPrefix;
+    apiKey.secretHash = this.hashSecret(secret);
+
+    const saved = await this.apiKeyRepository.save(apiKey);
+    this.logger.log(`🔄 API key rotated: ${saved.name} (${saved.keyPrefix})`);
+    return { apiKey: this.withoutSecret(saved), secret };
+  }
+
+  /**
+   * Revoca una key. La operación es idempotente.
+   * @param id - UUID de la key
+   * @returns Key revocada
+   * @throws NotFoundException si la key no existe
+   */
+  async revoke(id: string): Promise<ApiKey> {
+    const apiKey = await this.apiKeyRepository.findOne({ where: { id } });
+    if (!apiKey) {
+      throw new NotFoundException('API key not found');
+    }
+
+    if (!apiKey.revokedAt) {
+      apiKey.revokedAt = new Date();
+      await this.apiKeyRepository.save(apiKey);
+      this.logger.log(`⛔ API key revoked: ${apiKey.name} (${apiKey.keyPrefix})`);
+    }
+    return apiKey;
+  }
+
+  /**
+   * Autentica contra las keys de entorno (administradoras).
+   * @private
+   */
+  private authenticateEnvKey(rawKey: string): ApiKeyPrincipal | null {
+    const envKeys = [
+      { id: 'env:main', value: this.configService.get<string>('API_KEY_MAIN') },
+      { id: 'env:secondary', value: this.configService.get<string>('API_KEY_SECONDARY') },
+    ];
+
+    // Se comparan todas para que el tiempo no dependa de cuál coincide
+    const matched = envKeys.filter((key) => key.value && this.secureCompare(rawKey, key.value));
+    if (matched.length === 0) {
+      return null;
+    }
+
+    return {
+      id: matched[0].id,
+      name: matched[0].id,
+      source: 'env',
+      scopes: [ApiKeyScope.ADMIN],
+      allowedCategories: null,
+      allowedEntityTypes: null,
+    };
+  }
+
+  /**
+   * Genera un secreto nuevo con su prefijo público.
+   * @private
+   */
+  private generateSecret(): { keyPrefix: string; secret: string } {
+    const keyPrefix = `fcg_${crypto.randomBytes(4).toString('hex')}`;
+    return { keyPrefix, secret: `${keyPrefix}_${crypto.randomBytes(24).toString('hex')}` };
+  }
+
+  /**
+   * Hash del secreto. SHA-256 es suficiente: el secreto es aleatorio de 192 bits, no una contraseña.
+   * @private
+   */
+  private hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+
+  /**
+   * Copia de la key sin el hash del secreto (para respuestas).
+   * @private
+   */
+  private withoutSecret(apiKey: ApiKey): ApiKey {
+    const copy = Object.assign(new ApiKey(), apiKey);
+    delete (copy as Partial<ApiKey>).secretHash;
+    return copy;
+  }
+
+  /**
+   * Comparación constant-time para prevenir timing attacks.
+   * Siempre toma el mismo tiempo independientemente de dónde falle.
+   * @private
+   */
+  private secureCompare(provided: string, valid: string): boolean {
+    if (typeof provided !== 'string' || typeof valid !== 'string') {
+      return false;
+    }
+
+    // Padding para igualar longitudes (evita leak de longitud)
+    const maxLen = Math.max(provided.length, valid.length);
+    const paddedProvided = provided.padEnd(maxLen, '\0');
+    const paddedValid = valid.padEnd(maxLen, '\0');
+
+    try {
+      return crypto.timingSafeEqual(
+        Buffer.from(paddedProvided, 'utf8'),
+        Buffer.from(paddedValid, 'utf8')
+      ) && provided.length === valid.length;
+    } catch {
+      return false;
+    }
+  }
+}
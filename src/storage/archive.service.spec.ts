@@ -0,0 +1,138 @@
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PassThrough, Readable } from 'stream';
+import { inflateRawSync } from 'zlib';
+import { Repository } from 'typeorm';
+import { ArchiveService } from './archive.service';
+import { StorageService } from './storage.service';
+import { EntityType, FileCategory, FileMetadata } from './entities/file-metadata.entity';
+
+// uuid solo se publica como ESM y Jest carga los módulos como CommonJS
+jest.mock('uuid', () => ({ v4: () => jest.requireActual<typeof import('crypto')>('crypto').randomUUID() }));
+
+const ENTITY_ID = '6f1c2d3e-4a5b-4c6d-8e7f-8091a2b3c4d5';
+
+function storedFile(id: string, originalFilename: string, mimetype: string, category = FileCategory.DOCUMENT): FileMetadata {
+  return Object.assign(new FileMetadata(), {
+    id,
+    originalFilename,
+    mimetype,
+    category,
+    entityType: EntityType.APPLICATION,
+    entityId: ENTITY_ID,
+    uploadedAt: new Date('2025-01-02T03:04:05Z'),
+    active: true,
+  });
+}
+
+/**
+ * Lee las entradas de un ZIP a partir de su directorio central.
+ */
+function readZip(zip: Buffer): Map<string, string> {
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const entries = new Map<string, string>();
+  let offset = zip.readUInt32LE(end + 16);
+
+  for (let index = 0; index < zip.readUInt16LE(end + 10); index++) {
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const headerOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    const dataStart = headerOffset + 30 + zip.readUInt16LE(headerOffset + 26) + zip.readUInt16LE(headerOffset + 28);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+    entries.set(name, (method === 0 ? data : inflateRawSync(data)).toString());
+
+    offset += 46 + nameLength + zip.readUInt16LE(offset + 30) + zip.readUInt16LE(offset + 32);
+  }
+  return entries;
+}
+
+describe('ArchiveService', () => {
+  let files: FileMetadata[];
+  let service: ArchiveService;
+
+  beforeEach(() => {
+    files = [
+      storedFile('a', 'informe.pdf', 'application/pdf'),
+      storedFile('b', 'notas.txt', 'text/plain'),
+      storedFile('c', 'informe.pdf', 'application/pdf'),
+      storedFile('d', 'virus.pdf', 'application/pdf'),
+      storedFile('e', 'foto.png', 'image/png', FileCategory.PROFILE),
+    ];
+
+    const repository = {
+      find: ({ where }: { where: { entityType?: EntityType; category?: { value: FileCategory[] } } }) =>
+        Promise.resolve(
+          files.filter(
+            (file) =>
+              file.entityType === where.entityType && (!where.category || where.category.value.includes(file.category)),
+          ),
+        ),
+    };
+    const storage = {
+      openFile: (id: string) =>
+        id === 'd'
+          ? Promise.reject(new ForbiddenException('File is quarantined: a threat was detected'))
+          : Promise.resolve({ open: () => Promise.resolve(Readable.from([Buffer.from(`content of ${id}`)])) }),
+    };
+
+    service = new ArchiveService(
+      repository as unknown as Repository<FileMetadata>,
+      storage as unknown as StorageService,
+      new ConfigService({}),
+    );
+  });
+
+  async function archive(plan: Awaited<ReturnType<ArchiveService['prepare']>>): Promise<Map<string, string>> {
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on('data', (chunk: Buffer) => chunks.push(chunk));
+    await service.write(plan, output);
+    return readZip(Buffer.concat(chunks));
+  }
+
+  it('should stream every file of an entity with unique names and a manifest', async () => {
+    const plan = await service.prepare({ entityType: EntityType.APPLICATION, entityId: ENTITY_ID, includeManifest: true });
+    const entries = await archive(plan);
+
+    expect(plan.filename).toBe(`application-${ENTITY_ID}.zip`);
+    expect([...entries.keys()]).toEqual(['informe.pdf', 'notas.txt', 'informe (2).pdf', 'foto.png', 'manifest.json']);
+    expect(entries.get('informe (2).pdf')).toBe('content of c');
+    expect(entries.get('notas.txt')).toBe('content of b');
+
+    const manifest = JSON.parse(entries.get('manifest.json')!) as {
+      files: { id: string; archiveName: string }[];
+      skipped: { id: string; reason: string }[];
+    };
+    expect(manifest.files.map((file) => [file.id, file.archiveName])).toEqual([
+      ['a', 'informe.pdf'],
+      ['b', 'notas.txt'],
+      ['c', 'informe (2).pdf'],
+      ['e', 'foto.png'],
+    ]);
+    expect(manifest.skipped).toEqual([
+      { id: 'd', originalFilename: 'virus.pdf', reason: 'File is quarantined: a threat was detected' },
+    ]);
+  });
+
+  it('should limit entity archives to the categories allowed for the key', async () => {
+    const principal = { allowedCategories: [FileCategory.PROFILE], allowedEntityTypes: null };
+    const plan = await service.prepare(
+      { entityType: EntityType.APPLICATION, entityId: ENTITY_ID },
+      principal as unknown as Parameters<ArchiveService['prepare']>[1],
+    );
+
+    expect([...(await archive(plan)).keys()]).toEqual(['foto.png']);
+  });
+
+  it('should reject missing files and ambiguous selections before streaming', async () => {
+    files = [];
+    await expect(service.prepare({ entityType: EntityType.APPLICATION, entityId: ENTITY_ID })).rejects.toThrow(
+      NotFoundException,
+    );
+    await expect(service.prepare({ ids: ['a'], entityId: ENTITY_ID })).rejects.toThrow('Provide either ids');
+    await expect(service.prepare({ entityType: EntityType.APPLICATION })).rejects.toThrow('Provide either ids');
+  });
+});
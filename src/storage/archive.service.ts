@@ -0,0 +1,207 @@
+import { Injectable, BadRequestException, NotFoundException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In, Repository } from 'typeorm';
+import { once } from 'events';
+import { Readable, Writable, pipeline } from 'stream';
+import archiver from 'archiver';
+import { EntityType, FileMetadata } from './entities/file-metadata.entity';
+import { StorageService } from './storage.service';
+import { ArchiveFilesDto } from './dto/archive-files.dto';
+import { type ApiKeyPrincipal, assertFileAccess } from './api-key.service';
+import { createEntryNamer } from './utils/archive-names';
+
+/** Nombre del manifiesto dentro del ZIP */
+const MANIFEST_NAME = 'manifest.json';
+
+/** Máximo de archivos por ZIP por defecto */
+const DEFAULT_ARCHIVE_MAX_FILES = 500;
+
+/**
+ * Tipos que se comprimen; el resto (imágenes, PDF, documentos OOXML) ya está comprimido
+ * y se guarda sin comprimir para no gastar CPU.
+ */
+const COMPRESSIBLE_TYPES = [
+  'image/svg+xml',
+  'application/json',
+  'application/msword',
+  'application/vnd.ms-excel',
+  'application/vnd.ms-powerpoint',
+];
+
+/**
+ * Archivos seleccionados para un ZIP, resueltos antes de empezar a responder.
+ */
+export interface ArchivePlan {
+  /** Nombre sugerido del ZIP */
+  filename: string;
+  /** Archivos a incluir, en orden */
+  files: FileMetadata[];
+  /** Selección pedida (se copia al manifiesto) */
+  selector: { entityType: EntityType; entityId: string } | { ids: string[] };
+  /** Agregar manifest.json */
+  includeManifest: boolean;
+}
+
+/** Archivo que no pudo incluirse en el ZIP */
+interface SkippedFile {
+  id: string;
+  originalFilename: string;
+  reason: string;
+}
+
+/**
+ * Servicio de descarga de archivos en ZIP.
+ * Genera el ZIP por streaming: cada archivo se abre cuando le toca y se copia a la respuesta,
+ * sin cargar el contenido en memoria. Los archivos que no pueden servirse (cuarentena,
+ * análisis pendiente, objeto faltante) se omiten y quedan listados en el manifiesto.
+ * @class ArchiveService
+ */
+@Injectable()
+export class ArchiveService {
+  private readonly logger = new Logger(ArchiveService.name);
+  /** Máximo de archivos por ZIP */
+  private readonly maxFiles: number;
+
+  constructor(
+    @InjectRepository(FileMetadata)
+    private fileMetadataRepository: Repository<FileMetadata>,
+    private storageService: StorageService,
+    private configService: ConfigService,
+  ) {
+    this.maxFiles = parseInt(
+      this.configService.get<string>('ARCHIVE_MAX_FILES') || String(DEFAULT_ARCHIVE_MAX_FILES),
+      10,
+    );
+    if (!Number.isInteger(this.maxFiles) || this.maxFiles < 1) {
+      throw new Error('Invalid ARCHIVE_MAX_FILES: expected a positive integer');
+    }
+  }
+
+  /**
+   * Resuelve los archivos a incluir y verifica el acceso de la API key.
+   * De una entidad se incluyen solo los archivos de las categorías permitidas para la key.
+   * @param dto - entityType y entityId, o ids
+   * @param principal - API key que descarga (sin ella no se restringe el acceso)
+   * @returns Plan del ZIP
+   * @throws BadRequestException si la selección es ambigua o incompleta, o supera ARCHIVE_MAX_FILES
+   * @throws NotFoundException si algún ID no existe o la entidad no tiene archivos
+   * @throws ForbiddenException si la API key no tiene acceso a algún archivo
+   */
+  async prepare(dto: ArchiveFilesDto, principal?: ApiKeyPrincipal): Promise<ArchivePlan> {
+    const byEntity = dto.entityType !== undefined || dto.entityId !== undefined;
+    if (dto.ids ? byEntity : !(dto.entityType && dto.entityId)) {
+      throw new BadRequestException('Provide either ids, or both entityType and entityId');
+    }
+
+    let files: FileMetadata[];
+    let filename: string;
+    let selector: ArchivePlan['selector'];
+    if (dto.ids) {
+      const ids = [...new Set(dto.ids)];
+      const found = await this.fileMetadataRepository.find({ where: { id: In(ids), active: true } });
+      const byId = new Map(found.map((file) => [file.id, file]));
+      const missing = ids.filter((id) => !byId.has(id));
+      if (missing.length > 0) {
+        throw new NotFoundException(`Files not found: ${missing.join(', ')}`);
+      }
+
+      files = ids.map((id) => byId.get(id)!);
+      filename = `files-${new Date().toISOString().slice(0, 10)}.zip`;
+      selector = { ids };
+    } else {
+      const { entityType, entityId } = dto as Required<Pick<ArchiveFilesDto, 'entityType' | 'entityId'>>;
+      files = await this.fileMetadataRepository.find({
+        where: {
+          entityType,
+          entityId,
+          active: true,
+          ...(principal?.allowedCategories ? { category: In(principal.allowedCategories) } : {}),
+        },
+        order: { uploadedAt: 'ASC', id: 'ASC' },
+        take: this.maxFiles + 1,
+      });
+      if (files.length === 0) {
+        throw new NotFoundException('No files found for this entity');
+      }
+
+      filename = `${entityType.toLowerCase()}-${entityId}.zip`;
+      selector = { entityType, entityId };
+    }
+
+    if (files.length > this.maxFiles) {
+      throw new BadRequestException(`Archives are limited to ${this.maxFiles} files`);
+    }
+    files.forEach((file) => assertFileAccess(principal, file));
+
+    return { filename, files, selector, includeManifest: dto.includeManifest ?? false };
+  }
+
+  /**
+   * Escribe el ZIP en la salida por streaming. Nunca lanza: los errores ocurren con la respuesta
+   * ya iniciada, así que se registran en el log y se corta la salida (el cliente recibe un ZIP incompleto
+   * en lugar de uno que aparenta estar completo).
+   * @param plan - Archivos a incluir (ver prepare)
+   * @param output - Destino del ZIP (la respuesta HTTP)
+   */
+  async write(plan: ArchivePlan, output: Writable): Promise<void> {
+    const archive = archiver('zip', { zlib: { level: 6 } });
+    const aborted = new AbortController();
+    const finished = new Promise<void>((resolve) => {
+      pipeline(archive, output, (error) => {
+        if (error) {
+          aborted.abort(error);
+        }
+        resolve();
+      });
+    });
+
+    const nameFor = createEntryNamer(plan.includeManifest ? [MANIFEST_NAME] : []);
+    const included: (Omit<FileMetadata, 'generateId'> & { archiveName: string })[] = [];
+    const skipped: SkippedFile[] = [];
+    let current: Readable | null = null;
+
+    try {
+      for (const file of plan.files) {
+        try {
+          const source = await this.storageService.openFile(file.id);
+          current = await source.open();
+        } catch (error) {
+          skipped.push({ id: file.id, originalFilename: file.originalFilename, reason: (error as Error).message });
+          continue;
+        }
+
+        const archiveName = nameFor(file.originalFilename);
+        const entryAdded = once(archive, 'entry', { signal: aborted.signal });
+        archive.append(current, {
+          name: archiveName,
+          date: file.uploadedAt,
+          store: !(file.mimetype.startsWith('text/') || COMPRESSIBLE_TYPES.includes(file.mimetype)),
+        });
+        // Un archivo por vez: el siguiente se abre cuando el anterior terminó de copiarse
+        await entryAdded;
+        current = null;
+        included.push({ archiveName, ...file });
+      }
+
+      if (plan.includeManifest) {
+        const manifest = { generatedAt: new Date(), selector: plan.selector, files: included, skipped };
+        archive.append(JSON.stringify(manifest, null, 2), { name: MANIFEST_NAME });
+      }
+      // Si el cliente corta durante el cierre, finalize no termina: gana el fin del pipeline
+      await Promise.race([archive.finalize(), finished]);
+      aborted.signal.throwIfAborted();
+
+      this.logger.log(
+        `🗜️ Archive ${plan.filename}: ${included.length} files, ${skipped.length} skipped, ${archive.pointer()} bytes`,
+      );
+    } catch (error) {
+      this.logger.warn(`⚠️ Archive ${plan.filename} interrupted: ${(error as Error).message}`);
+      current?.destroy();
+      archive.abort();
+      output.destroy();
+    }
+
+    await finished;
+  }
+}
@@ -0,0 +1,70 @@
+import { Controller, Get, Query, Res, UseGuards, Logger } from '@nestjs/common';
+import type { Response } from 'express';
+import { Readable, pipeline } from 'stream';
+import { ApiTags, ApiOperation, ApiResponse, ApiSecurity, ApiProduces } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { AuditService } from './audit.service';
+import { ApiKeyGuard } from './guards/api-key.guard';
+import { RequireScope } from './decorators/require-scope.decorator';
+import { ApiKeyScope } from './entities/api-key.entity';
+import { QueryAuditEventsDto } from './dto/query-audit-events.dto';
+
+/**
+ * Controlador del registro de auditoría.
+ * Permite consultar y exportar a CSV quién accedió o modificó cada archivo.
+ * Requiere una key con permiso admin.
+ * @class AuditController
+ */
+@ApiTags('Audit')
+@ApiSecurity('api-key')
+@Controller('storage/audit')
+@UseGuards(ApiKeyGuard)
+@RequireScope(ApiKeyScope.ADMIN)
+@Throttle({ default: { limit: 20, ttl: 60000 } })
+export class AuditController {
+  private readonly logger = new Logger(AuditController.name);
+
+  constructor(private readonly auditService: AuditService) {}
+
+  /**
+   * Consulta eventos de auditoría filtrados por archivo, entidad, actor, acción y rango de fechas.
+   * @param filters - Filtros y paginación
+   * @returns Lista paginada de eventos con total
+   */
+  @Get()
+  @ApiOperation({ summary: 'Query audit events' })
+  @ApiResponse({ status: 200, description: 'Audit events listed' })
+  async queryEvents(@Query() filters: QueryAuditEventsDto) {
+    const result = await this.auditService.query(filters);
+    return {
+      success: true,
+      data: result.data,
+      total: result.total,
+      limit: filters.limit ?? 50,
+      offset: filters.offset ?? 0,
+    };
+  }
+
+  /**
+   * Exporta a CSV todos los eventos que cumplen los filtros (sin paginar).
+   * @param filters - Filtros (limit y offset se ignoran)
+   * @param res - Objeto Response de Express
+   */
+  @Get('export')
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: 'Export audit events as CSV' })
+  @ApiProduces('text/csv')
+  @ApiResponse({ status: 200, description: 'CSV export' })
+  exportEvents(@Query() filters: QueryAuditEventsDto, @Res() res: Response) {
+    const filename = `audit-${new Date().toISOString().replace(/[:.]/g, '-')}.csv`;
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('Cache-Control', 'no-store');
+
+    pipeline(Readable.from(this.auditService.exportCsv(filters)), res, (error) => {
+      if (error) {
+        this.logger.warn(`⚠️ Audit export interrupted: ${error.message}`);
+      }
+    });
+  }
+}
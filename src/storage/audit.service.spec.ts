@@ -0,0 +1,168 @@
+import { Repository } from 'typeorm';
+import { AuditService, type AuditEventInput } from './audit.service';
+import { AuditAction, AuditEvent, AuditOutcome } from './entities/audit-event.entity';
+import { EntityType, FileMetadata } from './entities/file-metadata.entity';
+
+// uuid solo se publica como ESM y Jest carga los módulos como CommonJS
+jest.mock('uuid', () => ({ v4: () => jest.requireActual<typeof import('crypto')>('crypto').randomUUID() }));
+
+const FILE_ID = '7a6b5c4d-3e2f-4a1b-9c8d-7e6f5a4b3c2d';
+const ENTITY_ID = '1b2c3d4e-5f60-4718-92a3-b4c5d6e7f809';
+
+function eventInput(overrides: Partial<AuditEventInput> = {}): AuditEventInput {
+  return {
+    action: AuditAction.DOWNLOAD,
+    outcome: AuditOutcome.SUCCESS,
+    statusCode: 200,
+    errorMessage: null,
+    actorKeyId: 'key-1',
+    actorKeyName: 'backoffice',
+    viaSignedUrl: false,
+    ipAddress: '10.0.0.1',
+    userAgent: 'jest',
+    fileId: FILE_ID,
+    entityType: null,
+    entityId: null,
+    ...overrides,
+  };
+}
+
+describe('AuditService', () => {
+  let saved: AuditEvent[];
+  let failSave: boolean;
+  let conditions: string[];
+  let parameters: Record<string, unknown>;
+  let page: { take?: number; skip?: number };
+  let service: AuditService;
+
+  beforeEach(() => {
+    saved = [];
+    failSave = false;
+    conditions = [];
+    parameters = {};
+    page = {};
+
+    const eventRepository = {
+      create: (input: AuditEventInput) => Object.assign(new AuditEvent(), input),
+      save: (event: AuditEvent) => {
+        if (failSave) {
+          return Promise.reject(new Error('Connection terminated'));
+        }
+        saved.push(event);
+        return Promise.resolve(event);
+      },
+      createQueryBuilder: () => {
+        const builder = {
+          andWhere: (condition: string, params: Record<string, unknown>) => {
+            conditions.push(condition);
+            Object.assign(parameters, params);
+            return builder;
+          },
+          orderBy: () => builder,
+          addOrderBy: () => builder,
+          take: (take: number) => {
+            page.take = take;
+            return builder;
+          },
+          skip: (skip: number) => {
+            page.skip = skip;
+            return builder;
+          },
+          getManyAndCount: () => Promise.resolve([saved, saved.length]),
+          getMany: () => Promise.resolve(saved),
+        };
+        return builder;
+      },
+    };
+    const fileRepository = {
+      findOne: ({ where }: { where: { id: string } }) =>
+        Promise.resolve(
+          where.id === FILE_ID ? { id: FILE_ID, entityType: EntityType.APPLICATION, entityId: ENTITY_ID } : null,
+        ),
+    };
+
+    service = new AuditService(
+      eventRepository as unknown as Repository<AuditEvent>,
+      fileRepository as unknown as Repository<FileMetadata>,
+    );
+  });
+
+  it('should record events with the entity that owns the file', async () => {
+    await service.record(eventInput());
+    await service.record(eventInput({ fileId: null, action: AuditAction.ARCHIVE }));
+    await service.record(eventInput({ entityType: EntityType.USER, entityId: 'user-9' }));
+
+    expect(saved).toHaveLength(3);
+    expect(saved[0]).toMatchObject({
+      action: AuditAction.DOWNLOAD,
+      entityType: EntityType.APPLICATION,
+      entityId: ENTITY_ID,
+    });
+    expect(saved[1]).toMatchObject({ action: AuditAction.ARCHIVE, fileId: null, entityType: null });
+    expect(saved[2]).toMatchObject({ entityType: EntityType.USER, entityId: 'user-9' });
+  });
+
+  it('should not throw when an event cannot be recorded', async () => {
+    failSave = true;
+
+    const event = eventInput({ outcome: AuditOutcome.FAILURE, statusCode: 404 });
+    await expect(service.record(event)).resolves.toBeUndefined();
+    expect(saved).toHaveLength(0);
+  });
+
+  it('should apply every filter and paginate the query', async () => {
+    await service.record(eventInput());
+
+    const result = await service.query({
+      fileId: FILE_ID,
+      entityType: EntityType.APPLICATION,
+      entityId: ENTITY_ID,
+      actorKeyId: 'key-1',
+      action: AuditAction.DOWNLOAD,
+      outcome: AuditOutcome.SUCCESS,
+      from: '2026-01-01T00:00:00Z',
+      to: '2026-02-01T00:00:00Z',
+      limit: 10,
+      offset: 20,
+    });
+
+    expect(result.total).toBe(1);
+    expect(conditions).toEqual([
+      'event.fileId = :fileId',
+      'event.entityType = :entityType',
+      'event.entityId = :entityId',
+      'event.actorKeyId = :actorKeyId',
+      'event.action = :action',
+      'event.outcome = :outcome',
+      'event.createdAt >= :from',
+      'event.createdAt < :to',
+    ]);
+    expect(parameters).toMatchObject({
+      fileId: FILE_ID,
+      action: AuditAction.DOWNLOAD,
+      from: new Date('2026-01-01T00:00:00Z'),
+      to: new Date('2026-02-01T00:00:00Z'),
+    });
+    expect(page).toEqual({ take: 10, skip: 20 });
+
+    await service.query({});
+    expect(conditions).toHaveLength(8);
+    expect(page).toEqual({ take: 50, skip: 0 });
+  });
+
+  it('should export the filtered events as CSV starting with the header', async () => {
+    await service.record(eventInput({ userAgent: '=HYPERLINK("x")' }));
+    saved[0].createdAt = new Date('2026-01-15T10:00:00Z');
+
+    const rows: string[] = [];
+    for await (const row of service.exportCsv({ outcome: AuditOutcome.SUCCESS })) {
+      rows.push(row);
+    }
+
+    expect(conditions).toEqual(['event.outcome = :outcome']);
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatch(/^createdAt,action,outcome,statusCode,fileId,/);
+    expect(rows[1]).toContain(`2026-01-15T10:00:00.000Z,download,success,200,${FILE_ID},APPLICATION,${ENTITY_ID},`);
+    expect(rows[1]).toContain(`"'=HYPERLINK(""x"")"`);
+  });
+});
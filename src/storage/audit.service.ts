@@ -0,0 +1,163 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import { AuditEvent } from './entities/audit-event.entity';
+import { FileMetadata } from './entities/file-metadata.entity';
+import { QueryAuditEventsDto } from './dto/query-audit-events.dto';
+import { toCsvRow } from './utils/csv';
+
+/** Datos de un evento a registrar (id y fecha los asigna la BD) */
+export type AuditEventInput = Omit<AuditEvent, 'id' | 'createdAt' | 'generateId'>;
+
+/** Filas leídas por lote al exportar */
+const EXPORT_BATCH_SIZE = 1000;
+
+/** Columnas de la exportación CSV, en orden */
+const CSV_COLUMNS: (keyof AuditEvent)[] = [
+  'createdAt',
+  'action',
+  'outcome',
+  'statusCode',
+  'fileId',
+  'entityType',
+  'entityId',
+  'actorKeyId',
+  'actorKeyName',
+  'viaSignedUrl',
+  'ipAddress',
+  'userAgent',
+  'errorMessage',
+  'id',
+];
+
+/**
+ * Servicio del registro de auditoría.
+ * Registra los accesos y modificaciones de archivos y permite consultarlos y exportarlos.
+ * @class AuditService
+ */
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(
+    @InjectRepository(AuditEvent)
+    private auditEventRepository: Repository<AuditEvent>,
+    @InjectRepository(FileMetadata)
+    private fileMetadataRepository: Repository<FileMetadata>,
+  ) {}
+
+  /**
+   * Registra un evento. Si no trae la entidad dueña del archivo, la obtiene de sus metadatos
+   * (incluye archivos eliminados) para poder filtrar por entidad.
+   * Nunca lanza: un fallo de auditoría se registra en el log sin afectar la petición.
+   * @param input - Datos del evento
+   */
+  async record(input: AuditEventInput): Promise<void> {
+    try {
+      const event = this.auditEventRepository.create(input);
+
+      if (event.fileId && !event.entityType) {
+        const metadata = await this.fileMetadataRepository.findOne({
+          where: { id: event.fileId },
+          select: { id: true, entityType: true, entityId: true },
+        });
+        event.entityType = metadata?.entityType ?? null;
+        event.entityId = metadata?.entityId ?? null;
+      }
+
+      await this.auditEventRepository.save(event);
+    } catch (error) {
+      this.logger.error(
+        `❌ Failed to record audit event ${input.action} (${input.outcome}) for file ${input.fileId ?? '-'}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Consulta eventos con filtros y paginación, del más reciente al más antiguo.
+   * @param filters - Filtros, limit y offset
+   * @returns Página de eventos con total
+   */
+  async query(filters: QueryAuditEventsDto): Promise<{ data: AuditEvent[]; total: number }> {
+    const [data, total] = await this.buildQuery(filters)
+      .take(filters.limit ?? 50)
+      .skip(filters.offset ?? 0)
+      .getManyAndCount();
+
+    return { data, total };
+  }
+
+  /**
+   * Genera la exportación CSV de los eventos filtrados (sin paginar), del más reciente al más antiguo.
+   * Lee la BD por lotes con paginación por clave para no cargar todo el resultado en memoria.
+   * @param filters - Filtros (limit y offset se ignoran)
+   * @returns Filas CSV, empezando por la cabecera
+   */
+  async *exportCsv(filters: QueryAuditEventsDto): AsyncGenerator<string> {
+    yield toCsvRow(CSV_COLUMNS);
+
+    let cursor: { createdAt: Date; id: string } | null = null;
+    for (;;) {
+      const query = this.buildQuery(filters);
+      if (cursor) {
+        query.andWhere('(event.createdAt, event.id) < (:cursorCreatedAt, :cursorId)', {
+          cursorCreatedAt: cursor.createdAt,
+          cursorId: cursor.id,
+        });
+      }
+
+      const batch = await query.take(EXPORT_BATCH_SIZE).getMany();
+      for (const event of batch) {
+        yield toCsvRow(CSV_COLUMNS.map((column) => event[column]));
+      }
+
+      if (batch.length < EXPORT_BATCH_SIZE) {
+        return;
+      }
+      const last = batch[batch.length - 1];
+      cursor = { createdAt: last.createdAt, id: last.id };
+    }
+  }
+
+  /**
+   * Construye la consulta filtrada y ordenada.
+   * @private
+   */
+  private buildQuery(filters: QueryAuditEventsDto): SelectQueryBuilder<AuditEvent> {
+    const query = this.auditEventRepository.createQueryBuilder('event');
+
+    if (filters.fileId) {
+      query.andWhere('event.fileId = :fileId', { fileId: filters.fileId });
+    }
+
+    if (filters.entityType) {
+      query.andWhere('event.entityType = :entityType', { entityType: filters.entityType });
+    }
+
+    if (filters.entityId) {
+      query.andWhere('event.entityId = :entityId', { entityId: filters.entityId });
+    }
+
+    if (filters.actorKeyId) {
+      query.andWhere('event.actorKeyId = :actorKeyId', { actorKeyId: filters.actorKeyId });
+    }
+
+    if (filters.action) {
+      query.andWhere('event.action = :action', { action: filters.action });
+    }
+
+    if (filters.outcome) {
+      query.andWhere('event.outcome = :outcome', { outcome: filters.outcome });
+    }
+
+    if (filters.from) {
+      query.andWhere('event.createdAt >= :from', { from: new Date(filters.from) });
+    }
+
+    if (filters.to) {
+      query.andWhere('event.createdAt < :to', { to: new Date(filters.to) });
+    }
+
+    return query.orderBy('event.createdAt', 'DESC').addOrderBy('event.id', 'DESC');
+  }
+}
@@ -0,0 +1,123 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Repository } from 'typeorm';
+import { BlobService, computeChecksum } from './blob.service';
+import { StorageDriverRegistry } from './drivers/storage-driver.registry';
+import { StoredBlob } from './entities/stored-blob.entity';
+
+/**
+ * Tabla en memoria de blobs con las operaciones de Repository/EntityManager que usa BlobService.
+ */
+function createBlobTable() {
+  const rows = new Map<string, StoredBlob>();
+  const copy = (blob: StoredBlob) => Object.assign(new StoredBlob(), blob);
+  const adjust = (checksum: string, delta: number) => {
+    const blob = rows.get(checksum);
+    if (blob) {
+      blob.refCount += delta;
+    }
+    return Promise.resolve({ affected: blob ? 1 : 0 });
+  };
+
+  const manager = {
+    findOne: (_entity: unknown, { where }: { where: { checksum: string } }) => {
+      const blob = rows.get(where.checksum);
+      return Promise.resolve(blob ? copy(blob) : null);
+    },
+    create: (_entity: unknown, data: Partial<StoredBlob>) => Object.assign(new StoredBlob(), data),
+    save: (blob: StoredBlob) => {
+      rows.set(blob.checksum, copy(blob));
+      return Promise.resolve(blob);
+    },
+    decrement: (_entity: unknown, { checksum }: { checksum: string }) => adjust(checksum, -1),
+    delete: (_entity: unknown, { checksum }: { checksum: string }) => Promise.resolve(rows.delete(checksum)),
+  };
+
+  return {
+    rows,
+    repository: {
+      manager: { transaction: <R>(work: (m: typeof manager) => Promise<R>) => work(manager) },
+      increment: ({ checksum }: { checksum: string }) => adjust(checksum, 1),
+      findOne: ({ where }: { where: { checksum: string } }) => manager.findOne(StoredBlob, { where }),
+      update: ({ checksum }: { checksum: string }, changes: Partial<StoredBlob>) => {
+        Object.assign(rows.get(checksum) ?? {}, changes);
+        return Promise.resolve({ affected: rows.has(checksum) ? 1 : 0 });
+      },
+    },
+  };
+}
+
+describe('BlobService', () => {
+  let uploadPath: string;
+  let table: ReturnType<typeof createBlobTable>;
+  let service: BlobService;
+
+  beforeEach(async () => {
+    uploadPath = await fs.mkdtemp(path.join(os.tmpdir(), 'fcg-blobs-'));
+    table = createBlobTable();
+    service = new BlobService(
+      table.repository as unknown as Repository<StoredBlob>,
+      new StorageDriverRegistry(new ConfigService({ UPLOAD_PATH: uploadPath })),
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(uploadPath, { recursive: true, force: true });
+  });
+
+  const exists = (key: string) =>
+    fs.access(path.join(uploadPath, key)).then(
+      () => true,
+      () => false,
+    );
+
+  it('should store identical content once and reference it on duplicate uploads', async () => {
+    const content = Buffer.from('same bytes');
+    const first = await service.acquire(content, 'text/plain');
+    const second = await service.acquire(Buffer.from('same bytes'), 'text/plain');
+    const other = await service.acquire(Buffer.from('other bytes'), 'text/plain');
+
+    const checksum = computeChecksum(content);
+    expect(first).toMatchObject({ created: true, blob: { checksum, refCount: 1 } });
+    expect(first.blob.path).toBe(`blobs/${checksum.slice(0, 2)}/${checksum.slice(2, 4)}/${checksum}`);
+    expect(second).toMatchObject({ created: false, blob: { checksum, path: first.blob.path, refCount: 2 } });
+    expect(other.created).toBe(true);
+    expect(await fs.readFile(path.join(uploadPath, first.blob.path), 'utf8')).toBe('same bytes');
+    expect(table.rows.size).toBe(2);
+  });
+
+  it('should count references and delete the object only when the last one is released', async () => {
+    const { blob } = await service.acquire(Buffer.from('shared'));
+    await service.acquire(Buffer.from('shared'));
+    await expect(service.retain(blob.checksum)).resolves.toBe(true);
+    await expect(service.retain(computeChecksum(Buffer.from('unknown')))).resolves.toBe(false);
+    expect(table.rows.get(blob.checksum)?.refCount).toBe(3);
+
+    await fs.mkdir(path.join(uploadPath, 'thumbnails'));
+    await fs.writeFile(path.join(uploadPath, 'thumbnails', 'thumb.jpg'), 'thumbnail');
+    await service.setThumbnail(blob.checksum, 'thumbnails/thumb.jpg');
+
+    await expect(service.release(blob.checksum)).resolves.toBe(false);
+    await expect(service.release(blob.checksum)).resolves.toBe(false);
+    expect(table.rows.get(blob.checksum)?.refCount).toBe(1);
+    expect(await exists(blob.path)).toBe(true);
+
+    await expect(service.release(blob.checksum)).resolves.toBe(true);
+    expect(table.rows.has(blob.checksum)).toBe(false);
+    expect(await exists(blob.path)).toBe(false);
+    expect(await exists('thumbnails/thumb.jpg')).toBe(false);
+    await expect(service.release(blob.checksum)).resolves.toBe(false);
+  });
+
+  it('should re-upload the object of a referenced blob missing from storage', async () => {
+    const { blob } = await service.acquire(Buffer.from('lost'));
+    await fs.rm(path.join(uploadPath, blob.path));
+
+    const again = await service.acquire(Buffer.from('lost'));
+
+    expect(again).toMatchObject({ created: false, blob: { refCount: 2 } });
+    expect(await fs.readFile(path.join(uploadPath, blob.path), 'utf8')).toBe('lost');
+  });
+});
@@ -0,0 +1,177 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { QueryFailedError, Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { StoredBlob } from './entities/stored-blob.entity';
+import { StorageDriverRegistry } from './drivers/storage-driver.registry';
+import { StorageDriver } from './drivers/storage-driver.interface';
+
+/** Código de error de Postgres para violación de unicidad */
+const PG_UNIQUE_VIOLATION = '23505';
+
+/**
+ * Calcula el hash SHA-256 de un contenido.
+ * @param buffer - Contenido del archivo
+ * @returns Hash en hexadecimal (64 caracteres)
+ */
+export function computeChecksum(buffer: Buffer): string {
+  return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * Servicio de blobs direccionados por contenido.
+ * Garantiza que bytes idénticos se almacenen una sola vez y lleva el conteo de referencias
+ * para eliminar el objeto físico solo cuando ningún archivo lo usa.
+ * @class BlobService
+ */
+@Injectable()
+export class BlobService {
+  private readonly logger = new Logger(BlobService.name);
+
+  constructor(
+    @InjectRepository(StoredBlob)
+    private blobRepository: Repository<StoredBlob>,
+    private storageDrivers: StorageDriverRegistry,
+  ) {}
+
+  /**
+   * Obtiene una referencia al blob del contenido, almacenándolo si es nuevo.
+   * Si el contenido ya existe solo incrementa refCount (deduplicación).
+   * @param buffer - Contenido del archivo
+   * @param contentType - Tipo MIME (para backends que lo guardan)
+   * @returns Blob referenciado e indicador de si se creó en esta llamada
+   */
+  async acquire(buffer: Buffer, contentType?: string): Promise<{ blob: StoredBlob; created: boolean }> {
+    const checksum = computeChecksum(buffer);
+
+    try {
+      return await this.acquireOnce(checksum, buffer, contentType);
+    } catch (error) {
+      // Otra subida concurrente insertó el mismo contenido: reintentar como referencia
+      if (error instanceof QueryFailedError && (error.driverError as { code?: string })?.code === PG_UNIQUE_VIOLATION) {
+        return this.acquireOnce(checksum, buffer, contentType);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Agrega una referencia a un blob existente (ej: restaurar una versión que lo usa).
+   * @param checksum - Hash del blob
+   * @returns false si el blob no existe
+   */
+  async retain(checksum: string): Promise<boolean> {
+    const result = await this.blobRepository.increment({ checksum }, 'refCount', 1);
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * Libera una referencia al blob. Al llegar a cero se eliminan el objeto,
+   * su miniatura y el registro.
+   * @param checksum - Hash del blob
+   * @returns true si el blob fue eliminado físicamente
+   */
+  async release(checksum: string): Promise<boolean> {
+    return this.blobRepository.manager.transaction(async (manager) => {
+      const blob = await manager.findOne(StoredBlob, {
+        where: { checksum },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!blob) {
+        return false;
+      }
+
+      if (blob.refCount > 1) {
+        await manager.decrement(StoredBlob, { checksum }, 'refCount', 1);
+        return false;
+      }
+
+      // Se elimina el objeto antes de liberar el lock para que una subida concurrente
+      // del mismo contenido no encuentre un registro apuntando a un objeto borrado
+      const driver = this.getDriverFor(blob);
+      await driver.delete(blob.path);
+      if (blob.thumbnailPath) {
+        await driver.delete(blob.thumbnailPath);
+      }
+      await manager.delete(StoredBlob, { checksum });
+      this.logger.log(`🗑️ Blob ${checksum} removed (no references left)`);
+      return true;
+    });
+  }
+
+  /**
+   * Busca un blob por su hash.
+   * @param checksum - Hash del blob
+   */
+  async findByChecksum(checksum: string): Promise<StoredBlob | null> {
+    return this.blobRepository.findOne({ where: { checksum } });
+  }
+
+  /**
+   * Registra la miniatura generada para un blob.
+   * @param checksum - Hash del blob
+   * @param thumbnailPath - Clave de la miniatura en el mismo driver del blob
+   */
+  async setThumbnail(checksum: string, thumbnailPath: string): Promise<void> {
+    await this.blobRepository.update({ checksum }, { thumbnailPath });
+  }
+
+  /**
+   * Obtiene el driver que almacena un blob.
+   * @param blob - Blob almacenado
+   */
+  getDriverFor(blob: StoredBlob): StorageDriver {
+    return this.storageDrivers.resolve(blob.storageDriver, blob.storageBucket);
+  }
+
+  /**
+   * Intenta referenciar o crear el blob dentro de una transacción con lock de fila.
+   * @private
+   */
+  private async acquireOnce(
+    checksum: string,
+    buffer: Buffer,
+    contentType?: string,
+  ): Promise<{ blob: StoredBlob; created: boolean }> {
+    return this.blobRepository.manager.transaction(async (manager) => {
+      const existing = await manager.findOne(StoredBlob, {
+        where: { checksum },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      if (existing) {
+        const driver = this.getDriverFor(existing);
+        // Reparar blobs cuyo objeto se perdió en el backend
+        if (!(await driver.exists(existing.path))) {
+          this.logger.warn(`⚠️ Blob ${checksum} missing in storage, re-uploading`);
+          await driver.put(existing.path, buffer, { contentType });
+        }
+        existing.refCount += 1;
+        return { blob: await manager.save(existing), created: false };
+      }
+
+      const driver = this.storageDrivers.getDefault();
+      const key = this.blobKey(checksum);
+      await driver.put(key, buffer, { contentType });
+
+      const blob = manager.create(StoredBlob, {
+        checksum,
+        path: key,
+        storageDriver: driver.name,
+        storageBucket: driver.bucket ?? undefined,
+        size: buffer.length,
+        refCount: 1,
+      });
+      return { blob: await manager.save(blob), created: true };
+    });
+  }
+
+  /**
+   * Clave del objeto para un contenido: blobs/ab/cd/abcd... (reparte en subdirectorios).
+   * @private
+   */
+  private blobKey(checksum: string): string {
+    return path.posix.join('blobs', checksum.substring(0, 2), checksum.substring(2, 4), checksum);
+  }
+}
@@ -0,0 +1,12 @@
+import { SetMetadata } from '@nestjs/common';
+import { SignedUrlAction } from '../signed-url.service';
+
+/** Clave de metadata con la acción firmable de un endpoint */
+export const SIGNED_URL_ACTION_KEY = 'signedUrlAction';
+
+/**
+ * Permite acceder a un endpoint con una URL firmada en lugar de la API key.
+ * El endpoint debe recibir el ID del archivo en el parámetro de ruta `id`.
+ * @param action - Acción que debe coincidir con la firmada en la URL
+ */
+export const AllowSignedUrl = (action: SignedUrlAction) => SetMetadata(SIGNED_URL_ACTION_KEY, action);
@@ -0,0 +1,13 @@
+import { SetMetadata } from '@nestjs/common';
+import { AuditAction } from '../entities/audit-event.entity';
+
+/** Clave de metadata con la acción auditada de un endpoint */
+export const AUDIT_ACTION_KEY = 'auditAction';
+
+/**
+ * Registra cada llamada al endpoint en el log de auditoría (requiere AuditInterceptor).
+ * El archivo afectado se toma del `file.id` de la respuesta, del campo `fileId` del body
+ * o del parámetro de ruta `id`.
+ * @param action - Acción a registrar
+ */
+export const Audited = (action: AuditAction) => SetMetadata(AUDIT_ACTION_KEY, action);
@@ -0,0 +1,19 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import type { Request } from 'express';
+import type { ApiKeyPrincipal } from '../api-key.service';
+
+/**
+ * Request autenticado por ApiKeyGuard.
+ * apiKey no existe cuando la petición se autorizó con una URL firmada.
+ */
+export interface AuthenticatedRequest extends Request {
+  apiKey?: ApiKeyPrincipal;
+}
+
+/**
+ * Inyecta la identidad de la API key que autenticó la petición.
+ */
+export const CurrentApiKey = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): ApiKeyPrincipal | undefined =>
+    context.switchToHttp().getRequest<AuthenticatedRequest>().apiKey,
+);
@@ -0,0 +1,12 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiKeyScope } from '../entities/api-key.entity';
+
+/** Clave de metadata con el permiso requerido por un endpoint */
+export const REQUIRED_SCOPE_KEY = 'requiredScope';
+
+/**
+ * Declara el permiso de API key que requiere un endpoint (o todo un controlador).
+ * Los endpoints sin este decorador requieren permiso admin.
+ * @param scope - Permiso requerido
+ */
+export const RequireScope = (scope: ApiKeyScope) => SetMetadata(REQUIRED_SCOPE_KEY, scope);
@@ -0,0 +1,130 @@
+import * as fs from 'fs/promises';
+import { createReadStream, Dirent } from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import {
+  ByteRange,
+  StorageDriver,
+  StorageDriverName,
+  StorageObjectNotFoundError,
+  StorageObjectStat,
+} from './storage-driver.interface';
+
+/**
+ * Driver de almacenamiento sobre el sistema de archivos local.
+ * Es el comportamiento histórico del servicio: los objetos se guardan bajo UPLOAD_PATH
+ * usando la clave como ruta relativa. Los subdirectorios se crean bajo demanda.
+ * @class LocalStorageDriver
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = StorageDriverName.LOCAL;
+  readonly bucket = null;
+  /** Ruta absoluta del directorio raíz */
+  private readonly root: string;
+
+  constructor(rootPath: string) {
+    this.root = path.resolve(rootPath);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const fullPath = this.resolveKey(key);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolveKey(key));
+    } catch (error) {
+      throw this.translateError(error as NodeJS.ErrnoException, key);
+    }
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<Readable> {
+    const fullPath = this.resolveKey(key);
+    try {
+      await fs.access(fullPath);
+    } catch (error) {
+      throw this.translateError(error as NodeJS.ErrnoException, key);
+    }
+    return createReadStream(fullPath, range);
+  }
+
+  async stat(key: string): Promise<StorageObjectStat> {
+    try {
+      const stats = await fs.stat(this.resolveKey(key));
+      return { size: stats.size, lastModified: stats.mtime };
+    } catch (error) {
+      throw this.translateError(error as NodeJS.ErrnoException, key);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolveKey(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolveKey(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async *list(prefix: string): AsyncIterable<string> {
+    const start = this.resolveKey(prefix);
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(start, { withFileTypes: true });
+    } catch (error) {
+      if (
+        (error as NodeJS.ErrnoException).code === 'ENOENT' ||
+        (error as NodeJS.ErrnoException).code === 'ENOTDIR'
+      ) {
+        return;
+      }
+      throw error;
+    }
+
+    for (const entry of entries) {
+      const key = path.posix.join(prefix, entry.name);
+      if (entry.isDirectory()) {
+        yield* this.list(key);
+      } else if (entry.isFile()) {
+        yield key;
+      }
+    }
+  }
+
+  /**
+   * Convierte una clave en ruta absoluta, impidiendo salir del directorio raíz.
+   * @param key - Clave relativa del objeto
+   * @returns Ruta absoluta en disco
+   * @private
+   */
+  private resolveKey(key: string): string {
+    const fullPath = path.resolve(this.root, key);
+    if (fullPath !== this.root && !fullPath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return fullPath;
+  }
+
+  /**
+   * Traduce errores ENOENT a StorageObjectNotFoundError.
+   * @private
+   */
+  private translateError(error: NodeJS.ErrnoException, key: string): Error {
+    if (error.code === 'ENOENT') {
+      return new StorageObjectNotFoundError(key);
+    }
+    return error;
+  }
+}
@@ -0,0 +1,199 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  ListObjectsV2CommandOutput,
+  S3ServiceException,
+} from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
+import {
+  ByteRange,
+  PutObjectOptions,
+  StorageDriver,
+  StorageDriverName,
+  StorageObjectNotFoundError,
+  StorageObjectStat,
+} from './storage-driver.interface';
+
+/**
+ * Configuración de conexión para el driver S3.
+ */
+export interface S3StorageDriverOptions {
+  /** Bucket destino */
+  bucket: string;
+  /** Región (MinIO acepta cualquier valor, ej: us-east-1) */
+  region: string;
+  /** Endpoint personalizado para servicios compatibles (MinIO, R2, etc.) */
+  endpoint?: string;
+  /** Usar rutas estilo path (http://host/bucket/key), requerido por MinIO */
+  forcePathStyle?: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  /** Prefijo opcional para todas las claves dentro del bucket */
+  prefix?: string;
+}
+
+/**
+ * Driver de almacenamiento para servicios compatibles con S3.
+ * Funciona con AWS S3 y con alternativas self-hosted como MinIO.
+ * @class S3StorageDriver
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = StorageDriverName.S3;
+  readonly bucket: string;
+  private readonly client: S3Client;
+  private readonly prefix: string;
+
+  constructor(options: S3StorageDriverOptions, client?: S3Client) {
+    this.bucket = options.bucket;
+    this.prefix = options.prefix
+      ? options.prefix.replace(/\/+$/, '') + '/'
+      : '';
+    this.client =
+      client ??
+      new S3Client({
+        region: options.region,
+        endpoint: options.endpoint,
+        forcePathStyle: options.forcePathStyle,
+        credentials:
+          options.accessKeyId && options.secretAccessKey
+            ? {
+                accessKeyId: options.accessKeyId,
+                secretAccessKey: options.secretAccessKey,
+              }
+            : undefined,
+      });
+  }
+
+  async put(
+    key: string,
+    data: Buffer,
+    options?: PutObjectOptions,
+  ): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.objectKey(key),
+        Body: data,
+        ContentType: options?.contentType,
+      }),
+    );
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const body = await this.stream(key);
+    const chunks: Buffer[] = [];
+    for await (const chunk of body as AsyncIterable<Buffer | Uint8Array>) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<Readable> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({
+          Bucket: this.bucket,
+          Key: this.objectKey(key),
+          Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+        }),
+      );
+      return response.Body as Readable;
+    } catch (error) {
+      throw this.translateError(error as Error, key);
+    }
+  }
+
+  async stat(key: string): Promise<StorageObjectStat> {
+    try {
+      const response = await this.client.send(
+        new HeadObjectCommand({
+          Bucket: this.bucket,
+          Key: this.objectKey(key),
+        }),
+      );
+      return {
+        size: response.ContentLength ?? 0,
+        lastModified: response.LastModified ?? new Date(0),
+      };
+    } catch (error) {
+      throw this.translateError(error as Error, key);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({
+        Bucket: this.bucket,
+        Key: this.objectKey(key),
+      }),
+    );
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(
+        new HeadObjectCommand({
+          Bucket: this.bucket,
+          Key: this.objectKey(key),
+        }),
+      );
+      return true;
+    } catch (error) {
+      if (this.isNotFound(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async *list(prefix: string): AsyncIterable<string> {
+    // Tratar el prefijo como directorio, igual que el driver local
+    const listPrefix = prefix && !prefix.endsWith('/') ? `${prefix}/` : prefix;
+    let continuationToken: string | undefined = undefined;
+    do {
+      const response: ListObjectsV2CommandOutput = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: this.objectKey(listPrefix),
+          ContinuationToken: continuationToken,
+        }),
+      );
+      for (const object of response.Contents ?? []) {
+        if (object.Key) {
+          yield object.Key.substring(this.prefix.length);
+        }
+      }
+      continuationToken = response.IsTruncated
+        ? response.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+  }
+
+  /**
+   * Antepone el prefijo configurado y normaliza separadores.
+   * @private
+   */
+  private objectKey(key: string): string {
+    return this.prefix + key.replace(/\\/g, '/');
+  }
+
+  private isNotFound(error: unknown): boolean {
+    return (
+      error instanceof S3ServiceException &&
+      (error.name === 'NotFound' ||
+        error.name === 'NoSuchKey' ||
+        error.$metadata?.httpStatusCode === 404)
+    );
+  }
+
+  private translateError(error: Error, key: string): Error {
+    if (this.isNotFound(error)) {
+      return new StorageObjectNotFoundError(key);
+    }
+    return error;
+  }
+}
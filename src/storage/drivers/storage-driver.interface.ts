@@ -0,0 +1,77 @@
+import { Readable } from 'stream';
+
+/**
+ * Nombres de los drivers de almacenamiento soportados.
+ * @enum {string}
+ */
+export enum StorageDriverName {
+  /** Sistema de archivos local (UPLOAD_PATH) */
+  LOCAL = 'local',
+  /** Almacenamiento de objetos compatible con S3 (AWS, MinIO, etc.) */
+  S3 = 's3',
+}
+
+/**
+ * Opciones para escribir un objeto en el backend.
+ */
+export interface PutObjectOptions {
+  /** Tipo MIME del contenido (usado por backends que lo almacenan) */
+  contentType?: string;
+}
+
+/**
+ * Rango de bytes inclusivo (semántica del header HTTP Range).
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Información básica de un objeto almacenado.
+ */
+export interface StorageObjectStat {
+  /** Tamaño en bytes */
+  size: number;
+  /** Fecha de última modificación según el backend */
+  lastModified: Date;
+}
+
+/**
+ * Contrato común para los backends de almacenamiento.
+ * Las claves son rutas relativas con '/' como separador (ej: documents/uuid.pdf),
+ * independientes del backend donde se guardan.
+ * @interface StorageDriver
+ */
+export interface StorageDriver {
+  /** Nombre del driver (se guarda en FileMetadata.storageDriver) */
+  readonly name: StorageDriverName;
+  /** Bucket donde se guardan los objetos (null para el driver local) */
+  readonly bucket: string | null;
+
+  /** Escribe (o sobrescribe) un objeto */
+  put(key: string, data: Buffer, options?: PutObjectOptions): Promise<void>;
+  /** Lee un objeto completo en memoria */
+  get(key: string): Promise<Buffer>;
+  /** Abre un stream de lectura del objeto, opcionalmente limitado a un rango */
+  stream(key: string, range?: ByteRange): Promise<Readable>;
+  /** Obtiene tamaño y fecha de modificación del objeto */
+  stat(key: string): Promise<StorageObjectStat>;
+  /** Elimina un objeto (no falla si no existe) */
+  delete(key: string): Promise<void>;
+  /** Indica si el objeto existe */
+  exists(key: string): Promise<boolean>;
+  /** Lista recursivamente las claves bajo un prefijo */
+  list(prefix: string): AsyncIterable<string>;
+}
+
+/**
+ * Error lanzado por los drivers cuando un objeto no existe.
+ * @class StorageObjectNotFoundError
+ */
+export class StorageObjectNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Storage object not found: ${key}`);
+    this.name = 'StorageObjectNotFoundError';
+  }
+}
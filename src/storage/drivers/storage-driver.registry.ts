@@ -0,0 +1,107 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LocalStorageDriver } from './local-storage.driver';
+import { S3StorageDriver } from './s3-storage.driver';
+import { StorageDriver, StorageDriverName } from './storage-driver.interface';
+
+/**
+ * Registro de drivers de almacenamiento.
+ * Determina el driver por defecto según STORAGE_DRIVER y resuelve el driver
+ * de cada archivo existente a partir del driver/bucket guardado en sus metadatos,
+ * lo que permite convivir con archivos de distintos backends.
+ * @class StorageDriverRegistry
+ */
+@Injectable()
+export class StorageDriverRegistry {
+  private readonly logger = new Logger(StorageDriverRegistry.name);
+  /** Drivers instanciados, indexados por "driver:bucket" */
+  private readonly drivers = new Map<string, StorageDriver>();
+  /** Driver usado para los archivos nuevos */
+  private readonly defaultDriver: StorageDriver;
+
+  constructor(private configService: ConfigService) {
+    const driverName = (
+      this.configService.get<string>('STORAGE_DRIVER') ||
+      StorageDriverName.LOCAL
+    ).toLowerCase() as StorageDriverName;
+
+    if (!Object.values(StorageDriverName).includes(driverName)) {
+      throw new Error(`Unknown STORAGE_DRIVER: ${driverName}`);
+    }
+
+    this.defaultDriver = this.resolve(
+      driverName,
+      driverName === StorageDriverName.S3
+        ? this.configService.get<string>('S3_BUCKET')
+        : null,
+    );
+
+    this.logger.log(
+      `🗄️ Storage driver: ${this.defaultDriver.name}${this.defaultDriver.bucket ? ` (bucket ${this.defaultDriver.bucket})` : ''}`,
+    );
+  }
+
+  /**
+   * Driver por defecto para nuevas subidas.
+   */
+  getDefault(): StorageDriver {
+    return this.defaultDriver;
+  }
+
+  /**
+   * Obtiene el driver que almacena un objeto.
+   * @param name - Nombre del driver guardado en los metadatos (null = local, registros antiguos)
+   * @param bucket - Bucket guardado en los metadatos
+   * @returns Instancia del driver (cacheada)
+   * @throws Error si el driver no está configurado
+   */
+  resolve(name?: string | null, bucket?: string | null): StorageDriver {
+    const driverName = (name || StorageDriverName.LOCAL) as StorageDriverName;
+    const cacheKey = `${driverName}:${bucket || ''}`;
+    const cached = this.drivers.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    let driver: StorageDriver;
+    switch (driverName) {
+      case StorageDriverName.LOCAL:
+        driver = new LocalStorageDriver(
+          this.configService.get<string>('UPLOAD_PATH') || './uploads',
+        );
+        break;
+      case StorageDriverName.S3:
+        driver = this.createS3Driver(bucket);
+        break;
+      default:
+        throw new Error(`Unknown storage driver: ${name}`);
+    }
+
+    this.drivers.set(cacheKey, driver);
+    return driver;
+  }
+
+  /**
+   * Crea un driver S3 con las credenciales de configuración.
+   * @private
+   */
+  private createS3Driver(bucket?: string | null): S3StorageDriver {
+    const targetBucket = bucket || this.configService.get<string>('S3_BUCKET');
+    if (!targetBucket) {
+      throw new Error(
+        'S3_BUCKET must be configured to use the s3 storage driver',
+      );
+    }
+
+    return new S3StorageDriver({
+      bucket: targetBucket,
+      region: this.configService.get<string>('S3_REGION') || 'us-east-1',
+      endpoint: this.configService.get<string>('S3_ENDPOINT') || undefined,
+      forcePathStyle:
+        this.configService.get<string>('S3_FORCE_PATH_STYLE') === 'true',
+      accessKeyId: this.configService.get<string>('S3_ACCESS_KEY_ID'),
+      secretAccessKey: this.configService.get<string>('S3_SECRET_ACCESS_KEY'),
+      prefix: this.configService.get<string>('S3_PREFIX'),
+    });
+  }
+}
@@ -0,0 +1,241 @@
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { LocalStorageDriver } from './local-storage.driver';
+import { S3StorageDriver } from './s3-storage.driver';
+import {
+  StorageDriver,
+  StorageObjectNotFoundError,
+} from './storage-driver.interface';
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream as AsyncIterable<Buffer>) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+async function collect(iterable: AsyncIterable<string>): Promise<string[]> {
+  const keys: string[] = [];
+  for await (const key of iterable) {
+    keys.push(key);
+  }
+  return keys.sort();
+}
+
+/**
+ * Servidor HTTP mínimo que imita la API S3 de MinIO (path-style, en memoria).
+ */
+function createFakeS3Server(bucket: string) {
+  const objects = new Map<string, Buffer>();
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const [, reqBucket, ...rest] = url.pathname.split('/');
+    const key = decodeURIComponent(rest.join('/'));
+
+    if (reqBucket !== bucket) {
+      res.statusCode = 404;
+      res.end('<Error><Code>NoSuchBucket</Code></Error>');
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      if (req.method === 'GET' && !key) {
+        const prefix = url.searchParams.get('prefix') || '';
+        const contents = [...objects.keys()]
+          .filter((k) => k.startsWith(prefix))
+          .map(
+            (k) =>
+              `<Contents><Key>${k}</Key><Size>${objects.get(k)!.length}</Size></Contents>`,
+          )
+          .join('');
+        res.setHeader('Content-Type', 'application/xml');
+        res.end(
+          `<?xml version="1.0" encoding="UTF-8"?><ListBucketResult><Name>${bucket}</Name><Prefix>${prefix}</Prefix><IsTruncated>false</IsTruncated>${contents}</ListBucketResult>`,
+        );
+        return;
+      }
+
+      switch (req.method) {
+        case 'PUT':
+          objects.set(key, Buffer.concat(chunks));
+          res.setHeader('ETag', '"fake"');
+          res.end();
+          return;
+        case 'GET':
+        case 'HEAD': {
+          const object = objects.get(key);
+          if (!object) {
+            res.statusCode = 404;
+            res.setHeader('Content-Type', 'application/xml');
+            res.end(
+              req.method === 'GET'
+                ? '<Error><Code>NoSuchKey</Code><Message>Not found</Message></Error>'
+                : undefined,
+            );
+            return;
+          }
+          const range = /^bytes=(\d+)-(\d+)$/.exec(req.headers.range || '');
+          const body = range
+            ? object.subarray(
+                parseInt(range[1], 10),
+                parseInt(range[2], 10) + 1,
+              )
+            : object;
+          res.statusCode = range ? 206 : 200;
+          res.setHeader('Content-Length', body.length.toString());
+          res.setHeader('Last-Modified', new Date().toUTCString());
+          res.end(req.method === 'GET' ? body : undefined);
+          return;
+        }
+        case 'DELETE':
+          objects.delete(key);
+          res.statusCode = 204;
+          res.end();
+          return;
+        default:
+          res.statusCode = 405;
+          res.end();
+      }
+    });
+  });
+
+  return { server, objects };
+}
+
+function describeDriverContract(name: string, factory: () => StorageDriver) {
+  describe(`${name} contract`, () => {
+    let driver: StorageDriver;
+
+    beforeEach(() => {
+      driver = factory();
+    });
+
+    it('should put, get and stream an object', async () => {
+      await driver.put('documents/a.txt', Buffer.from('hello'));
+
+      expect((await driver.get('documents/a.txt')).toString()).toBe('hello');
+      expect(await readAll(await driver.stream('documents/a.txt'))).toBe(
+        'hello',
+      );
+    });
+
+    it('should stream byte ranges and report object size', async () => {
+      await driver.put('documents/range.txt', Buffer.from('0123456789'));
+
+      expect(
+        await readAll(
+          await driver.stream('documents/range.txt', { start: 2, end: 5 }),
+        ),
+      ).toBe('2345');
+      expect((await driver.stat('documents/range.txt')).size).toBe(10);
+    });
+
+    it('should report existence and delete objects', async () => {
+      await driver.put('profiles/b.txt', Buffer.from('b'));
+      expect(await driver.exists('profiles/b.txt')).toBe(true);
+
+      await driver.delete('profiles/b.txt');
+      expect(await driver.exists('profiles/b.txt')).toBe(false);
+      await expect(driver.delete('profiles/b.txt')).resolves.toBeUndefined();
+    });
+
+    it('should throw StorageObjectNotFoundError for missing objects', async () => {
+      await expect(driver.get('missing.txt')).rejects.toBeInstanceOf(
+        StorageObjectNotFoundError,
+      );
+      await expect(driver.stream('missing.txt')).rejects.toBeInstanceOf(
+        StorageObjectNotFoundError,
+      );
+    });
+
+    it('should list keys recursively under a prefix', async () => {
+      await driver.put('forms/x/1.txt', Buffer.from('1'));
+      await driver.put('forms/2.txt', Buffer.from('2'));
+      await driver.put('temp/3.txt', Buffer.from('3'));
+
+      expect(await collect(driver.list('forms'))).toEqual([
+        'forms/2.txt',
+        'forms/x/1.txt',
+      ]);
+    });
+  });
+}
+
+describe('Storage drivers', () => {
+  let tmpDir: string;
+  let fakeS3: ReturnType<typeof createFakeS3Server>;
+  let endpoint: string;
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fcg-storage-'));
+    fakeS3 = createFakeS3Server('fcg-test');
+    await new Promise<void>((resolve) =>
+      fakeS3.server.listen(0, '127.0.0.1', resolve),
+    );
+    endpoint = `http://127.0.0.1:${(fakeS3.server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => fakeS3.server.close(resolve));
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    fakeS3.objects.clear();
+  });
+
+  describeDriverContract(
+    'LocalStorageDriver',
+    () =>
+      new LocalStorageDriver(
+        path.join(tmpDir, `run-${Date.now()}-${Math.random()}`),
+      ),
+  );
+
+  describeDriverContract(
+    'S3StorageDriver',
+    () =>
+      new S3StorageDriver({
+        bucket: 'fcg-test',
+        region: 'us-east-1',
+        endpoint,
+        forcePathStyle: true,
+        accessKeyId: 'test',
+        secretAccessKey: 'test',
+      }),
+  );
+
+  it('LocalStorageDriver should reject keys escaping the root directory', async () => {
+    const driver = new LocalStorageDriver(tmpDir);
+    await expect(driver.put('../escape.txt', Buffer.from('x'))).rejects.toThrow(
+      'Invalid storage key',
+    );
+  });
+
+  it('S3StorageDriver should apply the configured key prefix', async () => {
+    const driver = new S3StorageDriver({
+      bucket: 'fcg-test',
+      region: 'us-east-1',
+      endpoint,
+      forcePathStyle: true,
+      accessKeyId: 'test',
+      secretAccessKey: 'test',
+      prefix: 'storage/',
+    });
+
+    await driver.put('documents/c.txt', Buffer.from('c'));
+
+    expect([...fakeS3.objects.keys()]).toEqual(['storage/documents/c.txt']);
+    expect(await collect(driver.list('documents'))).toEqual([
+      'documents/c.txt',
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+import { ArrayMaxSize, ArrayNotEmpty, IsArray, IsBoolean, IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { EntityType } from '../entities/file-metadata.entity';
+import { MAX_BATCH_IDS } from './batch-files.dto';
+import { toBoolean, toList } from './query-transforms';
+
+/**
+ * Archivos a incluir en un ZIP: todos los de una entidad, o una lista de IDs.
+ * @class ArchiveFilesDto
+ */
+export class ArchiveFilesDto {
+  /**
+   * Tipo de la entidad cuyos archivos se descargan.
+   */
+  @ApiPropertyOptional({ enum: EntityType, description: 'Type of the entity whose files are archived' })
+  @IsOptional()
+  @IsEnum(EntityType)
+  entityType?: EntityType;
+
+  /**
+   * ID de la entidad cuyos archivos se descargan.
+   */
+  @ApiPropertyOptional({ description: 'ID of the entity whose files are archived' })
+  @IsOptional()
+  @IsUUID()
+  entityId?: string;
+
+  /**
+   * IDs de los archivos, separados por comas o repitiendo el parámetro.
+   */
+  @ApiPropertyOptional({ type: [String], maxItems: MAX_BATCH_IDS, description: 'File IDs (comma-separated or repeated)' })
+  @IsOptional()
+  @Transform(toList)
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_BATCH_IDS)
+  @IsUUID('all', { each: true })
+  ids?: string[];
+
+  /**
+   * Agregar manifest.json con los metadatos de los archivos incluidos y omitidos (default: false).
+   */
+  @ApiPropertyOptional({ description: 'Add a manifest.json with the metadata of every file', default: false })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  includeManifest?: boolean;
+}
@@ -0,0 +1,56 @@
+import { ArrayMaxSize, ArrayNotEmpty, IsArray, IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { EntityType } from '../entities/file-metadata.entity';
+
+/** Máximo de IDs por operación en lote */
+export const MAX_BATCH_IDS = 100;
+
+/**
+ * DTO con una lista de archivos para operaciones en lote.
+ * @class FileIdsDto
+ */
+export class FileIdsDto {
+  /**
+   * IDs de los archivos (los repetidos se procesan una vez).
+   */
+  @ApiProperty({ type: [String], maxItems: MAX_BATCH_IDS, description: 'File IDs' })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_BATCH_IDS)
+  @IsUUID('all', { each: true })
+  ids: string[];
+}
+
+/**
+ * DTO para eliminar archivos en lote.
+ * Debe indicarse ids, o bien entityType y entityId (elimina todos los archivos de la entidad).
+ * @class BulkDeleteFilesDto
+ */
+export class BulkDeleteFilesDto {
+  /**
+   * IDs de los archivos a eliminar.
+   */
+  @ApiPropertyOptional({ type: [String], maxItems: MAX_BATCH_IDS, description: 'File IDs to delete' })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_BATCH_IDS)
+  @IsUUID('all', { each: true })
+  ids?: string[];
+
+  /**
+   * Tipo de la entidad cuyos archivos se eliminan.
+   */
+  @ApiPropertyOptional({ enum: EntityType, description: 'Type of the entity whose files are deleted' })
+  @IsOptional()
+  @IsEnum(EntityType)
+  entityType?: EntityType;
+
+  /**
+   * ID de la entidad cuyos archivos se eliminan.
+   */
+  @ApiPropertyOptional({ description: 'ID of the entity whose files are deleted' })
+  @IsOptional()
+  @IsUUID()
+  entityId?: string;
+}
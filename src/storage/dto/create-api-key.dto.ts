@@ -0,0 +1,53 @@
+import { ArrayNotEmpty, IsArray, IsDateString, IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ApiKeyScope } from '../entities/api-key.entity';
+import { FileCategory, EntityType } from '../entities/file-metadata.entity';
+
+/**
+ * DTO para crear una API key con permisos acotados.
+ * @class CreateApiKeyDto
+ */
+export class CreateApiKeyDto {
+  /**
+   * Nombre descriptivo de la key.
+   */
+  @ApiProperty({ description: 'Descriptive name of the key' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  /**
+   * Permisos otorgados (admin incluye todos).
+   */
+  @ApiProperty({ enum: ApiKeyScope, isArray: true, description: 'Scopes granted to the key' })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(ApiKeyScope, { each: true })
+  scopes: ApiKeyScope[];
+
+  /**
+   * Categorías a las que se restringe la key (opcional, vacío = todas).
+   */
+  @ApiPropertyOptional({ enum: FileCategory, isArray: true, description: 'Restrict the key to these categories' })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(FileCategory, { each: true })
+  allowedCategories?: FileCategory[];
+
+  /**
+   * Tipos de entidad a los que se restringe la key (opcional, vacío = todos).
+   */
+  @ApiPropertyOptional({ enum: EntityType, isArray: true, description: 'Restrict the key to these entity types' })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(EntityType, { each: true })
+  allowedEntityTypes?: EntityType[];
+
+  /**
+   * Fecha de expiración en formato ISO 8601 (opcional).
+   */
+  @ApiPropertyOptional({ description: 'Expiration date (ISO 8601)' })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
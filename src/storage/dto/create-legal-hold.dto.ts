@@ -0,0 +1,52 @@
+import { IsEnum, IsNotEmpty, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { EntityType } from '../entities/file-metadata.entity';
+
+/**
+ * DTO para colocar una retención legal sobre un archivo o sobre una entidad.
+ * Debe indicarse fileId, o bien entityType y entityId.
+ * @class CreateLegalHoldDto
+ */
+export class CreateLegalHoldDto {
+  /**
+   * Archivo a retener.
+   */
+  @ApiPropertyOptional({ description: 'File to hold' })
+  @IsOptional()
+  @IsUUID()
+  fileId?: string;
+
+  /**
+   * Tipo de la entidad cuyos archivos se retienen.
+   */
+  @ApiPropertyOptional({ enum: EntityType, description: 'Type of the entity whose files are held' })
+  @IsOptional()
+  @IsEnum(EntityType)
+  entityType?: EntityType;
+
+  /**
+   * ID de la entidad cuyos archivos se retienen.
+   */
+  @ApiPropertyOptional({ description: 'ID of the entity whose files are held' })
+  @IsOptional()
+  @IsUUID()
+  entityId?: string;
+
+  /**
+   * Motivo de la retención.
+   */
+  @ApiProperty({ description: 'Reason for the hold (e.g. dispute or case number)' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+
+  /**
+   * Responsable de la retención.
+   */
+  @ApiProperty({ description: 'Person or department placing the hold' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  holder: string;
+}
@@ -0,0 +1,64 @@
+import { ArrayNotEmpty, IsArray, IsEnum, IsOptional, IsString, IsUrl, MaxLength, MinLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WebhookEvent } from '../entities/webhook-subscription.entity';
+import { FileCategory, EntityType } from '../entities/file-metadata.entity';
+
+/**
+ * DTO para suscribir una URL a eventos de archivos.
+ * @class CreateWebhookDto
+ */
+export class CreateWebhookDto {
+  /**
+   * URL que recibe los eventos (http o https).
+   */
+  @ApiProperty({ description: 'URL receiving the events (http or https)' })
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+  @MaxLength(2048)
+  url: string;
+
+  /**
+   * Secreto de la firma HMAC (opcional: si no se indica se genera uno).
+   */
+  @ApiPropertyOptional({ description: 'HMAC signing secret (generated if omitted)' })
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  @MaxLength(128)
+  secret?: string;
+
+  /**
+   * Eventos a notificar.
+   */
+  @ApiProperty({ enum: WebhookEvent, isArray: true, description: 'Events to deliver' })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(WebhookEvent, { each: true })
+  events: WebhookEvent[];
+
+  /**
+   * Categorías a notificar (opcional, vacío = todas).
+   */
+  @ApiPropertyOptional({ enum: FileCategory, isArray: true, description: 'Only deliver events for these categories' })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(FileCategory, { each: true })
+  categories?: FileCategory[];
+
+  /**
+   * Tipos de entidad a notificar (opcional, vacío = todos).
+   */
+  @ApiPropertyOptional({ enum: EntityType, isArray: true, description: 'Only deliver events for these entity types' })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(EntityType, { each: true })
+  entityTypes?: EntityType[];
+
+  /**
+   * Descripción de la suscripción.
+   */
+  @ApiPropertyOptional({ description: 'Description (e.g. consuming system)' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string;
+}
@@ -0,0 +1,56 @@
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { UploadFileDto } from './upload-file.dto';
+
+/** Tamaño mínimo de parte (excepto la última) */
+export const MIN_CHUNK_SIZE = 256 * 1024;
+/** Tamaño máximo de parte aceptado por el endpoint de partes */
+export const MAX_CHUNK_SIZE = 10 * 1024 * 1024;
+
+/**
+ * DTO para iniciar una subida reanudable por partes.
+ * Incluye los mismos metadatos que la subida simple más la descripción del archivo completo.
+ * @class InitUploadSessionDto
+ */
+export class InitUploadSessionDto extends UploadFileDto {
+  /**
+   * Nombre original del archivo.
+   */
+  @ApiProperty({ description: 'Original filename' })
+  @IsString()
+  @MaxLength(500)
+  filename: string;
+
+  /**
+   * Tipo MIME del archivo completo.
+   */
+  @ApiProperty({ description: 'MIME type of the complete file' })
+  @IsString()
+  @MaxLength(100)
+  mimetype: string;
+
+  /**
+   * Tamaño total del archivo en bytes.
+   */
+  @ApiProperty({ description: 'Total file size in bytes' })
+  @IsInt()
+  @Min(1)
+  totalSize: number;
+
+  /**
+   * Tamaño de cada parte en bytes (opcional, default 5MB).
+   */
+  @ApiPropertyOptional({ description: 'Chunk size in bytes (default 5MB)' })
+  @IsOptional()
+  @IsInt()
+  @Min(MIN_CHUNK_SIZE)
+  @Max(MAX_CHUNK_SIZE)
+  chunkSize?: number;
+}
@@ -0,0 +1,118 @@
+import { IsBoolean, IsEnum, IsIn, IsInt, IsOptional, IsString, IsUUID, Max, MaxLength, Min } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { EntityType, FileCategory } from '../entities/file-metadata.entity';
+import { toBoolean } from './query-transforms';
+
+/**
+ * Campos por los que se puede ordenar un listado.
+ * @enum {string}
+ */
+export enum FileSortField {
+  UPLOADED_AT = 'uploadedAt',
+  SIZE = 'size',
+  ORIGINAL_FILENAME = 'originalFilename',
+}
+
+/**
+ * Filtros, orden y paginación del listado de archivos.
+ * La paginación es por cursor: cada respuesta trae nextCursor para pedir la página siguiente.
+ * @class ListFilesDto
+ */
+export class ListFilesDto {
+  /**
+   * Categoría del archivo.
+   */
+  @ApiPropertyOptional({ enum: FileCategory })
+  @IsOptional()
+  @IsEnum(FileCategory)
+  category?: FileCategory;
+
+  /**
+   * Tipo de entidad dueña del archivo.
+   */
+  @ApiPropertyOptional({ enum: EntityType })
+  @IsOptional()
+  @IsEnum(EntityType)
+  entityType?: EntityType;
+
+  /**
+   * ID de la entidad dueña del archivo.
+   */
+  @ApiPropertyOptional({ description: 'Owning entity ID' })
+  @IsOptional()
+  @IsUUID()
+  entityId?: string;
+
+  /**
+   * Usuario que subió el archivo.
+   */
+  @ApiPropertyOptional({ description: 'Uploader user ID' })
+  @IsOptional()
+  @IsUUID()
+  uploadedBy?: string;
+
+  /**
+   * Campo de orden (default: uploadedAt).
+   */
+  @ApiPropertyOptional({ enum: FileSortField, default: FileSortField.UPLOADED_AT })
+  @IsOptional()
+  @IsEnum(FileSortField)
+  sort?: FileSortField;
+
+  /**
+   * Dirección del orden (default: desc).
+   */
+  @ApiPropertyOptional({ enum: ['asc', 'desc'], default: 'desc' })
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  order?: 'asc' | 'desc';
+
+  /**
+   * Cursor devuelto por la página anterior (nextCursor). Debe usarse con el mismo orden.
+   */
+  @ApiPropertyOptional({ description: 'nextCursor returned by the previous page (same sort and order)' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  cursor?: string;
+
+  /**
+   * Número máximo de resultados (default: 50).
+   */
+  @ApiPropertyOptional({ default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+
+  /**
+   * Registros a saltar. Obsoleto: usar cursor (no se puede combinar con él).
+   */
+  @ApiPropertyOptional({ description: 'Deprecated: use cursor instead', deprecated: true })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+
+  /**
+   * Calcular el total de coincidencias (default: true). Desactivarlo acelera listados grandes.
+   */
+  @ApiPropertyOptional({ description: 'Count all matching files (slower on large listings)', default: true })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  includeTotal?: boolean;
+
+  /**
+   * Adjuntar el historial de versiones de cada archivo (default: solo la vigente).
+   */
+  @ApiPropertyOptional({ default: false })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  includeVersions?: boolean;
+}
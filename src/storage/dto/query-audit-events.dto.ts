@@ -0,0 +1,98 @@
+import { IsDateString, IsEnum, IsInt, IsOptional, IsString, IsUUID, Max, MaxLength, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { AuditAction, AuditOutcome } from '../entities/audit-event.entity';
+import { EntityType } from '../entities/file-metadata.entity';
+
+/**
+ * Filtros de consulta y exportación del registro de auditoría.
+ * @class QueryAuditEventsDto
+ */
+export class QueryAuditEventsDto {
+  /**
+   * Archivo afectado.
+   */
+  @ApiPropertyOptional({ description: 'Filter by file ID' })
+  @IsOptional()
+  @IsUUID()
+  fileId?: string;
+
+  /**
+   * Tipo de entidad dueña del archivo.
+   */
+  @ApiPropertyOptional({ enum: EntityType, description: 'Filter by owning entity type' })
+  @IsOptional()
+  @IsEnum(EntityType)
+  entityType?: EntityType;
+
+  /**
+   * ID de la entidad dueña del archivo.
+   */
+  @ApiPropertyOptional({ description: 'Filter by owning entity ID' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  entityId?: string;
+
+  /**
+   * API key que realizó la acción (UUID o "env:main"/"env:secondary").
+   */
+  @ApiPropertyOptional({ description: 'Filter by actor API key ID' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  actorKeyId?: string;
+
+  /**
+   * Acción realizada.
+   */
+  @ApiPropertyOptional({ enum: AuditAction, description: 'Filter by action' })
+  @IsOptional()
+  @IsEnum(AuditAction)
+  action?: AuditAction;
+
+  /**
+   * Resultado de la acción.
+   */
+  @ApiPropertyOptional({ enum: AuditOutcome, description: 'Filter by outcome' })
+  @IsOptional()
+  @IsEnum(AuditOutcome)
+  outcome?: AuditOutcome;
+
+  /**
+   * Inicio del rango de fechas (inclusive, ISO 8601).
+   */
+  @ApiPropertyOptional({ description: 'Events at or after this date (ISO 8601)' })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  /**
+   * Fin del rango de fechas (exclusivo, ISO 8601).
+   */
+  @ApiPropertyOptional({ description: 'Events before this date (ISO 8601)' })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  /**
+   * Número máximo de resultados (default: 50). No aplica a la exportación.
+   */
+  @ApiPropertyOptional({ description: 'Page size (ignored by export)', default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+
+  /**
+   * Número de registros a saltar (default: 0). No aplica a la exportación.
+   */
+  @ApiPropertyOptional({ description: 'Records to skip (ignored by export)', default: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
@@ -0,0 +1,55 @@
+import { IsEnum, IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { JobStatus, JobType } from '../entities/processing-job.entity';
+
+/**
+ * Filtros del listado de trabajos de procesamiento.
+ * @class QueryJobsDto
+ */
+export class QueryJobsDto {
+  /**
+   * Archivo procesado.
+   */
+  @ApiPropertyOptional({ description: 'Filter by file ID' })
+  @IsOptional()
+  @IsUUID()
+  fileId?: string;
+
+  /**
+   * Estado del trabajo.
+   */
+  @ApiPropertyOptional({ enum: JobStatus, description: 'Filter by job status' })
+  @IsOptional()
+  @IsEnum(JobStatus)
+  status?: JobStatus;
+
+  /**
+   * Tipo de trabajo.
+   */
+  @ApiPropertyOptional({ enum: JobType, description: 'Filter by job type' })
+  @IsOptional()
+  @IsEnum(JobType)
+  type?: JobType;
+
+  /**
+   * Número máximo de resultados (default: 50).
+   */
+  @ApiPropertyOptional({ description: 'Page size', default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+
+  /**
+   * Número de registros a saltar (default: 0).
+   */
+  @ApiPropertyOptional({ description: 'Records to skip', default: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
@@ -0,0 +1,10 @@
+/**
+ * Transformaciones de parámetros de query para los DTOs (Express entrega todos los valores como texto).
+ */
+
+/** Convierte "true"/"false" de la query a booleano (otros valores fallan la validación) */
+export const toBoolean = ({ value }: { value: unknown }) => (value === 'true' ? true : value === 'false' ? false : value);
+
+/** Acepta una lista separada por comas o el parámetro repetido (?ids=a&ids=b) */
+export const toList = ({ value }: { value: unknown }) =>
+  typeof value === 'string' ? value.split(',').map((item) => item.trim()).filter(Boolean) : value;
@@ -0,0 +1,42 @@
+import { IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { EntityType, FileCategory } from '../entities/file-metadata.entity';
+
+/**
+ * Propietarios cuyo consumo de cuota se consulta. Debe indicarse al menos uno;
+ * la entidad requiere tipo e ID.
+ * @class QueryUsageDto
+ */
+export class QueryUsageDto {
+  /**
+   * Usuario que sube los archivos.
+   */
+  @ApiPropertyOptional({ description: 'Uploader user ID' })
+  @IsOptional()
+  @IsUUID()
+  uploadedBy?: string;
+
+  /**
+   * Tipo de la entidad dueña de los archivos.
+   */
+  @ApiPropertyOptional({ enum: EntityType })
+  @IsOptional()
+  @IsEnum(EntityType)
+  entityType?: EntityType;
+
+  /**
+   * ID de la entidad dueña de los archivos.
+   */
+  @ApiPropertyOptional({ description: 'Owning entity ID' })
+  @IsOptional()
+  @IsUUID()
+  entityId?: string;
+
+  /**
+   * Categoría de los archivos.
+   */
+  @ApiPropertyOptional({ enum: FileCategory })
+  @IsOptional()
+  @IsEnum(FileCategory)
+  category?: FileCategory;
+}
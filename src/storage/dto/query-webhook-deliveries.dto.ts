@@ -0,0 +1,64 @@
+import { IsEnum, IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { WebhookDeliveryStatus } from '../entities/webhook-delivery.entity';
+import { WebhookEvent } from '../entities/webhook-subscription.entity';
+
+/**
+ * Filtros del listado de entregas de webhooks.
+ * @class QueryWebhookDeliveriesDto
+ */
+export class QueryWebhookDeliveriesDto {
+  /**
+   * Suscripción destino.
+   */
+  @ApiPropertyOptional({ description: 'Filter by subscription ID' })
+  @IsOptional()
+  @IsUUID()
+  subscriptionId?: string;
+
+  /**
+   * Estado de la entrega.
+   */
+  @ApiPropertyOptional({ enum: WebhookDeliveryStatus, description: 'Filter by delivery status' })
+  @IsOptional()
+  @IsEnum(WebhookDeliveryStatus)
+  status?: WebhookDeliveryStatus;
+
+  /**
+   * Evento notificado.
+   */
+  @ApiPropertyOptional({ enum: WebhookEvent, description: 'Filter by event' })
+  @IsOptional()
+  @IsEnum(WebhookEvent)
+  event?: WebhookEvent;
+
+  /**
+   * Archivo del evento.
+   */
+  @ApiPropertyOptional({ description: 'Filter by file ID' })
+  @IsOptional()
+  @IsUUID()
+  fileId?: string;
+
+  /**
+   * Número máximo de resultados (default: 50).
+   */
+  @ApiPropertyOptional({ description: 'Page size', default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+
+  /**
+   * Número de registros a saltar (default: 0).
+   */
+  @ApiPropertyOptional({ description: 'Records to skip', default: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
@@ -0,0 +1,26 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO para liberar una retención legal.
+ * @class ReleaseLegalHoldDto
+ */
+export class ReleaseLegalHoldDto {
+  /**
+   * Responsable de la liberación.
+   */
+  @ApiProperty({ description: 'Person or department releasing the hold' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  releasedBy: string;
+
+  /**
+   * Motivo de la liberación (opcional).
+   */
+  @ApiPropertyOptional({ description: 'Reason for releasing the hold' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  releaseReason?: string;
+}
@@ -0,0 +1,126 @@
+import { IsDateString, IsEnum, IsInt, IsJSON, IsOptional, IsString, IsUUID, Matches, Max, MaxLength, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { EntityType, FileCategory } from '../entities/file-metadata.entity';
+
+/**
+ * Criterios de búsqueda de archivos.
+ * @class SearchFilesDto
+ */
+export class SearchFilesDto {
+  /**
+   * Texto a buscar en nombre, descripción, claves y valores de metadata y texto extraído.
+   * Acepta la sintaxis de búsqueda web: "frase exacta", OR y -excluir.
+   */
+  @ApiPropertyOptional({ description: 'Full-text query (supports "quoted phrases", OR and -exclusions)' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  q?: string;
+
+  /**
+   * Categoría del archivo.
+   */
+  @ApiPropertyOptional({ enum: FileCategory })
+  @IsOptional()
+  @IsEnum(FileCategory)
+  category?: FileCategory;
+
+  /**
+   * Tipo de entidad dueña del archivo.
+   */
+  @ApiPropertyOptional({ enum: EntityType })
+  @IsOptional()
+  @IsEnum(EntityType)
+  entityType?: EntityType;
+
+  /**
+   * ID de la entidad dueña del archivo.
+   */
+  @ApiPropertyOptional({ description: 'Owning entity ID' })
+  @IsOptional()
+  @IsUUID()
+  entityId?: string;
+
+  /**
+   * Usuario que subió el archivo.
+   */
+  @ApiPropertyOptional({ description: 'Uploader user ID' })
+  @IsOptional()
+  @IsUUID()
+  uploadedBy?: string;
+
+  /**
+   * Tipo MIME exacto o familia (ej: "application/pdf", "image/*").
+   */
+  @ApiPropertyOptional({ description: 'Exact MIME type or family such as image/*' })
+  @IsOptional()
+  @Matches(/^[a-z0-9.+-]+\/(\*|[a-z0-9.+-]+)$/i, { message: 'mimetype must look like type/subtype or type/*' })
+  mimetype?: string;
+
+  /**
+   * Inicio del rango de fechas de subida (inclusive, ISO 8601).
+   */
+  @ApiPropertyOptional({ description: 'Uploaded at or after this date (ISO 8601)' })
+  @IsOptional()
+  @IsDateString()
+  uploadedFrom?: string;
+
+  /**
+   * Fin del rango de fechas de subida (exclusivo, ISO 8601).
+   */
+  @ApiPropertyOptional({ description: 'Uploaded before this date (ISO 8601)' })
+  @IsOptional()
+  @IsDateString()
+  uploadedTo?: string;
+
+  /**
+   * Tamaño mínimo en bytes (inclusive).
+   */
+  @ApiPropertyOptional({ description: 'Minimum size in bytes' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  minSize?: number;
+
+  /**
+   * Tamaño máximo en bytes (inclusive).
+   */
+  @ApiPropertyOptional({ description: 'Maximum size in bytes' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  maxSize?: number;
+
+  /**
+   * Objeto JSON que debe estar contenido en metadata (ej: {"source":"app"}).
+   */
+  @ApiPropertyOptional({ description: 'JSON object that metadata must contain, e.g. {"source":"app"}' })
+  @IsOptional()
+  @IsJSON()
+  @MaxLength(1000)
+  metadata?: string;
+
+  /**
+   * Número máximo de resultados (default: 20).
+   */
+  @ApiPropertyOptional({ default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  /**
+   * Número de resultados a saltar (default: 0).
+   */
+  @ApiPropertyOptional({ default: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
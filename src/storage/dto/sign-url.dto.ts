@@ -0,0 +1,48 @@
+import { IsEnum, IsIn, IsInt, IsIP, IsOptional, IsUUID, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SignedUrlAction, type SignedUrlDisposition } from '../signed-url.service';
+
+/**
+ * DTO para generar una URL firmada de descarga, visualización o miniatura.
+ * @class SignUrlDto
+ */
+export class SignUrlDto {
+  /**
+   * ID del archivo al que da acceso la URL.
+   */
+  @ApiProperty({ description: 'ID of the file' })
+  @IsUUID()
+  fileId: string;
+
+  /**
+   * Endpoint autorizado por la URL.
+   */
+  @ApiProperty({ enum: SignedUrlAction, description: 'Endpoint the URL grants access to' })
+  @IsEnum(SignedUrlAction)
+  action: SignedUrlAction;
+
+  /**
+   * Segundos de validez (opcional, default SIGNED_URL_DEFAULT_TTL).
+   */
+  @ApiPropertyOptional({ description: 'Validity in seconds (capped by SIGNED_URL_MAX_TTL)' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  expiresIn?: number;
+
+  /**
+   * Fuerza la disposición de la respuesta (opcional).
+   */
+  @ApiPropertyOptional({ enum: ['inline', 'attachment'], description: 'Content-Disposition to force' })
+  @IsOptional()
+  @IsIn(['inline', 'attachment'])
+  disposition?: SignedUrlDisposition;
+
+  /**
+   * IP del cliente final a la que se restringe la URL (opcional).
+   */
+  @ApiPropertyOptional({ description: 'Restrict the URL to this client IP' })
+  @IsOptional()
+  @IsIP()
+  ip?: string;
+}
@@ -0,0 +1,24 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO para iniciar una reconciliación entre la BD y el almacenamiento.
+ * @class StartReconciliationDto
+ */
+export class StartReconciliationDto {
+  /**
+   * Solo reportar, sin reparar (default: true).
+   */
+  @ApiPropertyOptional({ description: 'Only report issues without repairing them', default: true })
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+
+  /**
+   * Verificar el checksum de cada objeto; lee todo el contenido almacenado (default: false).
+   */
+  @ApiPropertyOptional({ description: 'Verify the checksum of every stored object (reads all content)', default: false })
+  @IsOptional()
+  @IsBoolean()
+  verifyChecksums?: boolean;
+}
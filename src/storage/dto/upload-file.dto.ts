@@ -10,7 +10,7 @@ import { FileCategory, EntityType } from '../entities/file-metadata.entity';
 export class UploadFileDto {
   /**
    * Categoría del archivo para organización interna.
-   * Determina el subdirectorio de almacenamiento.
+   * Permite filtrar y agrupar archivos.
    */
   @ApiProperty({ enum: FileCategory, description: 'Category of the file' })
   @IsEnum(FileCategory)
@@ -0,0 +1,26 @@
+import { IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * DTO para subir o restaurar una versión de un archivo.
+ * La categoría y la entidad asociada son las del archivo lógico y no cambian entre versiones.
+ * @class UploadVersionDto
+ */
+export class UploadVersionDto {
+  /**
+   * ID del usuario que sube la versión (opcional).
+   */
+  @ApiPropertyOptional({ description: 'ID of the user uploading the version' })
+  @IsOptional()
+  @IsUUID()
+  uploadedBy?: string;
+
+  /**
+   * Comentario de la revisión (opcional).
+   */
+  @ApiPropertyOptional({ description: 'Comment describing the revision' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  comment?: string;
+}
@@ -0,0 +1,87 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn, UpdateDateColumn, Index, BeforeInsert } from 'typeorm';
+import { v4 as uuidv4 } from 'uuid';
+import { FileCategory, EntityType } from './file-metadata.entity';
+
+/**
+ * Permisos que puede otorgar una API key.
+ * ADMIN incluye todos los demás.
+ * @enum {string}
+ */
+export enum ApiKeyScope {
+  /** Subir archivos (simple o por partes) */
+  UPLOAD = 'upload',
+  /** Listar, consultar metadatos, descargar y firmar URLs */
+  READ = 'read',
+  /** Eliminar archivos */
+  DELETE = 'delete',
+  /** Operaciones administrativas (limpieza, re-escaneo, gestión de keys) */
+  ADMIN = 'admin',
+}
+
+/**
+ * Entidad de API key con permisos acotados.
+ * El secreto solo se muestra al crearla o rotarla; en BD se guarda su hash SHA-256
+ * y un prefijo público para buscarla sin recorrer todas las keys.
+ * @class ApiKey
+ */
+@Entity('api_keys')
+export class ApiKey {
+  /** Identificador único UUID de la key */
+  @PrimaryColumn('uuid')
+  id: string;
+
+  /**
+   * Genera automáticamente el UUID antes de insertar si no existe.
+   */
+  @BeforeInsert()
+  generateId() {
+    if (!this.id) {
+      this.id = uuidv4();
+    }
+  }
+
+  /** Nombre descriptivo (ej: "backend-principal", "portal-postulantes") */
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  /** Prefijo público de la key (identifica la key en logs y búsquedas) */
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 16, name: 'key_prefix' })
+  keyPrefix: string;
+
+  /** Hash SHA-256 del secreto completo (nunca se selecciona por defecto) */
+  @Column({ type: 'varchar', length: 64, name: 'secret_hash', select: false })
+  secretHash: string;
+
+  /** Permisos otorgados */
+  @Column({ type: 'enum', enum: ApiKeyScope, array: true })
+  scopes: ApiKeyScope[];
+
+  /** Categorías permitidas (null = todas) */
+  @Column({ type: 'enum', enum: FileCategory, array: true, nullable: true, name: 'allowed_categories' })
+  allowedCategories: FileCategory[] | null;
+
+  /** Tipos de entidad permitidos (null = todos) */
+  @Column({ type: 'enum', enum: EntityType, array: true, nullable: true, name: 'allowed_entity_types' })
+  allowedEntityTypes: EntityType[] | null;
+
+  /** Fecha de expiración (null = no expira) */
+  @Column({ type: 'timestamp', nullable: true, name: 'expires_at' })
+  expiresAt: Date | null;
+
+  /** Último uso registrado (se actualiza como máximo una vez por minuto) */
+  @Column({ type: 'timestamp', nullable: true, name: 'last_used_at' })
+  lastUsedAt: Date | null;
+
+  /** Fecha de revocación (null = activa) */
+  @Column({ type: 'timestamp', nullable: true, name: 'revoked_at' })
+  revokedAt: Date | null;
+
+  /** Fecha de creación */
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  /** Fecha de última actualización (incluye rotaciones) */
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
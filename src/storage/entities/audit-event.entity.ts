@@ -0,0 +1,141 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn, Index, BeforeInsert } from 'typeorm';
+import { v4 as uuidv4 } from 'uuid';
+import { EntityType } from './file-metadata.entity';
+
+/**
+ * Acciones registradas en la auditoría.
+ * @enum {string}
+ */
+export enum AuditAction {
+  /** Subida de archivo (simple o por partes) */
+  UPLOAD = 'upload',
+  /** Subida de una nueva versión */
+  UPLOAD_VERSION = 'upload_version',
+  /** Restauración de una versión anterior */
+  RESTORE_VERSION = 'restore_version',
+  /** Descarga como adjunto */
+  DOWNLOAD = 'download',
+  /** Visualización inline */
+  VIEW = 'view',
+  /** Descarga de varios archivos en un ZIP */
+  ARCHIVE = 'archive',
+  /** Obtención de miniatura */
+  THUMBNAIL = 'thumbnail',
+  /** Obtención de un derivado de imagen */
+  IMAGE = 'image',
+  /** Consulta de metadatos */
+  METADATA = 'metadata',
+  /** Consulta del historial de versiones */
+  LIST_VERSIONS = 'list_versions',
+  /** Listado de archivos */
+  LIST = 'list',
+  /** Búsqueda de archivos */
+  SEARCH = 'search',
+  /** Consulta del consumo de cuotas */
+  USAGE = 'usage',
+  /** Generación de URL firmada */
+  SIGN_URL = 'sign_url',
+  /** Re-escaneo antivirus */
+  RESCAN = 'rescan',
+  /** Eliminación de archivo */
+  DELETE = 'delete',
+  /** Restauración de un archivo eliminado */
+  RESTORE = 'restore',
+  /** Eliminación definitiva por la política de retención */
+  PURGE = 'purge',
+  /** Limpieza de huérfanos */
+  CLEANUP = 'cleanup',
+  /** Reconciliación entre la BD y el almacenamiento */
+  RECONCILE = 'reconcile',
+  /** Colocación de una retención legal */
+  PLACE_LEGAL_HOLD = 'place_legal_hold',
+  /** Liberación de una retención legal */
+  RELEASE_LEGAL_HOLD = 'release_legal_hold',
+}
+
+/**
+ * Resultado de una acción auditada.
+ * @enum {string}
+ */
+export enum AuditOutcome {
+  SUCCESS = 'success',
+  FAILURE = 'failure',
+}
+
+/**
+ * Evento de auditoría: quién hizo qué sobre qué archivo, desde dónde y con qué resultado.
+ * Los eventos son de solo inserción; no tienen fecha de actualización.
+ * @class AuditEvent
+ */
+@Entity('audit_events')
+@Index(['fileId', 'createdAt'])
+@Index(['entityType', 'entityId', 'createdAt'])
+@Index(['actorKeyId', 'createdAt'])
+@Index(['createdAt'])
+export class AuditEvent {
+  /** Identificador único UUID del evento */
+  @PrimaryColumn('uuid')
+  id: string;
+
+  /**
+   * Genera automáticamente el UUID antes de insertar si no existe.
+   */
+  @BeforeInsert()
+  generateId() {
+    if (!this.id) {
+      this.id = uuidv4();
+    }
+  }
+
+  /** Acción realizada */
+  @Column({ type: 'enum', enum: AuditAction })
+  action: AuditAction;
+
+  /** Resultado de la acción */
+  @Column({ type: 'enum', enum: AuditOutcome })
+  outcome: AuditOutcome;
+
+  /** Código HTTP de la respuesta */
+  @Column({ type: 'int', name: 'status_code' })
+  statusCode: number;
+
+  /** Mensaje de error (solo en fallos) */
+  @Column({ type: 'varchar', length: 500, nullable: true, name: 'error_message' })
+  errorMessage: string | null;
+
+  /** ID de la API key que realizó la acción (null = URL firmada) */
+  @Column({ type: 'varchar', length: 100, nullable: true, name: 'actor_key_id' })
+  actorKeyId: string | null;
+
+  /** Nombre de la API key al momento de la acción */
+  @Column({ type: 'varchar', length: 100, nullable: true, name: 'actor_key_name' })
+  actorKeyName: string | null;
+
+  /** Acceso mediante URL firmada en lugar de API key */
+  @Column({ type: 'boolean', default: false, name: 'via_signed_url' })
+  viaSignedUrl: boolean;
+
+  /** IP del cliente */
+  @Column({ type: 'varchar', length: 64, nullable: true, name: 'ip_address' })
+  ipAddress: string | null;
+
+  /** User-Agent del cliente */
+  @Column({ type: 'varchar', length: 500, nullable: true, name: 'user_agent' })
+  userAgent: string | null;
+
+  /** Archivo afectado (null en acciones sin archivo, como listados) */
+  @Column({ type: 'uuid', nullable: true, name: 'file_id' })
+  fileId: string | null;
+
+  /** Tipo de entidad dueña del archivo */
+  @Column({ type: 'enum', enum: EntityType, nullable: true, name: 'entity_type' })
+  entityType: EntityType | null;
+
+  /** ID de la entidad dueña del archivo */
+  @Column({ type: 'varchar', length: 255, nullable: true, name: 'entity_id' })
+  entityId: string | null;
+
+  /** Fecha del evento (precisión de milisegundos, igual que Date, para paginar por clave) */
+  @CreateDateColumn({ name: 'created_at', precision: 3 })
+  createdAt: Date;
+}
@@ -3,7 +3,7 @@ import { v4 as uuidv4 } from 'uuid';
 
 /**
  * Categorías de archivos para organización interna.
- * Determina el subdirectorio de almacenamiento.
+ * Permite filtrar archivos (los archivos antiguos se guardaron en un subdirectorio por categoría).
  * @enum {string}
  */
 export enum FileCategory {
@@ -36,16 +36,69 @@ export enum EntityType {
   OTHER = 'OTHER',
 }
 
+/**
+ * Estado del análisis antivirus de un archivo.
+ * Solo los archivos limpios se sirven para descarga o visualización.
+ * @enum {string}
+ */
+export enum ScanStatus {
+  /** Pendiente de análisis */
+  PENDING = 'pending',
+  /** Analizado sin amenazas */
+  CLEAN = 'clean',
+  /** Amenaza detectada: el contenido está en cuarentena */
+  INFECTED = 'infected',
+  /** El análisis no se pudo completar (se puede reintentar) */
+  ERROR = 'error',
+}
+
+/**
+ * Estado del procesamiento en segundo plano de un archivo (miniatura, etc., ver JobQueueService).
+ * @enum {string}
+ */
+export enum ProcessingStatus {
+  /** Hay trabajos pendientes: los artefactos derivados aún no están disponibles */
+  PENDING = 'pending',
+  /** Un worker está procesando el archivo */
+  PROCESSING = 'processing',
+  /** Sin trabajos pendientes */
+  READY = 'ready',
+  /** Algún trabajo agotó sus reintentos */
+  FAILED = 'failed',
+}
+
+/** Configuración de texto de Postgres usada por la búsqueda */
+export const SEARCH_TEXT_CONFIG = 'spanish';
+
+/**
+ * Documento de búsqueda: nombre (peso A), descripción (B), claves y valores de texto de metadata (C) y texto extraído (D).
+ * En el nombre, puntos, guiones y guiones bajos separan palabras.
+ */
+const SEARCH_VECTOR_EXPRESSION = [
+  `setweight(to_tsvector('${SEARCH_TEXT_CONFIG}', translate(coalesce(original_filename, ''), '._-', '   ')), 'A')`,
+  `setweight(to_tsvector('${SEARCH_TEXT_CONFIG}', coalesce(description, '')), 'B')`,
+  `setweight(jsonb_to_tsvector('${SEARCH_TEXT_CONFIG}', coalesce(metadata, '{}'::jsonb), '["key", "string"]'), 'C')`,
+  `setweight(to_tsvector('${SEARCH_TEXT_CONFIG}', coalesce(extracted_text, '')), 'D')`,
+].join(' || ');
+
 /**
  * Entidad de metadatos de archivo.
  * Almacena información sobre archivos subidos al sistema de storage.
- * Los archivos físicos se guardan en disco, esta entidad guarda la referencia.
+ * Los archivos físicos se guardan en el driver de almacenamiento indicado, esta entidad guarda la referencia.
+ * Los campos de contenido (nombre, tipo, tamaño, ruta, análisis) corresponden a la versión vigente.
  * @class FileMetadata
  */
 @Entity('files_metadata')
 @Index(['entityType', 'entityId'])
 @Index(['uploadedBy'])
 @Index(['category'])
+@Index(['checksum'])
+@Index(['scanStatus'])
+@Index(['active', 'deletedAt'])
+// Orden y cursor de los listados (el ID desempata valores iguales)
+@Index(['uploadedAt', 'id'])
+@Index(['size', 'id'])
+@Index(['originalFilename', 'id'])
 export class FileMetadata {
   /** Identificador único UUID del archivo */
   @PrimaryColumn('uuid')
@@ -73,10 +126,18 @@ export class FileMetadata {
   @Column({ type: 'varchar', length: 100 })
   mimetype: string;
 
+  /** Tipo MIME detectado por firma del contenido (null en archivos anteriores a la detección) */
+  @Column({ type: 'varchar', length: 100, nullable: true, name: 'detected_mimetype' })
+  detectedMimetype: string;
+
   /** Tamaño del archivo en bytes */
   @Column({ type: 'bigint' })
   size: number;
 
+  /** Hash SHA-256 del contenido en hexadecimal (permite verificar integridad) */
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  checksum: string;
+
   /** Categoría del archivo para organización */
   @Column({
     type: 'enum',
@@ -98,13 +159,57 @@ export class FileMetadata {
   @Column({ type: 'uuid', nullable: true, name: 'entity_id' })
   entityId: string;
 
-  /** Ruta relativa del archivo en el sistema de almacenamiento */
+  /** Ruta relativa del archivo en el sistema de almacenamiento (clave del blob para archivos nuevos) */
   @Column({ type: 'varchar', length: 500 })
   path: string;
 
+  /** Driver de almacenamiento que contiene el archivo (local, s3) */
+  @Column({ type: 'varchar', length: 20, default: 'local', name: 'storage_driver' })
+  storageDriver: string;
+
+  /** Bucket que contiene el archivo (solo drivers de objetos como S3) */
+  @Column({ type: 'varchar', length: 255, nullable: true, name: 'storage_bucket' })
+  storageBucket: string | null;
+
+  /**
+   * Estado del análisis antivirus.
+   * El default de BD es clean para que los archivos anteriores al escaneo sigan disponibles.
+   */
+  @Column({
+    type: 'enum',
+    enum: ScanStatus,
+    default: ScanStatus.CLEAN,
+    name: 'scan_status',
+  })
+  scanStatus: ScanStatus;
+
+  /** Firma detectada o motivo del error del último análisis */
+  @Column({ type: 'varchar', length: 255, nullable: true, name: 'scan_detail' })
+  scanDetail: string | null;
+
+  /** Fecha del último análisis antivirus */
+  @Column({ type: 'timestamp', nullable: true, name: 'scanned_at' })
+  scannedAt: Date;
+
   /** Ruta relativa de la miniatura (solo para imágenes) */
   @Column({ type: 'varchar', length: 500, nullable: true, name: 'thumbnail_path' })
-  thumbnailPath: string;
+  thumbnailPath: string | null;
+
+  /**
+   * Estado del procesamiento en segundo plano del contenido vigente.
+   * El default de BD es ready porque los archivos anteriores a la cola se procesaron al subirse.
+   */
+  @Column({
+    type: 'enum',
+    enum: ProcessingStatus,
+    default: ProcessingStatus.READY,
+    name: 'processing_status',
+  })
+  processingStatus: ProcessingStatus;
+
+  /** Número de la versión vigente (1 = archivo sin revisiones, ver FileVersion) */
+  @Column({ type: 'int', default: 1, name: 'current_version' })
+  currentVersion: number;
 
   /** ID del usuario que subió el archivo */
   @Column({ type: 'uuid', nullable: true, name: 'uploaded_by' })
@@ -116,8 +221,29 @@ export class FileMetadata {
 
   /** Metadatos adicionales en formato JSON */
   @Column({ type: 'jsonb', nullable: true })
+  @Index('IDX_files_metadata_metadata', { synchronize: false })
   metadata: Record<string, any>;
 
+  /** Texto extraído del contenido vigente (PDF) para búsqueda; no se incluye en las consultas por defecto */
+  @Column({ type: 'text', nullable: true, name: 'extracted_text', select: false })
+  extractedText: string | null;
+
+  /**
+   * Documento de búsqueda de texto completo, calculado por Postgres.
+   * Sus índices GIN los crea FileSearchService al iniciar (TypeORM no define índices GIN).
+   */
+  @Column({
+    type: 'tsvector',
+    name: 'search_vector',
+    select: false,
+    insert: false,
+    update: false,
+    generatedType: 'STORED',
+    asExpression: SEARCH_VECTOR_EXPRESSION,
+  })
+  @Index('IDX_files_metadata_search_vector', { synchronize: false })
+  searchVector: string;
+
   /** Fecha y hora de subida */
   @CreateDateColumn({ name: 'uploaded_at' })
   uploadedAt: Date;
@@ -129,4 +255,8 @@ export class FileMetadata {
   /** Indica si el archivo está activo (false = soft deleted) */
   @Column({ type: 'boolean', default: true })
   active: boolean;
+
+  /** Fecha de eliminación (inicia el plazo de retención antes de la purga definitiva) */
+  @Column({ type: 'timestamp', nullable: true, name: 'deleted_at' })
+  deletedAt: Date | null;
 }
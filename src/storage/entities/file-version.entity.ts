@@ -0,0 +1,101 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn, Index, BeforeInsert } from 'typeorm';
+import { v4 as uuidv4 } from 'uuid';
+import { ScanStatus } from './file-metadata.entity';
+
+/**
+ * Entidad de versión de archivo.
+ * Guarda el contenido de cada revisión de un archivo lógico (FileMetadata), incluida la vigente,
+ * cuyos campos de contenido se copian en FileMetadata.
+ * Los archivos sin revisiones no tienen filas: su versión 1 está solo en FileMetadata.
+ * Cada fila mantiene su propia referencia al blob (o su objeto en cuarentena).
+ * @class FileVersion
+ */
+@Entity('file_versions')
+@Index(['fileId', 'versionNumber'], { unique: true })
+export class FileVersion {
+  /** Identificador único UUID de la versión */
+  @PrimaryColumn('uuid')
+  id: string;
+
+  /**
+   * Genera automáticamente el UUID antes de insertar si no existe.
+   */
+  @BeforeInsert()
+  generateId() {
+    if (!this.id) {
+      this.id = uuidv4();
+    }
+  }
+
+  /** Archivo lógico al que pertenece la versión */
+  @Column({ type: 'uuid', name: 'file_id' })
+  fileId: string;
+
+  /** Número de versión (empieza en 1) */
+  @Column({ type: 'int', name: 'version_number' })
+  versionNumber: number;
+
+  /** Nombre original del archivo subido en esta versión */
+  @Column({ type: 'varchar', length: 500, name: 'original_filename' })
+  originalFilename: string;
+
+  /** Nombre único generado para almacenamiento interno */
+  @Column({ type: 'varchar', length: 500, name: 'stored_filename' })
+  storedFilename: string;
+
+  /** Tipo MIME de la versión */
+  @Column({ type: 'varchar', length: 100 })
+  mimetype: string;
+
+  /** Tipo MIME detectado por firma del contenido */
+  @Column({ type: 'varchar', length: 100, nullable: true, name: 'detected_mimetype' })
+  detectedMimetype: string;
+
+  /** Tamaño en bytes */
+  @Column({ type: 'bigint' })
+  size: number;
+
+  /** Hash SHA-256 del contenido */
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  checksum: string;
+
+  /** Ruta del contenido en el driver de almacenamiento */
+  @Column({ type: 'varchar', length: 500 })
+  path: string;
+
+  /** Driver de almacenamiento que contiene la versión */
+  @Column({ type: 'varchar', length: 20, default: 'local', name: 'storage_driver' })
+  storageDriver: string;
+
+  /** Bucket que contiene la versión (solo drivers de objetos como S3) */
+  @Column({ type: 'varchar', length: 255, nullable: true, name: 'storage_bucket' })
+  storageBucket: string | null;
+
+  /** Ruta de la miniatura (solo imágenes) */
+  @Column({ type: 'varchar', length: 500, nullable: true, name: 'thumbnail_path' })
+  thumbnailPath: string | null;
+
+  /** Estado del análisis antivirus de la versión */
+  @Column({ type: 'enum', enum: ScanStatus, default: ScanStatus.CLEAN, name: 'scan_status' })
+  scanStatus: ScanStatus;
+
+  /** Firma detectada o motivo del error del último análisis */
+  @Column({ type: 'varchar', length: 255, nullable: true, name: 'scan_detail' })
+  scanDetail: string | null;
+
+  /** Fecha del último análisis antivirus */
+  @Column({ type: 'timestamp', nullable: true, name: 'scanned_at' })
+  scannedAt: Date;
+
+  /** ID del usuario que subió o restauró la versión */
+  @Column({ type: 'uuid', nullable: true, name: 'uploaded_by' })
+  uploadedBy: string | null;
+
+  /** Comentario de la revisión (ej: "Restored from version 2") */
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  comment: string | null;
+
+  /** Fecha de creación de la versión */
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
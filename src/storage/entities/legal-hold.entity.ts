@@ -0,0 +1,69 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn, Index, BeforeInsert } from 'typeorm';
+import { v4 as uuidv4 } from 'uuid';
+import { EntityType } from './file-metadata.entity';
+
+/**
+ * Entidad de retención legal (legal hold).
+ * Mientras está activa impide eliminar, purgar o reemplazar con nuevas versiones
+ * un archivo concreto o todos los archivos de una entidad (entityType + entityId),
+ * incluidos los que se suban después de colocarla.
+ * @class LegalHold
+ */
+@Entity('legal_holds')
+@Index(['fileId'])
+@Index(['entityType', 'entityId'])
+export class LegalHold {
+  /** Identificador único UUID de la retención */
+  @PrimaryColumn('uuid')
+  id: string;
+
+  /**
+   * Genera automáticamente el UUID antes de insertar si no existe.
+   */
+  @BeforeInsert()
+  generateId() {
+    if (!this.id) {
+      this.id = uuidv4();
+    }
+  }
+
+  /** Archivo retenido (null si la retención es sobre una entidad) */
+  @Column({ type: 'uuid', nullable: true, name: 'file_id' })
+  fileId: string | null;
+
+  /** Tipo de la entidad retenida (null si la retención es sobre un archivo) */
+  @Column({ type: 'enum', enum: EntityType, nullable: true, name: 'entity_type' })
+  entityType: EntityType | null;
+
+  /** ID de la entidad retenida */
+  @Column({ type: 'uuid', nullable: true, name: 'entity_id' })
+  entityId: string | null;
+
+  /** Motivo de la retención (ej: número de causa o reclamo) */
+  @Column({ type: 'varchar', length: 500 })
+  reason: string;
+
+  /** Responsable de la retención (persona o área que la solicitó) */
+  @Column({ type: 'varchar', length: 255 })
+  holder: string;
+
+  /** API key que colocó la retención */
+  @Column({ type: 'varchar', length: 100, nullable: true, name: 'placed_by_key_id' })
+  placedByKeyId: string | null;
+
+  /** Fecha de colocación */
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  /** Fecha de liberación (null = activa) */
+  @Column({ type: 'timestamp', nullable: true, name: 'released_at' })
+  releasedAt: Date | null;
+
+  /** Responsable de la liberación */
+  @Column({ type: 'varchar', length: 255, nullable: true, name: 'released_by' })
+  releasedBy: string | null;
+
+  /** Motivo de la liberación */
+  @Column({ type: 'varchar', length: 500, nullable: true, name: 'release_reason' })
+  releaseReason: string | null;
+}
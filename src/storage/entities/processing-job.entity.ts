@@ -0,0 +1,94 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn, UpdateDateColumn, Index, BeforeInsert } from 'typeorm';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Tipos de trabajo de procesamiento en segundo plano.
+ * @enum {string}
+ */
+export enum JobType {
+  /** Generar la miniatura de una imagen o de la primera página de un PDF */
+  THUMBNAIL = 'thumbnail',
+}
+
+/**
+ * Estados de un trabajo.
+ * @enum {string}
+ */
+export enum JobStatus {
+  /** En cola, o esperando su próximo reintento */
+  PENDING = 'pending',
+  /** Tomado por un worker */
+  RUNNING = 'running',
+  /** Terminado con éxito */
+  COMPLETED = 'completed',
+  /** Agotó sus reintentos (puede reintentarse manualmente) */
+  FAILED = 'failed',
+}
+
+/**
+ * Trabajo de procesamiento en segundo plano sobre el contenido de un archivo.
+ * La tabla es la cola: los workers toman los trabajos vencidos con FOR UPDATE SKIP LOCKED.
+ * @class ProcessingJob
+ */
+@Entity('processing_jobs')
+@Index(['status', 'runAt'])
+@Index(['fileId', 'createdAt'])
+export class ProcessingJob {
+  /** Identificador único UUID del trabajo */
+  @PrimaryColumn('uuid')
+  id: string;
+
+  /**
+   * Genera automáticamente el UUID antes de insertar si no existe.
+   */
+  @BeforeInsert()
+  generateId() {
+    if (!this.id) {
+      this.id = uuidv4();
+    }
+  }
+
+  /** Tipo de trabajo */
+  @Column({ type: 'enum', enum: JobType })
+  type: JobType;
+
+  /** Archivo procesado */
+  @Column({ type: 'uuid', name: 'file_id' })
+  fileId: string;
+
+  /** Hash SHA-256 del contenido a procesar (una versión nueva puede haberlo reemplazado) */
+  @Column({ type: 'varchar', length: 64 })
+  checksum: string;
+
+  /** Estado del trabajo */
+  @Column({ type: 'enum', enum: JobStatus, default: JobStatus.PENDING })
+  status: JobStatus;
+
+  /** Intentos realizados */
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  /** Fecha desde la que puede ejecutarse (primer intento o reintento) */
+  @Column({ type: 'timestamp', precision: 3, name: 'run_at' })
+  runAt: Date;
+
+  /** Vencimiento del trabajo en curso: pasado este momento se considera abandonado y vuelve a tomarse */
+  @Column({ type: 'timestamp', precision: 3, nullable: true, name: 'locked_until' })
+  lockedUntil: Date | null;
+
+  /** Error del último intento fallido */
+  @Column({ type: 'varchar', length: 500, nullable: true, name: 'last_error' })
+  lastError: string | null;
+
+  /** Fecha de finalización */
+  @Column({ type: 'timestamp', nullable: true, name: 'completed_at' })
+  completedAt: Date | null;
+
+  /** Fecha de creación */
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  /** Fecha de última actualización */
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
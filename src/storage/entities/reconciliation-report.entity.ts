@@ -0,0 +1,129 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn, Index, BeforeInsert } from 'typeorm';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Estados de una ejecución de la reconciliación.
+ * @enum {string}
+ */
+export enum ReconciliationStatus {
+  /** En curso */
+  RUNNING = 'RUNNING',
+  /** Finalizada (con o sin inconsistencias) */
+  COMPLETED = 'COMPLETED',
+  /** Interrumpida por un error */
+  FAILED = 'FAILED',
+}
+
+/**
+ * Tipos de inconsistencia entre la BD y el almacenamiento.
+ * @enum {string}
+ */
+export enum ReconciliationIssueType {
+  /** Registro cuyo objeto no existe en el almacenamiento */
+  MISSING_OBJECT = 'MISSING_OBJECT',
+  /** Objeto en el almacenamiento que ningún registro referencia */
+  STRAY_OBJECT = 'STRAY_OBJECT',
+  /** Imagen sin miniatura, o con una miniatura que no existe */
+  MISSING_THUMBNAIL = 'MISSING_THUMBNAIL',
+  /** Miniatura de otro contenido o anterior al contenido vigente */
+  STALE_THUMBNAIL = 'STALE_THUMBNAIL',
+  /** Objeto cuyo hash no coincide con el checksum registrado */
+  CHECKSUM_MISMATCH = 'CHECKSUM_MISMATCH',
+}
+
+/**
+ * Inconsistencia detectada por la reconciliación.
+ */
+export interface ReconciliationIssue {
+  type: ReconciliationIssueType;
+  /** Clave del objeto afectado */
+  key: string;
+  /** Archivo afectado (null para objetos huérfanos) */
+  fileId: string | null;
+  /** Versión afectada (null = vigente o no aplica) */
+  versionNumber: number | null;
+  /** Detalle legible */
+  detail: string | null;
+  /** true si la reparación la corrigió */
+  repaired: boolean;
+}
+
+/**
+ * Contadores de una ejecución.
+ */
+export interface ReconciliationSummary {
+  /** Archivos revisados */
+  files: number;
+  /** Versiones anteriores revisadas */
+  versions: number;
+  /** Objetos del almacenamiento revisados */
+  objects: number;
+  /** Inconsistencias por tipo */
+  issues: Record<ReconciliationIssueType, number>;
+  /** Inconsistencias corregidas */
+  repaired: number;
+}
+
+/**
+ * Entidad de reporte de reconciliación.
+ * Registra el resultado de cada comparación entre los metadatos en BD y los objetos
+ * almacenados, con el detalle de las inconsistencias encontradas (y reparadas).
+ * @class ReconciliationReport
+ */
+@Entity('reconciliation_reports')
+@Index(['startedAt'])
+export class ReconciliationReport {
+  /** Identificador único UUID del reporte */
+  @PrimaryColumn('uuid')
+  id: string;
+
+  /**
+   * Genera automáticamente el UUID antes de insertar si no existe.
+   */
+  @BeforeInsert()
+  generateId() {
+    if (!this.id) {
+      this.id = uuidv4();
+    }
+  }
+
+  /** Estado de la ejecución */
+  @Column({ type: 'enum', enum: ReconciliationStatus, default: ReconciliationStatus.RUNNING })
+  status: ReconciliationStatus;
+
+  /** true si solo se reportó, sin reparar */
+  @Column({ type: 'boolean', default: true, name: 'dry_run' })
+  dryRun: boolean;
+
+  /** true si se verificaron los checksums (lee el contenido de cada objeto) */
+  @Column({ type: 'boolean', default: false, name: 'verify_checksums' })
+  verifyChecksums: boolean;
+
+  /** Quién inició la ejecución (nombre de la API key o "system:schedule") */
+  @Column({ type: 'varchar', length: 255, nullable: true, name: 'triggered_by' })
+  triggeredBy: string | null;
+
+  /** Contadores (se actualizan al finalizar) */
+  @Column({ type: 'jsonb', nullable: true })
+  summary: ReconciliationSummary | null;
+
+  /** Detalle de las inconsistencias (como máximo las primeras MAX_REPORTED_ISSUES) */
+  @Column({ type: 'jsonb', default: () => "'[]'" })
+  issues: ReconciliationIssue[];
+
+  /** true si se encontraron más inconsistencias de las detalladas */
+  @Column({ type: 'boolean', default: false })
+  truncated: boolean;
+
+  /** Error que interrumpió la ejecución */
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  /** Fecha de inicio */
+  @CreateDateColumn({ name: 'started_at' })
+  startedAt: Date;
+
+  /** Fecha de finalización */
+  @Column({ type: 'timestamp', nullable: true, name: 'finished_at' })
+  finishedAt: Date | null;
+}
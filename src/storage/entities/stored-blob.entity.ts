@@ -0,0 +1,46 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+
+/**
+ * Entidad de blob direccionado por contenido.
+ * Cada contenido distinto (identificado por su SHA-256) se almacena una sola vez;
+ * los archivos que lo comparten lo referencian y refCount lleva la cuenta de referencias.
+ * @class StoredBlob
+ */
+@Entity('stored_blobs')
+export class StoredBlob {
+  /** Hash SHA-256 del contenido en hexadecimal */
+  @PrimaryColumn({ type: 'varchar', length: 64 })
+  checksum: string;
+
+  /** Clave del objeto en el driver de almacenamiento */
+  @Column({ type: 'varchar', length: 500 })
+  path: string;
+
+  /** Driver de almacenamiento que contiene el blob */
+  @Column({ type: 'varchar', length: 20, default: 'local', name: 'storage_driver' })
+  storageDriver: string;
+
+  /** Bucket que contiene el blob (solo drivers de objetos) */
+  @Column({ type: 'varchar', length: 255, nullable: true, name: 'storage_bucket' })
+  storageBucket: string;
+
+  /** Tamaño del contenido en bytes */
+  @Column({ type: 'bigint' })
+  size: number;
+
+  /** Clave de la miniatura generada para el contenido (solo imágenes) */
+  @Column({ type: 'varchar', length: 500, nullable: true, name: 'thumbnail_path' })
+  thumbnailPath: string;
+
+  /** Cantidad de archivos que referencian este contenido */
+  @Column({ type: 'int', default: 0, name: 'ref_count' })
+  refCount: number;
+
+  /** Fecha en que se almacenó el contenido por primera vez */
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  /** Fecha de última actualización */
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,152 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  BeforeInsert,
+} from 'typeorm';
+import { v4 as uuidv4 } from 'uuid';
+import { FileCategory, EntityType } from './file-metadata.entity';
+
+/**
+ * Estados de una sesión de subida por partes.
+ * @enum {string}
+ */
+export enum UploadSessionStatus {
+  /** Recibiendo partes */
+  PENDING = 'PENDING',
+  /** Ensamblando y validando el archivo final */
+  COMPLETING = 'COMPLETING',
+  /** Archivo creado correctamente */
+  COMPLETED = 'COMPLETED',
+  /** Cancelada por el cliente o rechazada en la validación final */
+  ABORTED = 'ABORTED',
+  /** Expirada por inactividad y purgada */
+  EXPIRED = 'EXPIRED',
+}
+
+/**
+ * Entidad de sesión de subida reanudable.
+ * Guarda el estado de una subida por partes para que pueda continuar tras cortes de conexión
+ * o reinicios del servicio. Las partes se almacenan en temp/uploads/{id}/.
+ * @class UploadSession
+ */
+@Entity('upload_sessions')
+@Index(['status', 'expiresAt'])
+export class UploadSession {
+  /** Identificador único UUID de la sesión */
+  @PrimaryColumn('uuid')
+  id: string;
+
+  /**
+   * Genera automáticamente el UUID antes de insertar si no existe.
+   */
+  @BeforeInsert()
+  generateId() {
+    if (!this.id) {
+      this.id = uuidv4();
+    }
+  }
+
+  /** Nombre original del archivo */
+  @Column({ type: 'varchar', length: 500, name: 'original_filename' })
+  originalFilename: string;
+
+  /** Tipo MIME declarado por el cliente */
+  @Column({ type: 'varchar', length: 100 })
+  mimetype: string;
+
+  /** Tamaño total esperado en bytes */
+  @Column({ type: 'bigint', name: 'total_size' })
+  totalSize: number;
+
+  /** Tamaño de cada parte en bytes (la última puede ser menor) */
+  @Column({ type: 'int', name: 'chunk_size' })
+  chunkSize: number;
+
+  /** Cantidad total de partes */
+  @Column({ type: 'int', name: 'total_chunks' })
+  totalChunks: number;
+
+  /** Categoría del archivo final */
+  @Column({ type: 'enum', enum: FileCategory, default: FileCategory.OTHER })
+  category: FileCategory;
+
+  /** Tipo de entidad asociada al archivo final (opcional) */
+  @Column({
+    type: 'enum',
+    enum: EntityType,
+    nullable: true,
+    name: 'entity_type',
+  })
+  entityType: EntityType;
+
+  /** ID de la entidad asociada (opcional) */
+  @Column({ type: 'uuid', nullable: true, name: 'entity_id' })
+  entityId: string;
+
+  /** ID del usuario que sube el archivo */
+  @Column({ type: 'uuid', nullable: true, name: 'uploaded_by' })
+  uploadedBy: string;
+
+  /** ID de la API key que creó la sesión (solo esa key puede operar sobre ella) */
+  @Column({
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+    name: 'created_by_key_id',
+  })
+  createdByKeyId: string | null;
+
+  /** Descripción del archivo final */
+  @Column({ type: 'text', nullable: true })
+  description: string;
+
+  /** Metadatos adicionales del archivo final */
+  @Column({ type: 'jsonb', nullable: true })
+  metadata: Record<string, any>;
+
+  /** Driver donde se guardan las partes */
+  @Column({
+    type: 'varchar',
+    length: 20,
+    default: 'local',
+    name: 'storage_driver',
+  })
+  storageDriver: string;
+
+  /** Bucket donde se guardan las partes (solo drivers de objetos) */
+  @Column({
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+    name: 'storage_bucket',
+  })
+  storageBucket: string;
+
+  /** Estado actual de la sesión */
+  @Column({
+    type: 'enum',
+    enum: UploadSessionStatus,
+    default: UploadSessionStatus.PENDING,
+  })
+  status: UploadSessionStatus;
+
+  /** ID del archivo creado al completar la sesión */
+  @Column({ type: 'uuid', nullable: true, name: 'file_id' })
+  fileId: string;
+
+  /** Fecha de creación de la sesión */
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  /** Fecha de última actividad */
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  /** Fecha a partir de la cual la sesión se considera abandonada */
+  @Column({ type: 'timestamp', name: 'expires_at' })
+  expiresAt: Date;
+}
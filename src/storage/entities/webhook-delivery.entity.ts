@@ -0,0 +1,94 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn, Index, BeforeInsert } from 'typeorm';
+import { v4 as uuidv4 } from 'uuid';
+import { WebhookEvent } from './webhook-subscription.entity';
+
+/**
+ * Estados de una entrega de webhook.
+ * @enum {string}
+ */
+export enum WebhookDeliveryStatus {
+  /** Pendiente de enviar o de reintentar */
+  PENDING = 'pending',
+  /** Recibida por el destino (respuesta 2xx) */
+  DELIVERED = 'delivered',
+  /** Agotó los reintentos o la suscripción se desactivó (dead letter) */
+  DEAD = 'dead',
+}
+
+/**
+ * Entrega de un evento a una suscripción.
+ * Se registra antes de enviarse, por lo que sobrevive a reinicios; se reintenta con espera
+ * exponencial hasta entregarse o agotar los intentos.
+ * @class WebhookDelivery
+ */
+@Entity('webhook_deliveries')
+@Index(['status', 'nextAttemptAt'])
+@Index(['subscriptionId', 'createdAt'])
+@Index(['fileId'])
+export class WebhookDelivery {
+  /** Identificador único UUID de la entrega (se envía en X-Webhook-Delivery) */
+  @PrimaryColumn('uuid')
+  id: string;
+
+  /**
+   * Genera automáticamente el UUID antes de insertar si no existe.
+   */
+  @BeforeInsert()
+  generateId() {
+    if (!this.id) {
+      this.id = uuidv4();
+    }
+  }
+
+  /** Suscripción destino */
+  @Column({ type: 'uuid', name: 'subscription_id' })
+  subscriptionId: string;
+
+  /** ID del evento, común a las entregas del mismo evento a distintas suscripciones */
+  @Column({ type: 'uuid', name: 'event_id' })
+  eventId: string;
+
+  /** Evento notificado */
+  @Column({ type: 'enum', enum: WebhookEvent })
+  event: WebhookEvent;
+
+  /** Archivo del evento */
+  @Column({ type: 'uuid', nullable: true, name: 'file_id' })
+  fileId: string | null;
+
+  /** Cuerpo enviado */
+  @Column({ type: 'jsonb' })
+  payload: Record<string, unknown>;
+
+  /** Estado de la entrega */
+  @Column({ type: 'enum', enum: WebhookDeliveryStatus, default: WebhookDeliveryStatus.PENDING })
+  status: WebhookDeliveryStatus;
+
+  /** Intentos realizados */
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  /** Próximo intento (null si ya no se reintenta) */
+  @Column({ type: 'timestamp', precision: 3, nullable: true, name: 'next_attempt_at' })
+  nextAttemptAt: Date | null;
+
+  /** Fecha del último intento */
+  @Column({ type: 'timestamp', nullable: true, name: 'last_attempt_at' })
+  lastAttemptAt: Date | null;
+
+  /** Código HTTP de la última respuesta (null si no hubo respuesta) */
+  @Column({ type: 'int', nullable: true, name: 'last_status_code' })
+  lastStatusCode: number | null;
+
+  /** Error del último intento fallido */
+  @Column({ type: 'varchar', length: 500, nullable: true, name: 'last_error' })
+  lastError: string | null;
+
+  /** Fecha de entrega */
+  @Column({ type: 'timestamp', nullable: true, name: 'delivered_at' })
+  deliveredAt: Date | null;
+
+  /** Fecha del evento */
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
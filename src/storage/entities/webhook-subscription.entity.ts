@@ -0,0 +1,78 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn, UpdateDateColumn, BeforeInsert } from 'typeorm';
+import { v4 as uuidv4 } from 'uuid';
+import { FileCategory, EntityType } from './file-metadata.entity';
+
+/**
+ * Eventos del ciclo de vida de los archivos que se notifican por webhook.
+ * @enum {string}
+ */
+export enum WebhookEvent {
+  /** Archivo subido (nuevo, o nueva versión de uno existente) */
+  FILE_UPLOADED = 'file.uploaded',
+  /** Archivo eliminado (soft delete) */
+  FILE_DELETED = 'file.deleted',
+  /** Archivo eliminado restaurado dentro de su plazo de retención */
+  FILE_RESTORED = 'file.restored',
+  /** Escaneo antivirus terminado (en la subida o al re-escanear) */
+  SCAN_COMPLETED = 'scan.completed',
+  /** Miniatura disponible para el archivo */
+  THUMBNAIL_GENERATED = 'thumbnail.generated',
+}
+
+/**
+ * Suscripción a webhooks: URL que recibe los eventos elegidos, firmados con su secreto.
+ * Puede acotarse a categorías y tipos de entidad.
+ * @class WebhookSubscription
+ */
+@Entity('webhook_subscriptions')
+export class WebhookSubscription {
+  /** Identificador único UUID de la suscripción */
+  @PrimaryColumn('uuid')
+  id: string;
+
+  /**
+   * Genera automáticamente el UUID antes de insertar si no existe.
+   */
+  @BeforeInsert()
+  generateId() {
+    if (!this.id) {
+      this.id = uuidv4();
+    }
+  }
+
+  /** URL que recibe los POST */
+  @Column({ type: 'varchar', length: 2048 })
+  url: string;
+
+  /** Secreto de la firma HMAC (se necesita en claro para firmar; no se lee por defecto) */
+  @Column({ type: 'varchar', length: 128, select: false })
+  secret: string;
+
+  /** Eventos notificados */
+  @Column({ type: 'enum', enum: WebhookEvent, array: true })
+  events: WebhookEvent[];
+
+  /** Categorías notificadas (null = todas) */
+  @Column({ type: 'enum', enum: FileCategory, array: true, nullable: true })
+  categories: FileCategory[] | null;
+
+  /** Tipos de entidad notificados (null = todos) */
+  @Column({ type: 'enum', enum: EntityType, array: true, nullable: true, name: 'entity_types' })
+  entityTypes: EntityType[] | null;
+
+  /** Descripción (ej: sistema que la consume) */
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  description: string | null;
+
+  /** Si está desactivada no recibe eventos nuevos y sus entregas pendientes no se envían */
+  @Column({ type: 'boolean', default: true })
+  active: boolean;
+
+  /** Fecha de creación */
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  /** Fecha de última actualización */
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,125 @@
+import { BadRequestException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { FileSearchService, renderHighlight } from './file-search.service';
+import { FileCategory, FileMetadata } from './entities/file-metadata.entity';
+
+// uuid solo se publica como ESM y Jest carga los módulos como CommonJS
+jest.mock('uuid', () => ({ v4: () => jest.requireActual<typeof import('crypto')>('crypto').randomUUID() }));
+
+describe('FileSearchService', () => {
+  let conditions: string[];
+  let parameters: Record<string, unknown>;
+  let selects: string[];
+  let orders: string[];
+  let raw: Record<string, unknown>[];
+  let service: FileSearchService;
+
+  beforeEach(() => {
+    conditions = [];
+    parameters = {};
+    selects = [];
+    orders = [];
+    raw = [];
+
+    const repository = {
+      createQueryBuilder: () => {
+        const record = (condition: string, params?: Record<string, unknown>) => {
+          conditions.push(condition);
+          Object.assign(parameters, params);
+          return builder;
+        };
+        const builder = {
+          where: record,
+          andWhere: record,
+          addSelect: (selection: string, alias: string) => {
+            selects.push(alias);
+            return builder;
+          },
+          setParameters: () => builder,
+          orderBy: (order: string) => {
+            orders.push(order);
+            return builder;
+          },
+          addOrderBy: (order: string) => {
+            orders.push(order);
+            return builder;
+          },
+          limit: () => builder,
+          offset: () => builder,
+          getCount: () => Promise.resolve(raw.length),
+          getRawAndEntities: () =>
+            Promise.resolve({
+              raw,
+              entities: raw.map((row) => Object.assign(new FileMetadata(), { id: row.file_id })),
+            }),
+        };
+        return builder;
+      },
+    };
+    service = new FileSearchService(repository as unknown as Repository<FileMetadata>);
+  });
+
+  it('should combine the key restrictions with every metadata filter', async () => {
+    await service.search(
+      {
+        category: FileCategory.DOCUMENT,
+        mimetype: 'Image/*',
+        uploadedFrom: '2024-01-01',
+        uploadedTo: '2024-02-01',
+        minSize: 10,
+        maxSize: 2048,
+        metadata: '{"source":"app"}',
+      },
+      { allowedCategories: [FileCategory.DOCUMENT], allowedEntityTypes: null },
+    );
+
+    expect(conditions).toEqual([
+      'file.active = :active',
+      'file.category IN (:...allowedCategories)',
+      'file.category = :category',
+      'file.mimetype LIKE :mimetypeFamily',
+      'file.uploadedAt >= :uploadedFrom',
+      'file.uploadedAt < :uploadedTo',
+      'file.size >= :minSize',
+      'file.size <= :maxSize',
+      'file.metadata @> CAST(:metadata AS jsonb)',
+    ]);
+    expect(parameters).toMatchObject({ mimetypeFamily: 'image/%', metadata: '{"source":"app"}' });
+    expect(selects).toEqual([]);
+    expect(orders).toEqual(['file.uploadedAt']);
+  });
+
+  it('should rank text matches and return escaped highlights', async () => {
+    raw = [
+      {
+        file_id: 'file-1',
+        search_rank: '0.5',
+        search_filename: 'informe \u0001anual\u0002 pdf',
+        search_description: 'sin coincidencias',
+        search_text: '<b>Resumen</b> del \u0001año\u0002 & cierre',
+      },
+    ];
+
+    const { data, total } = await service.search({ q: '  informe anual ' });
+
+    expect(total).toBe(1);
+    expect(conditions).toContain("file.searchVector @@ websearch_to_tsquery('spanish', :q)");
+    expect(parameters.q).toBe('informe anual');
+    expect(orders).toEqual(['search_rank', 'file.uploadedAt']);
+    expect(data[0]).toMatchObject({
+      id: 'file-1',
+      rank: 0.5,
+      highlights: {
+        filename: 'informe <mark>anual</mark> pdf',
+        description: null,
+        text: '&lt;b&gt;Resumen&lt;/b&gt; del <mark>año</mark> &amp; cierre',
+      },
+    });
+  });
+
+  it('should reject inconsistent filters', async () => {
+    await expect(service.search({ minSize: 10, maxSize: 5 })).rejects.toThrow(BadRequestException);
+    await expect(service.search({ metadata: '["source"]' })).rejects.toThrow(BadRequestException);
+    expect(renderHighlight(null)).toBeNull();
+  });
+});
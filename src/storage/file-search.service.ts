@@ -0,0 +1,213 @@
+import { Injectable, BadRequestException, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { FileMetadata, SEARCH_TEXT_CONFIG } from './entities/file-metadata.entity';
+import { SearchFilesDto } from './dto/search-files.dto';
+import type { ApiKeyPrincipal } from './api-key.service';
+
+/**
+ * Fragmentos donde aparecen los términos buscados, en HTML seguro con los términos en <mark>.
+ * Un campo sin coincidencias queda en null.
+ */
+export interface SearchHighlights {
+  filename: string | null;
+  description: string | null;
+  text: string | null;
+}
+
+/** Archivo encontrado, con su relevancia (null si no se buscó texto) y fragmentos resaltados */
+export type FileSearchResult = FileMetadata & { rank: number | null; highlights: SearchHighlights | null };
+
+/** Marcadores de ts_headline: caracteres de control que no aparecen en texto normal */
+const HIGHLIGHT_START = '\u0001';
+const HIGHLIGHT_STOP = '\u0002';
+
+/** Fragmentos cortos para textos largos; el nombre se resalta completo */
+const FRAGMENT_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=25, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "`;
+const FULL_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, HighlightAll=true`;
+
+/** Consulta de texto completo (sintaxis web: "frase", OR, -excluir) */
+const TS_QUERY = `websearch_to_tsquery('${SEARCH_TEXT_CONFIG}', :q)`;
+
+/**
+ * Índices GIN de la búsqueda (TypeORM no los define: las entidades los declaran con synchronize: false).
+ */
+const SEARCH_INDEXES = [
+  'CREATE INDEX IF NOT EXISTS "IDX_files_metadata_search_vector" ON "files_metadata" USING gin ("search_vector")',
+  'CREATE INDEX IF NOT EXISTS "IDX_files_metadata_metadata" ON "files_metadata" USING gin ("metadata" jsonb_path_ops)',
+];
+
+/**
+ * Convierte un fragmento de ts_headline en HTML seguro: escapa el contenido y marca los términos con <mark>.
+ * @param fragment - Fragmento con los marcadores de ts_headline
+ * @returns HTML del fragmento, o null si no contiene coincidencias
+ */
+export function renderHighlight(fragment: string | null | undefined): string | null {
+  if (!fragment || !fragment.includes(HIGHLIGHT_START)) {
+    return null;
+  }
+  return fragment
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replaceAll(HIGHLIGHT_START, '<mark>')
+    .replaceAll(HIGHLIGHT_STOP, '</mark>');
+}
+
+/**
+ * Servicio de búsqueda de archivos.
+ * Combina búsqueda de texto completo de Postgres (nombre, descripción, claves y valores de metadata y texto
+ * extraído de documentos, con índice GIN) con filtros por entidad, tipo MIME, fechas, tamaño y metadata.
+ * Los resultados se ordenan por relevancia e incluyen fragmentos resaltados.
+ * @class FileSearchService
+ */
+@Injectable()
+export class FileSearchService implements OnModuleInit {
+  private readonly logger = new Logger(FileSearchService.name);
+
+  constructor(
+    @InjectRepository(FileMetadata)
+    private fileMetadataRepository: Repository<FileMetadata>,
+  ) {}
+
+  /**
+   * Crea los índices GIN de búsqueda si no existen.
+   * Si fallan (ej: columna aún no creada), la búsqueda funciona igual pero sin índice.
+   */
+  async onModuleInit(): Promise<void> {
+    for (const statement of SEARCH_INDEXES) {
+      try {
+        await this.fileMetadataRepository.query(statement);
+      } catch (error) {
+        this.logger.warn(`⚠️ Unable to create search index: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  /**
+   * Busca archivos activos.
+   * @param filters - Texto y filtros de búsqueda
+   * @param restrictions - Categorías/tipos de entidad permitidos para la API key (null = todos)
+   * @returns Página de resultados y total de coincidencias
+   * @throws BadRequestException si los filtros son inconsistentes
+   */
+  async search(
+    filters: SearchFilesDto,
+    restrictions?: Pick<ApiKeyPrincipal, 'allowedCategories' | 'allowedEntityTypes'>,
+  ): Promise<{ data: FileSearchResult[]; total: number }> {
+    if (filters.minSize !== undefined && filters.maxSize !== undefined && filters.minSize > filters.maxSize) {
+      throw new BadRequestException('minSize must not be greater than maxSize');
+    }
+
+    const query = this.fileMetadataRepository.createQueryBuilder('file')
+      .where('file.active = :active', { active: true });
+
+    if (restrictions?.allowedCategories) {
+      query.andWhere('file.category IN (:...allowedCategories)', { allowedCategories: restrictions.allowedCategories });
+    }
+    if (restrictions?.allowedEntityTypes) {
+      query.andWhere('file.entityType IN (:...allowedEntityTypes)', { allowedEntityTypes: restrictions.allowedEntityTypes });
+    }
+
+    if (filters.category) {
+      query.andWhere('file.category = :category', { category: filters.category });
+    }
+    if (filters.entityType) {
+      query.andWhere('file.entityType = :entityType', { entityType: filters.entityType });
+    }
+    if (filters.entityId) {
+      query.andWhere('file.entityId = :entityId', { entityId: filters.entityId });
+    }
+    if (filters.uploadedBy) {
+      query.andWhere('file.uploadedBy = :uploadedBy', { uploadedBy: filters.uploadedBy });
+    }
+    if (filters.mimetype) {
+      const mimetype = filters.mimetype.toLowerCase();
+      if (mimetype.endsWith('/*')) {
+        query.andWhere('file.mimetype LIKE :mimetypeFamily', { mimetypeFamily: `${mimetype.slice(0, -1)}%` });
+      } else {
+        query.andWhere('file.mimetype = :mimetype', { mimetype });
+      }
+    }
+    if (filters.uploadedFrom) {
+      query.andWhere('file.uploadedAt >= :uploadedFrom', { uploadedFrom: new Date(filters.uploadedFrom) });
+    }
+    if (filters.uploadedTo) {
+      query.andWhere('file.uploadedAt < :uploadedTo', { uploadedTo: new Date(filters.uploadedTo) });
+    }
+    if (filters.minSize !== undefined) {
+      query.andWhere('file.size >= :minSize', { minSize: filters.minSize });
+    }
+    if (filters.maxSize !== undefined) {
+      query.andWhere('file.size <= :maxSize', { maxSize: filters.maxSize });
+    }
+    if (filters.metadata) {
+      query.andWhere('file.metadata @> CAST(:metadata AS jsonb)', { metadata: this.parseMetadataFilter(filters.metadata) });
+    }
+
+    const q = filters.q?.trim();
+    if (q) {
+      query.andWhere(`file.searchVector @@ ${TS_QUERY}`, { q });
+    }
+
+    const total = await query.getCount();
+
+    if (q) {
+      query
+        .addSelect(`ts_rank_cd(file.searchVector, ${TS_QUERY})`, 'search_rank')
+        .addSelect(
+          `ts_headline('${SEARCH_TEXT_CONFIG}', translate(file.originalFilename, '._-', '   '), ${TS_QUERY}, :fullOptions)`,
+          'search_filename',
+        )
+        .addSelect(
+          `ts_headline('${SEARCH_TEXT_CONFIG}', coalesce(file.description, ''), ${TS_QUERY}, :fragmentOptions)`,
+          'search_description',
+        )
+        .addSelect(
+          `ts_headline('${SEARCH_TEXT_CONFIG}', coalesce(file.extractedText, ''), ${TS_QUERY}, :fragmentOptions)`,
+          'search_text',
+        )
+        .setParameters({ fullOptions: FULL_OPTIONS, fragmentOptions: FRAGMENT_OPTIONS })
+        .orderBy('search_rank', 'DESC')
+        .addOrderBy('file.uploadedAt', 'DESC');
+    } else {
+      query.orderBy('file.uploadedAt', 'DESC');
+    }
+
+    const { entities, raw } = await query
+      .limit(filters.limit ?? 20)
+      .offset(filters.offset ?? 0)
+      .getRawAndEntities<Record<string, string | number | null>>();
+
+    const rawById = new Map(raw.map((row) => [row.file_id, row]));
+    const data = entities.map((file) => {
+      const row = rawById.get(file.id);
+      return Object.assign(file, {
+        rank: q && row ? Number(row.search_rank) : null,
+        highlights:
+          q && row
+            ? {
+                filename: renderHighlight(row.search_filename as string | null),
+                description: renderHighlight(row.search_description as string | null),
+                text: renderHighlight(row.search_text as string | null),
+              }
+            : null,
+      });
+    });
+
+    return { data, total };
+  }
+
+  /**
+   * Valida el filtro de metadata: debe ser un objeto JSON.
+   * @private
+   */
+  private parseMetadataFilter(metadata: string): string {
+    const parsed: unknown = JSON.parse(metadata);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new BadRequestException('metadata must be a JSON object');
+    }
+    return JSON.stringify(parsed);
+  }
+}
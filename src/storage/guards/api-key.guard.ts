@@ -1,61 +1,78 @@
-import { Injectable, CanActivate, ExecutionContext, UnauthorizedException, Logger } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import * as crypto from 'crypto';
+import { Injectable, CanActivate, ExecutionContext, UnauthorizedException, ForbiddenException, Logger } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { SIGNED_URL_ACTION_KEY } from '../decorators/allow-signed-url.decorator';
+import { REQUIRED_SCOPE_KEY } from '../decorators/require-scope.decorator';
+import { SignedUrlAction, SignedUrlService } from '../signed-url.service';
+import { ApiKeyService, hasScope } from '../api-key.service';
+import { ApiKeyScope } from '../entities/api-key.entity';
 
 @Injectable()
 export class ApiKeyGuard implements CanActivate {
   private readonly logger = new Logger(ApiKeyGuard.name);
 
-  constructor(private configService: ConfigService) {}
+  constructor(
+    private reflector: Reflector,
+    private signedUrlService: SignedUrlService,
+    private apiKeyService: ApiKeyService,
+  ) {}
 
-  canActivate(context: ExecutionContext): boolean {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest();
     const apiKey = request.headers['x-api-key'];
     const clientIp = request.ip || request.connection?.remoteAddress || 'unknown';
     const userAgent = request.headers['user-agent'] || 'unknown';
 
-    if (!apiKey) {
+    // Sin API key: los endpoints marcados con @AllowSignedUrl aceptan una URL firmada
+    const signedAction = this.reflector.get<SignedUrlAction | undefined>(
+      SIGNED_URL_ACTION_KEY,
+      context.getHandler(),
+    );
+    const queryParam = (name: string): string | undefined =>
+      typeof request.query?.[name] === 'string' ? request.query[name] : undefined;
+    if (!apiKey && signedAction && queryParam('signature')) {
+      const isValidSignature = this.signedUrlService.verify({
+        action: signedAction,
+        fileId: request.params?.id,
+        expires: queryParam('expires'),
+        signature: queryParam('signature'),
+        disposition: queryParam('disposition'),
+        ip: queryParam('ip'),
+        requestIp: clientIp,
+      });
+
+      if (!isValidSignature) {
+        this.logger.warn(`🚫 Auth failed: Invalid or expired signed URL | IP: ${clientIp} | UA: ${userAgent}`);
+        throw new UnauthorizedException('Invalid or expired signature');
+      }
+
+      return true;
+    }
+
+    if (!apiKey || typeof apiKey !== 'string') {
       this.logger.warn(`🚫 Auth failed: No API key provided | IP: ${clientIp} | UA: ${userAgent}`);
       throw new UnauthorizedException('API key is required');
     }
 
-    const validKeys = [
-      this.configService.get<string>('API_KEY_MAIN'),
-      this.configService.get<string>('API_KEY_SECONDARY'),
-    ].filter(Boolean) as string[];
-
-    // Comparación constant-time para prevenir timing attacks
-    const isValid = validKeys.some(validKey => this.secureCompare(apiKey, validKey));
+    const principal = await this.apiKeyService.authenticate(apiKey);
 
-    if (!isValid) {
+    if (!principal) {
       this.logger.warn(`🚫 Auth failed: Invalid API key | IP: ${clientIp} | UA: ${userAgent} | Key prefix: ${apiKey.substring(0, 8)}...`);
       throw new UnauthorizedException('Invalid API key');
     }
 
-    return true;
-  }
+    // Endpoints sin @RequireScope solo están disponibles para administradores
+    const requiredScope =
+      this.reflector.getAllAndOverride<ApiKeyScope | undefined>(REQUIRED_SCOPE_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? ApiKeyScope.ADMIN;
 
-  /**
-   * Comparación constant-time para prevenir timing attacks.
-   * Siempre toma el mismo tiempo independientemente de dónde falle.
-   */
-  private secureCompare(provided: string, valid: string): boolean {
-    if (typeof provided !== 'string' || typeof valid !== 'string') {
-      return false;
+    if (!hasScope(principal, requiredScope)) {
+      this.logger.warn(`🚫 Auth failed: Key ${principal.name} lacks scope ${requiredScope} | IP: ${clientIp}`);
+      throw new ForbiddenException(`API key requires the ${requiredScope} scope`);
     }
 
-    // Padding para igualar longitudes (evita leak de longitud)
-    const maxLen = Math.max(provided.length, valid.length);
-    const paddedProvided = provided.padEnd(maxLen, '\0');
-    const paddedValid = valid.padEnd(maxLen, '\0');
-
-    try {
-      return crypto.timingSafeEqual(
-        Buffer.from(paddedProvided, 'utf8'),
-        Buffer.from(paddedValid, 'utf8')
-      );
-    } catch {
-      return false;
-    }
+    request.apiKey = principal;
+    return true;
   }
 }
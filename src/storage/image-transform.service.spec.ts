@@ -0,0 +1,126 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import sharp from 'sharp';
+import { ImageTransformService } from './image-transform.service';
+import type { StoredObjectSource } from './storage.service';
+import { FileMetadata } from './entities/file-metadata.entity';
+
+// uuid solo se publica como ESM y Jest carga los módulos como CommonJS
+jest.mock('uuid', () => ({ v4: () => jest.requireActual<typeof import('crypto')>('crypto').randomUUID() }));
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk as Buffer));
+  }
+  return Buffer.concat(chunks);
+}
+
+describe('ImageTransformService', () => {
+  let cachePath: string;
+  let service: ImageTransformService;
+  let opened: number;
+
+  function imageSource(content: Buffer, overrides: Partial<FileMetadata> = {}): StoredObjectSource {
+    const metadata = Object.assign(new FileMetadata(), {
+      id: 'file-1',
+      originalFilename: 'photo.png',
+      mimetype: 'image/png',
+      detectedMimetype: 'image/png',
+      checksum: 'ab'.repeat(32),
+      currentVersion: 1,
+      ...overrides,
+    });
+    return {
+      metadata,
+      size: content.length,
+      contentType: metadata.mimetype,
+      lastModified: new Date('2024-01-01T00:00:00Z'),
+      etag: `"${metadata.checksum}"`,
+      open: () => {
+        opened++;
+        return Promise.resolve(Readable.from([content]));
+      },
+    };
+  }
+
+  beforeEach(async () => {
+    cachePath = await fs.mkdtemp(path.join(os.tmpdir(), 'fcg-images-'));
+    opened = 0;
+    service = new ImageTransformService(
+      new ConfigService({
+        IMAGE_CACHE_PATH: cachePath,
+        IMAGE_PRESETS: 'avatar:64x64:cover:webp:80;wide:200x:inside:jpeg:85',
+        IMAGE_QUALITIES: '50',
+      }),
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(cachePath, { recursive: true, force: true });
+  });
+
+  it('should only allow the configured presets, formats and qualities', () => {
+    expect(service.resolveVariant({ preset: 'avatar' })).toMatchObject({ width: 64, height: 64, format: 'webp', quality: 80 });
+    expect(service.resolveVariant({ width: '200', format: 'jpg', quality: '50' })).toMatchObject({
+      name: 'wide',
+      height: null,
+      format: 'jpeg',
+      quality: 50,
+    });
+
+    expect(() => service.resolveVariant({ width: '4000', height: '4000' })).toThrow(BadRequestException);
+    expect(() => service.resolveVariant({ preset: 'avatar', width: '64' })).toThrow(BadRequestException);
+    expect(() => service.resolveVariant({ preset: 'avatar', format: 'tiff' })).toThrow(BadRequestException);
+    expect(() => service.resolveVariant({ preset: 'avatar', quality: '99' })).toThrow(BadRequestException);
+    expect(() => new ImageTransformService(new ConfigService({ IMAGE_PRESETS: 'bad:x:cover:webp:80' }))).toThrow(
+      'Invalid IMAGE_PRESETS entry',
+    );
+    expect(() => new ImageTransformService(new ConfigService({ IMAGE_CACHE_MAX_AGE_DAYS: 'month' }))).toThrow(
+      'Invalid IMAGE_CACHE_MAX_AGE_DAYS: expected a positive integer',
+    );
+  });
+
+  it('should generate the derivative once and serve it from the cache', async () => {
+    const png = await sharp({ create: { width: 300, height: 200, channels: 3, background: '#336699' } }).png().toBuffer();
+    const variant = service.resolveVariant({ preset: 'avatar', format: 'png' });
+
+    const first = await service.openDerivative(imageSource(png), variant);
+    const second = await service.openDerivative(imageSource(png), variant);
+
+    expect(opened).toBe(1);
+    expect(second.etag).toBe(first.etag);
+    expect(first.contentType).toBe('image/png');
+    const output = await sharp(await readAll(await second.open())).metadata();
+    expect(output).toMatchObject({ format: 'png', width: 64, height: 64 });
+
+    // Otro contenido (nueva versión) no reutiliza el derivado
+    await service.openDerivative(imageSource(png, { checksum: 'cd'.repeat(32) }), variant);
+    expect(opened).toBe(2);
+  });
+
+  it('should reject files that are not images', async () => {
+    const variant = service.resolveVariant({ preset: 'avatar' });
+    const pdf = imageSource(Buffer.from('%PDF-1.4'), { mimetype: 'application/pdf', detectedMimetype: 'application/pdf' });
+
+    await expect(service.openDerivative(pdf, variant)).rejects.toThrow(BadRequestException);
+    expect(opened).toBe(0);
+  });
+
+  it('should prune derivatives unused for longer than the configured age', async () => {
+    const stale = path.join(cachePath, 'ab', 'old.webp');
+    const fresh = path.join(cachePath, 'ab', 'new.webp');
+    await fs.mkdir(path.dirname(stale), { recursive: true });
+    await fs.writeFile(stale, 'old');
+    await fs.writeFile(fresh, 'new');
+    const longAgo = new Date(Date.now() - 60 * 24 * 60 * 60 * 1000);
+    await fs.utimes(stale, longAgo, longAgo);
+
+    await expect(service.pruneCache()).resolves.toEqual({ removed: 1 });
+    await expect(fs.readFile(fresh, 'utf8')).resolves.toBe('new');
+  });
+});
@@ -0,0 +1,369 @@
+import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { createReadStream, createWriteStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { pipeline } from 'stream/promises';
+import sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import type { StoredObjectSource } from './storage.service';
+
+/** Formatos de salida soportados */
+export const IMAGE_FORMATS = ['webp', 'avif', 'jpeg', 'png'] as const;
+export type ImageFormat = (typeof IMAGE_FORMATS)[number];
+
+/** Modos de ajuste de sharp */
+export const IMAGE_FITS = ['cover', 'contain', 'fill', 'inside', 'outside'] as const;
+export type ImageFit = (typeof IMAGE_FITS)[number];
+
+/**
+ * Preset permitido: define la geometría (y los valores por defecto de formato y calidad)
+ * de los derivados que pueden generarse.
+ */
+export interface ImagePreset {
+  name: string;
+  /** Ancho máximo en píxeles (null = proporcional) */
+  width: number | null;
+  /** Alto máximo en píxeles (null = proporcional) */
+  height: number | null;
+  fit: ImageFit;
+  format: ImageFormat;
+  quality: number;
+}
+
+/** Derivado concreto a generar: un preset con el formato y la calidad elegidos */
+export type ImageVariant = ImagePreset;
+
+/**
+ * Parámetros de transformación tal como llegan en la query.
+ */
+export interface ImageTransformParams {
+  preset?: string;
+  width?: string;
+  height?: string;
+  fit?: string;
+  format?: string;
+  quality?: string;
+}
+
+/** Presets por defecto: nombre:ANCHOxALTO:fit:formato:calidad (un lado vacío = proporcional) */
+const DEFAULT_IMAGE_PRESETS =
+  'avatar:128x128:cover:webp:80;thumb:300x300:cover:webp:80;small:480x:inside:webp:80;medium:960x:inside:webp:80;large:1920x:inside:webp:80';
+
+/** Calidades que pueden pedirse además de la del preset */
+const DEFAULT_IMAGE_QUALITIES = '60,75,90';
+
+/** Tipos de origen que pueden transformarse */
+const TRANSFORMABLE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/avif', 'image/svg+xml'];
+
+const CONTENT_TYPES: Record<ImageFormat, string> = {
+  webp: 'image/webp',
+  avif: 'image/avif',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Servicio de transformación de imágenes bajo demanda.
+ * Genera derivados (tamaño, ajuste, formato y calidad) con Sharp, limitados a los presets
+ * configurados en IMAGE_PRESETS, y los guarda en una caché en disco (IMAGE_CACHE_PATH)
+ * indexada por el checksum del contenido y los parámetros: una nueva versión del archivo
+ * usa automáticamente derivados nuevos. Los derivados sin uso se eliminan a diario.
+ * @class ImageTransformService
+ */
+@Injectable()
+export class ImageTransformService {
+  private readonly logger = new Logger(ImageTransformService.name);
+  private readonly presets: ImagePreset[];
+  private readonly qualities: Set<number>;
+  private readonly cachePath: string;
+  /** Días sin uso tras los que se elimina un derivado */
+  private readonly cacheMaxAgeDays: number;
+  /** Derivados en generación, para no generar dos veces el mismo */
+  private readonly pending = new Map<string, Promise<void>>();
+
+  constructor(private configService: ConfigService) {
+    this.presets = this.parsePresets(this.configService.get<string>('IMAGE_PRESETS') || DEFAULT_IMAGE_PRESETS);
+    this.qualities = new Set(
+      (this.configService.get<string>('IMAGE_QUALITIES') || DEFAULT_IMAGE_QUALITIES)
+        .split(',')
+        .map((value) => this.parseQuality(value.trim(), 'IMAGE_QUALITIES')),
+    );
+    this.cachePath = path.resolve(this.configService.get<string>('IMAGE_CACHE_PATH') || './cache/images');
+    this.cacheMaxAgeDays = parseInt(this.configService.get<string>('IMAGE_CACHE_MAX_AGE_DAYS') || '30', 10);
+    if (!Number.isInteger(this.cacheMaxAgeDays) || this.cacheMaxAgeDays < 1) {
+      throw new Error('Invalid IMAGE_CACHE_MAX_AGE_DAYS: expected a positive integer');
+    }
+
+    this.logger.log(`🖼️ Image presets: ${this.presets.map((preset) => preset.name).join(', ')}`);
+  }
+
+  /**
+   * Presets permitidos.
+   */
+  getPresets(): ImagePreset[] {
+    return this.presets;
+  }
+
+  /**
+   * Valida los parámetros pedidos contra los presets permitidos.
+   * Se puede indicar el preset por nombre o por su geometría (width/height/fit);
+   * formato y calidad toman por defecto los del preset.
+   * @param params - Parámetros de la query
+   * @returns Derivado a generar
+   * @throws BadRequestException si los parámetros no corresponden a un preset permitido
+   */
+  resolveVariant(params: ImageTransformParams): ImageVariant {
+    const preset = params.preset ? this.findPresetByName(params) : this.findPresetByGeometry(params);
+
+    let format = preset.format;
+    if (params.format) {
+      const requested = params.format.toLowerCase() === 'jpg' ? 'jpeg' : params.format.toLowerCase();
+      if (!(IMAGE_FORMATS as readonly string[]).includes(requested)) {
+        throw new BadRequestException(`Unsupported format ${params.format}. Allowed: ${IMAGE_FORMATS.join(', ')}`);
+      }
+      format = requested as ImageFormat;
+    }
+
+    let quality = preset.quality;
+    if (params.quality) {
+      quality = Number(params.quality);
+      if (quality !== preset.quality && !this.qualities.has(quality)) {
+        const allowed = [...new Set([preset.quality, ...this.qualities])].sort((a, b) => a - b);
+        throw new BadRequestException(`Quality ${params.quality} is not allowed. Allowed: ${allowed.join(', ')}`);
+      }
+    }
+
+    return { ...preset, format, quality };
+  }
+
+  /**
+   * Obtiene un derivado de una imagen, generándolo si no está en caché.
+   * @param original - Imagen original ya validada (existe, es servible y el cliente tiene acceso)
+   * @param variant - Derivado a generar
+   * @returns Derivado listo para ser servido por streaming
+   * @throws BadRequestException si el archivo no es una imagen transformable o no pudo procesarse
+   */
+  async openDerivative(original: StoredObjectSource, variant: ImageVariant): Promise<StoredObjectSource> {
+    const { metadata } = original;
+    const sourceType = metadata.detectedMimetype || metadata.mimetype;
+    if (!TRANSFORMABLE_TYPES.includes(sourceType)) {
+      throw new BadRequestException(`File type ${sourceType} cannot be transformed`);
+    }
+
+    // El checksum identifica el contenido: una nueva versión no reutiliza derivados antiguos
+    const contentKey = metadata.checksum || `${metadata.id}-v${metadata.currentVersion}`;
+    const variantKey = this.variantKey(variant);
+    const cacheFile = path.join(this.cachePath, contentKey.substring(0, 2), contentKey, variantKey);
+
+    let stat = await fs.stat(cacheFile).catch(() => null);
+    if (!stat) {
+      await this.generateOnce(cacheFile, original, variant);
+      stat = await fs.stat(cacheFile);
+    } else {
+      // La fecha de modificación marca el último uso (ver pruneCache)
+      const now = new Date();
+      await fs.utimes(cacheFile, now, now).catch(() => undefined);
+    }
+
+    return {
+      metadata,
+      size: stat.size,
+      contentType: CONTENT_TYPES[variant.format],
+      lastModified: original.lastModified,
+      etag: `"${contentKey}-${variantKey}"`,
+      open: (range) => Promise.resolve(createReadStream(cacheFile, range ? { start: range.start, end: range.end } : undefined)),
+    };
+  }
+
+  /**
+   * Limpieza programada (diaria, 4 AM): elimina los derivados sin uso en IMAGE_CACHE_MAX_AGE_DAYS.
+   * @returns Cantidad de derivados eliminados
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_4AM)
+  async pruneCache(): Promise<{ removed: number }> {
+    const cutoff = Date.now() - this.cacheMaxAgeDays * DAY_MS;
+    let removed = 0;
+
+    for await (const file of this.walk(this.cachePath)) {
+      const stat = await fs.stat(file).catch(() => null);
+      if (stat && stat.mtimeMs < cutoff) {
+        await fs.rm(file, { force: true });
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      this.logger.log(`🧹 Removed ${removed} unused image derivatives`);
+    }
+    return { removed };
+  }
+
+  /**
+   * Genera un derivado, compartiendo la generación entre peticiones simultáneas.
+   * @private
+   */
+  private async generateOnce(cacheFile: string, original: StoredObjectSource, variant: ImageVariant): Promise<void> {
+    let generation = this.pending.get(cacheFile);
+    if (!generation) {
+      generation = this.generate(cacheFile, original, variant).finally(() => this.pending.delete(cacheFile));
+      this.pending.set(cacheFile, generation);
+    }
+    await generation;
+  }
+
+  /**
+   * Transforma la imagen original y la guarda en caché.
+   * Se escribe a un archivo temporal y se renombra para no servir derivados a medio escribir.
+   * @private
+   */
+  private async generate(cacheFile: string, original: StoredObjectSource, variant: ImageVariant): Promise<void> {
+    await fs.mkdir(path.dirname(cacheFile), { recursive: true });
+    const tempFile = `${cacheFile}.${uuidv4()}.tmp`;
+
+    const transformer = sharp()
+      .rotate()
+      .resize({
+        width: variant.width ?? undefined,
+        height: variant.height ?? undefined,
+        fit: variant.fit,
+        withoutEnlargement: true,
+      });
+    if (variant.format === 'png') {
+      transformer.png();
+    } else {
+      transformer.toFormat(variant.format, { quality: variant.quality });
+    }
+
+    try {
+      await pipeline(await original.open(), transformer, createWriteStream(tempFile));
+      await fs.rename(tempFile, cacheFile);
+    } catch (error) {
+      await fs.rm(tempFile, { force: true });
+      this.logger.warn(`⚠️ Image transform failed for file ${original.metadata.id}: ${(error as Error).message}`);
+      throw new BadRequestException('Unable to transform the image');
+    }
+
+    this.logger.log(`🖼️ Derivative ${variant.name} (${variant.format}, q${variant.quality}) generated for file ${original.metadata.id}`);
+  }
+
+  /**
+   * Busca un preset por nombre; no admite geometría adicional.
+   * @private
+   */
+  private findPresetByName(params: ImageTransformParams): ImagePreset {
+    if (params.width || params.height || params.fit) {
+      throw new BadRequestException('Use either preset or width/height/fit, not both');
+    }
+
+    const preset = this.presets.find((candidate) => candidate.name === params.preset);
+    if (!preset) {
+      throw new BadRequestException(`Unknown preset ${params.preset}. Allowed: ${this.describePresets()}`);
+    }
+    return preset;
+  }
+
+  /**
+   * Busca el preset con la geometría pedida (fit es opcional si solo un preset coincide en tamaño).
+   * @private
+   */
+  private findPresetByGeometry(params: ImageTransformParams): ImagePreset {
+    if (!params.width && !params.height) {
+      throw new BadRequestException(`Provide a preset or width/height. Allowed: ${this.describePresets()}`);
+    }
+
+    const width = params.width ? Number(params.width) : null;
+    const height = params.height ? Number(params.height) : null;
+    const preset = this.presets.find(
+      (candidate) =>
+        candidate.width === width && candidate.height === height && (!params.fit || candidate.fit === params.fit),
+    );
+    if (!preset) {
+      const size = `${width ?? ''}x${height ?? ''}${params.fit ? ` (${params.fit})` : ''}`;
+      throw new BadRequestException(`Size ${size} is not allowed. Allowed: ${this.describePresets()}`);
+    }
+    return preset;
+  }
+
+  /**
+   * Nombre del derivado en caché: ANCHOxALTO-fit-qCALIDAD.formato
+   * @private
+   */
+  private variantKey(variant: ImageVariant): string {
+    return `${variant.width ?? ''}x${variant.height ?? ''}-${variant.fit}-q${variant.quality}.${variant.format}`;
+  }
+
+  /**
+   * Lista legible de presets para los mensajes de error.
+   * @private
+   */
+  private describePresets(): string {
+    return this.presets
+      .map((preset) => `${preset.name} (${preset.width ?? ''}x${preset.height ?? ''} ${preset.fit})`)
+      .join(', ');
+  }
+
+  /**
+   * Lee IMAGE_PRESETS: presets separados por ";" con formato nombre:ANCHOxALTO:fit:formato:calidad.
+   * @private
+   */
+  private parsePresets(raw: string): ImagePreset[] {
+    return raw
+      .split(';')
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const [name, size, fit, format, quality] = entry.split(':').map((part) => part.trim());
+        const match = /^(\d*)x(\d*)$/.exec(size ?? '');
+        if (
+          !name ||
+          !match ||
+          (!match[1] && !match[2]) ||
+          !(IMAGE_FITS as readonly string[]).includes(fit) ||
+          !(IMAGE_FORMATS as readonly string[]).includes(format)
+        ) {
+          throw new Error(`Invalid IMAGE_PRESETS entry: ${entry}`);
+        }
+
+        return {
+          name,
+          width: match[1] ? parseInt(match[1], 10) : null,
+          height: match[2] ? parseInt(match[2], 10) : null,
+          fit: fit as ImageFit,
+          format: format as ImageFormat,
+          quality: this.parseQuality(quality, 'IMAGE_PRESETS'),
+        };
+      });
+  }
+
+  /**
+   * Lee una calidad (1-100).
+   * @private
+   */
+  private parseQuality(raw: string | undefined, variable: string): number {
+    const quality = Number(raw);
+    if (!Number.isInteger(quality) || quality < 1 || quality > 100) {
+      throw new Error(`Invalid ${variable} quality: ${raw}`);
+    }
+    return quality;
+  }
+
+  /**
+   * Recorre recursivamente los archivos de un directorio (vacío si no existe).
+   * @private
+   */
+  private async *walk(directory: string): AsyncGenerator<string> {
+    const entries = await fs.readdir(directory, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      const fullPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        yield* this.walk(fullPath);
+      } else if (entry.isFile()) {
+        yield fullPath;
+      }
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import { CallHandler, ExecutionContext, NotFoundException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { EventEmitter } from 'events';
+import { lastValueFrom, Observable, of, throwError } from 'rxjs';
+import { AuditInterceptor } from './audit.interceptor';
+import { Audited } from '../decorators/audited.decorator';
+import { AuditService, type AuditEventInput } from '../audit.service';
+import { AuditAction, AuditOutcome } from '../entities/audit-event.entity';
+import { ApiKeyScope } from '../entities/api-key.entity';
+import type { ApiKeyPrincipal } from '../api-key.service';
+
+// uuid solo se publica como ESM y Jest carga los módulos como CommonJS
+jest.mock('uuid', () => ({ v4: () => jest.requireActual<typeof import('crypto')>('crypto').randomUUID() }));
+
+const FILE_ID = '2d3e4f50-6172-4839-8a4b-5c6d7e8f9012';
+const OTHER_FILE_ID = '9e8d7c6b-5a49-4382-b1a0-f9e8d7c6b5a4';
+
+/** Handler de un endpoint, marcado con @Audited si se indica la acción */
+function endpoint(action?: AuditAction): () => void {
+  const handler = () => undefined;
+  if (action) {
+    Audited(action)(handler);
+  }
+  return handler;
+}
+
+const apiKey: ApiKeyPrincipal = {
+  id: 'key-1',
+  name: 'backoffice',
+  source: 'database',
+  scopes: [ApiKeyScope.READ],
+  allowedCategories: null,
+  allowedEntityTypes: null,
+};
+
+/** Respuesta HTTP mínima: emite 'close' al terminar, como la de Express */
+type FakeResponse = EventEmitter & { statusCode: number; writableFinished: boolean; closed: boolean };
+
+describe('AuditInterceptor', () => {
+  let recorded: AuditEventInput[];
+  let interceptor: AuditInterceptor;
+  let response: FakeResponse;
+
+  beforeEach(() => {
+    recorded = [];
+    interceptor = new AuditInterceptor(new Reflector(), {
+      record: (input: AuditEventInput) => Promise.resolve(void recorded.push(input)),
+    } as unknown as AuditService);
+    response = Object.assign(new EventEmitter(), { statusCode: 200, writableFinished: false, closed: false });
+  });
+
+  function intercept(handler: () => void, request: Record<string, unknown>, handle: () => Observable<unknown>) {
+    const context = {
+      getHandler: () => handler,
+      switchToHttp: () => ({ getRequest: () => ({ headers: {}, ...request }), getResponse: () => response }),
+    } as unknown as ExecutionContext;
+    return lastValueFrom(interceptor.intercept(context, { handle } as CallHandler));
+  }
+
+  function finish(statusCode: number, completed = true) {
+    Object.assign(response, { statusCode, writableFinished: completed, closed: true });
+    response.emit('close');
+  }
+
+  it('should record successful accesses once the response completes', async () => {
+    await intercept(
+      endpoint(AuditAction.DOWNLOAD),
+      { apiKey, params: { id: FILE_ID }, ip: '10.0.0.1', headers: { 'user-agent': 'jest' } },
+      () => of(undefined),
+    );
+    expect(recorded).toHaveLength(0);
+
+    finish(206);
+
+    expect(recorded).toEqual([
+      {
+        action: AuditAction.DOWNLOAD,
+        outcome: AuditOutcome.SUCCESS,
+        statusCode: 206,
+        errorMessage: null,
+        actorKeyId: 'key-1',
+        actorKeyName: 'backoffice',
+        viaSignedUrl: false,
+        ipAddress: '10.0.0.1',
+        userAgent: 'jest',
+        fileId: FILE_ID,
+        entityType: null,
+        entityId: null,
+      },
+    ]);
+  });
+
+  it('should record downloads interrupted by the client as failures', async () => {
+    await intercept(endpoint(AuditAction.DOWNLOAD), { params: { id: FILE_ID } }, () => of(undefined));
+
+    finish(200, false);
+
+    expect(recorded[0]).toMatchObject({
+      outcome: AuditOutcome.FAILURE,
+      viaSignedUrl: true,
+      actorKeyId: null,
+      errorMessage: 'Client closed the connection before the response completed',
+    });
+  });
+
+  it('should record failed requests with their status and error', async () => {
+    await expect(
+      intercept(
+        endpoint(AuditAction.DELETE),
+        { apiKey, params: { id: 'not-a-uuid' }, body: { fileId: FILE_ID } },
+        () => throwError(() => new NotFoundException('File not found')),
+      ),
+    ).rejects.toThrow(NotFoundException);
+
+    expect(recorded).toEqual([
+      expect.objectContaining({
+        action: AuditAction.DELETE,
+        outcome: AuditOutcome.FAILURE,
+        statusCode: 404,
+        errorMessage: 'File not found',
+        fileId: FILE_ID,
+      }),
+    ]);
+  });
+
+  it('should record one event per file that succeeded in a batch', async () => {
+    await intercept(endpoint(AuditAction.DELETE), { apiKey }, () =>
+      of({
+        results: [
+          { id: FILE_ID, success: true },
+          { id: 'a3b4c5d6-e7f8-4091-a2b3-c4d5e6f70819', success: false, statusCode: 404 },
+          { success: true, file: { id: OTHER_FILE_ID } },
+        ],
+      }),
+    );
+    finish(201);
+
+    expect(recorded.map((event) => [event.fileId, event.outcome])).toEqual([
+      [FILE_ID, AuditOutcome.SUCCESS],
+      [OTHER_FILE_ID, AuditOutcome.SUCCESS],
+    ]);
+  });
+
+  it('should leave endpoints without @Audited out of the log', async () => {
+    await intercept(endpoint(), { apiKey }, () => of([]));
+    finish(200);
+
+    expect(recorded).toHaveLength(0);
+  });
+});
@@ -0,0 +1,131 @@
+import { Injectable, NestInterceptor, ExecutionContext, CallHandler, HttpException, HttpStatus } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Response } from 'express';
+import { Observable, catchError, tap, throwError } from 'rxjs';
+import { isUUID } from 'class-validator';
+import { AUDIT_ACTION_KEY } from '../decorators/audited.decorator';
+import type { AuthenticatedRequest } from '../decorators/current-api-key.decorator';
+import { AuditService, type AuditEventInput } from '../audit.service';
+import { AuditAction, AuditOutcome } from '../entities/audit-event.entity';
+
+/** Largo máximo de los textos que controla el cliente */
+const MAX_TEXT_LENGTH = 500;
+
+/**
+ * Interceptor que registra en auditoría los endpoints marcados con @Audited.
+ * El evento exitoso se escribe al cerrar la respuesta, de modo que registra el código
+ * final (incluye 206/304/416 de las descargas) y las descargas interrumpidas por el cliente.
+ * Las operaciones en lote registran un evento por cada archivo afectado con éxito.
+ * Los rechazos del ApiKeyGuard ocurren antes y solo quedan en el log de la aplicación.
+ * @class AuditInterceptor
+ */
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  constructor(
+    private reflector: Reflector,
+    private auditService: AuditService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const action = this.reflector.get<AuditAction | undefined>(AUDIT_ACTION_KEY, context.getHandler());
+    if (!action) {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const response = context.switchToHttp().getResponse<Response>();
+
+    return next.handle().pipe(
+      tap((body) => {
+        const fileIds = this.resolveBatchFileIds(body) ?? [this.resolveFileId(request, body)];
+        const recordOutcome = () => {
+          const completed = response.writableFinished;
+          for (const fileId of fileIds.length > 0 ? fileIds : [null]) {
+            void this.auditService.record({
+              ...this.describeRequest(request, action, fileId),
+              outcome: completed && response.statusCode < 400 ? AuditOutcome.SUCCESS : AuditOutcome.FAILURE,
+              statusCode: response.statusCode,
+              errorMessage: completed ? null : 'Client closed the connection before the response completed',
+            });
+          }
+        };
+
+        if (response.closed) {
+          recordOutcome();
+        } else {
+          response.once('close', recordOutcome);
+        }
+      }),
+      catchError((error: unknown) => {
+        void this.auditService.record({
+          ...this.describeRequest(request, action, this.resolveFileId(request)),
+          outcome: AuditOutcome.FAILURE,
+          statusCode: error instanceof HttpException ? error.getStatus() : HttpStatus.INTERNAL_SERVER_ERROR,
+          errorMessage: this.truncate(error instanceof Error ? error.message : String(error)),
+        });
+        return throwError(() => error);
+      }),
+    );
+  }
+
+  /**
+   * Datos del actor y del archivo comunes a éxitos y fallos.
+   * @private
+   */
+  private describeRequest(
+    request: AuthenticatedRequest,
+    action: AuditAction,
+    fileId: string | null,
+  ): Omit<AuditEventInput, 'outcome' | 'statusCode' | 'errorMessage'> {
+    return {
+      action,
+      actorKeyId: request.apiKey?.id ?? null,
+      actorKeyName: request.apiKey?.name ?? null,
+      viaSignedUrl: !request.apiKey,
+      ipAddress: request.ip || request.socket?.remoteAddress || null,
+      userAgent: this.truncate(request.headers['user-agent']),
+      fileId,
+      entityType: null,
+      entityId: null,
+    };
+  }
+
+  /**
+   * Obtiene el archivo afectado desde la respuesta, el body o la ruta (en ese orden:
+   * al completar una subida por partes, el `id` de la ruta es el de la sesión).
+   * @private
+   */
+  private resolveFileId(request: AuthenticatedRequest, responseBody?: unknown): string | null {
+    const params = request.params as Record<string, string | undefined> | undefined;
+    const body = request.body as { fileId?: unknown } | undefined;
+    const responseFile = (responseBody as { file?: { id?: unknown } } | undefined)?.file;
+
+    // Solo UUIDs: un ID mal formado (rechazado por ParseUUIDPipe) no cabe en la columna
+    const candidates = [responseFile?.id, body?.fileId, params?.id];
+    return candidates.find((candidate): candidate is string => isUUID(candidate)) ?? null;
+  }
+
+  /**
+   * En las operaciones en lote, obtiene los archivos afectados con éxito para registrar un evento por archivo.
+   * @returns IDs de los archivos (vacío si ninguno tuvo éxito), o null si la respuesta no es de un lote
+   * @private
+   */
+  private resolveBatchFileIds(responseBody: unknown): string[] | null {
+    const results = (responseBody as { results?: unknown } | undefined)?.results;
+    if (!Array.isArray(results)) {
+      return null;
+    }
+    return (results as { success?: unknown; id?: unknown; file?: { id?: unknown } }[])
+      .filter((result) => result.success === true)
+      .map((result) => result.file?.id ?? result.id)
+      .filter((candidate): candidate is string => isUUID(candidate));
+  }
+
+  /**
+   * Recorta textos controlados por el cliente al largo de la columna.
+   * @private
+   */
+  private truncate(value: string | undefined): string | null {
+    return value ? value.slice(0, MAX_TEXT_LENGTH) : null;
+  }
+}
@@ -0,0 +1,207 @@
+import { ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EntityManager, FindOperator, Repository } from 'typeorm';
+import { JobQueueService } from './job-queue.service';
+import { JobStatus, JobType, ProcessingJob } from './entities/processing-job.entity';
+import { FileMetadata, ProcessingStatus } from './entities/file-metadata.entity';
+
+// uuid solo se publica como ESM y Jest carga los módulos como CommonJS
+jest.mock('uuid', () => ({ v4: () => jest.requireActual<typeof import('crypto')>('crypto').randomUUID() }));
+
+type Row = ProcessingJob & Record<string, unknown>;
+
+/**
+ * Cola en memoria con el subconjunto del Repository/EntityManager que usa JobQueueService.
+ * El query builder de claimNext se resuelve con la misma condición que el SQL: pendiente y vencido,
+ * o en curso con su plazo vencido; las filas tomadas por otra transacción abierta se saltan (SKIP LOCKED).
+ */
+function createQueue(files: Map<string, Pick<FileMetadata, 'checksum' | 'processingStatus'>>) {
+  const rows: Row[] = [];
+  const locked = new Set<Row>();
+  const matches = (row: Row, where: Record<string, unknown> = {}) =>
+    Object.entries(where).every(([key, expected]) =>
+      expected instanceof FindOperator ? (expected.value as unknown[]).includes(row[key]) : row[key] === expected,
+    );
+  const save = (job: Row) => {
+    if (!rows.includes(job)) {
+      job.generateId();
+      job.createdAt = new Date();
+      rows.push(job);
+    }
+    return Promise.resolve(job);
+  };
+  const updateFile = (_entity: unknown, criteria: { id: string; checksum: string }, changes: Partial<FileMetadata>) => {
+    const file = files.get(criteria.id);
+    if (file && file.checksum === criteria.checksum) {
+      Object.assign(file, changes);
+    }
+    return Promise.resolve();
+  };
+  const createManager = (held: Row[]) => ({
+    create: (_entity: unknown, data: Partial<ProcessingJob>) => Object.assign(new ProcessingJob(), data),
+    save,
+    update: updateFile,
+    createQueryBuilder: () => {
+      const builder = {
+        setLock: () => builder,
+        setOnLocked: () => builder,
+        where: () => builder,
+        orderBy: () => builder,
+        limit: () => builder,
+        getOne: () => {
+          const now = Date.now();
+          const due = rows
+            .filter((job) => !locked.has(job))
+            .filter((job) =>
+              job.status === JobStatus.PENDING
+                ? job.runAt.getTime() <= now
+                : job.status === JobStatus.RUNNING && job.lockedUntil !== null && job.lockedUntil.getTime() < now,
+            )
+            .sort((a, b) => a.runAt.getTime() - b.runAt.getTime());
+          if (due[0]) {
+            locked.add(due[0]);
+            held.push(due[0]);
+          }
+          return Promise.resolve(due[0] ?? null);
+        },
+      };
+      return builder;
+    },
+  });
+  const manager = createManager([]);
+  const transaction = async <R>(work: (m: typeof manager) => Promise<R>) => {
+    const held: Row[] = [];
+    try {
+      return await work(createManager(held));
+    } finally {
+      held.forEach((job) => locked.delete(job));
+    }
+  };
+
+  return {
+    rows,
+    manager,
+    repository: {
+      manager: { ...manager, transaction },
+      save,
+      find: ({ where }: { where: Record<string, unknown> }) => Promise.resolve(rows.filter((row) => matches(row, where))),
+      findOne: ({ where }: { where: Record<string, unknown> }) =>
+        Promise.resolve(rows.find((row) => matches(row, where)) ?? null),
+      count: ({ where }: { where: Record<string, unknown> }) =>
+        Promise.resolve(rows.filter((row) => matches(row, where)).length),
+      update: (criteria: Record<string, unknown>, changes: Partial<ProcessingJob>) => {
+        const affected = rows.filter((row) => matches(row, criteria));
+        affected.forEach((row) => Object.assign(row, changes));
+        return Promise.resolve({ affected: affected.length });
+      },
+    },
+  };
+}
+
+describe('JobQueueService', () => {
+  const fileId = '0d3c4b5a-6978-4e1f-9a2b-3c4d5e6f7081';
+  let files: Map<string, Pick<FileMetadata, 'checksum' | 'processingStatus'>>;
+  let queue: ReturnType<typeof createQueue>;
+
+  beforeEach(() => {
+    files = new Map([[fileId, { checksum: 'a'.repeat(64), processingStatus: ProcessingStatus.PENDING }]]);
+    queue = createQueue(files);
+  });
+
+  function createService(env: Record<string, string> = {}) {
+    return new JobQueueService(queue.repository as unknown as Repository<ProcessingJob>, new ConfigService(env));
+  }
+
+  function enqueue(service: JobQueueService, checksum = 'a'.repeat(64)) {
+    return service.enqueue(queue.manager as unknown as EntityManager, { id: fileId, checksum }, [JobType.THUMBNAIL]);
+  }
+
+  /** Adelanta el próximo intento de los trabajos pendientes, como si hubiera pasado la espera */
+  function makeDue() {
+    for (const job of queue.rows) {
+      job.runAt = new Date(Date.now() - 1);
+    }
+  }
+
+  it('should run queued jobs and mark the file ready once they complete', async () => {
+    const service = createService();
+    const seen: ProcessingStatus[] = [];
+    service.registerHandler(JobType.THUMBNAIL, () => {
+      seen.push(files.get(fileId)!.processingStatus);
+      return Promise.resolve();
+    });
+
+    await enqueue(service);
+    await service.runDue();
+
+    expect(seen).toEqual([ProcessingStatus.PROCESSING]);
+    expect(queue.rows[0]).toMatchObject({ status: JobStatus.COMPLETED, attempts: 1, lockedUntil: null });
+    expect(files.get(fileId)!.processingStatus).toBe(ProcessingStatus.READY);
+    await expect(service.listForFile(fileId)).resolves.toHaveLength(1);
+  });
+
+  it('should retry with exponential backoff, fail exhausted jobs and queue them again on demand', async () => {
+    const service = createService({ JOB_MAX_ATTEMPTS: '2', JOB_RETRY_BASE_SECONDS: '10' });
+    let broken = true;
+    service.registerHandler(JobType.THUMBNAIL, () =>
+      broken ? Promise.reject(new Error('Input buffer contains unsupported image format')) : Promise.resolve(),
+    );
+
+    await enqueue(service);
+    await service.runDue();
+    const [job] = queue.rows;
+    expect(job).toMatchObject({ status: JobStatus.PENDING, attempts: 1, lastError: 'Input buffer contains unsupported image format' });
+    expect(job.runAt.getTime() - Date.now()).toBeGreaterThan(9000);
+    expect(files.get(fileId)!.processingStatus).toBe(ProcessingStatus.PENDING);
+    await expect(service.retry(job.id)).rejects.toThrow(ConflictException);
+
+    makeDue();
+    await service.runDue();
+    expect(job).toMatchObject({ status: JobStatus.FAILED, attempts: 2 });
+    expect(files.get(fileId)!.processingStatus).toBe(ProcessingStatus.FAILED);
+
+    broken = false;
+    await service.retry(job.id);
+    await service.runDue();
+    expect(job).toMatchObject({ status: JobStatus.COMPLETED, attempts: 1 });
+    expect(files.get(fileId)!.processingStatus).toBe(ProcessingStatus.READY);
+  });
+
+  it('should reclaim abandoned jobs and leave files with newer content untouched', async () => {
+    const service = createService();
+    const handled: string[] = [];
+    service.registerHandler(JobType.THUMBNAIL, (job) => {
+      handled.push(job.checksum);
+      return Promise.resolve();
+    });
+
+    // Un worker caído dejó el trabajo en curso; el archivo ya tiene otro contenido
+    await enqueue(service, 'b'.repeat(64));
+    Object.assign(queue.rows[0], { status: JobStatus.RUNNING, attempts: 1, lockedUntil: new Date(Date.now() - 1) });
+    await service.runDue();
+
+    expect(handled).toEqual(['b'.repeat(64)]);
+    expect(queue.rows[0]).toMatchObject({ status: JobStatus.COMPLETED, attempts: 2 });
+    expect(files.get(fileId)!.processingStatus).toBe(ProcessingStatus.PENDING);
+  });
+
+  it('should fail abandoned jobs that already used all their attempts instead of running them again', async () => {
+    const service = createService({ JOB_MAX_ATTEMPTS: '2', JOB_TIMEOUT_SECONDS: '60' });
+    const handler = jest.fn(() => Promise.resolve());
+    service.registerHandler(JobType.THUMBNAIL, handler);
+
+    // El último intento tumbó al worker (p. ej. por falta de memoria) y su plazo venció
+    await enqueue(service);
+    Object.assign(queue.rows[0], { status: JobStatus.RUNNING, attempts: 2, lockedUntil: new Date(Date.now() - 1) });
+    await service.runDue();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(queue.rows[0]).toMatchObject({
+      status: JobStatus.FAILED,
+      attempts: 2,
+      lockedUntil: null,
+      lastError: 'Job did not finish within 60s',
+    });
+    expect(files.get(fileId)!.processingStatus).toBe(ProcessingStatus.FAILED);
+  });
+});
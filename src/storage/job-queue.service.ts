@@ -0,0 +1,349 @@
+import { Injectable, NotFoundException, ConflictException, Logger, OnApplicationShutdown } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { EntityManager, FindOptionsWhere, In, Repository } from 'typeorm';
+import { JobStatus, JobType, ProcessingJob } from './entities/processing-job.entity';
+import { FileMetadata, ProcessingStatus } from './entities/file-metadata.entity';
+import { QueryJobsDto } from './dto/query-jobs.dto';
+
+/** Ejecuta un trabajo; si lanza, el trabajo se reintenta */
+export type JobHandler = (job: ProcessingJob) => Promise<void>;
+
+/** Largo máximo del error guardado (columna last_error) */
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * Cola de trabajos en segundo plano respaldada por Postgres.
+ * Los trabajos se encolan en la misma transacción que guarda el contenido, y JOB_WORKERS workers
+ * por instancia los toman con FOR UPDATE SKIP LOCKED (varias instancias no toman el mismo trabajo).
+ * Un trabajo fallido se reintenta con espera exponencial (JOB_RETRY_BASE_SECONDS, duplicándose
+ * hasta JOB_RETRY_MAX_SECONDS) hasta JOB_MAX_ATTEMPTS intentos; uno que excede JOB_TIMEOUT_SECONDS (p. ej. por una caída)
+ * vuelve a tomarse si le quedan intentos, o queda fallido. El estado agregado de cada archivo se refleja en
+ * FileMetadata.processingStatus.
+ * Los servicios registran el handler de cada tipo de trabajo con registerHandler.
+ * @class JobQueueService
+ */
+@Injectable()
+export class JobQueueService implements OnApplicationShutdown {
+  private readonly logger = new Logger(JobQueueService.name);
+  private readonly handlers = new Map<JobType, JobHandler>();
+  /** Workers concurrentes por instancia */
+  private readonly workers: number;
+  /** Intentos antes de marcar un trabajo como fallido */
+  private readonly maxAttempts: number;
+  /** Espera antes del primer reintento en ms */
+  private readonly retryBaseMs: number;
+  /** Espera máxima entre reintentos en ms */
+  private readonly retryMaxMs: number;
+  /** Duración máxima de un intento en ms */
+  private readonly timeoutMs: number;
+  /** Workers en ejecución */
+  private readonly running = new Set<Promise<void>>();
+  /** true al apagar: los workers terminan su trabajo en curso y no toman otros */
+  private stopping = false;
+
+  constructor(
+    @InjectRepository(ProcessingJob)
+    private jobRepository: Repository<ProcessingJob>,
+    private configService: ConfigService,
+  ) {
+    this.workers = this.parsePositiveInt('JOB_WORKERS', 2);
+    this.maxAttempts = this.parsePositiveInt('JOB_MAX_ATTEMPTS', 5);
+    this.retryBaseMs = this.parsePositiveInt('JOB_RETRY_BASE_SECONDS', 10) * 1000;
+    this.retryMaxMs = this.parsePositiveInt('JOB_RETRY_MAX_SECONDS', 3600) * 1000;
+    this.timeoutMs = this.parsePositiveInt('JOB_TIMEOUT_SECONDS', 300) * 1000;
+    this.logger.log(`⚙️ Job queue: ${this.workers} workers, ${this.maxAttempts} attempts per job`);
+  }
+
+  /**
+   * Registra el handler de un tipo de trabajo.
+   * @param type - Tipo de trabajo
+   * @param handler - Función que lo ejecuta
+   */
+  registerHandler(type: JobType, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Encola trabajos sobre el contenido de un archivo.
+   * Debe llamarse dentro de la transacción que guarda el contenido, y wake() después de confirmarla.
+   * @param manager - EntityManager de la transacción
+   * @param file - Archivo y hash del contenido a procesar
+   * @param types - Trabajos a encolar
+   */
+  async enqueue(manager: EntityManager, file: Pick<FileMetadata, 'id' | 'checksum'>, types: JobType[]): Promise<void> {
+    const now = new Date();
+    for (const type of types) {
+      await manager.save(
+        manager.create(ProcessingJob, {
+          type,
+          fileId: file.id,
+          checksum: file.checksum,
+          status: JobStatus.PENDING,
+          attempts: 0,
+          runAt: now,
+          lockedUntil: null,
+          lastError: null,
+          completedAt: null,
+        }),
+      );
+    }
+  }
+
+  /**
+   * Despierta a los workers sin esperar al próximo ciclo programado.
+   */
+  wake(): void {
+    void this.runDue();
+  }
+
+  /**
+   * Completa los workers libres y espera a que los workers en ejecución vacíen la cola de trabajos vencidos.
+   * Se ejecuta cada 10 segundos (recoge los reintentos y los trabajos abandonados).
+   */
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  async runDue(): Promise<void> {
+    while (!this.stopping && this.running.size < this.workers) {
+      const worker: Promise<void> = this.work().finally(() => this.running.delete(worker));
+      this.running.add(worker);
+    }
+    await Promise.all(this.running);
+  }
+
+  /**
+   * Detiene los workers al apagar la aplicación, esperando los trabajos en curso.
+   */
+  async onApplicationShutdown(): Promise<void> {
+    this.stopping = true;
+    await Promise.all(this.running);
+  }
+
+  /**
+   * Lista trabajos con filtros, del más reciente al más antiguo.
+   * @param filters - Archivo, estado, tipo, limit y offset
+   * @returns Página de trabajos con total
+   */
+  async list(filters: QueryJobsDto): Promise<{ data: ProcessingJob[]; total: number }> {
+    const where: FindOptionsWhere<ProcessingJob> = {};
+    if (filters.fileId) {
+      where.fileId = filters.fileId;
+    }
+    if (filters.status) {
+      where.status = filters.status;
+    }
+    if (filters.type) {
+      where.type = filters.type;
+    }
+
+    const [data, total] = await this.jobRepository.findAndCount({
+      where,
+      order: { createdAt: 'DESC' },
+      take: filters.limit ?? 50,
+      skip: filters.offset ?? 0,
+    });
+    return { data, total };
+  }
+
+  /**
+   * Lista los trabajos de un archivo, del más reciente al más antiguo.
+   * @param fileId - UUID del archivo
+   */
+  async listForFile(fileId: string): Promise<ProcessingJob[]> {
+    return this.jobRepository.find({ where: { fileId }, order: { createdAt: 'DESC' } });
+  }
+
+  /**
+   * Vuelve a encolar un trabajo fallido, con todos sus intentos disponibles otra vez.
+   * @param id - UUID del trabajo
+   * @returns Trabajo encolado
+   * @throws NotFoundException si el trabajo no existe
+   * @throws ConflictException si el trabajo no está fallido
+   */
+  async retry(id: string): Promise<ProcessingJob> {
+    const job = await this.jobRepository.findOne({ where: { id } });
+    if (!job) {
+      throw new NotFoundException('Job not found');
+    }
+    if (job.status !== JobStatus.FAILED) {
+      throw new ConflictException(`Only failed jobs can be retried (job is ${job.status})`);
+    }
+
+    job.status = JobStatus.PENDING;
+    job.attempts = 0;
+    job.runAt = new Date();
+    const saved = await this.jobRepository.save(job);
+    await this.setFileStatus(job, ProcessingStatus.PENDING);
+
+    this.logger.log(`🔁 Job ${id} (${job.type}) queued again for file ${job.fileId}`);
+    this.wake();
+    return saved;
+  }
+
+  /**
+   * Toma y ejecuta trabajos vencidos hasta que no queden.
+   * @private
+   */
+  private async work(): Promise<void> {
+    while (!this.stopping) {
+      let job: ProcessingJob | null;
+      try {
+        job = await this.claimNext();
+      } catch (error) {
+        this.logger.error(`❌ Failed to claim a job: ${(error as Error).message}`);
+        return;
+      }
+      if (!job) {
+        return;
+      }
+      if (job.status === JobStatus.FAILED) {
+        await this.recordAbandoned(job);
+        continue;
+      }
+      await this.execute(job);
+    }
+  }
+
+  /**
+   * Toma el trabajo vencido más antiguo (o uno abandonado por un worker caído) y lo marca en curso.
+   * Un trabajo abandonado que ya agotó sus intentos se marca fallido en lugar de ejecutarse otra vez
+   * (un archivo que tumba al worker no se reintenta indefinidamente).
+   * SKIP LOCKED hace que cada worker, de esta u otra instancia, tome un trabajo distinto sin esperar.
+   * @private
+   */
+  private async claimNext(): Promise<ProcessingJob | null> {
+    return this.jobRepository.manager.transaction(async (manager) => {
+      const now = new Date();
+      const job = await manager
+        .createQueryBuilder(ProcessingJob, 'job')
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .where('(job.status = :pending AND job.runAt <= :now) OR (job.status = :running AND job.lockedUntil < :now)', {
+          pending: JobStatus.PENDING,
+          running: JobStatus.RUNNING,
+          now,
+        })
+        .orderBy('job.runAt', 'ASC')
+        .limit(1)
+        .getOne();
+      if (!job) {
+        return null;
+      }
+      if (job.status === JobStatus.RUNNING && job.attempts >= this.maxAttempts) {
+        job.status = JobStatus.FAILED;
+        job.lockedUntil = null;
+        job.lastError = `Job did not finish within ${this.timeoutMs / 1000}s`;
+        await manager.save(job);
+        return job;
+      }
+
+      job.status = JobStatus.RUNNING;
+      job.attempts += 1;
+      job.lockedUntil = new Date(now.getTime() + this.timeoutMs);
+      await manager.save(job);
+      await this.setFileStatus(job, ProcessingStatus.PROCESSING, manager);
+      return job;
+    });
+  }
+
+  /**
+   * Ejecuta un trabajo tomado y registra su resultado: completado, reintento programado o fallido.
+   * Si el trabajo excedió su tiempo y otro worker lo volvió a tomar, el resultado de este intento se descarta.
+   * @private
+   */
+  private async execute(job: ProcessingJob): Promise<void> {
+    const claimedAttempt = job.attempts;
+    const changes: Partial<ProcessingJob> = { lockedUntil: null };
+
+    try {
+      const handler = this.handlers.get(job.type);
+      if (!handler) {
+        throw new Error(`No handler registered for ${job.type} jobs`);
+      }
+      await handler(job);
+      Object.assign(changes, { status: JobStatus.COMPLETED, completedAt: new Date(), lastError: null });
+    } catch (error) {
+      const message = (error as Error).message;
+      changes.lastError = message.slice(0, MAX_ERROR_LENGTH);
+      if (job.attempts >= this.maxAttempts) {
+        changes.status = JobStatus.FAILED;
+        this.logger.error(`❌ Job ${job.id} (${job.type}) failed after ${job.attempts} attempts: ${message}`);
+      } else {
+        const delay = Math.min(this.retryBaseMs * 2 ** (job.attempts - 1), this.retryMaxMs);
+        Object.assign(changes, { status: JobStatus.PENDING, runAt: new Date(Date.now() + delay) });
+        this.logger.warn(`⚠️ Job ${job.id} (${job.type}) failed: ${message}; retry in ${delay / 1000}s`);
+      }
+    }
+
+    try {
+      const result = await this.jobRepository.update(
+        { id: job.id, status: JobStatus.RUNNING, attempts: claimedAttempt },
+        changes,
+      );
+      if (result.affected !== 1) {
+        return;
+      }
+      Object.assign(job, changes);
+      await this.refreshFileStatus(job);
+    } catch (error) {
+      this.logger.error(`❌ Failed to record the result of job ${job.id}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Registra un trabajo abandonado que agotó sus intentos y actualiza el estado de su archivo.
+   * @private
+   */
+  private async recordAbandoned(job: ProcessingJob): Promise<void> {
+    this.logger.error(`❌ Job ${job.id} (${job.type}) failed after ${job.attempts} attempts: ${job.lastError}`);
+    try {
+      await this.refreshFileStatus(job);
+    } catch (error) {
+      this.logger.error(`❌ Failed to record the result of job ${job.id}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Actualiza processingStatus del archivo tras terminar un intento: sigue pendiente mientras
+   * queden trabajos abiertos; si no, queda listo o fallido según este último trabajo.
+   * @private
+   */
+  private async refreshFileStatus(job: ProcessingJob): Promise<void> {
+    const open = await this.jobRepository.count({
+      where: { fileId: job.fileId, status: In([JobStatus.PENDING, JobStatus.RUNNING]) },
+    });
+    const status =
+      open > 0 ? ProcessingStatus.PENDING : job.status === JobStatus.FAILED ? ProcessingStatus.FAILED : ProcessingStatus.READY;
+    await this.setFileStatus(job, status);
+  }
+
+  /**
+   * Cambia processingStatus del archivo si su contenido vigente sigue siendo el del trabajo
+   * (una versión posterior tiene su propio estado).
+   * @private
+   */
+  private async setFileStatus(
+    job: ProcessingJob,
+    status: ProcessingStatus,
+    manager: EntityManager = this.jobRepository.manager,
+  ): Promise<void> {
+    await manager.update(FileMetadata, { id: job.fileId, checksum: job.checksum }, { processingStatus: status });
+  }
+
+  /**
+   * Lee un entero positivo de la configuración.
+   * @throws Error si el valor no es un entero positivo
+   * @private
+   */
+  private parsePositiveInt(key: string, fallback: number): number {
+    const raw = this.configService.get<string>(key);
+    if (raw === undefined || raw === '') {
+      return fallback;
+    }
+    const value = Number(raw);
+    if (!Number.isSafeInteger(value) || value < 1) {
+      throw new Error(`Invalid ${key}: expected a positive integer`);
+    }
+    return value;
+  }
+}
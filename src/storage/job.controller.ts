@@ -0,0 +1,58 @@
+import { Controller, Get, Post, Param, Query, UseGuards, ParseUUIDPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiSecurity } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { JobQueueService } from './job-queue.service';
+import { ApiKeyGuard } from './guards/api-key.guard';
+import { RequireScope } from './decorators/require-scope.decorator';
+import { ApiKeyScope } from './entities/api-key.entity';
+import { QueryJobsDto } from './dto/query-jobs.dto';
+
+/**
+ * Controlador de la cola de procesamiento en segundo plano.
+ * Permite consultar los trabajos y reintentar manualmente los fallidos.
+ * Requiere una key con permiso admin.
+ * @class JobController
+ */
+@ApiTags('Jobs')
+@ApiSecurity('api-key')
+@Controller('storage/jobs')
+@UseGuards(ApiKeyGuard)
+@RequireScope(ApiKeyScope.ADMIN)
+@Throttle({ default: { limit: 20, ttl: 60000 } })
+export class JobController {
+  constructor(private readonly jobQueueService: JobQueueService) {}
+
+  /**
+   * Lista los trabajos, filtrados por archivo, estado o tipo.
+   * @param dto - Filtros y paginación
+   * @returns Página de trabajos con total
+   */
+  @Get()
+  @ApiOperation({ summary: 'List background processing jobs' })
+  @ApiResponse({ status: 200, description: 'Jobs listed' })
+  async list(@Query() dto: QueryJobsDto) {
+    const { data, total } = await this.jobQueueService.list(dto);
+    return {
+      success: true,
+      data,
+      total,
+    };
+  }
+
+  /**
+   * Vuelve a encolar un trabajo fallido.
+   * @param id - UUID del trabajo
+   * @returns Trabajo encolado
+   */
+  @Post(':id/retry')
+  @ApiOperation({ summary: 'Queue a failed job again' })
+  @ApiResponse({ status: 201, description: 'Job queued' })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  @ApiResponse({ status: 409, description: 'Job has not failed' })
+  async retry(@Param('id', ParseUUIDPipe) id: string) {
+    return {
+      success: true,
+      job: await this.jobQueueService.retry(id),
+    };
+  }
+}
@@ -0,0 +1,123 @@
+import { Controller, Get, Post, Body, Param, Query, UseGuards, UseInterceptors, ParseUUIDPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiSecurity, ApiQuery } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { LegalHoldService } from './legal-hold.service';
+import { ApiKeyGuard } from './guards/api-key.guard';
+import { RequireScope } from './decorators/require-scope.decorator';
+import { CurrentApiKey } from './decorators/current-api-key.decorator';
+import { ApiKeyScope } from './entities/api-key.entity';
+import { EntityType } from './entities/file-metadata.entity';
+import { AuditInterceptor } from './interceptors/audit.interceptor';
+import { Audited } from './decorators/audited.decorator';
+import { AuditAction } from './entities/audit-event.entity';
+import { CreateLegalHoldDto } from './dto/create-legal-hold.dto';
+import { ReleaseLegalHoldDto } from './dto/release-legal-hold.dto';
+import type { ApiKeyPrincipal } from './api-key.service';
+
+/**
+ * Controlador de retenciones legales.
+ * Permite colocar, consultar y liberar retenciones sobre archivos o entidades.
+ * Requiere una key con permiso admin.
+ * @class LegalHoldController
+ */
+@ApiTags('Legal holds')
+@ApiSecurity('api-key')
+@Controller('storage/legal-holds')
+@UseGuards(ApiKeyGuard)
+@UseInterceptors(AuditInterceptor)
+@RequireScope(ApiKeyScope.ADMIN)
+@Throttle({ default: { limit: 20, ttl: 60000 } })
+export class LegalHoldController {
+  constructor(private readonly legalHoldService: LegalHoldService) {}
+
+  /**
+   * Coloca una retención sobre un archivo (fileId) o sobre una entidad (entityType + entityId).
+   * @param dto - Destino, motivo y responsable
+   * @param apiKey - Key que coloca la retención
+   * @returns Retención creada
+   */
+  @Post()
+  @Audited(AuditAction.PLACE_LEGAL_HOLD)
+  @ApiOperation({ summary: 'Place a legal hold on a file or an entity' })
+  @ApiResponse({ status: 201, description: 'Legal hold placed' })
+  @ApiResponse({ status: 400, description: 'Invalid hold target' })
+  @ApiResponse({ status: 404, description: 'File not found' })
+  async place(@Body() dto: CreateLegalHoldDto, @CurrentApiKey() apiKey?: ApiKeyPrincipal) {
+    return {
+      success: true,
+      hold: await this.legalHoldService.place(dto, apiKey?.id ?? null),
+    };
+  }
+
+  /**
+   * Lista retenciones filtradas por archivo o entidad.
+   * @param fileId - Filtrar por archivo retenido directamente
+   * @param entityType - Filtrar por tipo de entidad
+   * @param entityId - Filtrar por ID de entidad
+   * @param includeReleased - Incluye las retenciones ya liberadas (default: solo activas)
+   * @returns Lista de retenciones
+   */
+  @Get()
+  @ApiOperation({ summary: 'List legal holds' })
+  @ApiQuery({ name: 'fileId', required: false })
+  @ApiQuery({ name: 'entityType', required: false, enum: EntityType })
+  @ApiQuery({ name: 'entityId', required: false })
+  @ApiQuery({ name: 'includeReleased', required: false, type: Boolean })
+  @ApiResponse({ status: 200, description: 'Legal holds listed' })
+  async list(
+    @Query('fileId') fileId?: string,
+    @Query('entityType') entityType?: EntityType,
+    @Query('entityId') entityId?: string,
+    @Query('includeReleased') includeReleased?: string,
+  ) {
+    const holds = await this.legalHoldService.list({
+      fileId,
+      entityType,
+      entityId,
+      includeReleased: includeReleased === 'true',
+    });
+    return {
+      success: true,
+      data: holds,
+      total: holds.length,
+    };
+  }
+
+  /**
+   * Lista las retenciones activas que afectan a un archivo, propias o de su entidad.
+   * @param fileId - UUID del archivo
+   * @returns Retenciones activas y si el archivo está retenido
+   */
+  @Get('files/:fileId')
+  @ApiOperation({ summary: 'List active legal holds affecting a file' })
+  @ApiResponse({ status: 200, description: 'Active legal holds' })
+  @ApiResponse({ status: 404, description: 'File not found' })
+  async listForFile(@Param('fileId', ParseUUIDPipe) fileId: string) {
+    const holds = await this.legalHoldService.findActiveHoldsForFile(fileId);
+    return {
+      success: true,
+      held: holds.length > 0,
+      data: holds,
+    };
+  }
+
+  /**
+   * Libera una retención. Las operaciones bloqueadas vuelven a estar permitidas
+   * si no quedan otras retenciones activas sobre el archivo.
+   * @param holdId - UUID de la retención
+   * @param dto - Responsable y motivo de la liberación
+   * @returns Retención liberada
+   */
+  @Post(':holdId/release')
+  @Audited(AuditAction.RELEASE_LEGAL_HOLD)
+  @ApiOperation({ summary: 'Release a legal hold' })
+  @ApiResponse({ status: 201, description: 'Legal hold released' })
+  @ApiResponse({ status: 404, description: 'Legal hold not found' })
+  @ApiResponse({ status: 409, description: 'Legal hold already released' })
+  async release(@Param('holdId', ParseUUIDPipe) holdId: string, @Body() dto: ReleaseLegalHoldDto) {
+    return {
+      success: true,
+      hold: await this.legalHoldService.release(holdId, dto),
+    };
+  }
+}
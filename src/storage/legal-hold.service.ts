@@ -0,0 +1,206 @@
+import { Injectable, BadRequestException, NotFoundException, ConflictException, HttpException, HttpStatus, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, Repository } from 'typeorm';
+import { LegalHold } from './entities/legal-hold.entity';
+import { FileMetadata, EntityType } from './entities/file-metadata.entity';
+import { CreateLegalHoldDto } from './dto/create-legal-hold.dto';
+import { ReleaseLegalHoldDto } from './dto/release-legal-hold.dto';
+
+/** Archivo (o sus campos relevantes) sobre el que se comprueban las retenciones */
+export type HeldFile = Pick<FileMetadata, 'id' | 'entityType' | 'entityId'>;
+
+/**
+ * Condición SQL que excluye los archivos con una retención activa, directa o por su entidad.
+ * Usa nombres de columna porque se evalúa dentro de una subconsulta.
+ * @param alias - Alias de FileMetadata en la consulta
+ */
+export function notUnderLegalHold(alias: string): string {
+  return (
+    `NOT EXISTS (SELECT 1 FROM legal_holds hold WHERE hold.released_at IS NULL ` +
+    `AND (hold.file_id = ${alias}.id ` +
+    `OR (hold.entity_type::text = ${alias}.entity_type::text AND hold.entity_id = ${alias}.entity_id)))`
+  );
+}
+
+/**
+ * Servicio de retenciones legales.
+ * Un archivo está retenido si tiene una retención activa propia o sobre su entidad
+ * (entityType + entityId); mientras tanto no puede eliminarse, purgarse ni recibir nuevas versiones.
+ * @class LegalHoldService
+ */
+@Injectable()
+export class LegalHoldService {
+  private readonly logger = new Logger(LegalHoldService.name);
+
+  constructor(
+    @InjectRepository(LegalHold)
+    private legalHoldRepository: Repository<LegalHold>,
+    @InjectRepository(FileMetadata)
+    private fileMetadataRepository: Repository<FileMetadata>,
+  ) {}
+
+  /**
+   * Coloca una retención sobre un archivo o sobre todos los archivos de una entidad.
+   * @param dto - Destino (fileId, o entityType + entityId), motivo y responsable
+   * @param placedByKeyId - API key que coloca la retención
+   * @returns Retención creada
+   * @throws BadRequestException si el destino es ambiguo o incompleto
+   * @throws NotFoundException si el archivo no existe
+   */
+  async place(dto: CreateLegalHoldDto, placedByKeyId: string | null): Promise<LegalHold> {
+    const byEntity = dto.entityType !== undefined || dto.entityId !== undefined;
+    if (dto.fileId ? byEntity : !(dto.entityType && dto.entityId)) {
+      throw new BadRequestException('Provide either fileId, or both entityType and entityId');
+    }
+
+    // Los archivos eliminados también pueden retenerse: así se evita su purga
+    if (dto.fileId && !(await this.fileMetadataRepository.exists({ where: { id: dto.fileId } }))) {
+      throw new NotFoundException('File not found');
+    }
+
+    const hold = await this.legalHoldRepository.save(
+      this.legalHoldRepository.create({
+        fileId: dto.fileId ?? null,
+        entityType: dto.entityType ?? null,
+        entityId: dto.entityId ?? null,
+        reason: dto.reason,
+        holder: dto.holder,
+        placedByKeyId,
+        releasedAt: null,
+        releasedBy: null,
+        releaseReason: null,
+      }),
+    );
+
+    const target = hold.fileId ? `file ${hold.fileId}` : `${hold.entityType} ${hold.entityId}`;
+    this.logger.log(`⚖️ Legal hold ${hold.id} placed on ${target} by ${hold.holder}`);
+    return hold;
+  }
+
+  /**
+   * Libera una retención activa. El registro se conserva como historial.
+   * @param id - UUID de la retención
+   * @param dto - Responsable y motivo de la liberación
+   * @returns Retención liberada
+   * @throws NotFoundException si la retención no existe
+   * @throws ConflictException si ya fue liberada
+   */
+  async release(id: string, dto: ReleaseLegalHoldDto): Promise<LegalHold> {
+    const hold = await this.legalHoldRepository.findOne({ where: { id } });
+    if (!hold) {
+      throw new NotFoundException('Legal hold not found');
+    }
+    if (hold.releasedAt) {
+      throw new ConflictException('Legal hold already released');
+    }
+
+    hold.releasedAt = new Date();
+    hold.releasedBy = dto.releasedBy;
+    hold.releaseReason = dto.releaseReason ?? null;
+    const saved = await this.legalHoldRepository.save(hold);
+
+    this.logger.log(`🔓 Legal hold ${id} released by ${dto.releasedBy}`);
+    return saved;
+  }
+
+  /**
+   * Lista retenciones, de la más reciente a la más antigua.
+   * @param filters - Archivo, entidad y si incluir las liberadas (default: solo activas)
+   */
+  async list(filters: {
+    fileId?: string;
+    entityType?: EntityType;
+    entityId?: string;
+    includeReleased?: boolean;
+  }): Promise<LegalHold[]> {
+    const query = this.legalHoldRepository.createQueryBuilder('hold');
+
+    if (filters.fileId) {
+      query.andWhere('hold.fileId = :fileId', { fileId: filters.fileId });
+    }
+
+    if (filters.entityType) {
+      query.andWhere('hold.entityType = :entityType', { entityType: filters.entityType });
+    }
+
+    if (filters.entityId) {
+      query.andWhere('hold.entityId = :entityId', { entityId: filters.entityId });
+    }
+
+    if (!filters.includeReleased) {
+      query.andWhere('hold.releasedAt IS NULL');
+    }
+
+    return query.orderBy('hold.createdAt', 'DESC').getMany();
+  }
+
+  /**
+   * Retenciones activas que afectan a un archivo (propias o de su entidad).
+   * @param file - Archivo a comprobar
+   */
+  async findActiveHolds(file: HeldFile): Promise<LegalHold[]> {
+    return this.legalHoldRepository
+      .createQueryBuilder('hold')
+      .where('hold.releasedAt IS NULL')
+      .andWhere(
+        new Brackets((qb) => {
+          qb.where('hold.fileId = :fileId', { fileId: file.id });
+          if (file.entityType && file.entityId) {
+            qb.orWhere('(hold.entityType = :entityType AND hold.entityId = :entityId)', {
+              entityType: file.entityType,
+              entityId: file.entityId,
+            });
+          }
+        }),
+      )
+      .orderBy('hold.createdAt', 'ASC')
+      .getMany();
+  }
+
+  /**
+   * Retenciones activas que afectan a un archivo, incluidos los eliminados (pendientes de purga).
+   * @param fileId - UUID del archivo
+   * @throws NotFoundException si el archivo no existe
+   */
+  async findActiveHoldsForFile(fileId: string): Promise<LegalHold[]> {
+    const metadata = await this.fileMetadataRepository.findOne({
+      where: { id: fileId },
+      select: { id: true, entityType: true, entityId: true },
+    });
+    if (!metadata) {
+      throw new NotFoundException('File not found');
+    }
+    return this.findActiveHolds(metadata);
+  }
+
+  /**
+   * Verifica que un archivo no esté retenido.
+   * @param file - Archivo a comprobar
+   * @param operation - Operación bloqueada, para el mensaje de error (ej: "deleted")
+   * @throws HttpException 423 (Locked) con las retenciones activas si el archivo está retenido
+   */
+  async assertNotHeld(file: HeldFile, operation: string): Promise<void> {
+    const holds = await this.findActiveHolds(file);
+    if (holds.length === 0) {
+      return;
+    }
+
+    throw new HttpException(
+      {
+        statusCode: HttpStatus.LOCKED,
+        error: 'Locked',
+        message: `File ${file.id} is under legal hold and cannot be ${operation}: ${holds[0].reason}`,
+        holds: holds.map((hold) => ({ id: hold.id, reason: hold.reason, holder: hold.holder, createdAt: hold.createdAt })),
+      },
+      HttpStatus.LOCKED,
+    );
+  }
+
+  /**
+   * Indica si un archivo tiene alguna retención activa.
+   * @param file - Archivo a comprobar
+   */
+  async isHeld(file: HeldFile): Promise<boolean> {
+    return (await this.findActiveHolds(file)).length > 0;
+  }
+}
@@ -0,0 +1,143 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { PdfService } from './pdf.service';
+
+/** Relleno de contraseñas del handler de seguridad estándar (PDF 1.7, algoritmo 3.2) */
+const PASSWORD_PADDING = Buffer.from('28bf4e5e4e758a4164004e56fffa01082e2e00b6d0683e802f0ca9fe6453697a', 'hex');
+
+interface PdfOptions {
+  width?: number;
+  height?: number;
+  /** Cifra el documento con RC4 de 40 bits; la contraseña de usuario vacía abre el documento solo si es válida */
+  encryption?: 'empty-password' | 'unknown-password';
+}
+
+function rc4(key: Buffer, data: Buffer): Buffer {
+  const state = Array.from({ length: 256 }, (_, index) => index);
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + state[i] + key[i % key.length]) % 256;
+    [state[i], state[j]] = [state[j], state[i]];
+  }
+  const output = Buffer.alloc(data.length);
+  for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+    i = (i + 1) % 256;
+    j = (j + state[i]) % 256;
+    [state[i], state[j]] = [state[j], state[i]];
+    output[n] = data[n] ^ state[(state[i] + state[j]) % 256];
+  }
+  return output;
+}
+
+/**
+ * Diccionario /Encrypt (handler estándar, revisión 2) y ID del documento.
+ * Con 'empty-password', /U corresponde a la contraseña de usuario vacía.
+ */
+function encryptDictionary(encryption: NonNullable<PdfOptions['encryption']>): { dictionary: string; id: string } {
+  const owner = crypto.randomBytes(32);
+  const id = crypto.randomBytes(16);
+  const permissions = Buffer.alloc(4);
+  permissions.writeInt32LE(-4);
+  const key = crypto
+    .createHash('md5')
+    .update(Buffer.concat([PASSWORD_PADDING, owner, permissions, id]))
+    .digest()
+    .subarray(0, 5);
+  const user = encryption === 'empty-password' ? rc4(key, PASSWORD_PADDING) : crypto.randomBytes(32);
+
+  return {
+    dictionary: `<< /Filter /Standard /V 1 /R 2 /O <${owner.toString('hex')}> /U <${user.toString('hex')}> /P -4 >>`,
+    id: id.toString('hex'),
+  };
+}
+
+/**
+ * Arma un PDF 1.7 mínimo con una página por texto (Helvetica) y su tabla xref.
+ */
+function buildPdf(pages: string[], { width = 200, height = 100, encryption }: PdfOptions = {}): Buffer {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${4 + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+  const resources = '/Resources << /Font << /F1 3 0 R >> >>';
+  pages.forEach((text, index) => {
+    const content = `BT /F1 12 Tf 10 ${height / 2} Td (${text}) Tj ET`;
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ${resources} /Contents ${5 + index * 2} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    );
+  });
+
+  let trailer = `/Size ${objects.length + 1} /Root 1 0 R`;
+  if (encryption) {
+    const { dictionary, id } = encryptDictionary(encryption);
+    objects.push(dictionary);
+    trailer += ` /Encrypt ${objects.length} 0 R /ID [<${id}> <${id}>]`;
+  }
+
+  let pdf = '%PDF-1.7\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< ${trailer} >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+describe('PdfService', () => {
+  const createService = (env: Record<string, string> = {}) => new PdfService(new ConfigService(env));
+
+  it('should read the page count, version and text of every page', async () => {
+    const analysis = await createService().analyze(buildPdf(['Quarterly report', 'Second page text']));
+
+    expect(analysis.info).toEqual({ pageCount: 2, version: '1.7' });
+    expect(analysis.text).toBe('Quarterly report\n\nSecond page text');
+  });
+
+  it('should truncate the extracted text to PDF_TEXT_MAX_LENGTH', async () => {
+    const pdf = buildPdf(['Quarterly report', 'Second page text']);
+
+    await expect(createService({ PDF_TEXT_MAX_LENGTH: '9' }).analyze(pdf)).resolves.toMatchObject({
+      info: { pageCount: 2 },
+      text: 'Quarterly',
+    });
+    await expect(createService({ PDF_TEXT_MAX_LENGTH: '0' }).analyze(pdf)).resolves.toMatchObject({ text: '' });
+    expect(() => createService({ PDF_TEXT_MAX_LENGTH: 'many' })).toThrow('Invalid PDF_TEXT_MAX_LENGTH');
+  });
+
+  it('should render the first page at the requested width keeping its proportions', async () => {
+    const image = await createService().renderFirstPage(buildPdf(['Cover', 'Body'], { width: 200, height: 100 }), 100);
+
+    expect(image).toMatchObject({ width: 100, height: 50 });
+    expect(image.data).toHaveLength(100 * 50 * 4);
+  });
+
+  it('should limit the preview height of very tall pages', async () => {
+    const image = await createService().renderFirstPage(buildPdf(['Receipt'], { width: 100, height: 1000 }), 50);
+
+    expect(image).toMatchObject({ width: 10, height: 100 });
+  });
+
+  it('should reject malformed PDF files', async () => {
+    const service = createService();
+
+    await expect(service.analyze(Buffer.from('%PDF-1.7\nnot really a pdf'))).rejects.toThrow(BadRequestException);
+    await expect(service.renderFirstPage(Buffer.from('plain text'), 100)).rejects.toThrow('Invalid PDF');
+  });
+
+  it('should reject encrypted PDF files whether or not they open without a password', async () => {
+    const service = createService();
+
+    for (const encryption of ['empty-password', 'unknown-password'] as const) {
+      const pdf = buildPdf(['Secret'], { encryption });
+      await expect(service.analyze(pdf)).rejects.toThrow(
+        new BadRequestException('Encrypted PDF files are not supported'),
+      );
+    }
+  });
+});
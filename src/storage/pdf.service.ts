@@ -0,0 +1,178 @@
+import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import type { PDFDocumentProxy } from 'pdfjs-dist/legacy/build/pdf.mjs' with { 'resolution-mode': 'import' };
+
+/**
+ * Campos de un PDF que se guardan en FileMetadata.metadata.pdf.
+ */
+export interface PdfInfo {
+  /** Número de páginas */
+  pageCount: number;
+  /** Versión declarada en la cabecera (ej: "1.7") */
+  version: string | null;
+}
+
+/**
+ * Resultado del análisis de un PDF subido.
+ */
+export interface PdfAnalysis {
+  info: PdfInfo;
+  /** Texto extraído de las páginas (truncado a PDF_TEXT_MAX_LENGTH) */
+  text: string;
+}
+
+/** Lienzo creado por la fábrica de pdf.js (API de canvas estándar) */
+interface PdfCanvas {
+  canvas: { width: number; height: number };
+  context: { getImageData(x: number, y: number, width: number, height: number): { data: Uint8ClampedArray } };
+}
+
+/** Caracteres de texto extraído que se guardan por defecto */
+const DEFAULT_TEXT_MAX_LENGTH = 200000;
+
+/** Proporción alto/ancho máxima de la vista previa */
+const MAX_PREVIEW_RATIO = 2;
+
+/** Recursos de pdf.js (fuentes estándar, CMaps y decodificadores wasm) */
+const PDFJS_ROOT = path.dirname(require.resolve('pdfjs-dist/package.json'));
+
+/**
+ * Servicio de procesamiento de PDF con pdf.js.
+ * Valida los PDF subidos (rechaza los cifrados o mal formados), obtiene número de páginas
+ * y versión, extrae su texto para búsqueda y renderiza la primera página para la miniatura.
+ * pdf.js se publica solo como ESM: se carga con import() la primera vez que se usa.
+ * @class PdfService
+ */
+@Injectable()
+export class PdfService {
+  private readonly logger = new Logger(PdfService.name);
+  /** Máximo de caracteres de texto extraído por archivo */
+  private readonly textMaxLength: number;
+
+  constructor(private configService: ConfigService) {
+    this.textMaxLength = parseInt(
+      this.configService.get<string>('PDF_TEXT_MAX_LENGTH') || String(DEFAULT_TEXT_MAX_LENGTH),
+      10,
+    );
+    if (!Number.isInteger(this.textMaxLength) || this.textMaxLength < 0) {
+      throw new Error('Invalid PDF_TEXT_MAX_LENGTH: expected a non-negative integer');
+    }
+  }
+
+  /**
+   * Valida un PDF y obtiene sus campos y su texto.
+   * @param buffer - Contenido del PDF
+   * @returns Número de páginas, versión y texto extraído
+   * @throws BadRequestException si el PDF está cifrado o mal formado
+   */
+  async analyze(buffer: Buffer): Promise<PdfAnalysis> {
+    return this.withDocument(buffer, async (document) => {
+      const { info } = await document.getMetadata();
+      const version = (info as { PDFFormatVersion?: string }).PDFFormatVersion ?? null;
+      const text = this.textMaxLength > 0 ? await this.extractText(document) : '';
+
+      return { info: { pageCount: document.numPages, version }, text };
+    });
+  }
+
+  /**
+   * Renderiza la primera página de un PDF.
+   * @param buffer - Contenido del PDF
+   * @param width - Ancho de la imagen en píxeles (el alto mantiene la proporción de la página)
+   * @returns Imagen RGBA sin comprimir, lista para Sharp
+   * @throws BadRequestException si el PDF está cifrado o mal formado
+   */
+  async renderFirstPage(buffer: Buffer, width: number): Promise<{ data: Buffer; width: number; height: number }> {
+    return this.withDocument(buffer, async (document) => {
+      const page = await document.getPage(1);
+      const size = page.getViewport({ scale: 1 });
+      // Páginas muy alargadas se limitan para no crear lienzos enormes
+      const viewport = page.getViewport({ scale: Math.min(width / size.width, (width * MAX_PREVIEW_RATIO) / size.height) });
+      const { canvas, context } = (document.canvasFactory as { create(w: number, h: number): PdfCanvas }).create(
+        Math.ceil(viewport.width),
+        Math.ceil(viewport.height),
+      );
+
+      await page.render({ canvas: canvas as HTMLCanvasElement, viewport }).promise;
+      const pixels = context.getImageData(0, 0, canvas.width, canvas.height);
+      return { data: Buffer.from(pixels.data.buffer, pixels.data.byteOffset, pixels.data.byteLength), width: canvas.width, height: canvas.height };
+    });
+  }
+
+  /**
+   * Abre un PDF, ejecuta la operación y libera el documento.
+   * @throws BadRequestException si el PDF está cifrado o mal formado
+   * @private
+   */
+  private async withDocument<T>(buffer: Buffer, work: (document: PDFDocumentProxy) => Promise<T>): Promise<T> {
+    const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+
+    let document: PDFDocumentProxy;
+    try {
+      document = await pdfjs.getDocument({
+        // pdf.js transfiere el buffer recibido: se le pasa una copia
+        data: new Uint8Array(buffer),
+        isEvalSupported: false,
+        useSystemFonts: false,
+        standardFontDataUrl: path.join(PDFJS_ROOT, 'standard_fonts') + path.sep,
+        cMapUrl: path.join(PDFJS_ROOT, 'cmaps') + path.sep,
+        wasmUrl: path.join(PDFJS_ROOT, 'wasm') + path.sep,
+        verbosity: pdfjs.VerbosityLevel.ERRORS,
+      }).promise;
+    } catch (error) {
+      throw this.toBadRequest(error);
+    }
+
+    try {
+      const { info } = await document.getMetadata();
+      if ((info as { EncryptFilterName?: string | null }).EncryptFilterName) {
+        throw new BadRequestException('Encrypted PDF files are not supported');
+      }
+      return await work(document);
+    } catch (error) {
+      throw this.toBadRequest(error);
+    } finally {
+      await document.destroy();
+    }
+  }
+
+  /**
+   * Extrae el texto de las páginas en orden hasta alcanzar el máximo configurado.
+   * @private
+   */
+  private async extractText(document: PDFDocumentProxy): Promise<string> {
+    let text = '';
+    for (let pageNumber = 1; pageNumber <= document.numPages && text.length < this.textMaxLength; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const pageText = content.items
+        .map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+        .join('')
+        .replace(/[ \t]+/g, ' ')
+        .replace(/\s*\n\s*/g, '\n')
+        .trim();
+      if (pageText) {
+        text += (text ? '\n\n' : '') + pageText;
+      }
+      page.cleanup();
+    }
+    return text.slice(0, this.textMaxLength);
+  }
+
+  /**
+   * Traduce los errores de pdf.js a BadRequestException.
+   * @private
+   */
+  private toBadRequest(error: unknown): Error {
+    if (error instanceof BadRequestException) {
+      return error;
+    }
+    const { name, message } = error as Error;
+    if (name === 'PasswordException') {
+      return new BadRequestException('Encrypted PDF files are not supported');
+    }
+    this.logger.warn(`📄 Rejected PDF: ${name}: ${message}`);
+    return new BadRequestException(`Invalid PDF: ${message}`);
+  }
+}
@@ -0,0 +1,130 @@
+import { HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { QuotaScope, QuotaService } from './quota.service';
+import { EntityType, FileCategory, FileMetadata } from './entities/file-metadata.entity';
+
+// uuid solo se publica como ESM y Jest carga los módulos como CommonJS
+jest.mock('uuid', () => ({ v4: () => jest.requireActual<typeof import('crypto')>('crypto').randomUUID() }));
+
+const UPLOADER = '0b6f2a4c-3d5e-4f70-8a91-b2c3d4e5f607';
+const INSTITUTION = '9a8b7c6d-5e4f-4a3b-9c2d-1e0f9a8b7c6d';
+
+describe('QuotaService', () => {
+  let usage: Record<string, { bytes: number; files: number }>;
+  let measured: string[];
+
+  function createService(env: Record<string, string>) {
+    const repository = {
+      createQueryBuilder: () => {
+        let condition = '';
+        const builder = {
+          select: () => builder,
+          addSelect: () => builder,
+          where: () => builder,
+          andWhere: (where: string) => {
+            condition = where;
+            return builder;
+          },
+          getRawOne: () => {
+            measured.push(condition);
+            const { bytes, files } = usage[condition] ?? { bytes: 0, files: 0 };
+            return Promise.resolve({ bytes: String(bytes), files: String(files) });
+          },
+        };
+        return builder;
+      },
+    };
+    return new QuotaService(repository as unknown as Repository<FileMetadata>, new ConfigService(env));
+  }
+
+  beforeEach(() => {
+    usage = {
+      'file.uploadedBy = :uploadedBy': { bytes: 900, files: 3 },
+      'file.entityType = :entityType AND file.entityId = :entityId': { bytes: 5000, files: 9 },
+      'file.category = :category': { bytes: 100, files: 1 },
+    };
+    measured = [];
+  });
+
+  it('should reject uploads that would exceed a quota with 413', async () => {
+    const service = createService({
+      QUOTA_UPLOADER_MAX_BYTES: '1000',
+      QUOTA_ENTITY_MAX_FILES: '5',
+      QUOTA_ENTITY_INSTITUTION_MAX_FILES: '10',
+    });
+    const target = {
+      category: FileCategory.DOCUMENT,
+      entityType: EntityType.INSTITUTION,
+      entityId: INSTITUTION,
+      uploadedBy: UPLOADER,
+    };
+
+    await expect(service.assertWithinQuota(target, 100)).resolves.toBeUndefined();
+    await expect(service.assertWithinQuota(target, 101)).rejects.toMatchObject({
+      status: HttpStatus.PAYLOAD_TOO_LARGE,
+      message: `Storage quota exceeded for uploader ${UPLOADER}: 900 of 1000 bytes used, file is 101 bytes`,
+    });
+
+    // La entidad usa el límite de su tipo; el de entidades en general aplica al resto
+    usage['file.entityType = :entityType AND file.entityId = :entityId'].files = 10;
+    await expect(service.assertWithinQuota({ entityType: EntityType.INSTITUTION, entityId: INSTITUTION }, 1)).rejects.toThrow(
+      '10 of 10 files used',
+    );
+    await expect(service.assertWithinQuota({ entityType: EntityType.USER, entityId: UPLOADER }, 1)).rejects.toThrow(
+      '10 of 5 files used',
+    );
+  });
+
+  it('should only count the byte difference when replacing the content of a file', async () => {
+    const service = createService({ QUOTA_UPLOADER_MAX_BYTES: '1000', QUOTA_UPLOADER_MAX_FILES: '3' });
+    const target = { uploadedBy: UPLOADER };
+
+    // Un archivo nuevo ya no cabe, pero una versión nueva no suma archivos
+    await expect(service.assertWithinQuota(target, 10)).rejects.toThrow('3 of 3 files used');
+    await expect(service.assertWithinQuota(target, 150, 50)).resolves.toBeUndefined();
+    await expect(service.assertWithinQuota(target, 151, 50)).rejects.toThrow('900 of 1000 bytes used, file is 151 bytes');
+
+    // Achicar el contenido siempre se permite, aunque la cuota ya esté excedida
+    usage['file.uploadedBy = :uploadedBy'].bytes = 1200;
+    await expect(service.assertWithinQuota(target, 40, 50)).resolves.toBeUndefined();
+  });
+
+  it('should not query usage for quotas without limits', async () => {
+    await createService({}).assertWithinQuota({ category: FileCategory.DOCUMENT, uploadedBy: UPLOADER }, 10);
+
+    expect(measured).toEqual([]);
+  });
+
+  it('should report usage against each applicable limit', async () => {
+    const usages = await createService({ QUOTA_CATEGORY_DOCUMENT_MAX_BYTES: '150' }).getUsage({
+      category: FileCategory.DOCUMENT,
+      uploadedBy: UPLOADER,
+      entityType: EntityType.APPLICATION,
+    });
+
+    expect(usages).toEqual([
+      {
+        scope: QuotaScope.UPLOADER,
+        key: UPLOADER,
+        used: { bytes: 900, files: 3 },
+        limit: { maxBytes: null, maxFiles: null },
+        remaining: { bytes: null, files: null },
+      },
+      {
+        scope: QuotaScope.CATEGORY,
+        key: FileCategory.DOCUMENT,
+        used: { bytes: 100, files: 1 },
+        limit: { maxBytes: 150, maxFiles: null },
+        remaining: { bytes: 50, files: null },
+      },
+    ]);
+  });
+
+  it('should refuse invalid limits', () => {
+    expect(() => createService({ QUOTA_UPLOADER_MAX_FILES: '0' })).toThrow('Invalid QUOTA_UPLOADER_MAX_FILES');
+    expect(() => createService({ QUOTA_CATEGORY_PROFILE_MAX_BYTES: '1.5GB' })).toThrow(
+      'Invalid QUOTA_CATEGORY_PROFILE_MAX_BYTES',
+    );
+  });
+});
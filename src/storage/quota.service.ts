@@ -0,0 +1,225 @@
+import { Injectable, Logger, PayloadTooLargeException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { EntityType, FileCategory, FileMetadata } from './entities/file-metadata.entity';
+
+/**
+ * Ámbitos en los que se aplica una cuota.
+ * @enum {string}
+ */
+export enum QuotaScope {
+  /** Archivos subidos por un usuario (uploadedBy) */
+  UPLOADER = 'uploader',
+  /** Archivos de una entidad (entityType + entityId) */
+  ENTITY = 'entity',
+  /** Archivos de una categoría */
+  CATEGORY = 'category',
+}
+
+/**
+ * Límites de una cuota (null = sin límite).
+ */
+export interface QuotaLimit {
+  maxBytes: number | null;
+  maxFiles: number | null;
+}
+
+/**
+ * Consumo de una cuota frente a su límite.
+ */
+export interface QuotaUsage {
+  scope: QuotaScope;
+  /** Usuario, entidad ("TIPO:id") o categoría */
+  key: string;
+  /** Bytes y archivos activos */
+  used: { bytes: number; files: number };
+  limit: QuotaLimit;
+  /** Margen restante (null = sin límite) */
+  remaining: { bytes: number | null; files: number | null };
+}
+
+/**
+ * Propietarios de un archivo que se consideran al aplicar las cuotas.
+ */
+export interface QuotaTarget {
+  category?: FileCategory;
+  entityType?: EntityType;
+  entityId?: string;
+  uploadedBy?: string;
+}
+
+const UNLIMITED: QuotaLimit = { maxBytes: null, maxFiles: null };
+
+/**
+ * Servicio de cuotas de almacenamiento.
+ * Limita bytes y número de archivos activos por usuario que sube, por entidad y por categoría.
+ * Los límites se configuran por entorno (ver .env.example); sin configuración no hay límite.
+ * Se cuenta el tamaño lógico de los archivos activos: los eliminados dejan de contar aunque su
+ * contenido se conserve hasta la purga de retención.
+ * La verificación es previa a la subida, por lo que subidas simultáneas pueden exceder levemente el límite.
+ * @class QuotaService
+ */
+@Injectable()
+export class QuotaService {
+  private readonly logger = new Logger(QuotaService.name);
+  /** Límite por usuario que sube */
+  private readonly uploaderLimit: QuotaLimit;
+  /** Límite por entidad, según su tipo */
+  private readonly entityLimits = new Map<EntityType, QuotaLimit>();
+  /** Límite por categoría */
+  private readonly categoryLimits = new Map<FileCategory, QuotaLimit>();
+
+  constructor(
+    @InjectRepository(FileMetadata)
+    private fileMetadataRepository: Repository<FileMetadata>,
+    private configService: ConfigService,
+  ) {
+    this.uploaderLimit = this.parseLimit('QUOTA_UPLOADER', UNLIMITED);
+
+    const entityDefault = this.parseLimit('QUOTA_ENTITY', UNLIMITED);
+    for (const entityType of Object.values(EntityType)) {
+      this.entityLimits.set(entityType, this.parseLimit(`QUOTA_ENTITY_${entityType}`, entityDefault));
+    }
+    for (const category of Object.values(FileCategory)) {
+      this.categoryLimits.set(category, this.parseLimit(`QUOTA_CATEGORY_${category}`, UNLIMITED));
+    }
+  }
+
+  /**
+   * Verifica que un archivo nuevo, o el contenido nuevo de un archivo existente, quepa en todas las cuotas que le aplican.
+   * Al reemplazar contenido (nueva versión) el archivo ya está contado: solo cuenta la diferencia de bytes.
+   * @param target - Propietarios del archivo
+   * @param size - Tamaño en bytes del archivo
+   * @param replacedSize - Tamaño del contenido vigente que se reemplaza (solo para nuevas versiones)
+   * @throws PayloadTooLargeException (413) si alguna cuota quedaría excedida
+   */
+  async assertWithinQuota(target: QuotaTarget, size: number, replacedSize?: number): Promise<void> {
+    const addedFiles = replacedSize === undefined ? 1 : 0;
+    const addedBytes = size - (replacedSize ?? 0);
+    for (const { scope, key, condition, limit } of this.applicableQuotas(target)) {
+      if (limit.maxBytes === null && limit.maxFiles === null) {
+        continue;
+      }
+
+      const used = await this.measure(condition);
+      if (limit.maxFiles !== null && used.files + addedFiles > limit.maxFiles) {
+        this.logger.warn(`⛔ File quota exceeded for ${scope} ${key}: ${used.files}/${limit.maxFiles} files`);
+        throw new PayloadTooLargeException(
+          `Storage quota exceeded for ${scope} ${key}: ${used.files} of ${limit.maxFiles} files used`,
+        );
+      }
+      if (limit.maxBytes !== null && addedBytes > 0 && used.bytes + addedBytes > limit.maxBytes) {
+        this.logger.warn(`⛔ Byte quota exceeded for ${scope} ${key}: ${used.bytes}+${size}/${limit.maxBytes} bytes`);
+        throw new PayloadTooLargeException(
+          `Storage quota exceeded for ${scope} ${key}: ${used.bytes} of ${limit.maxBytes} bytes used, file is ${size} bytes`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Obtiene el consumo y el límite de cada cuota que aplica a los propietarios indicados.
+   * @param target - Usuario, entidad (tipo e ID) y/o categoría
+   * @returns Consumo de cada cuota, en orden usuario, entidad, categoría
+   */
+  async getUsage(target: QuotaTarget): Promise<QuotaUsage[]> {
+    const usages: QuotaUsage[] = [];
+    for (const { scope, key, condition, limit } of this.applicableQuotas(target)) {
+      const used = await this.measure(condition);
+      usages.push({
+        scope,
+        key,
+        used,
+        limit,
+        remaining: {
+          bytes: limit.maxBytes === null ? null : Math.max(limit.maxBytes - used.bytes, 0),
+          files: limit.maxFiles === null ? null : Math.max(limit.maxFiles - used.files, 0),
+        },
+      });
+    }
+    return usages;
+  }
+
+  /**
+   * Cuotas que aplican a un archivo según sus propietarios.
+   * @private
+   */
+  private applicableQuotas(target: QuotaTarget) {
+    const quotas: {
+      scope: QuotaScope;
+      key: string;
+      condition: { where: string; parameters: Record<string, unknown> };
+      limit: QuotaLimit;
+    }[] = [];
+
+    if (target.uploadedBy) {
+      quotas.push({
+        scope: QuotaScope.UPLOADER,
+        key: target.uploadedBy,
+        condition: { where: 'file.uploadedBy = :uploadedBy', parameters: { uploadedBy: target.uploadedBy } },
+        limit: this.uploaderLimit,
+      });
+    }
+    if (target.entityType && target.entityId) {
+      quotas.push({
+        scope: QuotaScope.ENTITY,
+        key: `${target.entityType}:${target.entityId}`,
+        condition: {
+          where: 'file.entityType = :entityType AND file.entityId = :entityId',
+          parameters: { entityType: target.entityType, entityId: target.entityId },
+        },
+        limit: this.entityLimits.get(target.entityType) ?? UNLIMITED,
+      });
+    }
+    if (target.category) {
+      quotas.push({
+        scope: QuotaScope.CATEGORY,
+        key: target.category,
+        condition: { where: 'file.category = :category', parameters: { category: target.category } },
+        limit: this.categoryLimits.get(target.category) ?? UNLIMITED,
+      });
+    }
+    return quotas;
+  }
+
+  /**
+   * Suma bytes y cuenta los archivos activos que cumplen una condición.
+   * @private
+   */
+  private async measure(condition: { where: string; parameters: Record<string, unknown> }) {
+    const row = await this.fileMetadataRepository
+      .createQueryBuilder('file')
+      .select('COALESCE(SUM(file.size), 0)', 'bytes')
+      .addSelect('COUNT(*)', 'files')
+      .where('file.active = :active', { active: true })
+      .andWhere(condition.where, condition.parameters)
+      .getRawOne<{ bytes: string; files: string }>();
+
+    return { bytes: Number(row?.bytes ?? 0), files: Number(row?.files ?? 0) };
+  }
+
+  /**
+   * Lee los límites <prefix>_MAX_BYTES y <prefix>_MAX_FILES (vacío = el del fallback).
+   * @throws Error si algún valor no es un entero positivo
+   * @private
+   */
+  private parseLimit(prefix: string, fallback: QuotaLimit): QuotaLimit {
+    const read = (key: string, inherited: number | null) => {
+      const raw = this.configService.get<string>(key);
+      if (raw === undefined || raw === '') {
+        return inherited;
+      }
+      const value = Number(raw);
+      if (!Number.isSafeInteger(value) || value < 1) {
+        throw new Error(`Invalid ${key}: expected a positive integer`);
+      }
+      return value;
+    };
+
+    return {
+      maxBytes: read(`${prefix}_MAX_BYTES`, fallback.maxBytes),
+      maxFiles: read(`${prefix}_MAX_FILES`, fallback.maxFiles),
+    };
+  }
+}
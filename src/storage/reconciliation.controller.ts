@@ -0,0 +1,86 @@
+import { Controller, Get, Post, Body, Param, Query, UseGuards, UseInterceptors, ParseUUIDPipe, ParseIntPipe, DefaultValuePipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiSecurity, ApiQuery } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { ReconciliationService } from './reconciliation.service';
+import { ApiKeyGuard } from './guards/api-key.guard';
+import { RequireScope } from './decorators/require-scope.decorator';
+import { CurrentApiKey } from './decorators/current-api-key.decorator';
+import { ApiKeyScope } from './entities/api-key.entity';
+import { AuditInterceptor } from './interceptors/audit.interceptor';
+import { Audited } from './decorators/audited.decorator';
+import { AuditAction } from './entities/audit-event.entity';
+import { StartReconciliationDto } from './dto/start-reconciliation.dto';
+import type { ApiKeyPrincipal } from './api-key.service';
+
+/**
+ * Controlador de la reconciliación de integridad.
+ * Inicia reconciliaciones (dry-run o con reparación) y consulta sus reportes.
+ * Requiere una key con permiso admin.
+ * @class ReconciliationController
+ */
+@ApiTags('Reconciliation')
+@ApiSecurity('api-key')
+@Controller('storage/reconciliation')
+@UseGuards(ApiKeyGuard)
+@UseInterceptors(AuditInterceptor)
+@RequireScope(ApiKeyScope.ADMIN)
+@Throttle({ default: { limit: 20, ttl: 60000 } })
+export class ReconciliationController {
+  constructor(private readonly reconciliationService: ReconciliationService) {}
+
+  /**
+   * Inicia una reconciliación en segundo plano. Por defecto solo reporta;
+   * con dryRun=false regenera miniaturas y aparta los objetos huérfanos.
+   * @param dto - Modo y verificación de checksums
+   * @param apiKey - Key que inicia la ejecución
+   * @returns Reporte en curso (consultar con GET /storage/reconciliation/:reportId)
+   */
+  @Post()
+  @Audited(AuditAction.RECONCILE)
+  @Throttle({ default: { limit: 1, ttl: 300000 } })
+  @ApiOperation({ summary: 'Start a reconciliation between the database and storage (admin only)' })
+  @ApiResponse({ status: 201, description: 'Reconciliation started' })
+  @ApiResponse({ status: 409, description: 'A reconciliation is already running' })
+  async start(@Body() dto: StartReconciliationDto, @CurrentApiKey() apiKey?: ApiKeyPrincipal) {
+    return {
+      success: true,
+      report: await this.reconciliationService.start({
+        dryRun: dto.dryRun ?? true,
+        verifyChecksums: dto.verifyChecksums ?? false,
+        triggeredBy: apiKey?.name ?? null,
+      }),
+    };
+  }
+
+  /**
+   * Lista los reportes más recientes (sin el detalle de inconsistencias).
+   * @param limit - Máximo de reportes (default: 20)
+   * @returns Lista de reportes
+   */
+  @Get()
+  @ApiOperation({ summary: 'List reconciliation reports' })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Reconciliation reports listed' })
+  async listReports(@Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number) {
+    return {
+      success: true,
+      data: await this.reconciliationService.listReports(Math.min(Math.max(limit, 1), 100)),
+    };
+  }
+
+  /**
+   * Obtiene un reporte con el detalle de inconsistencias.
+   * @param reportId - UUID del reporte
+   * @returns Reporte
+   */
+  @Get(':reportId')
+  @ApiOperation({ summary: 'Get a reconciliation report' })
+  @ApiResponse({ status: 200, description: 'Reconciliation report' })
+  @ApiResponse({ status: 404, description: 'Report not found' })
+  async getReport(@Param('reportId', ParseUUIDPipe) reportId: string) {
+    return {
+      success: true,
+      report: await this.reconciliationService.getReport(reportId),
+    };
+  }
+}
@@ -0,0 +1,180 @@
+import { ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FindOperator, Repository } from 'typeorm';
+import { ReconciliationService } from './reconciliation.service';
+import { StorageService } from './storage.service';
+import { StorageDriverRegistry } from './drivers/storage-driver.registry';
+import { StorageDriver } from './drivers/storage-driver.interface';
+import { computeChecksum } from './blob.service';
+import { FileMetadata, ScanStatus } from './entities/file-metadata.entity';
+import { FileVersion } from './entities/file-version.entity';
+import { StoredBlob } from './entities/stored-blob.entity';
+import {
+  ReconciliationIssueType,
+  ReconciliationReport,
+  ReconciliationStatus,
+} from './entities/reconciliation-report.entity';
+
+// uuid solo se publica como ESM y Jest carga los módulos como CommonJS
+jest.mock('uuid', () => ({ v4: () => jest.requireActual<typeof import('crypto')>('crypto').randomUUID() }));
+
+type Row = Record<string, unknown>;
+
+/** Evalúa las condiciones de `where` que usa el servicio (igualdad, In y MoreThan) */
+function matches(row: Row, where: Row | Row[]): boolean {
+  if (Array.isArray(where)) {
+    return where.some((condition) => matches(row, condition));
+  }
+  return Object.entries(where).every(([key, condition]) => {
+    if (!(condition instanceof FindOperator)) {
+      return row[key] === condition;
+    }
+    const value = condition.value as unknown;
+    if (condition.type === 'in') {
+      return (value as unknown[]).includes(row[key]);
+    }
+    return String(row[key]) > String(value);
+  });
+}
+
+/** Repositorio en memoria de solo lectura */
+function createFakeRepository(rows: Row[]) {
+  return {
+    find: ({ where = {} }: { where?: Row | Row[] }) =>
+      Promise.resolve(rows.filter((row) => matches(row, where)).sort((a, b) => String(a.id).localeCompare(String(b.id)))),
+  };
+}
+
+const OLD_DATE = new Date('2020-01-01T00:00:00Z');
+
+describe('ReconciliationService', () => {
+  let uploadPath: string;
+  let driver: StorageDriver;
+  let files: Row[];
+  let versions: Row[];
+  let blobs: Row[];
+  let regenerated: string[];
+  let service: ReconciliationService;
+
+  /** Guarda un objeto con fecha de modificación antigua (fuera del período de gracia) */
+  async function putOld(key: string, content: string) {
+    await driver.put(key, Buffer.from(content));
+    await fs.utimes(path.join(uploadPath, key), OLD_DATE, OLD_DATE);
+  }
+
+  function imageFile(overrides: Row): Row {
+    const checksum = computeChecksum(Buffer.from(String(overrides.id)));
+    return {
+      mimetype: 'image/png',
+      detectedMimetype: 'image/png',
+      checksum,
+      path: `blobs/${checksum}`,
+      storageDriver: 'local',
+      storageBucket: null,
+      thumbnailPath: `thumbnails/thumb_${checksum}.jpg`,
+      scanStatus: ScanStatus.CLEAN,
+      active: true,
+      currentVersion: 1,
+      ...overrides,
+    };
+  }
+
+  beforeEach(async () => {
+    uploadPath = await fs.mkdtemp(path.join(os.tmpdir(), 'fcg-reconcile-'));
+    const config = new ConfigService({ UPLOAD_PATH: uploadPath });
+    const storageDrivers = new StorageDriverRegistry(config);
+    driver = storageDrivers.getDefault();
+    files = [];
+    versions = [];
+    blobs = [];
+    regenerated = [];
+
+    const reports = {
+      create: (data: Partial<ReconciliationReport>) => Object.assign(new ReconciliationReport(), data),
+      save: (report: ReconciliationReport) => Promise.resolve(Object.assign(report, { id: report.id ?? 'report-1' })),
+    };
+    const storageService = {
+      regenerateThumbnail: (file: FileMetadata) => {
+        regenerated.push(file.id);
+        return Promise.resolve(`thumbnails/thumb_${file.checksum}.jpg`);
+      },
+    };
+
+    service = new ReconciliationService(
+      reports as unknown as Repository<ReconciliationReport>,
+      createFakeRepository(files) as unknown as Repository<FileMetadata>,
+      createFakeRepository(versions) as unknown as Repository<FileVersion>,
+      createFakeRepository(blobs) as unknown as Repository<StoredBlob>,
+      config,
+      storageService as unknown as StorageService,
+      storageDrivers,
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(uploadPath, { recursive: true, force: true });
+  });
+
+  it('should report every kind of inconsistency in dry-run without touching anything', async () => {
+    const healthy = imageFile({ id: 'a-healthy' });
+    const missing = imageFile({ id: 'b-missing' });
+    const noThumbnail = imageFile({ id: 'c-no-thumb', thumbnailPath: null });
+    const corrupted = imageFile({ id: 'd-corrupted', mimetype: 'text/plain', detectedMimetype: 'text/plain' });
+    files.push(healthy, missing, noThumbnail, corrupted);
+    versions.push({ id: 'v1', fileId: 'a-healthy', versionNumber: 1, path: healthy.path, thumbnailPath: null });
+    versions.push({ id: 'v2', fileId: 'd-corrupted', versionNumber: 0, path: 'blobs/lost-version', checksum: null });
+
+    for (const file of [healthy, noThumbnail]) {
+      await putOld(String(file.path), String(file.id));
+    }
+    await putOld(String(healthy.thumbnailPath), 'thumb');
+    await putOld(String(corrupted.path), 'tampered content');
+    await putOld('blobs/leftover', 'nobody references me');
+    await driver.put('blobs/just-uploaded', Buffer.from('upload in progress'));
+    await putOld('temp/uploads/session/part-1', 'chunk');
+
+    const report = await service.reconcile({ dryRun: true, verifyChecksums: true, triggeredBy: 'test' });
+
+    expect(report.status).toBe(ReconciliationStatus.COMPLETED);
+    expect(report.summary).toMatchObject({ files: 4, versions: 1, repaired: 0 });
+    expect(report.issues.map((issue) => [issue.type, issue.fileId ?? issue.key]).sort()).toEqual([
+      [ReconciliationIssueType.CHECKSUM_MISMATCH, 'd-corrupted'],
+      [ReconciliationIssueType.MISSING_OBJECT, 'b-missing'],
+      [ReconciliationIssueType.MISSING_OBJECT, 'd-corrupted'],
+      [ReconciliationIssueType.MISSING_THUMBNAIL, 'c-no-thumb'],
+      [ReconciliationIssueType.STRAY_OBJECT, 'blobs/leftover'],
+    ]);
+    expect(regenerated).toEqual([]);
+    expect(await driver.exists('blobs/leftover')).toBe(true);
+  });
+
+  it('should regenerate thumbnails and move stray objects aside when repairing', async () => {
+    const stale = imageFile({ id: 'stale', thumbnailPath: 'thumbnails/thumb_other.jpg' });
+    files.push(stale);
+    await putOld(String(stale.path), 'image');
+    await putOld('thumbnails/thumb_other.jpg', 'thumb');
+    await putOld('thumbnails/thumb_orphan.jpg', 'orphan thumb');
+
+    const report = await service.reconcile({ dryRun: false, verifyChecksums: false, triggeredBy: null });
+
+    expect(report.issues).toEqual([
+      expect.objectContaining({ type: ReconciliationIssueType.STALE_THUMBNAIL, fileId: 'stale', repaired: true }),
+      expect.objectContaining({ type: ReconciliationIssueType.STRAY_OBJECT, key: 'thumbnails/thumb_orphan.jpg', repaired: true }),
+    ]);
+    expect(regenerated).toEqual(['stale']);
+    expect(await driver.exists('thumbnails/thumb_orphan.jpg')).toBe(false);
+    expect(await driver.exists('quarantine/strays/thumbnails/thumb_orphan.jpg')).toBe(true);
+  });
+
+  it('should allow a single run at a time', async () => {
+    const first = service.reconcile({ dryRun: true, verifyChecksums: false, triggeredBy: null });
+
+    await expect(service.start({ dryRun: true, verifyChecksums: false, triggeredBy: null })).rejects.toThrow(
+      ConflictException,
+    );
+    await expect(first).resolves.toMatchObject({ status: ReconciliationStatus.COMPLETED });
+  });
+});
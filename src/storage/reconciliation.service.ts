@@ -0,0 +1,504 @@
+import { Injectable, ConflictException, NotFoundException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { In, MoreThan, Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import {
+  ReconciliationReport,
+  ReconciliationStatus,
+  ReconciliationIssue,
+  ReconciliationIssueType,
+  ReconciliationSummary,
+} from './entities/reconciliation-report.entity';
+import { FileMetadata, ScanStatus } from './entities/file-metadata.entity';
+import { FileVersion } from './entities/file-version.entity';
+import { StoredBlob } from './entities/stored-blob.entity';
+import { StorageService, supportsThumbnail, VersionContent } from './storage.service';
+import { StorageDriverRegistry } from './drivers/storage-driver.registry';
+import { StorageDriver } from './drivers/storage-driver.interface';
+
+/** Registros u objetos revisados por lote */
+const BATCH_SIZE = 200;
+
+/** Máximo de inconsistencias detalladas en un reporte (los contadores incluyen todas) */
+const MAX_REPORTED_ISSUES = 1000;
+
+/** Los objetos más recientes no se consideran huérfanos: pueden ser de una subida en curso */
+const STRAY_GRACE_PERIOD_MS = 60 * 60 * 1000;
+
+/** Prefijos que no se revisan (partes de subidas por sesión y huérfanos ya apartados) */
+const IGNORED_PREFIXES = ['temp/', 'quarantine/strays/'];
+
+/** Prefijo al que se mueven los objetos huérfanos al reparar */
+const STRAY_QUARANTINE_PREFIX = 'quarantine/strays';
+
+/**
+ * Opciones de una ejecución de la reconciliación.
+ */
+export interface ReconciliationOptions {
+  /** true = solo reportar; false = reparar lo reparable */
+  dryRun: boolean;
+  /** Verifica el checksum de cada objeto (lee todo el contenido almacenado) */
+  verifyChecksums: boolean;
+  /** Quién inicia la ejecución */
+  triggeredBy: string | null;
+}
+
+/**
+ * Estado de una ejecución en curso.
+ */
+interface ReconciliationRun {
+  report: ReconciliationReport;
+  summary: ReconciliationSummary;
+}
+
+/**
+ * Servicio de reconciliación de integridad entre la BD y el almacenamiento.
+ * Detecta registros sin objeto, objetos sin registro, miniaturas faltantes o desactualizadas
+ * y, opcionalmente, checksums que no coinciden. Revisa por lotes y guarda cada ejecución
+ * como un ReconciliationReport. Al reparar regenera miniaturas y aparta los objetos huérfanos
+ * en quarantine/strays/; registros sin objeto y checksums distintos solo se reportan.
+ * @class ReconciliationService
+ */
+@Injectable()
+export class ReconciliationService {
+  private readonly logger = new Logger(ReconciliationService.name);
+  /** true mientras hay una ejecución en curso (una a la vez por instancia) */
+  private running = false;
+
+  constructor(
+    @InjectRepository(ReconciliationReport)
+    private reportRepository: Repository<ReconciliationReport>,
+    @InjectRepository(FileMetadata)
+    private fileMetadataRepository: Repository<FileMetadata>,
+    @InjectRepository(FileVersion)
+    private fileVersionRepository: Repository<FileVersion>,
+    @InjectRepository(StoredBlob)
+    private blobRepository: Repository<StoredBlob>,
+    private configService: ConfigService,
+    private storageService: StorageService,
+    private storageDrivers: StorageDriverRegistry,
+  ) {}
+
+  /**
+   * Inicia una reconciliación en segundo plano.
+   * @param options - Modo (dry-run o reparación) y verificación de checksums
+   * @returns Reporte en estado RUNNING (consultar su avance con getReport)
+   * @throws ConflictException si ya hay una reconciliación en curso
+   */
+  async start(options: ReconciliationOptions): Promise<ReconciliationReport> {
+    const report = await this.createReport(options);
+    void this.run(report);
+    return report;
+  }
+
+  /**
+   * Ejecuta una reconciliación completa y espera su resultado.
+   * @param options - Modo (dry-run o reparación) y verificación de checksums
+   * @returns Reporte finalizado
+   * @throws ConflictException si ya hay una reconciliación en curso
+   */
+  async reconcile(options: ReconciliationOptions): Promise<ReconciliationReport> {
+    return this.run(await this.createReport(options));
+  }
+
+  /**
+   * Reconciliación programada (semanal): solo reporta, sin reparar.
+   * Verifica checksums si RECONCILIATION_VERIFY_CHECKSUMS=true.
+   */
+  @Cron(CronExpression.EVERY_WEEK)
+  async scheduledReconciliation(): Promise<void> {
+    if (this.running) {
+      this.logger.warn('⏭️ Scheduled reconciliation skipped: another run is in progress');
+      return;
+    }
+
+    const report = await this.reconcile({
+      dryRun: true,
+      verifyChecksums: this.configService.get<string>('RECONCILIATION_VERIFY_CHECKSUMS') === 'true',
+      triggeredBy: 'system:schedule',
+    });
+    const found = Object.values(report.summary?.issues ?? {}).reduce((sum, count) => sum + count, 0);
+    if (found > 0) {
+      this.logger.warn(`⚠️ Scheduled reconciliation found ${found} issues (report ${report.id})`);
+    }
+  }
+
+  /**
+   * Obtiene un reporte de reconciliación.
+   * @param id - UUID del reporte
+   * @throws NotFoundException si el reporte no existe
+   */
+  async getReport(id: string): Promise<ReconciliationReport> {
+    const report = await this.reportRepository.findOne({ where: { id } });
+    if (!report) {
+      throw new NotFoundException('Reconciliation report not found');
+    }
+    return report;
+  }
+
+  /**
+   * Lista los reportes más recientes, sin el detalle de inconsistencias.
+   * @param limit - Máximo de reportes (default: 20)
+   */
+  async listReports(limit: number = 20): Promise<ReconciliationReport[]> {
+    return this.reportRepository.find({
+      select: ['id', 'status', 'dryRun', 'verifyChecksums', 'triggeredBy', 'summary', 'truncated', 'error', 'startedAt', 'finishedAt'],
+      order: { startedAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Registra el inicio de una ejecución y reserva el turno.
+   * @private
+   */
+  private async createReport(options: ReconciliationOptions): Promise<ReconciliationReport> {
+    if (this.running) {
+      throw new ConflictException('A reconciliation is already running');
+    }
+    this.running = true;
+
+    try {
+      return await this.reportRepository.save(
+        this.reportRepository.create({
+          status: ReconciliationStatus.RUNNING,
+          dryRun: options.dryRun,
+          verifyChecksums: options.verifyChecksums,
+          triggeredBy: options.triggeredBy,
+          summary: null,
+          issues: [],
+          truncated: false,
+          error: null,
+          finishedAt: null,
+        }),
+      );
+    } catch (error) {
+      this.running = false;
+      throw error;
+    }
+  }
+
+  /**
+   * Revisa archivos, versiones y objetos almacenados y guarda el reporte.
+   * Nunca lanza: un error interrumpe la ejecución y queda registrado en el reporte.
+   * @private
+   */
+  private async run(report: ReconciliationReport): Promise<ReconciliationReport> {
+    const issues = Object.fromEntries(
+      Object.values(ReconciliationIssueType).map((type) => [type, 0]),
+    ) as Record<ReconciliationIssueType, number>;
+    const state: ReconciliationRun = { report, summary: { files: 0, versions: 0, objects: 0, issues, repaired: 0 } };
+    const mode = report.dryRun ? 'dry-run' : 'repair';
+    this.logger.log(`🔎 Reconciliation ${report.id} started (${mode})`);
+
+    try {
+      await this.checkFiles(state);
+      await this.checkVersions(state);
+      await this.checkStoredObjects(state);
+      report.status = ReconciliationStatus.COMPLETED;
+    } catch (error) {
+      report.status = ReconciliationStatus.FAILED;
+      report.error = (error as Error).message;
+      this.logger.error(`❌ Reconciliation ${report.id} failed: ${report.error}`);
+    } finally {
+      this.running = false;
+    }
+
+    report.summary = state.summary;
+    report.finishedAt = new Date();
+    try {
+      await this.reportRepository.save(report);
+    } catch (error) {
+      this.logger.error(`❌ Failed to save reconciliation report ${report.id}: ${(error as Error).message}`);
+    }
+
+    this.logger.log(
+      `🔎 Reconciliation ${report.id} ${report.status.toLowerCase()}: ` +
+        `${report.issues.length}${report.truncated ? '+' : ''} issues, ${state.summary.repaired} repaired`,
+    );
+    return report;
+  }
+
+  /**
+   * Revisa el contenido vigente de cada archivo (incluidos los eliminados, que pueden restaurarse)
+   * y las miniaturas de los activos.
+   * @private
+   */
+  private async checkFiles(state: ReconciliationRun): Promise<void> {
+    let lastId: string | null = null;
+
+    for (;;) {
+      const batch = await this.fileMetadataRepository.find({
+        where: lastId ? { id: MoreThan(lastId) } : {},
+        order: { id: 'ASC' },
+        take: BATCH_SIZE,
+      });
+
+      for (const file of batch) {
+        state.summary.files += 1;
+        const exists = await this.checkContent(state, file, file.id, null);
+        if (exists && file.active) {
+          await this.checkThumbnail(state, file);
+        }
+      }
+
+      if (batch.length < BATCH_SIZE) {
+        return;
+      }
+      lastId = batch[batch.length - 1].id;
+    }
+  }
+
+  /**
+   * Revisa el contenido de las versiones anteriores (la vigente se revisa con su archivo).
+   * @private
+   */
+  private async checkVersions(state: ReconciliationRun): Promise<void> {
+    let lastId: string | null = null;
+
+    for (;;) {
+      const batch = await this.fileVersionRepository.find({
+        where: lastId ? { id: MoreThan(lastId) } : {},
+        order: { id: 'ASC' },
+        take: BATCH_SIZE,
+      });
+
+      const fileIds = [...new Set(batch.map((version) => version.fileId))];
+      const files = fileIds.length
+        ? await this.fileMetadataRepository.find({
+            where: { id: In(fileIds) },
+            select: { id: true, currentVersion: true },
+          })
+        : [];
+      const currentVersions = new Map(files.map((file) => [file.id, file.currentVersion]));
+
+      for (const version of batch) {
+        if (currentVersions.get(version.fileId) === version.versionNumber) {
+          continue;
+        }
+        state.summary.versions += 1;
+        await this.checkContent(state, version, version.fileId, version.versionNumber);
+      }
+
+      if (batch.length < BATCH_SIZE) {
+        return;
+      }
+      lastId = batch[batch.length - 1].id;
+    }
+  }
+
+  /**
+   * Verifica que el objeto de un contenido exista y, si se pidió, que su hash coincida.
+   * @returns true si el objeto existe
+   * @private
+   */
+  private async checkContent(
+    state: ReconciliationRun,
+    content: VersionContent,
+    fileId: string,
+    versionNumber: number | null,
+  ): Promise<boolean> {
+    const driver = this.storageDrivers.resolve(content.storageDriver, content.storageBucket);
+
+    if (!(await driver.exists(content.path))) {
+      this.addIssue(state, {
+        type: ReconciliationIssueType.MISSING_OBJECT,
+        key: content.path,
+        fileId,
+        versionNumber,
+        detail: `Object not found in ${driver.name} storage`,
+        repaired: false,
+      });
+      return false;
+    }
+
+    if (state.report.verifyChecksums && content.checksum) {
+      const actual = await this.hashObject(driver, content.path);
+      if (actual !== content.checksum) {
+        this.addIssue(state, {
+          type: ReconciliationIssueType.CHECKSUM_MISMATCH,
+          key: content.path,
+          fileId,
+          versionNumber,
+          detail: `Expected ${content.checksum}, found ${actual}`,
+          repaired: false,
+        });
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Verifica la miniatura de un archivo activo y la regenera si falta o está desactualizada.
+   * Una miniatura está desactualizada si pertenece a otro contenido o es anterior al vigente.
+   * @private
+   */
+  private async checkThumbnail(state: ReconciliationRun, file: FileMetadata): Promise<void> {
+    if (!supportsThumbnail(file.detectedMimetype || file.mimetype) || file.scanStatus !== ScanStatus.CLEAN || file.path.startsWith('quarantine/')) {
+      return;
+    }
+
+    const driver = this.storageDrivers.resolve(file.storageDriver, file.storageBucket);
+    let type: ReconciliationIssueType | null = null;
+    let detail: string | null = null;
+
+    if (!file.thumbnailPath) {
+      type = ReconciliationIssueType.MISSING_THUMBNAIL;
+      detail = 'No thumbnail registered';
+    } else if (!(await driver.exists(file.thumbnailPath))) {
+      type = ReconciliationIssueType.MISSING_THUMBNAIL;
+      detail = 'Thumbnail not found in storage';
+    } else if (file.checksum && !path.posix.basename(file.thumbnailPath).includes(file.checksum)) {
+      type = ReconciliationIssueType.STALE_THUMBNAIL;
+      detail = 'Thumbnail belongs to different content';
+    } else {
+      const [content, thumbnail] = await Promise.all([driver.stat(file.path), driver.stat(file.thumbnailPath)]);
+      if (thumbnail.lastModified < content.lastModified) {
+        type = ReconciliationIssueType.STALE_THUMBNAIL;
+        detail = 'Thumbnail is older than the content';
+      }
+    }
+
+    if (!type) {
+      return;
+    }
+
+    let repaired = false;
+    if (!state.report.dryRun) {
+      try {
+        repaired = (await this.storageService.regenerateThumbnail(file)) !== null;
+      } catch (error) {
+        detail = `${detail}; repair failed: ${(error as Error).message}`;
+      }
+    }
+
+    this.addIssue(state, { type, key: file.thumbnailPath ?? file.path, fileId: file.id, versionNumber: null, detail, repaired });
+  }
+
+  /**
+   * Busca en el driver por defecto objetos que ningún archivo, versión o blob referencia.
+   * Al reparar los mueve a quarantine/strays/ conservando su clave.
+   * @private
+   */
+  private async checkStoredObjects(state: ReconciliationRun): Promise<void> {
+    const driver = this.storageDrivers.getDefault();
+    let batch: string[] = [];
+
+    for await (const key of driver.list('')) {
+      if (IGNORED_PREFIXES.some((prefix) => key.startsWith(prefix))) {
+        continue;
+      }
+      batch.push(key);
+      if (batch.length >= BATCH_SIZE) {
+        await this.checkObjectBatch(state, driver, batch);
+        batch = [];
+      }
+    }
+
+    if (batch.length > 0) {
+      await this.checkObjectBatch(state, driver, batch);
+    }
+  }
+
+  /**
+   * Reporta (y aparta al reparar) los objetos de un lote sin referencias.
+   * @private
+   */
+  private async checkObjectBatch(state: ReconciliationRun, driver: StorageDriver, keys: string[]): Promise<void> {
+    state.summary.objects += keys.length;
+
+    const referenced = await this.findReferencedKeys(keys);
+    const cutoff = Date.now() - STRAY_GRACE_PERIOD_MS;
+
+    for (const key of keys) {
+      if (referenced.has(key)) {
+        continue;
+      }
+
+      const { lastModified, size } = await driver.stat(key);
+      if (lastModified.getTime() > cutoff) {
+        continue;
+      }
+
+      let detail = `${size} bytes, last modified ${lastModified.toISOString()}`;
+      let repaired = false;
+      if (!state.report.dryRun) {
+        try {
+          await this.quarantineStray(driver, key);
+          repaired = true;
+        } catch (error) {
+          detail = `${detail}; repair failed: ${(error as Error).message}`;
+        }
+      }
+
+      this.addIssue(state, { type: ReconciliationIssueType.STRAY_OBJECT, key, fileId: null, versionNumber: null, detail, repaired });
+    }
+  }
+
+  /**
+   * Claves de un lote referenciadas como contenido o miniatura por archivos, versiones o blobs.
+   * @private
+   */
+  private async findReferencedKeys(keys: string[]): Promise<Set<string>> {
+    const select = { path: true, thumbnailPath: true } as const;
+    const where = [{ path: In(keys) }, { thumbnailPath: In(keys) }];
+    const [files, versions, blobs] = await Promise.all([
+      this.fileMetadataRepository.find({ select, where }),
+      this.fileVersionRepository.find({ select, where }),
+      this.blobRepository.find({ select, where }),
+    ]);
+
+    const referenced = new Set<string>();
+    for (const row of [...files, ...versions, ...blobs]) {
+      referenced.add(row.path);
+      if (row.thumbnailPath) {
+        referenced.add(row.thumbnailPath);
+      }
+    }
+    return referenced;
+  }
+
+  /**
+   * Mueve un objeto huérfano a quarantine/strays/ para revisarlo antes de eliminarlo.
+   * @private
+   */
+  private async quarantineStray(driver: StorageDriver, key: string): Promise<void> {
+    const content = await driver.get(key);
+    await driver.put(path.posix.join(STRAY_QUARANTINE_PREFIX, key), content, { contentType: 'application/octet-stream' });
+    await driver.delete(key);
+    this.logger.warn(`🔒 Stray object ${key} moved to ${STRAY_QUARANTINE_PREFIX}/`);
+  }
+
+  /**
+   * Calcula el SHA-256 de un objeto leyéndolo por streaming.
+   * @private
+   */
+  private async hashObject(driver: StorageDriver, key: string): Promise<string> {
+    const hash = crypto.createHash('sha256');
+    for await (const chunk of await driver.stream(key)) {
+      hash.update(chunk as Buffer);
+    }
+    return hash.digest('hex');
+  }
+
+  /**
+   * Suma una inconsistencia a los contadores y la detalla si no se alcanzó el máximo.
+   * @private
+   */
+  private addIssue(state: ReconciliationRun, issue: ReconciliationIssue): void {
+    state.summary.issues[issue.type] += 1;
+    if (issue.repaired) {
+      state.summary.repaired += 1;
+    }
+
+    if (state.report.issues.length < MAX_REPORTED_ISSUES) {
+      state.report.issues.push(issue);
+    } else {
+      state.report.truncated = true;
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { Controller, Get, Post, Query, UseGuards, UseInterceptors, ParseIntPipe, DefaultValuePipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiSecurity, ApiQuery } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { RetentionService } from './retention.service';
+import { ApiKeyGuard } from './guards/api-key.guard';
+import { RequireScope } from './decorators/require-scope.decorator';
+import { ApiKeyScope } from './entities/api-key.entity';
+import { AuditInterceptor } from './interceptors/audit.interceptor';
+import { Audited } from './decorators/audited.decorator';
+import { AuditAction } from './entities/audit-event.entity';
+
+/**
+ * Controlador de la política de retención.
+ * Expone la política vigente, la simulación de la purga y su ejecución manual.
+ * Requiere una key con permiso admin.
+ * @class RetentionController
+ */
+@ApiTags('Retention')
+@ApiSecurity('api-key')
+@Controller('storage/retention')
+@UseGuards(ApiKeyGuard)
+@UseInterceptors(AuditInterceptor)
+@RequireScope(ApiKeyScope.ADMIN)
+@Throttle({ default: { limit: 10, ttl: 60000 } })
+export class RetentionController {
+  constructor(private readonly retentionService: RetentionService) {}
+
+  /**
+   * Obtiene los días de retención por categoría.
+   * @returns Días por categoría (null = nunca se purga)
+   */
+  @Get('policy')
+  @ApiOperation({ summary: 'Get the retention policy per category' })
+  @ApiResponse({ status: 200, description: 'Retention policy' })
+  getPolicy() {
+    return {
+      success: true,
+      retentionDays: this.retentionService.getPolicy(),
+    };
+  }
+
+  /**
+   * Simula la purga: lista los archivos eliminados cuyo plazo de retención venció.
+   * @param limit - Máximo de archivos a detallar (default: 100)
+   * @returns Reporte con total, bytes y detalle de archivos
+   */
+  @Get('report')
+  @ApiOperation({ summary: 'Dry-run report of files that would be purged' })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Purge report' })
+  async getPurgeReport(@Query('limit', new DefaultValuePipe(100), ParseIntPipe) limit: number) {
+    return {
+      success: true,
+      ...(await this.retentionService.getPurgeReport(Math.min(Math.max(limit, 1), 1000))),
+    };
+  }
+
+  /**
+   * Ejecuta la purga inmediatamente (además de la ejecución programada diaria).
+   * @returns Reporte de los archivos purgados
+   */
+  @Post('purge')
+  @Audited(AuditAction.PURGE)
+  @Throttle({ default: { limit: 1, ttl: 300000 } })
+  @ApiOperation({ summary: 'Purge files whose retention period expired' })
+  @ApiResponse({ status: 201, description: 'Purge completed' })
+  async purge() {
+    return {
+      success: true,
+      ...(await this.retentionService.purgeExpiredFiles()),
+    };
+  }
+}
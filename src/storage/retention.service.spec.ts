@@ -0,0 +1,207 @@
+import { ConflictException, GoneException, PayloadTooLargeException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { RetentionService } from './retention.service';
+import { AuditService } from './audit.service';
+import { WebhookService } from './webhook.service';
+import { QuotaService } from './quota.service';
+import { notUnderLegalHold } from './legal-hold.service';
+import { BlobService } from './blob.service';
+import { StorageDriverRegistry } from './drivers/storage-driver.registry';
+import { FileCategory, FileMetadata } from './entities/file-metadata.entity';
+import { FileVersion } from './entities/file-version.entity';
+import { AuditAction } from './entities/audit-event.entity';
+
+// uuid solo se publica como ESM y Jest carga los módulos como CommonJS
+jest.mock('uuid', () => ({ v4: () => jest.requireActual<typeof import('crypto')>('crypto').randomUUID() }));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function deletedFile(overrides: Partial<FileMetadata>): FileMetadata {
+  return Object.assign(new FileMetadata(), {
+    id: 'file-1',
+    originalFilename: 'report.pdf',
+    category: FileCategory.DOCUMENT,
+    size: 100,
+    checksum: 'a'.repeat(64),
+    path: `blobs/${'a'.repeat(64)}`,
+    storageDriver: 'local',
+    storageBucket: null,
+    thumbnailPath: null,
+    active: false,
+    deletedAt: new Date(Date.now() - 10 * DAY_MS),
+    updatedAt: new Date(Date.now() - 10 * DAY_MS),
+    ...overrides,
+  });
+}
+
+describe('RetentionService', () => {
+  let files: FileMetadata[];
+  let versions: FileVersion[];
+  let released: string[];
+  let deletedObjects: string[];
+  let audited: AuditAction[];
+  let purgeConditions: string[];
+  let quotaChecks: { id: string; size: number }[];
+  let quotaExceeded: boolean;
+
+  function createService(env: Record<string, string>) {
+    const fileRepository = {
+      findOne: ({ where }: { where: { id: string; active?: boolean } }) =>
+        Promise.resolve(
+          files.find((file) => file.id === where.id && (where.active === undefined || file.active === where.active)) ??
+            null,
+        ),
+      save: (file: FileMetadata) => Promise.resolve(file),
+      createQueryBuilder: () => {
+        const builder = {
+          where: () => builder,
+          andWhere: (condition: string) => {
+            purgeConditions.push(condition);
+            return builder;
+          },
+          setParameters: () => builder,
+          orderBy: () => builder,
+          take: () => builder,
+          getMany: () => Promise.resolve(files.filter((file) => !file.active)),
+        };
+        return builder;
+      },
+      manager: {
+        transaction: (work: (manager: unknown) => Promise<void>) =>
+          work({
+            delete: (entity: unknown, criteria: { id: unknown }) => {
+              if (entity === FileMetadata) {
+                files = files.filter((file) => file.id !== criteria.id);
+              } else {
+                versions = [];
+              }
+              return Promise.resolve();
+            },
+          }),
+      },
+    };
+    const versionRepository = {
+      find: ({ where }: { where: { fileId: string } }) =>
+        Promise.resolve(versions.filter((version) => version.fileId === where.fileId)),
+    };
+    const blobService = {
+      findByChecksum: (checksum: string) => Promise.resolve({ checksum, path: `blobs/${checksum}` }),
+      release: (checksum: string) => {
+        released.push(checksum);
+        return Promise.resolve(true);
+      },
+    };
+    const driver = {
+      delete: (key: string) => {
+        deletedObjects.push(key);
+        return Promise.resolve();
+      },
+    };
+
+    return new RetentionService(
+      fileRepository as unknown as Repository<FileMetadata>,
+      versionRepository as unknown as Repository<FileVersion>,
+      new ConfigService(env),
+      blobService as unknown as BlobService,
+      { resolve: () => driver } as unknown as StorageDriverRegistry,
+      { record: (event: { action: AuditAction }) => Promise.resolve(void audited.push(event.action)) } as unknown as AuditService,
+      { publish: () => Promise.resolve() } as unknown as WebhookService,
+      {
+        assertWithinQuota: (file: FileMetadata, size: number) => {
+          quotaChecks.push({ id: file.id, size });
+          return quotaExceeded ? Promise.reject(new PayloadTooLargeException('Storage quota exceeded')) : Promise.resolve();
+        },
+      } as unknown as QuotaService,
+    );
+  }
+
+  beforeEach(() => {
+    files = [];
+    versions = [];
+    released = [];
+    deletedObjects = [];
+    audited = [];
+    purgeConditions = [];
+    quotaChecks = [];
+    quotaExceeded = false;
+  });
+
+  it('should apply per-category retention over the default, with negative values meaning never', () => {
+    const service = createService({ RETENTION_DAYS_DEFAULT: '15', RETENTION_DAYS_DOCUMENT: '365', RETENTION_DAYS_PROFILE: '-1' });
+
+    expect(service.getPolicy()).toMatchObject({
+      [FileCategory.DOCUMENT]: 365,
+      [FileCategory.PROFILE]: null,
+      [FileCategory.OTHER]: 15,
+    });
+    expect(() => createService({ RETENTION_DAYS_DEFAULT: 'soon' })).toThrow('Invalid RETENTION_DAYS_DEFAULT');
+  });
+
+  it('should restore deleted files only within their retention period', async () => {
+    const service = createService({ RETENTION_DAYS_DOCUMENT: '30', RETENTION_DAYS_OTHER: '7' });
+    files = [
+      deletedFile({ id: 'recent' }),
+      deletedFile({ id: 'expired', category: FileCategory.OTHER }),
+      deletedFile({ id: 'active', active: true, deletedAt: null }),
+    ];
+
+    await expect(service.restoreFile('recent')).resolves.toMatchObject({ active: true, deletedAt: null });
+    await expect(service.restoreFile('expired')).rejects.toThrow(GoneException);
+    await expect(service.restoreFile('active')).rejects.toThrow(ConflictException);
+  });
+
+  it('should check the quotas before restoring a deleted file', async () => {
+    const service = createService({});
+    files = [deletedFile({ id: 'large', size: 5000 })];
+    quotaExceeded = true;
+
+    await expect(service.restoreFile('large')).rejects.toThrow(PayloadTooLargeException);
+    expect(files[0]).toMatchObject({ active: false });
+
+    quotaExceeded = false;
+    await expect(service.restoreFile('large')).resolves.toMatchObject({ active: true });
+    expect(quotaChecks).toEqual([
+      { id: 'large', size: 5000 },
+      { id: 'large', size: 5000 },
+    ]);
+  });
+
+  it('should purge versions, quarantined content and legacy objects and record the purge', async () => {
+    const service = createService({});
+    files = [
+      deletedFile({ id: 'versioned' }),
+      deletedFile({ id: 'legacy', checksum: undefined, path: 'DOCUMENT/old.pdf', thumbnailPath: 'thumbnails/thumb_old.jpg' }),
+    ];
+    versions = [
+      Object.assign(new FileVersion(), { fileId: 'versioned', checksum: 'b'.repeat(64), path: `blobs/${'b'.repeat(64)}` }),
+      Object.assign(new FileVersion(), { fileId: 'versioned', checksum: 'c'.repeat(64), path: 'quarantine/evil.pdf' }),
+    ];
+
+    const report = await service.purgeExpiredFiles();
+
+    expect(report).toMatchObject({ dryRun: false, total: 2, totalBytes: 200 });
+    expect(files).toHaveLength(0);
+    expect(released).toEqual(['b'.repeat(64)]);
+    expect(deletedObjects).toEqual(['quarantine/evil.pdf', 'DOCUMENT/old.pdf', 'thumbnails/thumb_old.jpg']);
+    expect(audited).toEqual([AuditAction.PURGE, AuditAction.PURGE]);
+  });
+
+  it('should leave categories without retention out of the purge', async () => {
+    const service = createService({ RETENTION_DAYS_DEFAULT: '-1', RETENTION_DAYS_ATTACHMENT: '1' });
+
+    await service.purgeExpiredFiles();
+
+    const categoryConditions = purgeConditions.filter((condition) => condition.includes('file.category'));
+    expect(categoryConditions).toHaveLength(1);
+    expect(categoryConditions[0].match(/file\.category = /g)).toHaveLength(1);
+  });
+
+  it('should keep files under legal hold out of the purge', async () => {
+    const service = createService({});
+
+    await service.purgeExpiredFiles();
+
+    expect(purgeConditions).toContain(notUnderLegalHold('file'));
+  });
+});
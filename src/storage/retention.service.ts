@@ -0,0 +1,332 @@
+import { Injectable, NotFoundException, ConflictException, GoneException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { In, Repository, SelectQueryBuilder } from 'typeorm';
+import { FileMetadata, FileCategory } from './entities/file-metadata.entity';
+import { FileVersion } from './entities/file-version.entity';
+import { AuditAction, AuditOutcome } from './entities/audit-event.entity';
+import { BlobService } from './blob.service';
+import { StorageDriverRegistry } from './drivers/storage-driver.registry';
+import { AuditService } from './audit.service';
+import { notUnderLegalHold } from './legal-hold.service';
+import type { VersionContent } from './storage.service';
+import { WebhookService } from './webhook.service';
+import { WebhookEvent } from './entities/webhook-subscription.entity';
+import { QuotaService } from './quota.service';
+
+/** Días de retención por defecto de los archivos eliminados */
+const DEFAULT_RETENTION_DAYS = 30;
+
+/** Archivos purgados por lote */
+const PURGE_BATCH_SIZE = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Archivo eliminado que cumplió su plazo de retención.
+ */
+export interface PurgeCandidate {
+  id: string;
+  originalFilename: string;
+  category: FileCategory;
+  entityType: FileMetadata['entityType'];
+  entityId: string;
+  /** Tamaño de la versión vigente en bytes */
+  size: number;
+  deletedAt: Date;
+  /** Fecha desde la que el archivo puede purgarse */
+  purgeAfter: Date;
+}
+
+/**
+ * Resultado de una purga (o de su simulación).
+ */
+export interface PurgeReport {
+  /** true si solo se simuló la purga */
+  dryRun: boolean;
+  /** Archivos purgados (o que se purgarían) */
+  total: number;
+  /** Suma del tamaño de sus versiones vigentes en bytes */
+  totalBytes: number;
+  /** Detalle de los archivos (en la simulación, como máximo `limit`) */
+  files: PurgeCandidate[];
+}
+
+/**
+ * Servicio de retención de archivos eliminados.
+ * Los archivos eliminados (soft delete) se conservan durante el plazo de su categoría
+ * (RETENTION_DAYS_<CATEGORIA>, o RETENTION_DAYS_DEFAULT) y pueden restaurarse mientras tanto;
+ * cumplido el plazo, la purga programada borra sus registros, versiones, blobs y miniaturas.
+ * Los archivos bajo retención legal no se purgan hasta que se libere la retención.
+ * @class RetentionService
+ */
+@Injectable()
+export class RetentionService {
+  private readonly logger = new Logger(RetentionService.name);
+  /** Días de retención por categoría (null = nunca se purga) */
+  private readonly retentionDays = new Map<FileCategory, number | null>();
+
+  constructor(
+    @InjectRepository(FileMetadata)
+    private fileMetadataRepository: Repository<FileMetadata>,
+    @InjectRepository(FileVersion)
+    private fileVersionRepository: Repository<FileVersion>,
+    private configService: ConfigService,
+    private blobService: BlobService,
+    private storageDrivers: StorageDriverRegistry,
+    private auditService: AuditService,
+    private webhookService: WebhookService,
+    private quotaService: QuotaService,
+  ) {
+    const defaultDays = this.parseDays('RETENTION_DAYS_DEFAULT', DEFAULT_RETENTION_DAYS);
+    for (const category of Object.values(FileCategory)) {
+      this.retentionDays.set(category, this.parseDays(`RETENTION_DAYS_${category}`, defaultDays));
+    }
+
+    const policy = [...this.retentionDays].map(([category, days]) => `${category}=${days ?? 'never'}`);
+    this.logger.log(`🗓️ Retention policy (days): ${policy.join(', ')}`);
+  }
+
+  /**
+   * Días de retención configurados por categoría (null = nunca se purga).
+   */
+  getPolicy(): Record<FileCategory, number | null> {
+    return Object.fromEntries(this.retentionDays) as Record<FileCategory, number | null>;
+  }
+
+  /**
+   * Obtiene un archivo eliminado que aún no fue purgado.
+   * @param id - UUID del archivo
+   * @throws NotFoundException si el archivo no existe o no está eliminado
+   */
+  async getDeletedFile(id: string): Promise<FileMetadata> {
+    const metadata = await this.fileMetadataRepository.findOne({ where: { id, active: false } });
+    if (!metadata) {
+      throw new NotFoundException('Deleted file not found');
+    }
+    return metadata;
+  }
+
+  /**
+   * Restaura un archivo eliminado dentro de su plazo de retención.
+   * @param id - UUID del archivo
+   * @returns Metadatos del archivo restaurado
+   * @throws NotFoundException si el archivo no existe o ya fue purgado
+   * @throws ConflictException si el archivo no está eliminado
+   * @throws GoneException si el plazo de retención venció (el archivo espera la purga)
+   * @throws PayloadTooLargeException si el archivo restaurado excede alguna cuota
+   */
+  async restoreFile(id: string): Promise<FileMetadata> {
+    const metadata = await this.fileMetadataRepository.findOne({ where: { id } });
+    if (!metadata) {
+      throw new NotFoundException('File not found');
+    }
+    if (metadata.active) {
+      throw new ConflictException('File is not deleted');
+    }
+
+    const purgeAfter = this.getPurgeDate(metadata);
+    if (purgeAfter && purgeAfter.getTime() <= Date.now()) {
+      throw new GoneException('Retention period expired: the file is scheduled for purge');
+    }
+    // Las cuotas solo cuentan archivos activos: el archivo restaurado vuelve a sumar
+    await this.quotaService.assertWithinQuota(metadata, Number(metadata.size));
+
+    metadata.active = true;
+    metadata.deletedAt = null;
+    const saved = await this.fileMetadataRepository.save(metadata);
+    this.logger.log(`♻️ File ${id} restored`);
+    await this.webhookService.publish([WebhookEvent.FILE_RESTORED], saved);
+    return saved;
+  }
+
+  /**
+   * Simula la purga: indica qué archivos se eliminarían definitivamente ahora.
+   * @param limit - Máximo de archivos a detallar (el total incluye todos)
+   */
+  async getPurgeReport(limit: number = 100): Promise<PurgeReport> {
+    const now = new Date();
+    const [files, total] = await this.purgeableQuery(now)
+      .orderBy('file.deletedAt', 'ASC')
+      .take(limit)
+      .getManyAndCount();
+    const { totalBytes } = await this.purgeableQuery(now)
+      .select('COALESCE(SUM(file.size), 0)', 'totalBytes')
+      .getRawOne<{ totalBytes: string }>() ?? { totalBytes: '0' };
+
+    return {
+      dryRun: true,
+      total,
+      totalBytes: Number(totalBytes),
+      files: files.map((file) => this.toCandidate(file)),
+    };
+  }
+
+  /**
+   * Purga programada (diaria, 3 AM): elimina definitivamente los archivos cuyo plazo de retención venció.
+   * Borra sus registros y versiones y libera sus blobs; el objeto y la miniatura se eliminan
+   * cuando ningún otro archivo comparte el contenido.
+   * @returns Reporte de los archivos purgados
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async purgeExpiredFiles(): Promise<PurgeReport> {
+    const now = new Date();
+    const report: PurgeReport = { dryRun: false, total: 0, totalBytes: 0, files: [] };
+
+    for (;;) {
+      const batch = await this.purgeableQuery(now).orderBy('file.deletedAt', 'ASC').take(PURGE_BATCH_SIZE).getMany();
+      for (const file of batch) {
+        await this.purgeFile(file);
+        report.files.push(this.toCandidate(file));
+        report.total += 1;
+        report.totalBytes += Number(file.size);
+      }
+      if (batch.length < PURGE_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    if (report.total > 0) {
+      this.logger.log(`🧹 Retention purge removed ${report.total} files (${report.totalBytes} bytes)`);
+    }
+    return report;
+  }
+
+  /**
+   * Elimina definitivamente un archivo.
+   * Primero se borran los registros: si luego falla el borrado físico queda un blob con una
+   * referencia de más (se conserva contenido), nunca un registro apuntando a contenido borrado.
+   * @private
+   */
+  private async purgeFile(file: FileMetadata): Promise<void> {
+    const versions = await this.fileVersionRepository.find({ where: { fileId: file.id } });
+    // Cada versión es dueña de una referencia; sin historial, la tiene FileMetadata
+    const contents: VersionContent[] = versions.length > 0 ? versions : [file];
+
+    await this.fileMetadataRepository.manager.transaction(async (manager) => {
+      if (versions.length > 0) {
+        await manager.delete(FileVersion, { id: In(versions.map((version) => version.id)) });
+      }
+      await manager.delete(FileMetadata, { id: file.id });
+    });
+
+    for (const content of contents) {
+      try {
+        await this.releaseContent(content);
+      } catch (error) {
+        this.logger.error(`❌ Failed to release content ${content.path} of purged file ${file.id}: ${(error as Error).message}`);
+      }
+    }
+
+    await this.auditService.record({
+      action: AuditAction.PURGE,
+      outcome: AuditOutcome.SUCCESS,
+      statusCode: 200,
+      errorMessage: null,
+      actorKeyId: null,
+      actorKeyName: 'system:retention',
+      viaSignedUrl: false,
+      ipAddress: null,
+      userAgent: null,
+      fileId: file.id,
+      entityType: file.entityType ?? null,
+      entityId: file.entityId ?? null,
+    });
+  }
+
+  /**
+   * Libera el contenido de una versión: referencia al blob, objeto en cuarentena
+   * o, en archivos anteriores al almacén de blobs, el objeto y su miniatura propios.
+   * @private
+   */
+  private async releaseContent(content: VersionContent): Promise<void> {
+    const driver = this.storageDrivers.resolve(content.storageDriver, content.storageBucket);
+
+    if (!content.path.startsWith('quarantine/') && content.checksum) {
+      const blob = await this.blobService.findByChecksum(content.checksum);
+      if (blob && blob.path === content.path) {
+        await this.blobService.release(content.checksum);
+        return;
+      }
+    }
+
+    await driver.delete(content.path);
+    if (content.thumbnailPath) {
+      await driver.delete(content.thumbnailPath);
+    }
+  }
+
+  /**
+   * Archivos eliminados cuyo plazo de retención venció y que no están bajo retención legal.
+   * Los eliminados antes de registrar deletedAt usan su fecha de última actualización.
+   * @private
+   */
+  private purgeableQuery(now: Date): SelectQueryBuilder<FileMetadata> {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = { active: false };
+
+    [...this.retentionDays].forEach(([category, days], index) => {
+      if (days === null) {
+        return;
+      }
+      conditions.push(`(file.category = :category${index} AND COALESCE(file.deletedAt, file.updatedAt) <= :cutoff${index})`);
+      params[`category${index}`] = category;
+      params[`cutoff${index}`] = new Date(now.getTime() - days * DAY_MS);
+    });
+
+    return this.fileMetadataRepository
+      .createQueryBuilder('file')
+      .where('file.active = :active')
+      .andWhere(conditions.length > 0 ? `(${conditions.join(' OR ')})` : 'FALSE')
+      .andWhere(notUnderLegalHold('file'))
+      .setParameters(params);
+  }
+
+  /**
+   * Fecha desde la que un archivo eliminado puede purgarse (null = nunca).
+   * @private
+   */
+  private getPurgeDate(file: FileMetadata): Date | null {
+    const days = this.retentionDays.get(file.category) ?? null;
+    if (days === null) {
+      return null;
+    }
+    const deletedAt = file.deletedAt ?? file.updatedAt;
+    return new Date(deletedAt.getTime() + days * DAY_MS);
+  }
+
+  /**
+   * Da formato a un archivo purgable para el reporte.
+   * @private
+   */
+  private toCandidate(file: FileMetadata): PurgeCandidate {
+    return {
+      id: file.id,
+      originalFilename: file.originalFilename,
+      category: file.category,
+      entityType: file.entityType,
+      entityId: file.entityId,
+      size: Number(file.size),
+      deletedAt: file.deletedAt ?? file.updatedAt,
+      purgeAfter: this.getPurgeDate(file) ?? file.updatedAt,
+    };
+  }
+
+  /**
+   * Lee los días de retención de una variable (negativo = nunca se purga).
+   * @private
+   */
+  private parseDays(variable: string, fallback: number | null): number | null {
+    const raw = this.configService.get<string>(variable);
+    if (raw === undefined || raw === '') {
+      return fallback;
+    }
+
+    const days = parseInt(raw, 10);
+    if (Number.isNaN(days)) {
+      throw new Error(`Invalid ${variable}: ${raw}`);
+    }
+    return days < 0 ? null : days;
+  }
+}
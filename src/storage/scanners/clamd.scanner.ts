@@ -0,0 +1,104 @@
+import * as net from 'net';
+import {
+  VirusScanner,
+  VirusScannerError,
+  VirusScannerName,
+  VirusScanResult,
+} from './virus-scanner.interface';
+
+/**
+ * Opciones de conexión al demonio clamd.
+ * Si se indica socketPath se usa el socket Unix; si no, host/port por TCP.
+ */
+export interface ClamdScannerOptions {
+  socketPath?: string;
+  host?: string;
+  port?: number;
+  /** Tiempo máximo de un análisis en milisegundos */
+  timeoutMs?: number;
+}
+
+/** Tamaño de cada bloque enviado con INSTREAM */
+const STREAM_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Scanner basado en el demonio clamd de ClamAV.
+ * Envía el contenido con el comando INSTREAM (bloques precedidos por su
+ * longitud en 4 bytes big-endian y terminados con un bloque vacío).
+ * @class ClamdScanner
+ */
+export class ClamdScanner implements VirusScanner {
+  readonly name = VirusScannerName.CLAMD;
+  private readonly timeoutMs: number;
+
+  constructor(private readonly options: ClamdScannerOptions) {
+    this.timeoutMs = options.timeoutMs ?? 30000;
+  }
+
+  async scan(buffer: Buffer): Promise<VirusScanResult> {
+    const reply = await this.instream(buffer);
+    return this.parseReply(reply);
+  }
+
+  /**
+   * Envía el contenido a clamd y retorna su respuesta.
+   * @private
+   */
+  private instream(buffer: Buffer): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const socket = this.options.socketPath
+        ? net.createConnection({ path: this.options.socketPath })
+        : net.createConnection({
+            host: this.options.host || '127.0.0.1',
+            port: this.options.port || 3310,
+          });
+      const chunks: Buffer[] = [];
+      let settled = false;
+
+      const fail = (message: string) => {
+        if (!settled) {
+          settled = true;
+          socket.destroy();
+          reject(new VirusScannerError(message));
+        }
+      };
+
+      socket.setTimeout(this.timeoutMs, () => fail('clamd scan timed out'));
+      socket.on('error', (error) => fail(`clamd unavailable: ${error.message}`));
+      socket.on('data', (chunk: Buffer) => chunks.push(chunk));
+      socket.on('end', () => {
+        if (!settled) {
+          settled = true;
+          resolve(Buffer.concat(chunks).toString('utf8').replace(/\0/g, '').trim());
+        }
+      });
+
+      socket.on('connect', () => {
+        socket.write('zINSTREAM\0');
+        for (let offset = 0; offset < buffer.length; offset += STREAM_CHUNK_SIZE) {
+          const chunk = buffer.subarray(offset, offset + STREAM_CHUNK_SIZE);
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(chunk.length, 0);
+          socket.write(length);
+          socket.write(chunk);
+        }
+        socket.end(Buffer.alloc(4));
+      });
+    });
+  }
+
+  /**
+   * Interpreta la respuesta de clamd: "stream: OK", "stream: <firma> FOUND" o "... ERROR".
+   * @private
+   */
+  private parseReply(reply: string): VirusScanResult {
+    if (reply.endsWith('FOUND')) {
+      const signature = reply.replace(/^stream:\s*/, '').replace(/\s*FOUND$/, '');
+      return { infected: true, signature };
+    }
+    if (reply.endsWith('OK')) {
+      return { infected: false };
+    }
+    throw new VirusScannerError(`clamd returned an error: ${reply || 'empty reply'}`);
+  }
+}
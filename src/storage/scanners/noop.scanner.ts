@@ -0,0 +1,26 @@
+import {
+  VirusScanner,
+  VirusScannerName,
+  VirusScanResult,
+} from './virus-scanner.interface';
+
+/** Archivo de prueba estándar EICAR (inofensivo, reconocido por todos los antivirus) */
+export const EICAR_TEST_STRING =
+  'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+/**
+ * Scanner sin antivirus real, para desarrollo y tests.
+ * Considera limpio todo contenido excepto el archivo de prueba EICAR,
+ * lo que permite probar el flujo de cuarentena sin ClamAV.
+ * @class NoopVirusScanner
+ */
+export class NoopVirusScanner implements VirusScanner {
+  readonly name = VirusScannerName.NONE;
+
+  scan(buffer: Buffer): Promise<VirusScanResult> {
+    if (buffer.includes(EICAR_TEST_STRING)) {
+      return Promise.resolve({ infected: true, signature: 'Eicar-Test-Signature' });
+    }
+    return Promise.resolve({ infected: false });
+  }
+}
@@ -0,0 +1,83 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ScanStatus } from '../entities/file-metadata.entity';
+import { ClamdScanner } from './clamd.scanner';
+import { NoopVirusScanner } from './noop.scanner';
+import {
+  VirusScanner,
+  VirusScannerError,
+  VirusScannerName,
+} from './virus-scanner.interface';
+
+/**
+ * Resultado de un análisis expresado como estado del archivo.
+ */
+export interface FileScanOutcome {
+  /** Estado resultante (clean, infected o error) */
+  status: ScanStatus;
+  /** Firma detectada o motivo del error */
+  detail?: string;
+}
+
+/**
+ * Servicio de análisis antivirus.
+ * Selecciona el scanner según VIRUS_SCANNER y traduce su resultado
+ * al estado de escaneo que se guarda en los metadatos del archivo.
+ * @class VirusScanService
+ */
+@Injectable()
+export class VirusScanService {
+  private readonly logger = new Logger(VirusScanService.name);
+  private readonly scanner: VirusScanner;
+
+  constructor(private configService: ConfigService) {
+    const scannerName = (
+      this.configService.get<string>('VIRUS_SCANNER') || VirusScannerName.NONE
+    ).toLowerCase() as VirusScannerName;
+
+    if (!Object.values(VirusScannerName).includes(scannerName)) {
+      throw new Error(`Unknown VIRUS_SCANNER: ${scannerName}`);
+    }
+
+    switch (scannerName) {
+      case VirusScannerName.NONE:
+        this.scanner = new NoopVirusScanner();
+        break;
+      case VirusScannerName.CLAMD:
+        this.scanner = new ClamdScanner({
+          socketPath: this.configService.get<string>('CLAMD_SOCKET') || undefined,
+          host: this.configService.get<string>('CLAMD_HOST') || undefined,
+          port: parseInt(this.configService.get<string>('CLAMD_PORT') || '3310', 10),
+          timeoutMs: parseInt(this.configService.get<string>('CLAMD_TIMEOUT_MS') || '30000', 10),
+        });
+        break;
+    }
+
+    if (this.scanner.name === VirusScannerName.NONE) {
+      this.logger.warn('⚠️ VIRUS_SCANNER=none: uploads are not scanned for malware');
+    } else {
+      this.logger.log(`🛡️ Virus scanner: ${this.scanner.name}`);
+    }
+  }
+
+  /**
+   * Analiza un contenido. Nunca lanza: los fallos del scanner se reportan como estado error.
+   * @param buffer - Contenido a analizar
+   * @param label - Identificación del archivo para los logs
+   * @returns Estado de escaneo resultante
+   */
+  async scan(buffer: Buffer, label: string): Promise<FileScanOutcome> {
+    try {
+      const result = await this.scanner.scan(buffer);
+      if (result.infected) {
+        this.logger.warn(`🦠 Threat detected in ${label}: ${result.signature}`);
+        return { status: ScanStatus.INFECTED, detail: result.signature };
+      }
+      return { status: ScanStatus.CLEAN };
+    } catch (error) {
+      const message = error instanceof VirusScannerError ? error.message : String(error);
+      this.logger.error(`❌ Scan failed for ${label}: ${message}`);
+      return { status: ScanStatus.ERROR, detail: message };
+    }
+  }
+}
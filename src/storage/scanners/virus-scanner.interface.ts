@@ -0,0 +1,46 @@
+/**
+ * Scanners antivirus disponibles.
+ * @enum {string}
+ */
+export enum VirusScannerName {
+  /** Sin antivirus real: solo detecta la firma de prueba EICAR */
+  NONE = 'none',
+  /** Demonio clamd de ClamAV (socket Unix o TCP) */
+  CLAMD = 'clamd',
+}
+
+/**
+ * Resultado del análisis de un contenido.
+ */
+export interface VirusScanResult {
+  /** true si se encontró una amenaza */
+  infected: boolean;
+  /** Nombre de la firma detectada (solo si infected) */
+  signature?: string;
+}
+
+/**
+ * Contrato común de los scanners antivirus.
+ * @interface VirusScanner
+ */
+export interface VirusScanner {
+  /** Nombre del scanner (se registra en los logs) */
+  readonly name: VirusScannerName;
+
+  /**
+   * Analiza un contenido completo.
+   * @param buffer - Contenido a analizar
+   * @throws VirusScannerError si el scanner no está disponible o no pudo completar el análisis
+   */
+  scan(buffer: Buffer): Promise<VirusScanResult>;
+}
+
+/**
+ * Error lanzado cuando el análisis no se pudo completar (scanner caído, timeout, límite de tamaño).
+ */
+export class VirusScannerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VirusScannerError';
+  }
+}
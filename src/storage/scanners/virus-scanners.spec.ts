@@ -0,0 +1,112 @@
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { ClamdScanner } from './clamd.scanner';
+import { EICAR_TEST_STRING, NoopVirusScanner } from './noop.scanner';
+import { VirusScannerError } from './virus-scanner.interface';
+
+/**
+ * Servidor TCP mínimo que imita clamd: recibe INSTREAM y responde según el contenido.
+ */
+function createFakeClamd(reply: (content: Buffer) => string) {
+  const received: Buffer[] = [];
+
+  const server = net.createServer((socket) => {
+    let data = Buffer.alloc(0);
+    socket.on('data', (chunk: Buffer) => {
+      data = Buffer.concat([data, chunk]);
+      const command = 'zINSTREAM\0';
+      if (data.length < command.length) {
+        return;
+      }
+
+      // Reensamblar los bloques hasta el bloque vacío de cierre
+      const parts: Buffer[] = [];
+      let offset = command.length;
+      while (offset + 4 <= data.length) {
+        const length = data.readUInt32BE(offset);
+        if (length === 0) {
+          const content = Buffer.concat(parts);
+          received.push(content);
+          socket.end(`${reply(content)}\0`);
+          return;
+        }
+        if (offset + 4 + length > data.length) {
+          return;
+        }
+        parts.push(data.subarray(offset + 4, offset + 4 + length));
+        offset += 4 + length;
+      }
+    });
+  });
+
+  return { server, received };
+}
+
+describe('virus scanners', () => {
+  describe('NoopVirusScanner', () => {
+    const scanner = new NoopVirusScanner();
+
+    it('should report ordinary content as clean', async () => {
+      await expect(scanner.scan(Buffer.from('hello'))).resolves.toEqual({ infected: false });
+    });
+
+    it('should flag the EICAR test file', async () => {
+      const result = await scanner.scan(Buffer.from(EICAR_TEST_STRING));
+      expect(result.infected).toBe(true);
+      expect(result.signature).toBeDefined();
+    });
+  });
+
+  describe('ClamdScanner', () => {
+    let fake: ReturnType<typeof createFakeClamd>;
+    let scanner: ClamdScanner;
+
+    beforeAll(async () => {
+      fake = createFakeClamd((content) => {
+        const text = content.toString();
+        if (text.includes('EICAR')) {
+          return 'stream: Win.Test.EICAR_HDB-1 FOUND';
+        }
+        if (text === 'too-big') {
+          return 'INSTREAM size limit exceeded. ERROR';
+        }
+        return 'stream: OK';
+      });
+      await new Promise<void>((resolve) => fake.server.listen(0, '127.0.0.1', resolve));
+      const { port } = fake.server.address() as AddressInfo;
+      scanner = new ClamdScanner({ host: '127.0.0.1', port, timeoutMs: 5000 });
+    });
+
+    afterAll(async () => {
+      await new Promise<void>((resolve) => fake.server.close(() => resolve()));
+    });
+
+    it('should stream the content in chunks and report clean files', async () => {
+      const content = Buffer.alloc(200 * 1024, 'a');
+
+      await expect(scanner.scan(content)).resolves.toEqual({ infected: false });
+      expect(fake.received[fake.received.length - 1].equals(content)).toBe(true);
+    });
+
+    it('should report the signature of infected files', async () => {
+      await expect(scanner.scan(Buffer.from(EICAR_TEST_STRING))).resolves.toEqual({
+        infected: true,
+        signature: 'Win.Test.EICAR_HDB-1',
+      });
+    });
+
+    it('should fail with VirusScannerError when clamd returns an error', async () => {
+      await expect(scanner.scan(Buffer.from('too-big'))).rejects.toThrow(VirusScannerError);
+    });
+
+    it('should fail with VirusScannerError when clamd is unreachable', async () => {
+      const probe = net.createServer();
+      await new Promise<void>((resolve) => probe.listen(0, '127.0.0.1', resolve));
+      const { port } = probe.address() as AddressInfo;
+      await new Promise<void>((resolve) => probe.close(() => resolve()));
+
+      const unreachable = new ClamdScanner({ host: '127.0.0.1', port, timeoutMs: 1000 });
+      await expect(unreachable.scan(Buffer.from('x'))).rejects.toThrow(VirusScannerError);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { InternalServerErrorException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SignedUrlAction, SignedUrlService } from './signed-url.service';
+
+const FILE_ID = '3f1c2a7e-8b4d-4e7a-9c1f-2d5b6a8e9f01';
+
+/** Extrae los parámetros de una URL firmada como los recibiría el guard */
+function paramsOf(url: string, action = SignedUrlAction.VIEW, requestIp = '203.0.113.7') {
+  const query = new URL(url, 'http://localhost').searchParams;
+  return {
+    action,
+    fileId: FILE_ID,
+    expires: query.get('expires') ?? undefined,
+    signature: query.get('signature') ?? undefined,
+    disposition: query.get('disposition') ?? undefined,
+    ip: query.get('ip') ?? undefined,
+    requestIp,
+  };
+}
+
+describe('SignedUrlService', () => {
+  let service: SignedUrlService;
+
+  beforeEach(() => {
+    service = new SignedUrlService(
+      new ConfigService({ SIGNED_URL_SECRET: 'test-secret', SIGNED_URL_MAX_TTL: '3600' }),
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should sign a relative URL for the requested endpoint', () => {
+    const { url, expiresAt } = service.sign({ action: SignedUrlAction.VIEW, fileId: FILE_ID, expiresIn: 60 });
+
+    expect(url.startsWith(`/storage/view/${FILE_ID}?`)).toBe(true);
+    expect(expiresAt.getTime()).toBeGreaterThan(Date.now());
+    expect(service.verify(paramsOf(url))).toBe(true);
+  });
+
+  it('should reject signatures used on another endpoint or file', () => {
+    const { url } = service.sign({ action: SignedUrlAction.THUMBNAIL, fileId: FILE_ID });
+
+    expect(service.verify(paramsOf(url, SignedUrlAction.DOWNLOAD))).toBe(false);
+    expect(service.verify({ ...paramsOf(url, SignedUrlAction.THUMBNAIL), fileId: 'another-id' })).toBe(false);
+  });
+
+  it('should reject tampered disposition or expiry', () => {
+    const { url } = service.sign({ action: SignedUrlAction.DOWNLOAD, fileId: FILE_ID, disposition: 'attachment' });
+    const params = paramsOf(url, SignedUrlAction.DOWNLOAD);
+
+    expect(service.verify(params)).toBe(true);
+    expect(service.verify({ ...params, disposition: 'inline' })).toBe(false);
+    expect(service.verify({ ...params, expires: String(Number(params.expires) + 3600) })).toBe(false);
+  });
+
+  it('should reject expired URLs and cap the validity to the maximum TTL', () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const { url, expiresAt } = service.sign({ action: SignedUrlAction.VIEW, fileId: FILE_ID, expiresIn: 999999 });
+
+    expect(expiresAt.toISOString()).toBe('2026-01-01T01:00:00.000Z');
+
+    jest.setSystemTime(new Date('2026-01-01T01:00:01Z'));
+    expect(service.verify(paramsOf(url))).toBe(false);
+  });
+
+  it('should bind the URL to the client IP when requested', () => {
+    const { url } = service.sign({ action: SignedUrlAction.VIEW, fileId: FILE_ID, ip: '203.0.113.7' });
+
+    expect(service.verify(paramsOf(url, SignedUrlAction.VIEW, '203.0.113.7'))).toBe(true);
+    expect(service.verify(paramsOf(url, SignedUrlAction.VIEW, '198.51.100.1'))).toBe(false);
+  });
+
+  it('should refuse to sign or verify without a configured secret', () => {
+    const unconfigured = new SignedUrlService(new ConfigService({}));
+    const { url } = service.sign({ action: SignedUrlAction.VIEW, fileId: FILE_ID });
+
+    expect(() => unconfigured.sign({ action: SignedUrlAction.VIEW, fileId: FILE_ID })).toThrow(
+      InternalServerErrorException,
+    );
+    expect(unconfigured.verify(paramsOf(url))).toBe(false);
+  });
+});
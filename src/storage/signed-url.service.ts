@@ -0,0 +1,157 @@
+import { Injectable, InternalServerErrorException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+
+/**
+ * Acciones que pueden autorizarse con una URL firmada.
+ * Coinciden con el segmento de ruta del endpoint correspondiente.
+ * @enum {string}
+ */
+export enum SignedUrlAction {
+  DOWNLOAD = 'download',
+  VIEW = 'view',
+  THUMBNAIL = 'thumbnail',
+  IMAGE = 'image',
+}
+
+/**
+ * Content-Disposition que puede fijarse en una URL firmada.
+ */
+export type SignedUrlDisposition = 'inline' | 'attachment';
+
+/**
+ * Parámetros para firmar una URL.
+ */
+export interface SignUrlOptions {
+  action: SignedUrlAction;
+  fileId: string;
+  /** Segundos de validez (se limita a SIGNED_URL_MAX_TTL) */
+  expiresIn?: number;
+  /** Fuerza la disposición de la respuesta */
+  disposition?: SignedUrlDisposition;
+  /** IP del cliente a la que se restringe la URL */
+  ip?: string;
+}
+
+/**
+ * Parámetros de una URL firmada recibidos en la petición.
+ */
+export interface SignedUrlParams {
+  action: SignedUrlAction;
+  fileId: string;
+  expires?: string;
+  signature?: string;
+  disposition?: string;
+  ip?: string;
+  /** IP real de la petición (para URLs restringidas por IP) */
+  requestIp?: string;
+}
+
+/**
+ * Servicio de URLs firmadas.
+ * Genera y verifica URLs con firma HMAC-SHA256 y expiración, que permiten
+ * usar los endpoints de descarga/visualización desde el navegador (<img>, <a>)
+ * sin exponer la API key.
+ * @class SignedUrlService
+ */
+@Injectable()
+export class SignedUrlService {
+  private readonly logger = new Logger(SignedUrlService.name);
+  private readonly secret: string | undefined;
+  private readonly defaultTtl: number;
+  private readonly maxTtl: number;
+
+  constructor(private configService: ConfigService) {
+    this.secret = this.configService.get<string>('SIGNED_URL_SECRET') || undefined;
+    this.defaultTtl = parseInt(this.configService.get<string>('SIGNED_URL_DEFAULT_TTL') || '300', 10);
+    this.maxTtl = parseInt(this.configService.get<string>('SIGNED_URL_MAX_TTL') || '86400', 10);
+
+    if (!this.secret) {
+      this.logger.warn('⚠️ SIGNED_URL_SECRET not configured: signed URLs are disabled');
+    }
+  }
+
+  /**
+   * Genera una URL firmada relativa (ej: /storage/view/<id>?expires=...&signature=...).
+   * @param options - Acción, archivo, validez, disposición e IP opcionales
+   * @returns URL relativa y fecha de expiración
+   * @throws InternalServerErrorException si SIGNED_URL_SECRET no está configurado
+   */
+  sign(options: SignUrlOptions): { url: string; expiresAt: Date } {
+    if (!this.secret) {
+      throw new InternalServerErrorException('Signed URLs are not configured');
+    }
+
+    const ttl = Math.min(options.expiresIn ?? this.defaultTtl, this.maxTtl);
+    const expires = Math.floor(Date.now() / 1000) + ttl;
+    const signature = this.computeSignature(
+      options.action,
+      options.fileId,
+      expires.toString(),
+      options.disposition,
+      options.ip,
+    );
+
+    const query = new URLSearchParams({ expires: expires.toString() });
+    if (options.disposition) {
+      query.set('disposition', options.disposition);
+    }
+    if (options.ip) {
+      query.set('ip', options.ip);
+    }
+    query.set('signature', signature);
+
+    return {
+      url: `/storage/${options.action}/${options.fileId}?${query.toString()}`,
+      expiresAt: new Date(expires * 1000),
+    };
+  }
+
+  /**
+   * Verifica la firma de una petición.
+   * @param params - Parámetros de la URL y datos de la petición
+   * @returns true si la firma es válida, no expiró y (si aplica) la IP coincide
+   */
+  verify(params: SignedUrlParams): boolean {
+    if (!this.secret || !params.expires || !params.signature) {
+      return false;
+    }
+
+    const expires = Number(params.expires);
+    if (!Number.isInteger(expires) || expires * 1000 < Date.now()) {
+      return false;
+    }
+
+    if (params.ip && params.ip !== params.requestIp) {
+      return false;
+    }
+
+    const expected = this.computeSignature(
+      params.action,
+      params.fileId,
+      params.expires,
+      params.disposition,
+      params.ip,
+    );
+
+    const provided = Buffer.from(params.signature);
+    const valid = Buffer.from(expected);
+    // timingSafeEqual exige longitudes iguales; la longitud de la firma no es secreta
+    return provided.length === valid.length && crypto.timingSafeEqual(provided, valid);
+  }
+
+  /**
+   * Calcula la firma HMAC-SHA256 (base64url) de los campos de la URL.
+   * @private
+   */
+  private computeSignature(
+    action: string,
+    fileId: string,
+    expires: string,
+    disposition?: string,
+    ip?: string,
+  ): string {
+    const payload = [action, fileId.toLowerCase(), expires, disposition || '', ip || ''].join('\n');
+    return crypto.createHmac('sha256', this.secret as string).update(payload).digest('base64url');
+  }
+}
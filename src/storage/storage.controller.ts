@@ -7,45 +7,94 @@ import {
   Query,
   UseInterceptors,
   UploadedFile,
+  UploadedFiles,
   Body,
   UseGuards,
+  Req,
   Res,
   HttpStatus,
+  Logger,
   ParseUUIDPipe,
+  ParseIntPipe,
   BadRequestException,
 } from '@nestjs/common';
-import { FileInterceptor } from '@nestjs/platform-express';
-import type { Response } from 'express';
+import { FileInterceptor, FilesInterceptor } from '@nestjs/platform-express';
+import type { Request, Response } from 'express';
+import { pipeline } from 'stream';
+import * as path from 'path';
 import { ApiTags, ApiOperation, ApiResponse, ApiConsumes, ApiSecurity, ApiQuery } from '@nestjs/swagger';
 import { Throttle } from '@nestjs/throttler';
-import { StorageService } from './storage.service';
+import { BatchItemOutcome, StorageService, StoredObjectSource } from './storage.service';
+import { RetentionService } from './retention.service';
+import { ImageTransformService, IMAGE_FITS, IMAGE_FORMATS } from './image-transform.service';
+import { FileSearchService } from './file-search.service';
+import { ArchiveService } from './archive.service';
+import { QuotaService } from './quota.service';
+import { UploadPolicyService } from './upload-policy.service';
+import { JobQueueService } from './job-queue.service';
+import { SignedUrlAction, SignedUrlDisposition, SignedUrlService } from './signed-url.service';
+import { AllowSignedUrl } from './decorators/allow-signed-url.decorator';
 import { UploadFileDto } from './dto/upload-file.dto';
+import { SignUrlDto } from './dto/sign-url.dto';
+import { UploadVersionDto } from './dto/upload-version.dto';
+import { SearchFilesDto } from './dto/search-files.dto';
+import { ListFilesDto } from './dto/list-files.dto';
+import { BulkDeleteFilesDto, FileIdsDto } from './dto/batch-files.dto';
+import { ArchiveFilesDto } from './dto/archive-files.dto';
+import { QueryUsageDto } from './dto/query-usage.dto';
+import { RequireScope } from './decorators/require-scope.decorator';
+import { CurrentApiKey } from './decorators/current-api-key.decorator';
+import { type ApiKeyPrincipal, assertFileAccess } from './api-key.service';
+import { ApiKeyScope } from './entities/api-key.entity';
 import { ApiKeyGuard } from './guards/api-key.guard';
-import { FileCategory, EntityType } from './entities/file-metadata.entity';
+import { AuditInterceptor } from './interceptors/audit.interceptor';
+import { Audited } from './decorators/audited.decorator';
+import { AuditAction } from './entities/audit-event.entity';
+import { FileVersion } from './entities/file-version.entity';
+import { FileMetadata } from './entities/file-metadata.entity';
+import { ifRangeMatches, isNotModified, parseRangeHeader } from './utils/conditional-request';
+
+/** Máximo de archivos por subida en lote */
+const MAX_BATCH_UPLOAD_FILES = 20;
 
 /**
  * Controlador de almacenamiento de archivos.
  * Provee endpoints para subir, descargar, listar y eliminar archivos.
- * Todos los endpoints requieren autenticación via API Key.
+ * Todos los endpoints requieren autenticación via API Key y quedan registrados en auditoría.
  * @class StorageController
  */
 @ApiTags('Storage')
 @ApiSecurity('api-key')
 @Controller('storage')
 @UseGuards(ApiKeyGuard)
+@UseInterceptors(AuditInterceptor)
 @Throttle({ default: { limit: 100, ttl: 60000 } }) // Rate limit global: 100 req/min
 export class StorageController {
-  constructor(private readonly storageService: StorageService) {}
+  private readonly logger = new Logger(StorageController.name);
+
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly signedUrlService: SignedUrlService,
+    private readonly retentionService: RetentionService,
+    private readonly imageTransformService: ImageTransformService,
+    private readonly fileSearchService: FileSearchService,
+    private readonly archiveService: ArchiveService,
+    private readonly quotaService: QuotaService,
+    private readonly uploadPolicyService: UploadPolicyService,
+    private readonly jobQueueService: JobQueueService,
+  ) {}
 
   /**
    * Sube un archivo al sistema de almacenamiento.
-   * Genera automáticamente una miniatura para imágenes.
+   * La miniatura de las imágenes se genera en segundo plano (ver processingStatus).
    * @param file - Archivo binario a subir (multipart/form-data)
    * @param dto - Metadatos del archivo (categoría, entidad asociada, etc.)
    * @returns Objeto con información del archivo subido incluyendo URLs de descarga
    * @throws BadRequestException si no se proporciona archivo o el tipo no es permitido
    */
   @Post('upload')
+  @Audited(AuditAction.UPLOAD)
+  @RequireScope(ApiKeyScope.UPLOAD)
   @Throttle({ default: { limit: 10, ttl: 60000 } })
   @UseInterceptors(FileInterceptor('file'))
   @ApiOperation({ summary: 'Upload a file' })
@@ -56,178 +105,668 @@ export class StorageController {
   async uploadFile(
     @UploadedFile() file: Express.Multer.File,
     @Body() dto: UploadFileDto,
+    @CurrentApiKey() apiKey?: ApiKeyPrincipal,
   ) {
     if (!file) {
       throw new BadRequestException('No file provided');
     }
 
+    assertFileAccess(apiKey, dto);
+
     const metadata = await this.storageService.uploadFile(file, dto);
     return {
       success: true,
-      file: {
-        id: metadata.id,
-        originalFilename: metadata.originalFilename,
-        storedFilename: metadata.storedFilename,
-        mimetype: metadata.mimetype,
-        size: metadata.size,
-        category: metadata.category,
-        uploadedAt: metadata.uploadedAt,
-        downloadUrl: `/storage/download/${metadata.id}`,
-        thumbnailUrl: metadata.thumbnailPath ? `/storage/thumbnail/${metadata.id}` : null,
-      },
+      file: this.toUploadSummary(metadata),
     };
   }
 
+  /**
+   * Sube varios archivos en una sola petición, con los mismos metadatos.
+   * Cada archivo se valida y guarda por separado: la respuesta informa el resultado de cada uno
+   * y los rechazados no impiden guardar los demás.
+   * @param files - Archivos binarios a subir (campo `files`, multipart/form-data)
+   * @param dto - Metadatos comunes a todos los archivos
+   * @returns Conteo de subidos/fallidos y resultado de cada archivo, en el orden recibido
+   * @throws BadRequestException si no se proporcionan archivos o se superan los permitidos
+   */
+  @Post('upload/batch')
+  @Audited(AuditAction.UPLOAD)
+  @RequireScope(ApiKeyScope.UPLOAD)
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @UseInterceptors(FilesInterceptor('files', MAX_BATCH_UPLOAD_FILES))
+  @ApiOperation({ summary: `Upload up to ${MAX_BATCH_UPLOAD_FILES} files sharing the same metadata` })
+  @ApiConsumes('multipart/form-data')
+  @ApiResponse({ status: 201, description: 'Per-file results (success is false if any file failed)' })
+  @ApiResponse({ status: 400, description: 'No files provided or too many files' })
+  async uploadFiles(
+    @UploadedFiles() files: Express.Multer.File[],
+    @Body() dto: UploadFileDto,
+    @CurrentApiKey() apiKey?: ApiKeyPrincipal,
+  ) {
+    if (!files?.length) {
+      throw new BadRequestException('No files provided');
+    }
+
+    assertFileAccess(apiKey, dto);
+
+    const outcomes = await this.storageService.uploadFiles(files, dto);
+    const results = outcomes.map((outcome, index) => ({
+      index,
+      originalFilename: files[index].originalname,
+      ...this.toBatchItem(outcome, (metadata) => ({ file: this.toUploadSummary(metadata) })),
+    }));
+    return this.summarizeBatch(results, 'uploaded');
+  }
+
   /**
    * Descarga un archivo por su ID.
-   * Retorna el archivo con headers de Content-Disposition attachment.
+   * Retorna el archivo por streaming con headers de Content-Disposition attachment.
+   * Soporta Range (206 Partial Content) y peticiones condicionales (304 Not Modified).
+   * Acepta API key o URL firmada (ver POST /storage/sign).
    * @param id - UUID del archivo a descargar
+   * @param req - Objeto Request de Express
    * @param res - Objeto Response de Express
    * @throws NotFoundException si el archivo no existe
    */
   @Get('download/:id')
+  @Audited(AuditAction.DOWNLOAD)
+  @AllowSignedUrl(SignedUrlAction.DOWNLOAD)
+  @RequireScope(ApiKeyScope.READ)
   @Throttle({ default: { limit: 30, ttl: 60000 } }) // 30 descargas/min
   @ApiOperation({ summary: 'Download a file by ID' })
   @ApiResponse({ status: 200, description: 'File downloaded successfully' })
+  @ApiResponse({ status: 206, description: 'Partial content (Range request)' })
+  @ApiResponse({ status: 304, description: 'Not modified' })
+  @ApiResponse({ status: 403, description: 'File is quarantined' })
   @ApiResponse({ status: 404, description: 'File not found' })
+  @ApiResponse({ status: 409, description: 'File is pending or failed antivirus scan' })
+  @ApiResponse({ status: 416, description: 'Range not satisfiable' })
   async downloadFile(
     @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: Request,
     @Res() res: Response,
+    @CurrentApiKey() apiKey?: ApiKeyPrincipal,
   ) {
-    const { metadata, buffer } = await this.storageService.getFile(id);
+    const source = await this.storageService.openFile(id);
+    assertFileAccess(apiKey, source.metadata);
 
-    res.setHeader('Content-Type', metadata.mimetype);
-    res.setHeader('Content-Disposition', `attachment; filename="${metadata.originalFilename}"`);
-    res.setHeader('Content-Length', metadata.size.toString());
-    res.status(HttpStatus.OK).send(buffer);
+    this.setContentDisposition(req, res, source, 'attachment', source.metadata.originalFilename);
+    await this.sendStoredObject(req, res, source);
+  }
+
+  /**
+   * Descarga en un ZIP todos los archivos activos de una entidad, o una lista de archivos.
+   * El ZIP se genera por streaming sin cargar los archivos en memoria; los nombres originales
+   * repetidos se numeran ("informe (2).pdf"). Los archivos que no pueden servirse (cuarentena,
+   * análisis pendiente) se omiten y, si se pide, quedan listados en manifest.json.
+   * @param dto - entityType y entityId, o ids; includeManifest
+   * @param res - Objeto Response de Express
+   * @throws BadRequestException si la selección es ambigua o supera el máximo de archivos
+   * @throws NotFoundException si algún archivo no existe o la entidad no tiene archivos
+   */
+  @Get('archive')
+  @Audited(AuditAction.ARCHIVE)
+  @RequireScope(ApiKeyScope.READ)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: 'Download the files of an entity (or a list of files) as a ZIP' })
+  @ApiResponse({ status: 200, description: 'ZIP archive stream' })
+  @ApiResponse({ status: 400, description: 'Invalid selection or too many files' })
+  @ApiResponse({ status: 404, description: 'File or entity files not found' })
+  async downloadArchive(
+    @Query() dto: ArchiveFilesDto,
+    @Res() res: Response,
+    @CurrentApiKey() apiKey?: ApiKeyPrincipal,
+  ) {
+    const plan = await this.archiveService.prepare(dto, apiKey);
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${plan.filename}"`);
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.status(HttpStatus.OK);
+    void this.archiveService.write(plan, res);
   }
 
   /**
    * Visualiza un archivo inline (para imágenes, PDFs).
-   * Retorna el archivo con Content-Disposition inline para visualización en navegador.
+   * Retorna el archivo por streaming con Content-Disposition inline para visualización en navegador.
+   * Soporta Range para visores de PDF y reproducción de video con búsqueda.
+   * Acepta API key o URL firmada, lo que permite usarlo directamente en <img> o <a>.
    * @param id - UUID del archivo a visualizar
+   * @param req - Objeto Request de Express
    * @param res - Objeto Response de Express
    * @throws NotFoundException si el archivo no existe
    */
   @Get('view/:id')
+  @Audited(AuditAction.VIEW)
+  @AllowSignedUrl(SignedUrlAction.VIEW)
+  @RequireScope(ApiKeyScope.READ)
   @Throttle({ default: { limit: 50, ttl: 60000 } }) // 50 views/min
   @ApiOperation({ summary: 'View a file inline (for images, PDFs)' })
   @ApiResponse({ status: 200, description: 'File retrieved successfully' })
+  @ApiResponse({ status: 206, description: 'Partial content (Range request)' })
+  @ApiResponse({ status: 304, description: 'Not modified' })
+  @ApiResponse({ status: 403, description: 'File is quarantined' })
   @ApiResponse({ status: 404, description: 'File not found' })
+  @ApiResponse({ status: 409, description: 'File is pending or failed antivirus scan' })
+  @ApiResponse({ status: 416, description: 'Range not satisfiable' })
   async viewFile(
     @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: Request,
     @Res() res: Response,
+    @CurrentApiKey() apiKey?: ApiKeyPrincipal,
   ) {
-    const { metadata, buffer } = await this.storageService.getFile(id);
+    const source = await this.storageService.openFile(id);
+    assertFileAccess(apiKey, source.metadata);
 
-    res.setHeader('Content-Type', metadata.mimetype);
-    res.setHeader('Content-Disposition', `inline; filename="${metadata.originalFilename}"`);
-    res.setHeader('Content-Length', metadata.size.toString());
-    res.status(HttpStatus.OK).send(buffer);
+    this.setContentDisposition(req, res, source, 'inline', source.metadata.originalFilename);
+    await this.sendStoredObject(req, res, source);
   }
 
   /**
-   * Obtiene la miniatura de una imagen.
-   * Solo disponible para archivos de tipo imagen que tienen thumbnail generado.
+   * Vuelve a analizar un archivo con el antivirus.
+   * Útil tras un error del scanner o al actualizar firmas; mueve a cuarentena
+   * los archivos infectados y libera los falsos positivos.
+   * @param id - UUID del archivo
+   * @returns Estado de escaneo resultante
+   * @throws NotFoundException si el archivo no existe
+   */
+  @Post('scan/:id')
+  @Audited(AuditAction.RESCAN)
+  @RequireScope(ApiKeyScope.ADMIN)
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @ApiOperation({ summary: 'Re-run the antivirus scan for a file' })
+  @ApiResponse({ status: 201, description: 'Scan completed' })
+  @ApiResponse({ status: 404, description: 'File not found' })
+  async rescanFile(@Param('id', ParseUUIDPipe) id: string) {
+    const metadata = await this.storageService.rescanFile(id);
+    return {
+      success: true,
+      scanStatus: metadata.scanStatus,
+      scanDetail: metadata.scanDetail,
+      scannedAt: metadata.scannedAt,
+    };
+  }
+
+  /**
+   * Obtiene la miniatura de una imagen o la vista previa de la primera página de un PDF.
+   * Solo disponible para imágenes y PDF que tienen thumbnail generado.
+   * Usa el mismo manejo de caché (ETag/Last-Modified) que las descargas.
+   * Acepta API key o URL firmada.
    * @param id - UUID del archivo original
+   * @param req - Objeto Request de Express
    * @param res - Objeto Response de Express
    * @throws NotFoundException si no existe miniatura para el archivo
    */
   @Get('thumbnail/:id')
-  @ApiOperation({ summary: 'Get thumbnail of an image' })
+  @Audited(AuditAction.THUMBNAIL)
+  @AllowSignedUrl(SignedUrlAction.THUMBNAIL)
+  @RequireScope(ApiKeyScope.READ)
+  @ApiOperation({ summary: 'Get thumbnail of an image or first-page preview of a PDF' })
   @ApiResponse({ status: 200, description: 'Thumbnail retrieved successfully' })
+  @ApiResponse({ status: 304, description: 'Not modified' })
   @ApiResponse({ status: 404, description: 'Thumbnail not found' })
   async getThumbnail(
     @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: Request,
+    @Res() res: Response,
+    @CurrentApiKey() apiKey?: ApiKeyPrincipal,
+  ) {
+    const source = await this.storageService.openThumbnail(id);
+    assertFileAccess(apiKey, source.metadata);
+
+    this.setContentDisposition(req, res, source, 'inline', `thumb_${source.metadata.originalFilename}`);
+    await this.sendStoredObject(req, res, source);
+  }
+
+  /**
+   * Obtiene un derivado de una imagen (tamaño, ajuste, formato y calidad) generado bajo demanda.
+   * Solo se permiten las geometrías de los presets configurados; los derivados se guardan en caché.
+   * Acepta API key o URL firmada.
+   * @param id - UUID del archivo original
+   * @param preset - Nombre del preset (alternativa a width/height/fit)
+   * @param width - Ancho del preset
+   * @param height - Alto del preset
+   * @param fit - Ajuste del preset (cover, contain, fill, inside, outside)
+   * @param format - Formato de salida (webp, avif, jpeg, png; default: el del preset)
+   * @param quality - Calidad (default: la del preset)
+   * @param req - Objeto Request de Express
+   * @param res - Objeto Response de Express
+   * @throws BadRequestException si los parámetros no corresponden a un preset o el archivo no es una imagen
+   * @throws NotFoundException si el archivo no existe
+   */
+  @Get('image/:id')
+  @Audited(AuditAction.IMAGE)
+  @AllowSignedUrl(SignedUrlAction.IMAGE)
+  @RequireScope(ApiKeyScope.READ)
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @ApiOperation({ summary: 'Get a resized/converted derivative of an image' })
+  @ApiQuery({ name: 'preset', required: false })
+  @ApiQuery({ name: 'width', required: false, type: Number })
+  @ApiQuery({ name: 'height', required: false, type: Number })
+  @ApiQuery({ name: 'fit', required: false, enum: IMAGE_FITS })
+  @ApiQuery({ name: 'format', required: false, enum: IMAGE_FORMATS })
+  @ApiQuery({ name: 'quality', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Image derivative retrieved successfully' })
+  @ApiResponse({ status: 304, description: 'Not modified' })
+  @ApiResponse({ status: 400, description: 'Parameters do not match an allowed preset, or file is not an image' })
+  @ApiResponse({ status: 404, description: 'File not found' })
+  async getImage(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: Request,
     @Res() res: Response,
+    @Query('preset') preset?: string,
+    @Query('width') width?: string,
+    @Query('height') height?: string,
+    @Query('fit') fit?: string,
+    @Query('format') format?: string,
+    @Query('quality') quality?: string,
+    @CurrentApiKey() apiKey?: ApiKeyPrincipal,
   ) {
-    const { metadata, buffer } = await this.storageService.getThumbnail(id);
+    const variant = this.imageTransformService.resolveVariant({ preset, width, height, fit, format, quality });
+    const original = await this.storageService.openFile(id);
+    assertFileAccess(apiKey, original.metadata);
+
+    const source = await this.imageTransformService.openDerivative(original, variant);
+    const basename = path.parse(original.metadata.originalFilename).name;
+    this.setContentDisposition(req, res, source, 'inline', `${basename}_${variant.name}.${variant.format}`);
+    await this.sendStoredObject(req, res, source);
+  }
+
+  /**
+   * Lista los presets de transformación de imágenes permitidos.
+   * @returns Presets con su geometría, formato y calidad por defecto
+   */
+  @Get('image-presets')
+  @RequireScope(ApiKeyScope.READ)
+  @ApiOperation({ summary: 'List allowed image transformation presets' })
+  @ApiResponse({ status: 200, description: 'Image presets' })
+  getImagePresets() {
+    return {
+      success: true,
+      presets: this.imageTransformService.getPresets(),
+      formats: IMAGE_FORMATS,
+    };
+  }
 
-    res.setHeader('Content-Type', 'image/jpeg');
-    res.setHeader('Content-Disposition', `inline; filename="thumb_${metadata.originalFilename}"`);
-    res.status(HttpStatus.OK).send(buffer);
+  /**
+   * Lista las políticas de subida vigentes.
+   * @returns Política de cada categoría y de cada combinación categoría:tipo de entidad configurada
+   */
+  @Get('upload-policies')
+  @RequireScope(ApiKeyScope.READ)
+  @ApiOperation({ summary: 'List upload policies per category (and per entity type, where configured)' })
+  @ApiResponse({ status: 200, description: 'Upload policies' })
+  getUploadPolicies() {
+    return {
+      success: true,
+      policies: this.uploadPolicyService.getPolicies(),
+    };
+  }
+
+  /**
+   * Genera una URL firmada y con expiración para descargar, visualizar u obtener la miniatura de un archivo.
+   * La URL no requiere API key, por lo que puede entregarse al navegador.
+   * @param dto - Archivo, acción, validez, disposición e IP opcionales
+   * @returns URL relativa firmada y su fecha de expiración
+   * @throws NotFoundException si el archivo no existe
+   */
+  @Post('sign')
+  @Audited(AuditAction.SIGN_URL)
+  @RequireScope(ApiKeyScope.READ)
+  @Throttle({ default: { limit: 60, ttl: 60000 } })
+  @ApiOperation({ summary: 'Create a signed, expiring URL for a file' })
+  @ApiResponse({ status: 201, description: 'Signed URL created' })
+  @ApiResponse({ status: 404, description: 'File not found' })
+  async signUrl(@Body() dto: SignUrlDto, @CurrentApiKey() apiKey?: ApiKeyPrincipal) {
+    const metadata = await this.storageService.getFileMetadata(dto.fileId);
+    assertFileAccess(apiKey, metadata);
+
+    const signed = this.signedUrlService.sign({
+      action: dto.action,
+      fileId: dto.fileId,
+      expiresIn: dto.expiresIn,
+      disposition: dto.disposition,
+      ip: dto.ip,
+    });
+
+    return {
+      success: true,
+      url: signed.url,
+      expiresAt: signed.expiresAt,
+    };
   }
 
   /**
    * Obtiene los metadatos de un archivo.
    * Retorna información como nombre original, tamaño, tipo MIME, categoría, etc.
+   * Incluye el hash SHA-256 para que el cliente pueda verificar la integridad de la descarga.
    * @param id - UUID del archivo
    * @returns Objeto con los metadatos completos del archivo
    * @throws NotFoundException si el archivo no existe
    */
   @Get('metadata/:id')
+  @Audited(AuditAction.METADATA)
+  @RequireScope(ApiKeyScope.READ)
   @ApiOperation({ summary: 'Get file metadata' })
   @ApiResponse({ status: 200, description: 'Metadata retrieved successfully' })
   @ApiResponse({ status: 404, description: 'File not found' })
-  async getMetadata(@Param('id', ParseUUIDPipe) id: string) {
+  async getMetadata(@Param('id', ParseUUIDPipe) id: string, @CurrentApiKey() apiKey?: ApiKeyPrincipal) {
     const metadata = await this.storageService.getFileMetadata(id);
+    assertFileAccess(apiKey, metadata);
     return {
       success: true,
       file: metadata,
+      integrity: metadata.checksum
+        ? { algorithm: 'sha256', checksum: metadata.checksum }
+        : null,
+    };
+  }
+
+  /**
+   * Obtiene los metadatos de varios archivos.
+   * @param dto - IDs de los archivos
+   * @returns Resultado de cada archivo (404 si no existe, 403 si la API key no tiene acceso)
+   */
+  @Post('metadata/batch')
+  @Audited(AuditAction.METADATA)
+  @RequireScope(ApiKeyScope.READ)
+  @Throttle({ default: { limit: 30, ttl: 60000 } })
+  @ApiOperation({ summary: 'Get metadata for a list of files' })
+  @ApiResponse({ status: 201, description: 'Per-file results' })
+  async getMetadataBatch(@Body() dto: FileIdsDto, @CurrentApiKey() apiKey?: ApiKeyPrincipal) {
+    const outcomes = await this.storageService.getFilesMetadata(dto.ids, apiKey);
+    const results = outcomes.map(({ id, ...outcome }) => ({
+      id,
+      ...this.toBatchItem(outcome, (metadata) => ({ file: metadata })),
+    }));
+    return this.summarizeBatch(results, 'found');
+  }
+
+  /**
+   * Sube una nueva versión de un archivo conservando su ID, categoría y entidad asociada.
+   * La versión subida pasa a ser la vigente; las anteriores quedan en el historial.
+   * @param id - UUID del archivo
+   * @param file - Archivo binario de la nueva versión (multipart/form-data)
+   * @param dto - Usuario que sube la versión y comentario
+   * @returns Archivo actualizado y la versión creada
+   * @throws NotFoundException si el archivo no existe
+   * @throws BadRequestException si no se proporciona archivo o el tipo no es permitido
+   * @throws HttpException 423 si el archivo está bajo retención legal
+   */
+  @Post(':id/versions')
+  @Audited(AuditAction.UPLOAD_VERSION)
+  @RequireScope(ApiKeyScope.UPLOAD)
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({ summary: 'Upload a new version of a file' })
+  @ApiConsumes('multipart/form-data')
+  @ApiResponse({ status: 201, description: 'Version uploaded successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  @ApiResponse({ status: 404, description: 'File not found' })
+  @ApiResponse({ status: 423, description: 'File is under legal hold' })
+  async uploadVersion(
+    @Param('id', ParseUUIDPipe) id: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() dto: UploadVersionDto,
+    @CurrentApiKey() apiKey?: ApiKeyPrincipal,
+  ) {
+    if (!file) {
+      throw new BadRequestException('No file provided');
+    }
+
+    assertFileAccess(apiKey, await this.storageService.getFileMetadata(id));
+
+    const { metadata, version } = await this.storageService.uploadVersion(id, file, dto);
+    return {
+      success: true,
+      file: {
+        id: metadata.id,
+        originalFilename: metadata.originalFilename,
+        mimetype: metadata.mimetype,
+        size: metadata.size,
+        category: metadata.category,
+        currentVersion: metadata.currentVersion,
+        scanStatus: metadata.scanStatus,
+        processingStatus: metadata.processingStatus,
+        downloadUrl: `/storage/download/${metadata.id}`,
+        thumbnailUrl: metadata.thumbnailPath ? `/storage/thumbnail/${metadata.id}` : null,
+      },
+      version: this.toVersionSummary(version),
+    };
+  }
+
+  /**
+   * Lista el historial de versiones de un archivo, de la más reciente a la más antigua.
+   * @param id - UUID del archivo
+   * @returns Versión vigente e historial con usuario y fecha de cada versión
+   * @throws NotFoundException si el archivo no existe
+   */
+  @Get(':id/versions')
+  @Audited(AuditAction.LIST_VERSIONS)
+  @RequireScope(ApiKeyScope.READ)
+  @ApiOperation({ summary: 'List the version history of a file' })
+  @ApiResponse({ status: 200, description: 'Versions listed successfully' })
+  @ApiResponse({ status: 404, description: 'File not found' })
+  async listVersions(@Param('id', ParseUUIDPipe) id: string, @CurrentApiKey() apiKey?: ApiKeyPrincipal) {
+    const { metadata, versions } = await this.storageService.listVersions(id);
+    assertFileAccess(apiKey, metadata);
+    return {
+      success: true,
+      currentVersion: metadata.currentVersion,
+      data: versions.map((version) => this.toVersionSummary(version)),
+    };
+  }
+
+  /**
+   * Consulta el procesamiento en segundo plano de un archivo (ej: su miniatura).
+   * @param id - UUID del archivo
+   * @returns Estado agregado del archivo y sus trabajos, del más reciente al más antiguo
+   * @throws NotFoundException si el archivo no existe
+   */
+  @Get(':id/processing')
+  @Audited(AuditAction.METADATA)
+  @RequireScope(ApiKeyScope.READ)
+  @ApiOperation({ summary: 'Get the background processing status of a file' })
+  @ApiResponse({ status: 200, description: 'Processing status retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'File not found' })
+  async getProcessingStatus(@Param('id', ParseUUIDPipe) id: string, @CurrentApiKey() apiKey?: ApiKeyPrincipal) {
+    const metadata = await this.storageService.getFileMetadata(id);
+    assertFileAccess(apiKey, metadata);
+    return {
+      success: true,
+      fileId: metadata.id,
+      processingStatus: metadata.processingStatus,
+      jobs: await this.jobQueueService.listForFile(id),
+    };
+  }
+
+  /**
+   * Descarga una versión concreta de un archivo.
+   * Soporta Range y peticiones condicionales igual que la descarga del archivo.
+   * @param id - UUID del archivo
+   * @param versionNumber - Número de versión
+   * @param req - Objeto Request de Express
+   * @param res - Objeto Response de Express
+   * @throws NotFoundException si el archivo o la versión no existen
+   */
+  @Get(':id/versions/:version/download')
+  @Audited(AuditAction.DOWNLOAD)
+  @RequireScope(ApiKeyScope.READ)
+  @Throttle({ default: { limit: 30, ttl: 60000 } })
+  @ApiOperation({ summary: 'Download a specific version of a file' })
+  @ApiResponse({ status: 200, description: 'Version downloaded successfully' })
+  @ApiResponse({ status: 206, description: 'Partial content (Range request)' })
+  @ApiResponse({ status: 304, description: 'Not modified' })
+  @ApiResponse({ status: 403, description: 'Version is quarantined' })
+  @ApiResponse({ status: 404, description: 'File or version not found' })
+  async downloadVersion(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('version', ParseIntPipe) versionNumber: number,
+    @Req() req: Request,
+    @Res() res: Response,
+    @CurrentApiKey() apiKey?: ApiKeyPrincipal,
+  ) {
+    const { version, source } = await this.storageService.openVersion(id, versionNumber);
+    assertFileAccess(apiKey, source.metadata);
+
+    this.setContentDisposition(req, res, source, 'attachment', version.originalFilename);
+    await this.sendStoredObject(req, res, source);
+  }
+
+  /**
+   * Restaura una versión anterior. Se crea una nueva versión vigente con su contenido,
+   * sin borrar el historial.
+   * @param id - UUID del archivo
+   * @param versionNumber - Número de la versión a restaurar
+   * @param dto - Usuario que restaura y comentario
+   * @returns Archivo actualizado y la versión creada
+   * @throws NotFoundException si el archivo o la versión no existen
+   * @throws ConflictException si la versión ya es la vigente
+   * @throws HttpException 423 si el archivo está bajo retención legal
+   */
+  @Post(':id/versions/:version/restore')
+  @Audited(AuditAction.RESTORE_VERSION)
+  @RequireScope(ApiKeyScope.UPLOAD)
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @ApiOperation({ summary: 'Restore a previous version of a file' })
+  @ApiResponse({ status: 201, description: 'Version restored as the new current version' })
+  @ApiResponse({ status: 403, description: 'Version is quarantined' })
+  @ApiResponse({ status: 404, description: 'File or version not found' })
+  @ApiResponse({ status: 409, description: 'Version is already current' })
+  @ApiResponse({ status: 423, description: 'File is under legal hold' })
+  async restoreVersion(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('version', ParseIntPipe) versionNumber: number,
+    @Body() dto: UploadVersionDto,
+    @CurrentApiKey() apiKey?: ApiKeyPrincipal,
+  ) {
+    assertFileAccess(apiKey, await this.storageService.getFileMetadata(id));
+
+    const { metadata, version } = await this.storageService.restoreVersion(id, versionNumber, dto);
+    return {
+      success: true,
+      currentVersion: metadata.currentVersion,
+      version: this.toVersionSummary(version),
     };
   }
 
   /**
    * Lista archivos con filtros opcionales.
-   * Permite filtrar por categoría, tipo de entidad, entidad específica y usuario.
-   * Soporta paginación mediante limit y offset.
-   * @param category - Filtrar por categoría de archivo (PROFILE, DOCUMENT, etc.)
-   * @param entityType - Filtrar por tipo de entidad asociada
-   * @param entityId - Filtrar por ID de entidad específica
-   * @param uploadedBy - Filtrar por ID de usuario que subió el archivo
-   * @param limit - Número máximo de resultados (default: 50)
-   * @param offset - Número de registros a saltar (default: 0)
-   * @returns Lista paginada de archivos con total
+   * Permite filtrar por categoría, tipo de entidad, entidad específica y usuario, y ordenar por
+   * fecha de subida, tamaño o nombre. Pagina por cursor: nextCursor pide la página siguiente.
+   * @param filters - Filtros, orden, cursor y tamaño de página
+   * @returns Página de archivos con total (null si includeTotal=false) y cursor de la página siguiente
    */
   @Get('list')
+  @Audited(AuditAction.LIST)
+  @RequireScope(ApiKeyScope.READ)
   @Throttle({ default: { limit: 20, ttl: 60000 } }) // 20 listados/min
-  @ApiOperation({ summary: 'List files with filters' })
-  @ApiQuery({ name: 'category', enum: FileCategory, required: false })
-  @ApiQuery({ name: 'entityType', enum: EntityType, required: false })
-  @ApiQuery({ name: 'entityId', required: false })
-  @ApiQuery({ name: 'uploadedBy', required: false })
-  @ApiQuery({ name: 'limit', required: false, type: Number })
-  @ApiQuery({ name: 'offset', required: false, type: Number })
+  @ApiOperation({ summary: 'List files with filters, sorting and cursor pagination' })
   @ApiResponse({ status: 200, description: 'Files listed successfully' })
-  async listFiles(
-    @Query('category') category?: FileCategory,
-    @Query('entityType') entityType?: EntityType,
-    @Query('entityId') entityId?: string,
-    @Query('uploadedBy') uploadedBy?: string,
-    @Query('limit') limit?: string,
-    @Query('offset') offset?: string,
-  ) {
-    const result = await this.storageService.listFiles(
-      category,
-      entityType,
-      entityId,
-      uploadedBy,
-      limit ? parseInt(limit, 10) : 50,
-      offset ? parseInt(offset, 10) : 0,
-    );
+  @ApiResponse({ status: 400, description: 'Invalid filters or cursor' })
+  async listFiles(@Query() filters: ListFilesDto, @CurrentApiKey() apiKey?: ApiKeyPrincipal) {
+    // Un filtro explícito fuera de las restricciones de la key es un error, no una lista vacía
+    if (filters.category) {
+      assertFileAccess(apiKey ? { ...apiKey, allowedEntityTypes: null } : undefined, { category: filters.category });
+    }
+    if (filters.entityType) {
+      assertFileAccess(apiKey ? { ...apiKey, allowedCategories: null } : undefined, { entityType: filters.entityType });
+    }
+
+    const result = await this.storageService.listFiles(filters, apiKey);
+
+    return {
+      success: true,
+      data: result.data,
+      total: result.total,
+      limit: filters.limit ?? 50,
+      offset: filters.offset ?? 0,
+      nextCursor: result.nextCursor,
+    };
+  }
+
+  /**
+   * Busca archivos por texto completo (nombre, descripción, claves y valores de metadata y texto extraído
+   * de documentos) combinado con filtros de entidad, tipo MIME, fechas, tamaño y metadata.
+   * Con texto, los resultados se ordenan por relevancia e incluyen fragmentos resaltados.
+   * @param filters - Texto y filtros de búsqueda
+   * @returns Página de resultados con total
+   */
+  @Get('search')
+  @Audited(AuditAction.SEARCH)
+  @RequireScope(ApiKeyScope.READ)
+  @Throttle({ default: { limit: 20, ttl: 60000 } }) // 20 búsquedas/min
+  @ApiOperation({ summary: 'Search files by text and metadata' })
+  @ApiResponse({ status: 200, description: 'Search results ranked by relevance' })
+  @ApiResponse({ status: 400, description: 'Invalid filters' })
+  async searchFiles(@Query() filters: SearchFilesDto, @CurrentApiKey() apiKey?: ApiKeyPrincipal) {
+    // Igual que en el listado: un filtro explícito fuera de las restricciones de la key es un error
+    if (filters.category) {
+      assertFileAccess(apiKey ? { ...apiKey, allowedEntityTypes: null } : undefined, { category: filters.category });
+    }
+    if (filters.entityType) {
+      assertFileAccess(apiKey ? { ...apiKey, allowedCategories: null } : undefined, { entityType: filters.entityType });
+    }
 
+    const result = await this.fileSearchService.search(filters, apiKey);
     return {
       success: true,
       data: result.data,
       total: result.total,
-      limit: limit ? parseInt(limit, 10) : 50,
-      offset: offset ? parseInt(offset, 10) : 0,
+      limit: filters.limit ?? 20,
+      offset: filters.offset ?? 0,
+    };
+  }
+
+  /**
+   * Consulta el consumo de las cuotas de almacenamiento frente a sus límites.
+   * Devuelve una entrada por cada propietario indicado (usuario, entidad, categoría).
+   * @param filters - uploadedBy, entityType + entityId y/o category
+   * @returns Bytes y archivos usados, límite (null = sin límite) y margen restante de cada cuota
+   * @throws BadRequestException si no se indica ningún propietario
+   */
+  @Get('usage')
+  @Audited(AuditAction.USAGE)
+  @RequireScope(ApiKeyScope.READ)
+  @ApiOperation({ summary: 'Get storage quota usage for an uploader, an entity and/or a category' })
+  @ApiResponse({ status: 200, description: 'Usage and limit of each quota' })
+  @ApiResponse({ status: 400, description: 'No owner provided' })
+  async getUsage(@Query() filters: QueryUsageDto, @CurrentApiKey() apiKey?: ApiKeyPrincipal) {
+    if (!filters.uploadedBy && !filters.category && !(filters.entityType && filters.entityId)) {
+      throw new BadRequestException('Provide uploadedBy, category, or both entityType and entityId');
+    }
+    if (filters.category) {
+      assertFileAccess(apiKey ? { ...apiKey, allowedEntityTypes: null } : undefined, { category: filters.category });
+    }
+    if (filters.entityType) {
+      assertFileAccess(apiKey ? { ...apiKey, allowedCategories: null } : undefined, { entityType: filters.entityType });
+    }
+
+    return {
+      success: true,
+      quotas: await this.quotaService.getUsage(filters),
     };
   }
 
   /**
    * Elimina un archivo (soft delete).
-   * El archivo se marca como inactivo pero no se elimina físicamente del disco.
+   * El archivo se marca como inactivo y se puede restaurar hasta que venza el plazo de
+   * retención de su categoría; después la purga programada lo elimina definitivamente.
    * @param id - UUID del archivo a eliminar
    * @returns Mensaje de confirmación de eliminación
    * @throws NotFoundException si el archivo no existe
+   * @throws HttpException 423 si el archivo está bajo retención legal
    */
   @Delete(':id')
+  @Audited(AuditAction.DELETE)
+  @RequireScope(ApiKeyScope.DELETE)
   @Throttle({ default: { limit: 5, ttl: 60000 } })
   @ApiOperation({ summary: 'Delete a file (soft delete)' })
   @ApiResponse({ status: 200, description: 'File deleted successfully' })
   @ApiResponse({ status: 404, description: 'File not found' })
-  async deleteFile(@Param('id', ParseUUIDPipe) id: string) {
+  @ApiResponse({ status: 423, description: 'File is under legal hold' })
+  async deleteFile(@Param('id', ParseUUIDPipe) id: string, @CurrentApiKey() apiKey?: ApiKeyPrincipal) {
+    assertFileAccess(apiKey, await this.storageService.getFileMetadata(id));
     await this.storageService.deleteFile(id);
     return {
       success: true,
@@ -235,13 +774,62 @@ export class StorageController {
     };
   }
 
+  /**
+   * Elimina archivos en lote (soft delete), por lista de IDs o todos los de una entidad.
+   * Los archivos inexistentes, no permitidos para la API key o retenidos se informan como fallidos
+   * sin impedir eliminar los demás; los eliminados pueden restaurarse como en DELETE /storage/:id.
+   * @param dto - ids, o bien entityType y entityId
+   * @returns Conteo de eliminados/fallidos y resultado de cada archivo
+   * @throws BadRequestException si el selector es ambiguo o incompleto
+   */
+  @Post('delete/batch')
+  @Audited(AuditAction.DELETE)
+  @RequireScope(ApiKeyScope.DELETE)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: 'Delete several files by ID or all files of an entity (soft delete)' })
+  @ApiResponse({ status: 201, description: 'Per-file results (success is false if any file failed)' })
+  @ApiResponse({ status: 400, description: 'Provide either ids, or both entityType and entityId' })
+  async deleteFiles(@Body() dto: BulkDeleteFilesDto, @CurrentApiKey() apiKey?: ApiKeyPrincipal) {
+    const outcomes = await this.storageService.deleteFiles(dto, apiKey);
+    const results = outcomes.map(({ id, ...outcome }) => ({ id, ...this.toBatchItem(outcome, () => ({})) }));
+    return this.summarizeBatch(results, 'deleted');
+  }
+
+  /**
+   * Restaura un archivo eliminado mientras no venza su plazo de retención.
+   * @param id - UUID del archivo eliminado
+   * @returns Metadatos del archivo restaurado
+   * @throws NotFoundException si el archivo no existe o ya fue purgado
+   * @throws GoneException si el plazo de retención venció
+   * @throws PayloadTooLargeException si el archivo restaurado excede alguna cuota
+   */
+  @Post(':id/restore')
+  @Audited(AuditAction.RESTORE)
+  @RequireScope(ApiKeyScope.DELETE)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: 'Restore a deleted file within its retention period' })
+  @ApiResponse({ status: 201, description: 'File restored' })
+  @ApiResponse({ status: 404, description: 'Deleted file not found' })
+  @ApiResponse({ status: 410, description: 'Retention period expired' })
+  @ApiResponse({ status: 413, description: 'Storage quota exceeded' })
+  async restoreFile(@Param('id', ParseUUIDPipe) id: string, @CurrentApiKey() apiKey?: ApiKeyPrincipal) {
+    assertFileAccess(apiKey, await this.retentionService.getDeletedFile(id));
+    return {
+      success: true,
+      file: await this.retentionService.restoreFile(id),
+    };
+  }
+
   /**
    * Limpia archivos huérfanos del sistema.
-   * Marca como inactivos los registros en BD que no tienen archivo físico asociado.
+   * Marca como inactivos los registros en BD que no tienen archivo físico asociado,
+   * salvo los que están bajo retención legal.
    * Solo debe ser ejecutado por administradores. Rate limit: 1 req cada 5 min.
-   * @returns Número de archivos huérfanos removidos
+   * @returns Número de archivos huérfanos removidos y de huérfanos retenidos
    */
   @Post('cleanup')
+  @Audited(AuditAction.CLEANUP)
+  @RequireScope(ApiKeyScope.ADMIN)
   @Throttle({ default: { limit: 1, ttl: 300000 } })
   @ApiOperation({ summary: 'Cleanup orphaned files (admin only)' })
   @ApiResponse({ status: 200, description: 'Cleanup completed' })
@@ -250,6 +838,158 @@ export class StorageController {
     return {
       success: true,
       removed: result.removed,
+      held: result.held,
     };
   }
+
+  /**
+   * Da formato a un archivo recién subido para la respuesta.
+   * @private
+   */
+  private toUploadSummary(metadata: FileMetadata) {
+    return {
+      id: metadata.id,
+      originalFilename: metadata.originalFilename,
+      storedFilename: metadata.storedFilename,
+      mimetype: metadata.mimetype,
+      size: metadata.size,
+      category: metadata.category,
+      uploadedAt: metadata.uploadedAt,
+      scanStatus: metadata.scanStatus,
+      processingStatus: metadata.processingStatus,
+      downloadUrl: `/storage/download/${metadata.id}`,
+      thumbnailUrl: metadata.thumbnailPath ? `/storage/thumbnail/${metadata.id}` : null,
+    };
+  }
+
+  /**
+   * Da formato al resultado de un elemento de un lote: los datos si tuvo éxito, o el código y mensaje del error.
+   * @private
+   */
+  private toBatchItem<T>(outcome: BatchItemOutcome<T>, present: (value: T) => Record<string, unknown>) {
+    return outcome.success
+      ? { success: true, ...present(outcome.value) }
+      : { success: false, statusCode: outcome.statusCode, error: outcome.error };
+  }
+
+  /**
+   * Arma la respuesta de una operación en lote con el conteo de aciertos y fallos.
+   * `success` solo es true si todos los elementos tuvieron éxito.
+   * @private
+   */
+  private summarizeBatch<R extends { success: boolean }>(results: R[], succeededKey: string) {
+    const failed = results.filter((result) => !result.success).length;
+    return {
+      success: failed === 0,
+      [succeededKey]: results.length - failed,
+      failed,
+      results,
+    };
+  }
+
+  /**
+   * Da formato a una versión para la respuesta.
+   * @private
+   */
+  private toVersionSummary(version: FileVersion) {
+    return {
+      versionNumber: version.versionNumber,
+      originalFilename: version.originalFilename,
+      mimetype: version.mimetype,
+      size: version.size,
+      checksum: version.checksum,
+      scanStatus: version.scanStatus,
+      uploadedBy: version.uploadedBy,
+      comment: version.comment,
+      createdAt: version.createdAt,
+      downloadUrl: `/storage/${version.fileId}/versions/${version.versionNumber}/download`,
+    };
+  }
+
+  /**
+   * Fija Content-Disposition, respetando la disposición de una URL firmada si viene en la petición.
+   * @param req - Objeto Request de Express
+   * @param res - Objeto Response de Express
+   * @param source - Objeto a enviar
+   * @param fallback - Disposición por defecto del endpoint
+   * @param filename - Nombre de archivo sugerido
+   * @private
+   */
+  private setContentDisposition(
+    req: Request,
+    res: Response,
+    source: StoredObjectSource,
+    fallback: SignedUrlDisposition,
+    filename: string,
+  ): void {
+    const requested = req.query.disposition;
+    const disposition = requested === 'inline' || requested === 'attachment' ? requested : fallback;
+    res.setHeader('Content-Disposition', `${disposition}; filename="${filename}"`);
+
+    if (disposition === 'inline' && source.contentType === 'image/svg+xml') {
+      // Defensa adicional para SVG servidos inline (incluye los subidos antes del saneamiento)
+      res.setHeader('Content-Security-Policy', "default-src 'none'; img-src data:; style-src 'unsafe-inline'; sandbox");
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+    }
+  }
+
+  /**
+   * Envía un objeto almacenado por streaming aplicando peticiones condicionales y rangos.
+   * Responde 304 si el cliente tiene la versión vigente, 206 para rangos válidos
+   * y 416 para rangos fuera del tamaño del objeto.
+   * @param req - Objeto Request de Express
+   * @param res - Objeto Response de Express
+   * @param source - Objeto a enviar
+   * @private
+   */
+  private async sendStoredObject(
+    req: Request,
+    res: Response,
+    source: StoredObjectSource,
+  ): Promise<void> {
+    res.setHeader('ETag', source.etag);
+    res.setHeader('Last-Modified', source.lastModified.toUTCString());
+    res.setHeader('Cache-Control', 'private, no-cache');
+    res.setHeader('Accept-Ranges', 'bytes');
+
+    if (isNotModified(req.headers, source.etag, source.lastModified)) {
+      res.status(HttpStatus.NOT_MODIFIED).end();
+      return;
+    }
+
+    res.setHeader('Content-Type', source.contentType);
+
+    const rangeHeader = ifRangeMatches(req.get('if-range'), source.etag, source.lastModified)
+      ? req.get('range')
+      : undefined;
+    const range = parseRangeHeader(rangeHeader, source.size);
+
+    if (range.type === 'unsatisfiable') {
+      res.setHeader('Content-Range', `bytes */${source.size}`);
+      res.status(HttpStatus.REQUESTED_RANGE_NOT_SATISFIABLE).end();
+      return;
+    }
+
+    if (range.type === 'partial') {
+      const { start, end } = range.range;
+      res.setHeader('Content-Range', `bytes ${start}-${end}/${source.size}`);
+      res.setHeader('Content-Length', (end - start + 1).toString());
+      res.status(HttpStatus.PARTIAL_CONTENT);
+    } else {
+      res.setHeader('Content-Length', source.size.toString());
+      res.status(HttpStatus.OK);
+    }
+
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+
+    const stream = await source.open(range.type === 'partial' ? range.range : undefined);
+    pipeline(stream, res, (error) => {
+      if (error) {
+        this.logger.warn(`⚠️ Stream interrupted for file ${source.metadata.id}: ${error.message}`);
+      }
+    });
+  }
 }
@@ -3,16 +3,85 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { ConfigModule } from '@nestjs/config';
 import { StorageController } from './storage.controller';
 import { StorageService } from './storage.service';
+import { UploadSessionController } from './upload-session.controller';
+import { UploadSessionService } from './upload-session.service';
 import { FileMetadata } from './entities/file-metadata.entity';
+import { UploadSession } from './entities/upload-session.entity';
+import { StoredBlob } from './entities/stored-blob.entity';
+import { ApiKey } from './entities/api-key.entity';
+import { BlobService } from './blob.service';
 import { ApiKeyGuard } from './guards/api-key.guard';
+import { StorageDriverRegistry } from './drivers/storage-driver.registry';
+import { VirusScanService } from './scanners/virus-scan.service';
+import { SignedUrlService } from './signed-url.service';
+import { ApiKeyController } from './api-key.controller';
+import { ApiKeyService } from './api-key.service';
+import { AuditEvent } from './entities/audit-event.entity';
+import { FileVersion } from './entities/file-version.entity';
+import { AuditService } from './audit.service';
+import { AuditController } from './audit.controller';
+import { AuditInterceptor } from './interceptors/audit.interceptor';
+import { RetentionService } from './retention.service';
+import { RetentionController } from './retention.controller';
+import { LegalHold } from './entities/legal-hold.entity';
+import { LegalHoldService } from './legal-hold.service';
+import { LegalHoldController } from './legal-hold.controller';
+import { ReconciliationReport } from './entities/reconciliation-report.entity';
+import { ReconciliationService } from './reconciliation.service';
+import { ReconciliationController } from './reconciliation.controller';
+import { ImageTransformService } from './image-transform.service';
+import { PdfService } from './pdf.service';
+import { FileSearchService } from './file-search.service';
+import { ArchiveService } from './archive.service';
+import { QuotaService } from './quota.service';
+import { UploadPolicyService } from './upload-policy.service';
+import { WebhookSubscription } from './entities/webhook-subscription.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { WebhookService } from './webhook.service';
+import { WebhookController } from './webhook.controller';
+import { ProcessingJob } from './entities/processing-job.entity';
+import { JobQueueService } from './job-queue.service';
+import { JobController } from './job.controller';
 
 @Module({
   imports: [
     ConfigModule,
-    TypeOrmModule.forFeature([FileMetadata]),
+    TypeOrmModule.forFeature([FileMetadata, FileVersion, UploadSession, StoredBlob, ApiKey, AuditEvent, LegalHold, ReconciliationReport, WebhookSubscription, WebhookDelivery, ProcessingJob]),
+  ],
+  controllers: [
+    StorageController,
+    UploadSessionController,
+    ApiKeyController,
+    AuditController,
+    RetentionController,
+    LegalHoldController,
+    ReconciliationController,
+    WebhookController,
+    JobController,
+  ],
+  providers: [
+    StorageService,
+    UploadSessionService,
+    BlobService,
+    ApiKeyGuard,
+    StorageDriverRegistry,
+    VirusScanService,
+    SignedUrlService,
+    ApiKeyService,
+    AuditService,
+    AuditInterceptor,
+    RetentionService,
+    LegalHoldService,
+    ReconciliationService,
+    ImageTransformService,
+    PdfService,
+    FileSearchService,
+    ArchiveService,
+    QuotaService,
+    UploadPolicyService,
+    WebhookService,
+    JobQueueService,
   ],
-  controllers: [StorageController],
-  providers: [StorageService, ApiKeyGuard],
   exports: [StorageService],
 })
 export class StorageModule {}
@@ -0,0 +1,429 @@
+import { BadRequestException, ConflictException, HttpException, HttpStatus, NotFoundException, PayloadTooLargeException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import sharp from 'sharp';
+import { FindOperator, Repository } from 'typeorm';
+import { StorageService } from './storage.service';
+import { BlobService, computeChecksum } from './blob.service';
+import { StorageDriverRegistry } from './drivers/storage-driver.registry';
+import { VirusScanService } from './scanners/virus-scan.service';
+import { LegalHoldService } from './legal-hold.service';
+import { PdfService } from './pdf.service';
+import { QuotaService } from './quota.service';
+import { UploadPolicyService } from './upload-policy.service';
+import { WebhookService } from './webhook.service';
+import { JobHandler, JobQueueService } from './job-queue.service';
+import { EICAR_TEST_STRING } from './scanners/noop.scanner';
+import { EntityType, FileCategory, FileMetadata, ProcessingStatus, ScanStatus } from './entities/file-metadata.entity';
+import { FileVersion } from './entities/file-version.entity';
+import { JobType, ProcessingJob } from './entities/processing-job.entity';
+
+// uuid solo se publica como ESM y Jest carga los módulos como CommonJS
+jest.mock('uuid', () => ({ v4: () => jest.requireActual<typeof import('crypto')>('crypto').randomUUID() }));
+
+type Row = { id: string } & Record<string, unknown>;
+
+/**
+ * Tabla en memoria con las operaciones de repositorio/EntityManager que usa StorageService.
+ * `defaults` imita los valores por defecto de las columnas (los asigna la BD al insertar).
+ */
+function createFakeTable<T extends Row>(entity: new () => T, defaults: () => Record<string, unknown>) {
+  const rows: T[] = [];
+  const matches = (row: T, where: Record<string, unknown>) =>
+    Object.entries(where).every(([key, value]) =>
+      value instanceof FindOperator && value.type === 'in'
+        ? (value.value as unknown[]).includes(row[key])
+        : row[key] === value,
+    );
+  const copy = (row: T) => Object.assign(new entity(), row);
+
+  return {
+    rows,
+    create: (data: Partial<T>) => Object.assign(new entity(), data),
+    save: (item: T) => {
+      item.id = item.id || crypto.randomUUID();
+      for (const [column, value] of Object.entries(defaults())) {
+        (item as Row)[column] = item[column] ?? value;
+      }
+      const index = rows.findIndex((row) => row.id === item.id);
+      rows.splice(index >= 0 ? index : rows.length, index >= 0 ? 1 : 0, copy(item));
+      return Promise.resolve(item);
+    },
+    findOne: ({ where }: { where: Record<string, unknown> }) => {
+      const row = rows.find((candidate) => matches(candidate, where));
+      return Promise.resolve(row ? copy(row) : null);
+    },
+    find: ({ where }: { where: Record<string, unknown> }) =>
+      Promise.resolve(
+        rows
+          .filter((row) => matches(row, where))
+          .map(copy)
+          .sort((a, b) => Number(b.versionNumber) - Number(a.versionNumber)),
+      ),
+    exists: ({ where }: { where: Record<string, unknown> }) =>
+      Promise.resolve(rows.some((row) => matches(row, where))),
+    update: (where: Record<string, unknown>, changes: Partial<T>) => {
+      const affected = rows.filter((row) => matches(row, where));
+      affected.forEach((row) => Object.assign(row, changes));
+      return Promise.resolve({ affected: affected.length });
+    },
+  };
+}
+
+/**
+ * BlobService en memoria: guarda los objetos en el driver local y lleva el conteo de referencias.
+ */
+function createFakeBlobService(storageDrivers: StorageDriverRegistry) {
+  const refCounts = new Map<string, number>();
+  const thumbnails = new Map<string, string>();
+  const driver = storageDrivers.getDefault();
+  const toBlob = (checksum: string) => ({
+    checksum,
+    path: `blobs/${checksum}`,
+    storageDriver: driver.name,
+    storageBucket: null,
+    thumbnailPath: thumbnails.get(checksum) ?? null,
+  });
+
+  const service = {
+    refCounts,
+    acquire: async (buffer: Buffer) => {
+      const checksum = computeChecksum(buffer);
+      const blob = toBlob(checksum);
+      await driver.put(blob.path, buffer);
+      refCounts.set(checksum, (refCounts.get(checksum) ?? 0) + 1);
+      return { blob, created: refCounts.get(checksum) === 1 };
+    },
+    retain: (checksum: string) => {
+      if (!refCounts.has(checksum)) {
+        return Promise.resolve(false);
+      }
+      refCounts.set(checksum, refCounts.get(checksum)! + 1);
+      return Promise.resolve(true);
+    },
+    release: (checksum: string) => {
+      const count = (refCounts.get(checksum) ?? 0) - 1;
+      if (count > 0) {
+        refCounts.set(checksum, count);
+      } else {
+        refCounts.delete(checksum);
+      }
+      return Promise.resolve(count <= 0);
+    },
+    findByChecksum: (checksum: string) => Promise.resolve(refCounts.has(checksum) ? toBlob(checksum) : null),
+    getDriverFor: () => driver,
+    setThumbnail: (checksum: string, thumbnailPath: string) => {
+      thumbnails.set(checksum, thumbnailPath);
+      return Promise.resolve();
+    },
+  };
+
+  return service;
+}
+
+function textFile(content: string, originalname = 'notes.txt'): Express.Multer.File {
+  const buffer = Buffer.from(content);
+  return { buffer, originalname, mimetype: 'text/plain', size: buffer.length } as Express.Multer.File;
+}
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk as Buffer));
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+describe('StorageService file versions', () => {
+  let uploadPath: string;
+  let service: StorageService;
+  let files: ReturnType<typeof createFakeTable<FileMetadata & Row>>;
+  let versions: ReturnType<typeof createFakeTable<FileVersion & Row>>;
+  let blobs: ReturnType<typeof createFakeBlobService>;
+  let heldFileIds: Set<string>;
+  let queuedJobs: ProcessingJob[];
+  let jobHandlers: Map<JobType, JobHandler>;
+
+  beforeEach(async () => {
+    uploadPath = await fs.mkdtemp(path.join(os.tmpdir(), 'fcg-versions-'));
+    const config = new ConfigService({ UPLOAD_PATH: uploadPath, VIRUS_SCANNER: 'none' });
+    const storageDrivers = new StorageDriverRegistry(config);
+
+    files = createFakeTable(FileMetadata as new () => FileMetadata & Row, () => ({
+      uploadedAt: new Date(),
+      currentVersion: 1,
+      active: true,
+    }));
+    versions = createFakeTable(FileVersion as new () => FileVersion & Row, () => ({ createdAt: new Date() }));
+    blobs = createFakeBlobService(storageDrivers);
+    heldFileIds = new Set();
+    const legalHolds = {
+      assertNotHeld: (file: FileMetadata) =>
+        heldFileIds.has(file.id)
+          ? Promise.reject(new HttpException('File is under legal hold', HttpStatus.LOCKED))
+          : Promise.resolve(),
+      isHeld: (file: FileMetadata) => Promise.resolve(heldFileIds.has(file.id)),
+    };
+
+    // Cola en memoria: los trabajos se ejecutan a mano con runQueuedJobs
+    queuedJobs = [];
+    jobHandlers = new Map();
+    const jobQueue = {
+      registerHandler: (type: JobType, handler: JobHandler) => jobHandlers.set(type, handler),
+      enqueue: (_manager: unknown, file: FileMetadata, types: JobType[]) => {
+        queuedJobs.push(...types.map((type) => Object.assign(new ProcessingJob(), { type, fileId: file.id, checksum: file.checksum })));
+        return Promise.resolve();
+      },
+      wake: () => undefined,
+    };
+
+    const tableFor = (entity: unknown) => (entity === FileVersion ? versions : files);
+    const manager = {
+      findOne: (entity: unknown, options: { where: Record<string, unknown> }) => tableFor(entity).findOne(options),
+      exists: (entity: unknown, options: { where: Record<string, unknown> }) => tableFor(entity).exists(options),
+      create: (entity: unknown, data: Record<string, unknown>) => tableFor(entity).create(data),
+      save: (item: FileMetadata | FileVersion) =>
+        item instanceof FileVersion ? versions.save(item as FileVersion & Row) : files.save(item as FileMetadata & Row),
+    };
+
+    service = new StorageService(
+      { ...files, manager: { transaction: (work: (m: typeof manager) => unknown) => work(manager) } } as unknown as Repository<FileMetadata>,
+      versions as unknown as Repository<FileVersion>,
+      config,
+      storageDrivers,
+      blobs as unknown as BlobService,
+      new VirusScanService(config),
+      legalHolds as unknown as LegalHoldService,
+      new PdfService(config),
+      new QuotaService(files as unknown as Repository<FileMetadata>, config),
+      new UploadPolicyService(config),
+      { publish: () => Promise.resolve() } as unknown as WebhookService,
+      jobQueue as unknown as JobQueueService,
+    );
+  });
+
+  async function runQueuedJobs() {
+    for (const job of queuedJobs.splice(0)) {
+      await jobHandlers.get(job.type)!(job);
+    }
+  }
+
+  afterEach(async () => {
+    await fs.rm(uploadPath, { recursive: true, force: true });
+  });
+
+  it('should keep the logical id and record the previous content as version 1', async () => {
+    const original = await service.uploadFile(textFile('first draft'), { category: FileCategory.DOCUMENT });
+    const { metadata, version } = await service.uploadVersion(original.id, textFile('second draft', 'v2.txt'), {
+      comment: 'typo fixes',
+    });
+
+    expect(metadata.id).toBe(original.id);
+    expect(metadata.currentVersion).toBe(2);
+    expect(metadata.originalFilename).toBe('v2.txt');
+    expect(version).toMatchObject({ versionNumber: 2, comment: 'typo fixes' });
+
+    const history = await service.listVersions(original.id);
+    expect(history.versions.map((v) => [v.versionNumber, v.originalFilename])).toEqual([
+      [2, 'v2.txt'],
+      [1, 'notes.txt'],
+    ]);
+    expect(history.versions[1].createdAt).toEqual(original.uploadedAt);
+  });
+
+  it('should serve any version and synthesize version 1 for files without history', async () => {
+    const original = await service.uploadFile(textFile('only version'), { category: FileCategory.OTHER });
+
+    const first = await service.openVersion(original.id, 1);
+    expect(await readAll(await first.source.open())).toBe('only version');
+    await expect(service.openVersion(original.id, 2)).rejects.toThrow(NotFoundException);
+
+    await service.uploadVersion(original.id, textFile('replacement'), {});
+    const old = await service.openVersion(original.id, 1);
+    expect(await readAll(await old.source.open())).toBe('only version');
+    expect(old.source.etag).toBe(`"${computeChecksum(Buffer.from('only version'))}"`);
+  });
+
+  it('should restore a version as a new current version holding its own blob reference', async () => {
+    const original = await service.uploadFile(textFile('v1 content'), { category: FileCategory.DOCUMENT });
+    await service.uploadVersion(original.id, textFile('v2 content'), {});
+    const v1Checksum = computeChecksum(Buffer.from('v1 content'));
+    expect(blobs.refCounts.get(v1Checksum)).toBe(1);
+
+    const { metadata, version } = await service.restoreVersion(original.id, 1, {});
+
+    expect(metadata.currentVersion).toBe(3);
+    expect(metadata.checksum).toBe(v1Checksum);
+    expect(version.comment).toBe('Restored from version 1');
+    expect(blobs.refCounts.get(v1Checksum)).toBe(2);
+    await expect(service.restoreVersion(original.id, 3, {})).rejects.toThrow(ConflictException);
+  });
+
+  it('should release the stored content when the file does not exist', async () => {
+    await expect(
+      service.uploadVersion(crypto.randomUUID(), textFile('orphan content'), {}),
+    ).rejects.toThrow(NotFoundException);
+
+    expect(blobs.refCounts.size).toBe(0);
+  });
+
+  it('should keep infected versions out of the blob store', async () => {
+    const original = await service.uploadFile(textFile('clean'), { category: FileCategory.DOCUMENT });
+    const { metadata } = await service.uploadVersion(original.id, textFile(EICAR_TEST_STRING), {});
+
+    expect(metadata.scanStatus).toBe(ScanStatus.INFECTED);
+    expect(metadata.path.startsWith('quarantine/')).toBe(true);
+    expect(blobs.refCounts.has(computeChecksum(Buffer.from(EICAR_TEST_STRING)))).toBe(false);
+    await expect(service.restoreVersion(original.id, 1, {})).resolves.toMatchObject({
+      metadata: { currentVersion: 3, scanStatus: ScanStatus.CLEAN },
+    });
+  });
+
+  it('should check new versions against the quotas of the file', async () => {
+    const original = await service.uploadFile(textFile('short'), { category: FileCategory.DOCUMENT, uploadedBy: crypto.randomUUID() });
+    const assertWithinQuota = jest
+      .spyOn(QuotaService.prototype, 'assertWithinQuota')
+      .mockRejectedValue(new PayloadTooLargeException('Storage quota exceeded'));
+
+    try {
+      await expect(service.uploadVersion(original.id, textFile('a much longer draft'), {})).rejects.toThrow(
+        PayloadTooLargeException,
+      );
+      expect(assertWithinQuota).toHaveBeenCalledWith(
+        expect.objectContaining({ id: original.id, uploadedBy: original.uploadedBy }),
+        'a much longer draft'.length,
+        'short'.length,
+      );
+      expect(blobs.refCounts.size).toBe(1);
+      expect(files.rows[0].currentVersion).toBe(1);
+    } finally {
+      assertWithinQuota.mockRestore();
+    }
+  });
+
+  it('should refuse deletes and new versions of held files without leaking content', async () => {
+    const original = await service.uploadFile(textFile('disputed'), { category: FileCategory.DOCUMENT });
+    await service.uploadVersion(original.id, textFile('amended'), {});
+    heldFileIds.add(original.id);
+
+    await expect(service.deleteFile(original.id)).rejects.toMatchObject({ status: HttpStatus.LOCKED });
+    await expect(service.uploadVersion(original.id, textFile('overwrite'), {})).rejects.toMatchObject({
+      status: HttpStatus.LOCKED,
+    });
+    await expect(service.restoreVersion(original.id, 1, {})).rejects.toMatchObject({ status: HttpStatus.LOCKED });
+
+    expect(files.rows[0]).toMatchObject({ active: true, currentVersion: 2 });
+    expect(blobs.refCounts.has(computeChecksum(Buffer.from('overwrite')))).toBe(false);
+    expect(blobs.refCounts.get(computeChecksum(Buffer.from('disputed')))).toBe(1);
+
+    heldFileIds.delete(original.id);
+    await expect(service.deleteFile(original.id)).resolves.toBeUndefined();
+  });
+
+  it('should store profile photos without EXIF data and record their safe fields', async () => {
+    const photo = await sharp({ create: { width: 40, height: 20, channels: 3, background: '#336699' } })
+      .jpeg()
+      .withMetadata({ orientation: 6 })
+      .withExif({ IFD3: { GPSLatitudeRef: 'S', GPSLatitude: '33/1 26/1 0/1' } })
+      .toBuffer();
+    const file = { buffer: photo, originalname: 'me.jpg', mimetype: 'image/jpeg', size: photo.length } as Express.Multer.File;
+
+    const saved = await service.uploadFile(file, { category: FileCategory.PROFILE, metadata: { source: 'app' } });
+
+    expect(saved.metadata).toEqual({
+      source: 'app',
+      image: { width: 20, height: 40, format: 'jpeg', orientation: 6, stripped: true },
+    });
+    const stored = await (await service.openFile(saved.id)).open();
+    const chunks: Buffer[] = [];
+    for await (const chunk of stored) {
+      chunks.push(Buffer.from(chunk as Buffer));
+    }
+    expect((await sharp(Buffer.concat(chunks)).metadata()).exif).toBeUndefined();
+    expect(saved.checksum).not.toBe(computeChecksum(photo));
+
+    await expect(service.uploadVersion(saved.id, textFile('not an image anymore'), {})).rejects.toThrow(
+      'File type text/plain is not allowed for PROFILE files',
+    );
+    const png = await sharp({ create: { width: 8, height: 8, channels: 3, background: '#000' } }).png().toBuffer();
+    const { metadata } = await service.uploadVersion(
+      saved.id,
+      { buffer: png, originalname: 'me.png', mimetype: 'image/png', size: png.length } as Express.Multer.File,
+      {},
+    );
+    expect(metadata.metadata).toMatchObject({ source: 'app', image: { width: 8, height: 8, format: 'png' } });
+  });
+
+  it('should generate thumbnails in the background for the content they were queued for', async () => {
+    const png = await sharp({ create: { width: 64, height: 48, channels: 3, background: '#993366' } }).png().toBuffer();
+    const image = { buffer: png, originalname: 'plan.png', mimetype: 'image/png', size: png.length } as Express.Multer.File;
+
+    const saved = await service.uploadFile(image, { category: FileCategory.ATTACHMENT });
+    expect(saved).toMatchObject({ processingStatus: ProcessingStatus.PENDING, thumbnailPath: null });
+    expect(queuedJobs).toMatchObject([{ type: JobType.THUMBNAIL, fileId: saved.id, checksum: saved.checksum }]);
+
+    // Una versión nueva llega antes de que corra el trabajo: la miniatura queda solo en la versión 1
+    const { metadata } = await service.uploadVersion(saved.id, textFile('plain notes'), {});
+    expect(metadata.processingStatus).toBe(ProcessingStatus.READY);
+    await runQueuedJobs();
+
+    const thumbnailPath = `thumbnails/thumb_${saved.checksum}.jpg`;
+    expect(versions.rows.find((version) => version.versionNumber === 1)?.thumbnailPath).toBe(thumbnailPath);
+    expect(files.rows[0].thumbnailPath).toBeNull();
+    const thumbnail = await fs.readFile(path.join(uploadPath, thumbnailPath));
+    expect(await sharp(thumbnail).metadata()).toMatchObject({ width: 300, height: 300, format: 'jpeg' });
+
+    // El mismo contenido reutiliza la miniatura del blob sin encolar otro trabajo
+    const copy = await service.uploadFile(image, { category: FileCategory.ATTACHMENT });
+    expect(copy).toMatchObject({ processingStatus: ProcessingStatus.READY, thumbnailPath });
+    expect(queuedJobs).toHaveLength(0);
+  });
+
+  it('should only count files deactivated by this run as removed orphans', async () => {
+    const deleted = await service.uploadFile(textFile('deleted earlier'), { category: FileCategory.DOCUMENT });
+    const active = await service.uploadFile(textFile('still active'), { category: FileCategory.DOCUMENT });
+    await service.uploadFile(textFile('still stored'), { category: FileCategory.DOCUMENT });
+    await service.deleteFile(deleted.id);
+    await fs.rm(path.join(uploadPath, deleted.path));
+    await fs.rm(path.join(uploadPath, active.path));
+
+    await expect(service.cleanupOrphanedFiles()).resolves.toEqual({ removed: 1, held: 0 });
+    expect(files.rows.filter((row) => row.active)).toHaveLength(1);
+  });
+
+  it('should report per-file results for batch uploads, deletes and lookups', async () => {
+    const executable = { ...textFile('MZ'), originalname: 'setup.exe', mimetype: 'application/x-msdownload' } as Express.Multer.File;
+    const entityId = crypto.randomUUID();
+
+    const uploads = await service.uploadFiles([textFile('first'), executable, textFile('second')], {
+      category: FileCategory.DOCUMENT,
+      entityType: EntityType.USER,
+      entityId,
+    });
+
+    expect(uploads.map((result) => result.success)).toEqual([true, false, true]);
+    expect(uploads[1]).toMatchObject({ statusCode: HttpStatus.BAD_REQUEST });
+    const [first, , second] = uploads.map((result) => (result.success ? result.value : null));
+
+    const missingId = crypto.randomUUID();
+    const lookup = await service.getFilesMetadata([first!.id, missingId, first!.id]);
+    expect(lookup).toMatchObject([
+      { id: first!.id, success: true, value: { id: first!.id } },
+      { id: missingId, success: false, statusCode: HttpStatus.NOT_FOUND, error: 'File not found' },
+    ]);
+
+    heldFileIds.add(second!.id);
+    const deletes = await service.deleteFiles({ entityType: EntityType.USER, entityId });
+    expect(deletes).toEqual([
+      { id: first!.id, success: true, value: undefined },
+      { id: second!.id, success: false, statusCode: HttpStatus.LOCKED, error: 'File is under legal hold' },
+    ]);
+    expect(files.rows.map((row) => row.active)).toEqual([false, true]);
+
+    await expect(service.deleteFiles({ ids: [second!.id], entityId })).rejects.toThrow(BadRequestException);
+  });
+});
@@ -1,116 +1,296 @@
-import { Injectable, BadRequestException, NotFoundException, InternalServerErrorException, Logger } from '@nestjs/common';
+import { Injectable, BadRequestException, NotFoundException, InternalServerErrorException, ConflictException, ForbiddenException, HttpException, HttpStatus, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { EntityManager, In, IsNull, MoreThan, Repository } from 'typeorm';
 import { ConfigService } from '@nestjs/config';
-import * as fs from 'fs/promises';
 import * as path from 'path';
 import sharp from 'sharp';
 import { v4 as uuidv4 } from 'uuid';
-import { FileMetadata, FileCategory, EntityType } from './entities/file-metadata.entity';
+import { FileMetadata, FileCategory, ProcessingStatus, ScanStatus } from './entities/file-metadata.entity';
+import { FileVersion } from './entities/file-version.entity';
 import { UploadFileDto } from './dto/upload-file.dto';
+import { UploadVersionDto } from './dto/upload-version.dto';
+import { FileSortField, ListFilesDto } from './dto/list-files.dto';
+import { BulkDeleteFilesDto } from './dto/batch-files.dto';
+import { StorageDriverRegistry } from './drivers/storage-driver.registry';
+import { BlobService, computeChecksum } from './blob.service';
+import { VirusScanService } from './scanners/virus-scan.service';
+import { LegalHoldService } from './legal-hold.service';
+import { PdfInfo, PdfService } from './pdf.service';
+import { QuotaService } from './quota.service';
+import { UploadPolicy, UploadPolicyService, UploadPolicyTarget } from './upload-policy.service';
+import { WebhookService } from './webhook.service';
+import { WebhookEvent } from './entities/webhook-subscription.entity';
+import { JobQueueService } from './job-queue.service';
+import { JobType, ProcessingJob } from './entities/processing-job.entity';
+import { type ApiKeyPrincipal, assertFileAccess } from './api-key.service';
+import { DetectedFileType, detectFileType, isDeclaredTypeConsistent, normalizeMimeType } from './utils/file-signature';
+import { sanitizeSvg, SvgSanitizationError } from './utils/svg-sanitizer';
+import { ImageInfo, ImageProcessingError, processImage, RASTER_IMAGE_TYPES } from './utils/image-metadata';
+import { CursorPosition, decodeCursor, encodeCursor, InvalidCursorError } from './utils/pagination-cursor';
+import { Readable } from 'stream';
+import { ByteRange, StorageDriver } from './drivers/storage-driver.interface';
 
-// MIME types seguros por defecto
-const DEFAULT_ALLOWED_MIME_TYPES = [
-  // Imágenes
-  'image/jpeg',
-  'image/png',
-  'image/gif',
-  'image/webp',
-  'image/svg+xml',
-  // Documentos
-  'application/pdf',
-  'application/msword',
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-  'application/vnd.ms-excel',
-  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-  'application/vnd.ms-powerpoint',
-  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-  // Texto
-  'text/plain',
-  'text/csv',
-  // Comprimidos (opcional, comentar si no se necesitan)
-  // 'application/zip',
-  // 'application/x-rar-compressed',
-];
+/** Registros revisados por lote en la limpieza de huérfanos */
+const CLEANUP_BATCH_SIZE = 500;
+
+/** Columna de cada campo de orden del listado y tipo con el que se compara el valor del cursor */
+const SORT_COLUMNS: Record<FileSortField, { property: string; cast: string }> = {
+  [FileSortField.UPLOADED_AT]: { property: 'file.uploadedAt', cast: 'timestamp' },
+  [FileSortField.SIZE]: { property: 'file.size', cast: 'bigint' },
+  [FileSortField.ORIGINAL_FILENAME]: { property: 'file.originalFilename', cast: 'varchar' },
+};
+
+/**
+ * Campos de contenido de una versión, compartidos por FileMetadata (versión vigente) y FileVersion.
+ */
+export type VersionContent = Pick<
+  FileMetadata,
+  | 'originalFilename'
+  | 'storedFilename'
+  | 'mimetype'
+  | 'detectedMimetype'
+  | 'size'
+  | 'checksum'
+  | 'path'
+  | 'storageDriver'
+  | 'storageBucket'
+  | 'thumbnailPath'
+  | 'scanStatus'
+  | 'scanDetail'
+  | 'scannedAt'
+>;
+
+/**
+ * Datos derivados del contenido vigente: se guardan en FileMetadata (metadata.image, metadata.pdf y extractedText).
+ */
+interface ContentDetails {
+  /** Campos seguros de una imagen rasterizada */
+  image: ImageInfo | null;
+  /** Número de páginas y versión de un PDF */
+  pdf: PdfInfo | null;
+  /** Texto extraído para búsqueda */
+  text: string | null;
+}
+
+const NO_CONTENT_DETAILS: ContentDetails = { image: null, pdf: null, text: null };
+
+/** Contenido guardado de una subida, con los datos derivados del contenido y los trabajos pendientes sobre él */
+type StoredContent = VersionContent & { details: ContentDetails; jobs: JobType[] };
+
+/**
+ * Indica si un tipo de contenido tiene miniatura (imágenes y primera página de los PDF).
+ * @param mimetype - Tipo MIME detectado
+ */
+export function supportsThumbnail(mimetype: string): boolean {
+  return mimetype.startsWith('image/') || mimetype === 'application/pdf';
+}
+
+/**
+ * Resultado de un elemento de una operación en lote: los fallos se informan sin abortar el resto del lote.
+ */
+export type BatchItemOutcome<T> =
+  | { success: true; value: T }
+  | { success: false; statusCode: number; error: string };
+
+/** Archivo con su historial de versiones (listado con includeVersions) */
+export type FileMetadataWithVersions = FileMetadata & { versions?: FileVersion[] };
+
+/**
+ * Objeto almacenado listo para ser servido por streaming.
+ * Incluye los validadores HTTP (ETag, Last-Modified) necesarios para peticiones condicionales.
+ */
+export interface StoredObjectSource {
+  /** Metadatos del archivo al que pertenece el objeto */
+  metadata: FileMetadata;
+  /** Tamaño en bytes del objeto */
+  size: number;
+  /** Tipo MIME con el que se sirve el objeto */
+  contentType: string;
+  /** Fecha de última modificación del contenido */
+  lastModified: Date;
+  /** ETag fuerte del contenido (incluye comillas) */
+  etag: string;
+  /** Abre un stream del objeto, completo o limitado a un rango */
+  open(range?: ByteRange): Promise<Readable>;
+}
 
 /**
  * Servicio de almacenamiento de archivos.
  * Gestiona la subida, descarga, listado y eliminación de archivos.
- * Genera miniaturas automáticas para imágenes usando Sharp.
+ * Genera miniaturas automáticas para imágenes usando Sharp, en segundo plano (ver JobQueueService).
  * @class StorageService
  */
 @Injectable()
 export class StorageService {
   private readonly logger = new Logger(StorageService.name);
-  /** Ruta base para almacenamiento de archivos */
-  private readonly uploadPath: string;
-  /** Tamaño máximo de archivo permitido en bytes */
-  private readonly maxFileSize: number;
-  /** Lista de tipos MIME permitidos */
-  private readonly allowedMimeTypes: string[];
   /** Ancho de miniaturas en píxeles */
   private readonly thumbnailWidth: number;
   /** Alto de miniaturas en píxeles */
   private readonly thumbnailHeight: number;
   /** Calidad de compresión JPEG para miniaturas (0-100) */
   private readonly thumbnailQuality: number;
+  /** Limpieza de metadatos EXIF/XMP/IPTC de imágenes por categoría */
+  private readonly stripImageMetadata = new Map<FileCategory, boolean>();
+  /** Limpieza de metadatos de imágenes sin categoría conocida */
+  private readonly stripImageMetadataByDefault: boolean;
 
   constructor(
     @InjectRepository(FileMetadata)
     private fileMetadataRepository: Repository<FileMetadata>,
+    @InjectRepository(FileVersion)
+    private fileVersionRepository: Repository<FileVersion>,
     private configService: ConfigService,
+    private storageDrivers: StorageDriverRegistry,
+    private blobService: BlobService,
+    private virusScanService: VirusScanService,
+    private legalHoldService: LegalHoldService,
+    private pdfService: PdfService,
+    private quotaService: QuotaService,
+    private uploadPolicyService: UploadPolicyService,
+    private webhookService: WebhookService,
+    private jobQueueService: JobQueueService,
   ) {
-    this.uploadPath = this.configService.get<string>('UPLOAD_PATH') || './uploads';
-    this.maxFileSize = parseInt(this.configService.get<string>('MAX_FILE_SIZE') || '10485760', 10);
-    
-    // Usar MIME types de config o los defaults seguros
-    const configMimeTypes = this.configService.get<string>('ALLOWED_MIME_TYPES');
-    this.allowedMimeTypes = configMimeTypes 
-      ? configMimeTypes.split(',').map(t => t.trim())
-      : DEFAULT_ALLOWED_MIME_TYPES;
-    
     this.thumbnailWidth = parseInt(this.configService.get<string>('THUMBNAIL_WIDTH') || '300', 10);
     this.thumbnailHeight = parseInt(this.configService.get<string>('THUMBNAIL_HEIGHT') || '300', 10);
     this.thumbnailQuality = parseInt(this.configService.get<string>('THUMBNAIL_QUALITY') || '80', 10);
-    
-    this.logger.log(`📁 Upload path: ${this.uploadPath}`);
-    this.logger.log(`📄 Max file size: ${this.maxFileSize} bytes`);
-    this.logger.log(`✅ Allowed MIME types: ${this.allowedMimeTypes.length} types`);
-    
-    this.ensureUploadDirectories();
+
+    this.stripImageMetadataByDefault = this.parseFlag('IMAGE_STRIP_METADATA_DEFAULT', true);
+    for (const category of Object.values(FileCategory)) {
+      this.stripImageMetadata.set(
+        category,
+        this.parseFlag(`IMAGE_STRIP_METADATA_${category}`, this.stripImageMetadataByDefault),
+      );
+    }
+
+    const stripping = [...this.stripImageMetadata].filter(([, strip]) => strip).map(([category]) => category);
+    this.logger.log(`🧽 Image metadata stripping: ${stripping.length > 0 ? stripping.join(', ') : 'disabled'}`);
+
+    this.jobQueueService.registerHandler(JobType.THUMBNAIL, (job) => this.runThumbnailJob(job));
   }
 
   /**
-   * Asegura que existan los directorios necesarios para almacenamiento.
-   * Crea subdirectorios para profiles, documents, forms, thumbnails y temp.
+   * Lee un valor booleano de configuración (true/false).
    * @private
    */
-  private async ensureUploadDirectories() {
-    const directories = [
-      this.uploadPath,
-      path.join(this.uploadPath, 'profiles'),
-      path.join(this.uploadPath, 'documents'),
-      path.join(this.uploadPath, 'forms'),
-      path.join(this.uploadPath, 'thumbnails'),
-      path.join(this.uploadPath, 'temp'),
-    ];
-
-    for (const dir of directories) {
-      try {
-        await fs.access(dir);
-      } catch {
-        await fs.mkdir(dir, { recursive: true });
+  private parseFlag(key: string, fallback: boolean): boolean {
+    const value = this.configService.get<string>(key);
+    if (value === undefined || value === '') {
+      return fallback;
+    }
+    if (value !== 'true' && value !== 'false') {
+      throw new Error(`Invalid ${key}: expected true or false`);
+    }
+    return value === 'true';
+  }
+
+  /**
+   * Valida tamaño y tipo MIME de un archivo a subir según la política de su categoría.
+   * Compartido por la subida simple y la subida reanudable por partes.
+   * @param size - Tamaño del archivo en bytes
+   * @param mimetype - Tipo MIME declarado
+   * @param target - Categoría y tipo de entidad del archivo
+   * @returns Política aplicada
+   * @throws BadRequestException si el archivo excede el tamaño o el tipo no está permitido
+   */
+  assertUploadAllowed(size: number, mimetype: string, target: UploadPolicyTarget): UploadPolicy {
+    const policy = this.uploadPolicyService.resolve(target);
+
+    // Validate file size
+    if (size > policy.maxFileSize) {
+      throw new BadRequestException(`File size exceeds maximum allowed size of ${policy.maxFileSize} bytes`);
+    }
+
+    // Validate MIME type
+    if (policy.allowedMimeTypes.length > 0 && !policy.allowedMimeTypes.includes(normalizeMimeType(mimetype))) {
+      throw new BadRequestException(`File type ${mimetype} is not allowed for ${target.category} files`);
+    }
+
+    return policy;
+  }
+
+  /**
+   * Eventos de webhook de un contenido recién guardado: subida, escaneo y, si la tiene, miniatura.
+   * @private
+   */
+  private contentEvents(metadata: FileMetadata): WebhookEvent[] {
+    const events = [WebhookEvent.FILE_UPLOADED, WebhookEvent.SCAN_COMPLETED];
+    if (metadata.thumbnailPath) {
+      events.push(WebhookEvent.THUMBNAIL_GENERATED);
+    }
+    return events;
+  }
+
+  /**
+   * Verifica que la política del archivo permita reemplazar su contenido.
+   * @throws ForbiddenException si la categoría no admite nuevas versiones
+   * @private
+   */
+  private assertOverwriteAllowed(metadata: FileMetadata): void {
+    if (!this.uploadPolicyService.resolve(metadata).allowOverwrite) {
+      throw new ForbiddenException(`${metadata.category} files cannot be overwritten`);
+    }
+  }
+
+  /**
+   * Detecta el tipo real del archivo por sus firmas (magic bytes) en lugar de confiar
+   * en el tipo MIME enviado por el cliente.
+   * @param file - Archivo de Express/Multer con buffer
+   * @returns Tipo detectado con su extensión normalizada
+   * @throws BadRequestException si el contenido no es reconocible o no coincide con el tipo declarado
+   */
+  inspectContent(file: Express.Multer.File): DetectedFileType {
+    const detected = detectFileType(file.buffer);
+    if (!detected) {
+      throw new BadRequestException('Unable to determine the file type from its content');
+    }
+
+    if (!isDeclaredTypeConsistent(file.mimetype, detected.mimetype)) {
+      this.logger.warn(`🚫 MIME mismatch for ${file.originalname}: declared ${file.mimetype}, detected ${detected.mimetype}`);
+      throw new BadRequestException(
+        `Declared file type ${file.mimetype} does not match its content (${detected.mimetype})`,
+      );
+    }
+
+    return detected;
+  }
+
+  /**
+   * Sanea un SVG subido para que pueda servirse inline de forma segura.
+   * @param file - Archivo SVG de Express/Multer
+   * @returns Contenido saneado
+   * @throws BadRequestException si el SVG está mal formado
+   */
+  private sanitizeSvgContent(file: Express.Multer.File): Buffer {
+    try {
+      const { content, removed } = sanitizeSvg(file.buffer);
+      if (removed.length > 0) {
+        this.logger.warn(`🧹 Sanitized SVG ${file.originalname}: removed ${[...new Set(removed)].join(', ')}`);
       }
+      return content;
+    } catch (error) {
+      if (error instanceof SvgSanitizationError) {
+        throw new BadRequestException(`Invalid SVG: ${error.message}`);
+      }
+      throw error;
     }
   }
 
   /**
    * Sube un archivo al sistema de almacenamiento.
-   * Valida tamaño y tipo MIME, genera nombre único, guarda archivo y crea thumbnail si es imagen.
+   * Valida tamaño y tipo MIME (declarado y detectado por contenido), calcula el SHA-256 y guarda el contenido como blob deduplicado
+   * (bytes idénticos se almacenan una sola vez) y crea thumbnail si es imagen.
+   * Según la categoría, las imágenes se guardan sin metadatos EXIF/XMP/IPTC y ya orientadas;
+   * sus campos seguros (dimensiones, formato, orientación original) quedan en `metadata.image`.
+   * Los PDF se validan (se rechazan los cifrados o mal formados): páginas y versión quedan en `metadata.pdf`
+   * y el texto extraído en `extractedText`.
+   * El contenido se analiza con el antivirus antes de guardarse: si está infectado
+   * se guarda en cuarentena y el archivo queda registrado pero no se sirve.
+   * Antes de procesarlo se verifican las cuotas del usuario, la entidad y la categoría (ver QuotaService).
    * @param file - Archivo de Express/Multer con buffer y metadata
    * @param dto - DTO con metadatos adicionales (categoría, entidad, etc.)
    * @returns Entidad FileMetadata con toda la información del archivo guardado
-   * @throws BadRequestException si el archivo excede el tamaño o tipo no permitido
+   * @throws BadRequestException si el archivo excede el tamaño o tipo no permitido, o si el PDF está cifrado o mal formado
+   * @throws PayloadTooLargeException si el archivo excede alguna cuota
    * @throws InternalServerErrorException si falla el guardado
    */
   async uploadFile(
@@ -119,67 +299,676 @@ export class StorageService {
   ): Promise<FileMetadata> {
     this.logger.log(`📤 Upload request: ${file.originalname} (${file.size} bytes, ${file.mimetype})`);
     this.logger.log(`📦 Category: ${dto.category}, Entity: ${dto.entityType}/${dto.entityId}`);
-    
-    // Validate file size
-    if (file.size > this.maxFileSize) {
-      throw new BadRequestException(`File size exceeds maximum allowed size of ${this.maxFileSize} bytes`);
-    }
-
-    // Validate MIME type
-    if (this.allowedMimeTypes.length > 0 && !this.allowedMimeTypes.includes(file.mimetype)) {
-      throw new BadRequestException(`File type ${file.mimetype} is not allowed`);
-    }
 
-    // Generate unique filename
-    const ext = path.extname(file.originalname);
-    const storedFilename = `${uuidv4()}${ext}`;
-    
-    // Determine subdirectory based on category
-    const subdir = this.getSubdirectoryByCategory(dto.category);
-    const relativePath = path.join(subdir, storedFilename);
-    const fullPath = path.join(this.uploadPath, relativePath);
+    await this.quotaService.assertWithinQuota(dto, file.size);
+    const { details, jobs, ...content } = await this.storeContent(file, dto);
 
     try {
-      // Save file to disk
-      await fs.writeFile(fullPath, file.buffer);
-
-      // Generate thumbnail for images
-      let thumbnailPath: string | undefined = undefined;
-      if (file.mimetype.startsWith('image/')) {
-        const thumb = await this.generateThumbnail(file.buffer, storedFilename);
-        thumbnailPath = thumb || undefined;
-      }
-
       // Save metadata to database
       const fileMetadata = this.fileMetadataRepository.create({
-        originalFilename: file.originalname,
-        storedFilename,
-        mimetype: file.mimetype,
-        size: file.size,
+        ...content,
         category: dto.category,
         entityType: dto.entityType,
         entityId: dto.entityId,
-        path: relativePath,
-        thumbnailPath: thumbnailPath || undefined,
         uploadedBy: dto.uploadedBy,
         description: dto.description,
-        metadata: dto.metadata,
+        metadata: this.withContentDetails(dto.metadata, details),
+        extractedText: details.text,
+        processingStatus: jobs.length > 0 ? ProcessingStatus.PENDING : ProcessingStatus.READY,
       });
 
-      const saved = await this.fileMetadataRepository.save(fileMetadata);
+      // Los trabajos se encolan junto con el archivo: no quedan trabajos sin archivo ni archivos sin sus trabajos
+      const saved = await this.fileMetadataRepository.manager.transaction(async (manager) => {
+        const inserted = await manager.save(fileMetadata);
+        await this.jobQueueService.enqueue(manager, inserted, jobs);
+        return inserted;
+      });
+      this.jobQueueService.wake();
+      if (saved.scanStatus === ScanStatus.INFECTED) {
+        this.logger.warn(`🔒 File ${saved.id} quarantined (${saved.scanDetail})`);
+      }
+      await this.webhookService.publish(this.contentEvents(saved), saved);
       return saved;
     } catch (error) {
       // Log the actual error for debugging
-      this.logger.error(`❌ Upload failed: ${error.message}`);
-      this.logger.error(`Stack trace: ${error.stack}`);
-      
-      // Cleanup file if database save fails
+      this.logger.error(`❌ Upload failed: ${(error as Error).message}`);
+      this.logger.error(`Stack trace: ${(error as Error).stack}`);
+
+      // Release blob reference (or quarantined object) if database save fails
+      await this.discardContent(content);
+
+      throw new InternalServerErrorException(`Failed to upload file: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Sube varios archivos con los mismos metadatos.
+   * Cada archivo pasa por las mismas validaciones que en uploadFile y se guarda por separado:
+   * el rechazo de uno no impide guardar los demás.
+   * @param files - Archivos de Express/Multer
+   * @param dto - Metadatos comunes a todos los archivos
+   * @returns Resultado de cada archivo, en el orden recibido
+   */
+  async uploadFiles(files: Express.Multer.File[], dto: UploadFileDto): Promise<BatchItemOutcome<FileMetadata>[]> {
+    const results: BatchItemOutcome<FileMetadata>[] = [];
+    // En serie: cada subida mantiene su contenido en memoria mientras se analiza
+    for (const file of files) {
+      results.push(await this.settle(() => this.uploadFile(file, dto)));
+    }
+
+    const failed = results.filter((result) => !result.success).length;
+    this.logger.log(`📦 Batch upload: ${files.length - failed}/${files.length} files stored`);
+    return results;
+  }
+
+  /**
+   * Sube una nueva versión de un archivo existente. El ID lógico, la categoría y la entidad
+   * asociada se conservan; el contenido pasa por las mismas validaciones que una subida nueva.
+   * @param id - UUID del archivo
+   * @param file - Archivo de Express/Multer con buffer y metadata
+   * @param dto - Usuario que sube la versión y comentario
+   * @returns Metadatos actualizados y la versión creada
+   * @throws NotFoundException si el archivo no existe
+   * @throws BadRequestException si el archivo excede el tamaño o tipo no permitido
+   * @throws ForbiddenException si la política de la categoría no permite reemplazar archivos
+   * @throws PayloadTooLargeException si el contenido nuevo excede alguna cuota del archivo
+   * @throws HttpException 423 si el archivo está bajo retención legal
+   */
+  async uploadVersion(
+    id: string,
+    file: Express.Multer.File,
+    dto: UploadVersionDto,
+  ): Promise<{ metadata: FileMetadata; version: FileVersion }> {
+    this.logger.log(`📤 Version upload for ${id}: ${file.originalname} (${file.size} bytes, ${file.mimetype})`);
+
+    // La categoría define la política de subida; appendVersion vuelve a validar la existencia con lock
+    const current = await this.getFileMetadata(id);
+    this.assertOverwriteAllowed(current);
+    await this.quotaService.assertWithinQuota(current, file.size, Number(current.size));
+    const { details, jobs, ...content } = await this.storeContent(file, current);
+
+    try {
+      const result = await this.fileMetadataRepository.manager.transaction((manager) =>
+        this.appendVersion(manager, id, content, { uploadedBy: dto.uploadedBy, comment: dto.comment, contentDetails: details, jobs }),
+      );
+      this.jobQueueService.wake();
+      this.logger.log(`🆕 File ${id} is now at version ${result.version.versionNumber}`);
+      await this.webhookService.publish(this.contentEvents(result.metadata), result.metadata, {
+        version: result.version.versionNumber,
+      });
+      return result;
+    } catch (error) {
+      await this.discardContent(content);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      this.logger.error(`❌ Version upload failed: ${(error as Error).message}`);
+      throw new InternalServerErrorException(`Failed to upload version: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Lista las versiones de un archivo, de la más reciente a la más antigua.
+   * @param id - UUID del archivo
+   * @returns Metadatos del archivo y sus versiones
+   * @throws NotFoundException si el archivo no existe
+   */
+  async listVersions(id: string): Promise<{ metadata: FileMetadata; versions: FileVersion[] }> {
+    const metadata = await this.getFileMetadata(id);
+    const versions = await this.fileVersionRepository.find({
+      where: { fileId: id },
+      order: { versionNumber: 'DESC' },
+    });
+
+    return { metadata, versions: versions.length > 0 ? versions : [this.buildInitialVersion(metadata)] };
+  }
+
+  /**
+   * Prepara una versión concreta de un archivo para ser servida por streaming.
+   * @param id - UUID del archivo
+   * @param versionNumber - Número de versión
+   * @returns Versión y fuente del objeto
+   * @throws NotFoundException si el archivo o la versión no existen
+   */
+  async openVersion(id: string, versionNumber: number): Promise<{ version: FileVersion; source: StoredObjectSource }> {
+    const metadata = await this.getFileMetadata(id);
+    const version = await this.findVersion(metadata, versionNumber);
+
+    this.assertServable(version);
+
+    const driver = this.getDriverFor(version);
+    if (!(await driver.exists(version.path))) {
+      throw new NotFoundException('Version not found in storage');
+    }
+
+    return {
+      version,
+      source: {
+        metadata,
+        size: Number(version.size),
+        contentType: version.mimetype,
+        lastModified: version.createdAt,
+        etag: version.checksum
+          ? `"${version.checksum}"`
+          : `"${metadata.id}-v${version.versionNumber}"`,
+        open: (range) => driver.stream(version.path, range),
+      },
+    };
+  }
+
+  /**
+   * Restaura una versión anterior creando una nueva versión con su contenido.
+   * El historial no se reescribe: la versión restaurada y las posteriores se conservan.
+   * @param id - UUID del archivo
+   * @param versionNumber - Número de la versión a restaurar
+   * @param dto - Usuario que restaura y comentario (default: "Restored from version N")
+   * @returns Metadatos actualizados y la versión creada
+   * @throws NotFoundException si el archivo, la versión o su contenido no existen
+   * @throws ConflictException si la versión ya es la vigente
+   * @throws ForbiddenException si la versión está en cuarentena o la política de la categoría no permite reemplazar archivos
+   * @throws PayloadTooLargeException si el contenido restaurado excede alguna cuota del archivo
+   * @throws HttpException 423 si el archivo está bajo retención legal
+   */
+  async restoreVersion(
+    id: string,
+    versionNumber: number,
+    dto: UploadVersionDto,
+  ): Promise<{ metadata: FileMetadata; version: FileVersion }> {
+    const result = await this.fileMetadataRepository.manager.transaction(async (manager) => {
+      const metadata = await this.lockFileMetadata(manager, id);
+      this.assertOverwriteAllowed(metadata);
+      if (versionNumber === metadata.currentVersion) {
+        throw new ConflictException(`Version ${versionNumber} is already the current version`);
+      }
+
+      const target = await manager.findOne(FileVersion, { where: { fileId: id, versionNumber } });
+      if (!target) {
+        throw new NotFoundException('Version not found');
+      }
+
+      this.assertServable(target);
+      await this.quotaService.assertWithinQuota(metadata, Number(target.size), Number(metadata.size));
+      const details = await this.describeStoredContent(target);
+
+      // La nueva versión necesita su propia referencia al blob de la restaurada
+      if (!target.checksum || !(await this.blobService.retain(target.checksum))) {
+        throw new NotFoundException('Version content not found in storage');
+      }
+
       try {
-        await fs.unlink(fullPath);
-      } catch {}
-      
-      throw new InternalServerErrorException(`Failed to upload file: ${error.message}`);
+        return await this.appendVersion(manager, id, this.pickVersionContent(target), {
+          uploadedBy: dto.uploadedBy,
+          comment: dto.comment ?? `Restored from version ${versionNumber}`,
+          contentDetails: details,
+        });
+      } catch (error) {
+        await this.blobService.release(target.checksum).catch(() => undefined);
+        throw error;
+      }
+    });
+
+    this.logger.log(`⏪ File ${id} restored from version ${versionNumber} as version ${result.version.versionNumber}`);
+    return result;
+  }
+
+  /**
+   * Valida, analiza y guarda el contenido de una subida.
+   * El contenido limpio se guarda como blob deduplicado; su miniatura, si el blob aún no la tiene,
+   * queda como trabajo a encolar. El infectado se guarda en cuarentena, fuera del almacén de blobs.
+   * Las imágenes limpias se procesan antes del hash: el blob guardado es el contenido sin metadatos.
+   * @param file - Archivo de Express/Multer con buffer y metadata
+   * @param target - Categoría y tipo de entidad del archivo (definen la política de subida y si se limpian los metadatos de imágenes)
+   * @returns Campos de contenido para FileMetadata/FileVersion (con una referencia al blob), datos derivados del contenido
+   * y trabajos a encolar
+   * @throws BadRequestException si el archivo excede el tamaño, el tipo no está permitido, el contenido no coincide
+   * o el PDF está cifrado o mal formado
+   * @private
+   */
+  private async storeContent(file: Express.Multer.File, target: UploadPolicyTarget): Promise<StoredContent> {
+    const policy = this.assertUploadAllowed(file.size, file.mimetype, target);
+    const detected = this.inspectContent(file);
+    const mimetype = normalizeMimeType(file.mimetype);
+    // SVG se sanea antes de calcular el hash: el blob guardado es siempre el contenido limpio
+    const sanitized = detected.mimetype === 'image/svg+xml' ? this.sanitizeSvgContent(file) : file.buffer;
+
+    // Generate unique filename (extension derived from the detected type)
+    const storedFilename = `${uuidv4()}${detected.extension}`;
+
+    // Scan before the content becomes reachable through the blob store (and before re-encoding images)
+    const scan = await this.virusScanService.scan(sanitized, file.originalname);
+    const base = {
+      originalFilename: file.originalname,
+      storedFilename,
+      mimetype,
+      detectedMimetype: detected.mimetype,
+      scanStatus: scan.status,
+      scanDetail: scan.detail ?? null,
+      scannedAt: new Date(),
+    };
+
+    if (scan.status === ScanStatus.INFECTED) {
+      return {
+        ...base,
+        size: sanitized.length,
+        details: NO_CONTENT_DETAILS,
+        jobs: [],
+        ...(await this.quarantineContent(sanitized, storedFilename)),
+      };
+    }
+
+    const { content, details } = await this.analyzeContent(file, sanitized, detected.mimetype, target.category, policy);
+
+    // Store content once per SHA-256 (deduplicated blob)
+    const { blob } = await this.blobService.acquire(content, mimetype);
+
+    // Thumbnails for clean images are generated once per blob, in the background, if the category's policy wants one
+    const wantsThumbnail = policy.thumbnails && scan.status === ScanStatus.CLEAN && supportsThumbnail(detected.mimetype);
+    const thumbnailPath = wantsThumbnail ? blob.thumbnailPath || null : null;
+
+    return {
+      ...base,
+      size: content.length,
+      details,
+      jobs: wantsThumbnail && !thumbnailPath ? [JobType.THUMBNAIL] : [],
+      checksum: blob.checksum,
+      path: blob.path,
+      storageDriver: blob.storageDriver,
+      storageBucket: blob.storageBucket ?? null,
+      thumbnailPath,
+    };
+  }
+
+  /**
+   * Obtiene los datos derivados de un contenido limpio: procesa las imágenes y valida y analiza los PDF.
+   * @returns Contenido a guardar (la imagen sin metadatos si corresponde) y sus datos derivados
+   * @throws BadRequestException si la imagen no se puede limpiar o excede las dimensiones de la política,
+   * o el PDF está cifrado o mal formado
+   * @private
+   */
+  private async analyzeContent(
+    file: Express.Multer.File,
+    buffer: Buffer,
+    mimetype: string,
+    category: FileCategory,
+    policy: UploadPolicy,
+  ): Promise<{ content: Buffer; details: ContentDetails }> {
+    if (RASTER_IMAGE_TYPES.has(mimetype)) {
+      const { content, image } = await this.processImageContent(file, buffer, mimetype, category);
+      this.assertImageDimensions(image, category, policy);
+      return { content, details: { ...NO_CONTENT_DETAILS, image } };
+    }
+
+    if (mimetype === 'application/pdf') {
+      const { info, text } = await this.pdfService.analyze(buffer);
+      this.logger.log(`📄 PDF ${file.originalname}: ${info.pageCount} pages, version ${info.version ?? 'unknown'}`);
+      return { content: buffer, details: { ...NO_CONTENT_DETAILS, pdf: info, text } };
+    }
+
+    return { content: buffer, details: NO_CONTENT_DETAILS };
+  }
+
+  /**
+   * Verifica que una imagen no exceda las dimensiones máximas de la política (ya orientada).
+   * @throws BadRequestException si la excede, o si hay límite y no se pudieron leer sus dimensiones
+   * @private
+   */
+  private assertImageDimensions(image: ImageInfo | null, category: FileCategory, policy: UploadPolicy): void {
+    const { maxImageWidth, maxImageHeight } = policy;
+    if (maxImageWidth === null && maxImageHeight === null) {
+      return;
+    }
+    if (!image) {
+      throw new BadRequestException('Invalid image: unable to read its dimensions');
+    }
+    if ((maxImageWidth !== null && image.width > maxImageWidth) || (maxImageHeight !== null && image.height > maxImageHeight)) {
+      throw new BadRequestException(
+        `Image dimensions ${image.width}x${image.height} exceed the maximum of ${maxImageWidth ?? '∞'}x${maxImageHeight ?? '∞'} for ${category} files`,
+      );
+    }
+  }
+
+  /**
+   * Obtiene los datos derivados de un contenido ya guardado (ej: al restaurar una versión).
+   * Si el contenido no puede leerse o analizarse, la versión queda sin datos derivados.
+   * @private
+   */
+  private async describeStoredContent(content: VersionContent): Promise<ContentDetails> {
+    const mimetype = content.detectedMimetype || content.mimetype;
+    if (!RASTER_IMAGE_TYPES.has(mimetype) && mimetype !== 'application/pdf') {
+      return NO_CONTENT_DETAILS;
+    }
+
+    try {
+      const buffer = await this.getDriverFor(content).get(content.path);
+      if (mimetype === 'application/pdf') {
+        const { info, text } = await this.pdfService.analyze(buffer);
+        return { ...NO_CONTENT_DETAILS, pdf: info, text };
+      }
+      const { info } = await processImage(buffer, mimetype, { strip: false });
+      return { ...NO_CONTENT_DETAILS, image: info };
+    } catch (error) {
+      this.logger.warn(`⚠️ Unable to analyze stored content ${content.path}: ${(error as Error).message}`);
+      return NO_CONTENT_DETAILS;
+    }
+  }
+
+  /**
+   * Limpia los metadatos de una imagen si su categoría lo exige y extrae sus campos seguros.
+   * Si no se limpia, una imagen que no se puede decodificar se guarda igual, sin campos.
+   * @throws BadRequestException si la imagen debe limpiarse y no se puede decodificar
+   * @private
+   */
+  private async processImageContent(
+    file: Express.Multer.File,
+    buffer: Buffer,
+    mimetype: string,
+    category: FileCategory,
+  ): Promise<{ content: Buffer; image: ImageInfo | null }> {
+    const strip = this.stripImageMetadata.get(category) ?? this.stripImageMetadataByDefault;
+    try {
+      const { content, info } = await processImage(buffer, mimetype, { strip });
+      if (info.stripped) {
+        this.logger.log(`🧽 Stripped image metadata from ${file.originalname} (orientation ${info.orientation ?? 1})`);
+      }
+      return { content, image: info };
+    } catch (error) {
+      if (!(error instanceof ImageProcessingError)) {
+        throw error;
+      }
+      if (strip) {
+        throw new BadRequestException(`Invalid image: ${error.message}`);
+      }
+      this.logger.warn(`⚠️ Unable to read image metadata of ${file.originalname}: ${error.message}`);
+      return { content: buffer, image: null };
+    }
+  }
+
+  /**
+   * Guarda los campos de imagen y PDF en `metadata.image` y `metadata.pdf` (o los quita si el contenido no los tiene).
+   * @private
+   */
+  private withContentDetails(
+    metadata: Record<string, any> | undefined | null,
+    details: ContentDetails,
+  ): Record<string, any> | undefined {
+    const result: Record<string, any> = { ...(metadata ?? {}) };
+    for (const key of ['image', 'pdf'] as const) {
+      if (details[key]) {
+        result[key] = details[key];
+      } else {
+        delete result[key];
+      }
+    }
+    return metadata || Object.keys(result).length > 0 ? result : undefined;
+  }
+
+  /**
+   * Guarda un contenido infectado en cuarentena.
+   * El contenido no entra al almacén de blobs (no se deduplica ni genera miniatura).
+   * @private
+   */
+  private async quarantineContent(
+    content: Buffer,
+    storedFilename: string,
+  ): Promise<Pick<VersionContent, 'checksum' | 'path' | 'storageDriver' | 'storageBucket' | 'thumbnailPath'>> {
+    const driver = this.storageDrivers.getDefault();
+    const quarantinePath = path.posix.join('quarantine', storedFilename);
+
+    try {
+      await driver.put(quarantinePath, content, { contentType: 'application/octet-stream' });
+    } catch (error) {
+      this.logger.error(`❌ Quarantine failed: ${(error as Error).message}`);
+      throw new InternalServerErrorException(`Failed to upload file: ${(error as Error).message}`);
+    }
+
+    return {
+      checksum: computeChecksum(content),
+      path: quarantinePath,
+      storageDriver: driver.name,
+      storageBucket: driver.bucket ?? null,
+      thumbnailPath: null,
+    };
+  }
+
+  /**
+   * Libera el contenido guardado por storeContent cuando no llega a registrarse.
+   * @private
+   */
+  private async discardContent(content: VersionContent): Promise<void> {
+    if (this.isQuarantined(content)) {
+      await this.getDriverFor(content).delete(content.path).catch(() => undefined);
+    } else {
+      await this.blobService.release(content.checksum).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Registra una nueva versión como vigente dentro de una transacción.
+   * Si el archivo aún no tiene filas de versión, primero registra su versión 1 a partir
+   * de FileMetadata, que le traspasa su referencia al blob.
+   * @param manager - EntityManager de la transacción
+   * @param id - UUID del archivo
+   * @param content - Campos de contenido de la versión (ya con su referencia al blob)
+   * @param details - Usuario y comentario de la versión, y trabajos a encolar sobre su contenido
+   * @private
+   */
+  private async appendVersion(
+    manager: EntityManager,
+    id: string,
+    content: VersionContent,
+    details: { uploadedBy?: string; comment?: string; contentDetails: ContentDetails; jobs?: JobType[] },
+  ): Promise<{ metadata: FileMetadata; version: FileVersion }> {
+    const metadata = await this.lockFileMetadata(manager, id);
+    await this.legalHoldService.assertNotHeld(metadata, 'overwritten with a new version');
+
+    const hasHistory = await manager.exists(FileVersion, { where: { fileId: id } });
+    if (!hasHistory) {
+      await manager.save(this.buildInitialVersion(metadata));
+    }
+
+    const version = await manager.save(
+      manager.create(FileVersion, {
+        ...content,
+        fileId: id,
+        versionNumber: metadata.currentVersion + 1,
+        uploadedBy: details.uploadedBy ?? null,
+        comment: details.comment ?? null,
+      }),
+    );
+
+    Object.assign(metadata, content);
+    metadata.currentVersion = version.versionNumber;
+    // Los datos derivados describen siempre el contenido vigente
+    metadata.metadata = this.withContentDetails(metadata.metadata, details.contentDetails) ?? metadata.metadata;
+    metadata.extractedText = details.contentDetails.text;
+    const jobs = details.jobs ?? [];
+    metadata.processingStatus = jobs.length > 0 ? ProcessingStatus.PENDING : ProcessingStatus.READY;
+    const saved = await manager.save(metadata);
+    await this.jobQueueService.enqueue(manager, saved, jobs);
+    return { metadata: saved, version };
+  }
+
+  /**
+   * Obtiene un archivo activo con lock de escritura (serializa la numeración de versiones).
+   * @private
+   */
+  private async lockFileMetadata(manager: EntityManager, id: string): Promise<FileMetadata> {
+    const metadata = await manager.findOne(FileMetadata, {
+      where: { id, active: true },
+      lock: { mode: 'pessimistic_write' },
+    });
+
+    if (!metadata) {
+      throw new NotFoundException('File not found');
+    }
+    return metadata;
+  }
+
+  /**
+   * Busca una versión de un archivo; la versión 1 de un archivo sin revisiones se toma de sus metadatos.
+   * @private
+   */
+  private async findVersion(metadata: FileMetadata, versionNumber: number): Promise<FileVersion> {
+    const version = await this.fileVersionRepository.findOne({
+      where: { fileId: metadata.id, versionNumber },
+    });
+    if (version) {
+      return version;
+    }
+
+    if (versionNumber === 1 && metadata.currentVersion === 1) {
+      return this.buildInitialVersion(metadata);
     }
+    throw new NotFoundException('Version not found');
+  }
+
+  /**
+   * Construye (sin guardar) la versión 1 de un archivo sin revisiones a partir de sus metadatos.
+   * @private
+   */
+  private buildInitialVersion(metadata: FileMetadata): FileVersion {
+    return this.fileVersionRepository.create({
+      ...this.pickVersionContent(metadata),
+      fileId: metadata.id,
+      versionNumber: 1,
+      uploadedBy: metadata.uploadedBy ?? null,
+      comment: null,
+      createdAt: metadata.uploadedAt,
+    });
+  }
+
+  /**
+   * Copia los campos de contenido de una versión o de FileMetadata.
+   * @private
+   */
+  private pickVersionContent(source: VersionContent): VersionContent {
+    return {
+      originalFilename: source.originalFilename,
+      storedFilename: source.storedFilename,
+      mimetype: source.mimetype,
+      detectedMimetype: source.detectedMimetype,
+      size: source.size,
+      checksum: source.checksum,
+      path: source.path,
+      storageDriver: source.storageDriver,
+      storageBucket: source.storageBucket,
+      thumbnailPath: source.thumbnailPath,
+      scanStatus: source.scanStatus,
+      scanDetail: source.scanDetail,
+      scannedAt: source.scannedAt,
+    };
+  }
+
+  /**
+   * Indica si un contenido está en cuarentena (fuera del almacén de blobs).
+   * @private
+   */
+  private isQuarantined(content: Pick<VersionContent, 'path'>): boolean {
+    return content.path.startsWith('quarantine/');
+  }
+
+  /**
+   * Vuelve a analizar el contenido de un archivo (ej: tras un error del scanner o con firmas nuevas).
+   * Si resulta infectado se mueve a cuarentena; si un archivo en cuarentena resulta limpio
+   * se reincorpora al almacén de blobs.
+   * @param id - UUID del archivo
+   * @returns Metadatos actualizados
+   * @throws NotFoundException si el archivo no existe en BD o en el almacenamiento
+   */
+  async rescanFile(id: string): Promise<FileMetadata> {
+    const metadata = await this.fileMetadataRepository.findOne({
+      where: { id, active: true },
+    });
+
+    if (!metadata) {
+      throw new NotFoundException('File not found');
+    }
+
+    let content: Buffer;
+    try {
+      content = await this.getDriverFor(metadata).get(metadata.path);
+    } catch {
+      throw new NotFoundException('File not found in storage');
+    }
+
+    const scan = await this.virusScanService.scan(content, `${metadata.originalFilename} (${metadata.id})`);
+    const quarantined = this.isQuarantined(metadata);
+
+    if (scan.status === ScanStatus.INFECTED && !quarantined) {
+      await this.moveToQuarantine(metadata, content);
+    } else if (scan.status === ScanStatus.CLEAN && quarantined) {
+      await this.releaseFromQuarantine(metadata, content);
+    }
+
+    metadata.scanStatus = scan.status;
+    metadata.scanDetail = scan.detail ?? null;
+    metadata.scannedAt = new Date();
+    const saved = await this.fileMetadataRepository.save(metadata);
+
+    // La fila de la versión vigente (si hay historial) es dueña de la referencia: se mantiene igual
+    await this.fileVersionRepository.update(
+      { fileId: saved.id, versionNumber: saved.currentVersion },
+      this.pickVersionContent(saved),
+    );
+
+    const released = quarantined && scan.status === ScanStatus.CLEAN && saved.thumbnailPath;
+    await this.webhookService.publish(
+      released ? [WebhookEvent.SCAN_COMPLETED, WebhookEvent.THUMBNAIL_GENERATED] : [WebhookEvent.SCAN_COMPLETED],
+      saved,
+    );
+    return saved;
+  }
+
+  /**
+   * Mueve el contenido de un archivo a cuarentena y libera su referencia al blob.
+   * @private
+   */
+  private async moveToQuarantine(metadata: FileMetadata, content: Buffer): Promise<void> {
+    const driver = this.storageDrivers.getDefault();
+    const quarantinePath = path.posix.join('quarantine', metadata.storedFilename);
+    await driver.put(quarantinePath, content, { contentType: 'application/octet-stream' });
+
+    if (metadata.checksum) {
+      await this.blobService.release(metadata.checksum);
+    }
+
+    metadata.path = quarantinePath;
+    metadata.storageDriver = driver.name;
+    metadata.storageBucket = driver.bucket;
+    metadata.thumbnailPath = null;
+    this.logger.warn(`🔒 File ${metadata.id} moved to quarantine`);
+  }
+
+  /**
+   * Reincorpora al almacén de blobs un archivo en cuarentena que resultó limpio (falso positivo).
+   * @private
+   */
+  private async releaseFromQuarantine(metadata: FileMetadata, content: Buffer): Promise<void> {
+    const quarantineDriver = this.getDriverFor(metadata);
+    const quarantinePath = metadata.path;
+    const { blob } = await this.blobService.acquire(content, metadata.mimetype);
+
+    let thumbnailPath: string | undefined = blob.thumbnailPath || undefined;
+    if (!thumbnailPath && metadata.detectedMimetype && supportsThumbnail(metadata.detectedMimetype)) {
+      const thumb = await this.generateThumbnail(
+        content,
+        metadata.detectedMimetype,
+        blob.checksum,
+        this.blobService.getDriverFor(blob),
+      );
+      if (thumb) {
+        await this.blobService.setThumbnail(blob.checksum, thumb);
+        thumbnailPath = thumb;
+      }
+    }
+
+    metadata.checksum = blob.checksum;
+    metadata.path = blob.path;
+    metadata.storageDriver = blob.storageDriver;
+    metadata.storageBucket = blob.storageBucket;
+    metadata.thumbnailPath = thumbnailPath ?? null;
+    await quarantineDriver.delete(quarantinePath);
+    this.logger.log(`🔓 File ${metadata.id} released from quarantine`);
   }
 
   /**
@@ -198,13 +987,13 @@ export class StorageService {
       throw new NotFoundException('File not found');
     }
 
-    const fullPath = path.join(this.uploadPath, metadata.path);
-    
+    this.assertServable(metadata);
+
     try {
-      const buffer = await fs.readFile(fullPath);
+      const buffer = await this.getDriverFor(metadata).get(metadata.path);
       return { metadata, buffer };
     } catch {
-      throw new NotFoundException('File not found on disk');
+      throw new NotFoundException('File not found in storage');
     }
   }
 
@@ -223,21 +1012,94 @@ export class StorageService {
       throw new NotFoundException('Thumbnail not found');
     }
 
-    const fullPath = path.join(this.uploadPath, metadata.thumbnailPath);
-    
+    this.assertServable(metadata);
+
     try {
-      const buffer = await fs.readFile(fullPath);
+      const buffer = await this.getDriverFor(metadata).get(metadata.thumbnailPath);
       return { metadata, buffer };
     } catch {
-      throw new NotFoundException('Thumbnail not found on disk');
+      throw new NotFoundException('Thumbnail not found in storage');
     }
   }
 
+  /**
+   * Prepara un archivo para ser servido por streaming, sin cargarlo en memoria.
+   * @param id - UUID del archivo
+   * @returns Fuente del objeto con tamaño, validadores y apertura de stream
+   * @throws NotFoundException si el archivo no existe en BD o en el almacenamiento
+   */
+  async openFile(id: string): Promise<StoredObjectSource> {
+    const metadata = await this.fileMetadataRepository.findOne({
+      where: { id, active: true },
+    });
+
+    if (!metadata) {
+      throw new NotFoundException('File not found');
+    }
+
+    this.assertServable(metadata);
+
+    const driver = this.getDriverFor(metadata);
+    if (!(await driver.exists(metadata.path))) {
+      throw new NotFoundException('File not found in storage');
+    }
+
+    return {
+      metadata,
+      size: Number(metadata.size),
+      contentType: metadata.mimetype,
+      lastModified: metadata.uploadedAt,
+      // El contenido es inmutable: el SHA-256 es un validador fuerte exacto
+      etag: metadata.checksum
+        ? `"${metadata.checksum}"`
+        : `"${metadata.id}-${metadata.uploadedAt.getTime().toString(16)}"`,
+      open: (range) => driver.stream(metadata.path, range),
+    };
+  }
+
+  /**
+   * Prepara la miniatura de un archivo para ser servida por streaming.
+   * @param id - UUID del archivo original
+   * @returns Fuente del objeto de la miniatura
+   * @throws NotFoundException si no existe miniatura para el archivo
+   */
+  async openThumbnail(id: string): Promise<StoredObjectSource> {
+    const metadata = await this.fileMetadataRepository.findOne({
+      where: { id, active: true },
+    });
+
+    if (!metadata || !metadata.thumbnailPath) {
+      throw new NotFoundException('Thumbnail not found');
+    }
+
+    this.assertServable(metadata);
+
+    const driver = this.getDriverFor(metadata);
+    const thumbnailPath = metadata.thumbnailPath;
+    let stat: { size: number; lastModified: Date };
+    try {
+      stat = await driver.stat(thumbnailPath);
+    } catch {
+      throw new NotFoundException('Thumbnail not found in storage');
+    }
+
+    return {
+      metadata,
+      size: stat.size,
+      contentType: thumbnailPath.endsWith('.png') ? 'image/png' : 'image/jpeg',
+      lastModified: stat.lastModified,
+      etag: `"thumb-${metadata.id}-${stat.lastModified.getTime().toString(16)}"`,
+      open: (range) => driver.stream(thumbnailPath, range),
+    };
+  }
+
   /**
    * Elimina un archivo (soft delete).
-   * Marca el registro como inactivo sin eliminar el archivo físico.
+   * Marca el registro como inactivo sin eliminar el archivo físico; puede restaurarse
+   * hasta que la purga de retención lo elimine definitivamente (ver RetentionService).
    * @param id - UUID del archivo a eliminar
    * @throws NotFoundException si el archivo no existe
+   * @throws HttpException 423 si el archivo está bajo retención legal
    */
   async deleteFile(id: string): Promise<void> {
     const metadata = await this.fileMetadataRepository.findOne({
@@ -248,64 +1110,171 @@ export class StorageService {
       throw new NotFoundException('File not found');
     }
 
+    await this.legalHoldService.assertNotHeld(metadata, 'deleted');
+
     // Soft delete in database
     metadata.active = false;
+    metadata.deletedAt = new Date();
     await this.fileMetadataRepository.save(metadata);
+    await this.webhookService.publish([WebhookEvent.FILE_DELETED], metadata);
 
-    // Optionally delete physical file (commented out for safety)
-    // const fullPath = path.join(this.uploadPath, metadata.path);
-    // try {
-    //   await fs.unlink(fullPath);
-    //   if (metadata.thumbnailPath) {
-    //     await fs.unlink(path.join(this.uploadPath, metadata.thumbnailPath));
-    //   }
-    // } catch {}
+    // Physical content is a shared blob (see BlobService): its reference is released
+    // by the retention purge once the file's retention period expires
   }
 
   /**
-   * Lista archivos con filtros opcionales y paginación.
-   * @param category - Filtrar por categoría (PROFILE, DOCUMENT, etc.)
-   * @param entityType - Filtrar por tipo de entidad (USER, APPLICATION, etc.)
-   * @param entityId - Filtrar por ID de entidad específica
-   * @param uploadedBy - Filtrar por usuario que subió el archivo
-   * @param limit - Máximo de resultados (default: 50)
-   * @param offset - Registros a saltar para paginación (default: 0)
-   * @returns Objeto con array de archivos y total
+   * Elimina archivos en lote (soft delete), por lista de IDs o todos los de una entidad.
+   * Cada archivo se elimina por separado: los inexistentes, los no permitidos para la API key
+   * y los retenidos se informan como fallidos sin impedir eliminar los demás.
+   * @param selector - ids, o bien entityType y entityId
+   * @param principal - API key que elimina (sin ella no se restringe el acceso)
+   * @returns Resultado de cada archivo
+   * @throws BadRequestException si el selector es ambiguo o incompleto
+   */
+  async deleteFiles(
+    selector: BulkDeleteFilesDto,
+    principal?: ApiKeyPrincipal,
+  ): Promise<({ id: string } & BatchItemOutcome<void>)[]> {
+    const byEntity = selector.entityType !== undefined || selector.entityId !== undefined;
+    if (selector.ids ? byEntity : !(selector.entityType && selector.entityId)) {
+      throw new BadRequestException('Provide either ids, or both entityType and entityId');
+    }
+
+    const targets = selector.ids
+      ? [...new Set(selector.ids)]
+      : (
+          await this.fileMetadataRepository.find({
+            where: { entityType: selector.entityType, entityId: selector.entityId, active: true },
+            select: { id: true },
+          })
+        ).map((file) => file.id);
+
+    const results: ({ id: string } & BatchItemOutcome<void>)[] = [];
+    for (const id of targets) {
+      const outcome = await this.settle(async () => {
+        assertFileAccess(principal, await this.getFileMetadata(id));
+        await this.deleteFile(id);
+      });
+      results.push({ id, ...outcome });
+    }
+
+    const failed = results.filter((result) => !result.success).length;
+    this.logger.log(`🗑️ Batch delete: ${targets.length - failed}/${targets.length} files deleted`);
+    return results;
+  }
+
+  /**
+   * Lista archivos con filtros opcionales y paginación por cursor.
+   * El cursor fija el último registro entregado (valor del campo de orden e ID), por lo que las
+   * páginas siguientes no se desplazan aunque se suban archivos mientras se pagina.
+   * @param filters - Filtros, orden, cursor y tamaño de página
+   * @param restrictions - Categorías/tipos de entidad permitidos para la API key (null = todos)
+   * @returns Página de archivos, total (null si no se pidió) y cursor de la página siguiente (null si es la última)
+   * @throws BadRequestException si el cursor es inválido, no corresponde al orden pedido o se combina con offset
    */
   async listFiles(
-    category?: FileCategory,
-    entityType?: EntityType,
-    entityId?: string,
-    uploadedBy?: string,
-    limit: number = 50,
-    offset: number = 0,
-  ): Promise<{ data: FileMetadata[]; total: number }> {
+    filters: ListFilesDto,
+    restrictions?: Pick<ApiKeyPrincipal, 'allowedCategories' | 'allowedEntityTypes'>,
+  ): Promise<{ data: FileMetadataWithVersions[]; total: number | null; nextCursor: string | null }> {
+    const sort = filters.sort ?? FileSortField.UPLOADED_AT;
+    const order = filters.order ?? 'desc';
+    const limit = filters.limit ?? 50;
+    const { property, cast } = SORT_COLUMNS[sort];
+
     const query = this.fileMetadataRepository.createQueryBuilder('file')
       .where('file.active = :active', { active: true });
 
-    if (category) {
-      query.andWhere('file.category = :category', { category });
+    if (restrictions?.allowedCategories) {
+      query.andWhere('file.category IN (:...allowedCategories)', {
+        allowedCategories: restrictions.allowedCategories,
+      });
+    }
+
+    if (restrictions?.allowedEntityTypes) {
+      query.andWhere('file.entityType IN (:...allowedEntityTypes)', {
+        allowedEntityTypes: restrictions.allowedEntityTypes,
+      });
+    }
+
+    if (filters.category) {
+      query.andWhere('file.category = :category', { category: filters.category });
+    }
+
+    if (filters.entityType) {
+      query.andWhere('file.entityType = :entityType', { entityType: filters.entityType });
     }
 
-    if (entityType) {
-      query.andWhere('file.entityType = :entityType', { entityType });
+    if (filters.entityId) {
+      query.andWhere('file.entityId = :entityId', { entityId: filters.entityId });
     }
 
-    if (entityId) {
-      query.andWhere('file.entityId = :entityId', { entityId });
+    if (filters.uploadedBy) {
+      query.andWhere('file.uploadedBy = :uploadedBy', { uploadedBy: filters.uploadedBy });
     }
 
-    if (uploadedBy) {
-      query.andWhere('file.uploadedBy = :uploadedBy', { uploadedBy });
+    // El total no depende del cursor: se cuenta antes de posicionar la página
+    const total = filters.includeTotal === false ? null : await query.getCount();
+
+    if (filters.cursor) {
+      if (filters.offset) {
+        throw new BadRequestException('cursor and offset cannot be combined');
+      }
+      const position = this.decodeListCursor(filters.cursor, sort, order);
+      query.andWhere(
+        `(${property}, file.id) ${order === 'desc' ? '<' : '>'} (CAST(:cursorValue AS ${cast}), CAST(:cursorId AS uuid))`,
+        { cursorValue: position.value, cursorId: position.id },
+      );
+    } else if (filters.offset) {
+      query.offset(filters.offset);
     }
 
-    const [data, total] = await query
-      .orderBy('file.uploadedAt', 'DESC')
-      .take(limit)
-      .skip(offset)
-      .getManyAndCount();
+    // Se pide un registro extra para saber si hay página siguiente
+    const { entities, raw } = await query
+      .addSelect(`CAST(${property} AS text)`, 'cursor_value')
+      .orderBy(property, order === 'desc' ? 'DESC' : 'ASC')
+      .addOrderBy('file.id', order === 'desc' ? 'DESC' : 'ASC')
+      .limit(limit + 1)
+      .getRawAndEntities<{ file_id: string; cursor_value: string }>();
+
+    const data: FileMetadataWithVersions[] = entities.slice(0, limit);
+    const last = entities.length > limit ? data[data.length - 1] : null;
+    const lastRow = last ? raw.find((row) => row.file_id === last.id) : undefined;
+    const nextCursor = last && lastRow ? encodeCursor({ sort, order, value: lastRow.cursor_value, id: last.id }) : null;
+
+    if (filters.includeVersions && data.length > 0) {
+      const versions = await this.fileVersionRepository.find({
+        where: { fileId: In(data.map((file) => file.id)) },
+        order: { versionNumber: 'DESC' },
+      });
+      for (const file of data) {
+        const history = versions.filter((version) => version.fileId === file.id);
+        file.versions = history.length > 0 ? history : [this.buildInitialVersion(file)];
+      }
+    }
 
-    return { data, total };
+    return { data, total, nextCursor };
+  }
+
+  /**
+   * Decodifica el cursor de un listado y verifica que corresponda al orden pedido.
+   * @throws BadRequestException si el cursor es inválido o se generó con otro orden
+   * @private
+   */
+  private decodeListCursor(cursor: string, sort: FileSortField, order: 'asc' | 'desc'): CursorPosition {
+    let position: CursorPosition;
+    try {
+      position = decodeCursor(cursor);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        throw new BadRequestException(`Invalid cursor: ${error.message}`);
+      }
+      throw error;
+    }
+
+    if (position.sort !== (sort as string) || position.order !== order) {
+      throw new BadRequestException(`Cursor was created for sort=${position.sort}&order=${position.order}`);
+    }
+    return position;
   }
 
   /**
@@ -327,74 +1296,263 @@ export class StorageService {
   }
 
   /**
-   * Determina el subdirectorio de almacenamiento según la categoría.
-   * @param category - Categoría del archivo
-   * @returns Nombre del subdirectorio (profiles, documents, forms o temp)
+   * Obtiene los metadatos de varios archivos con una sola consulta.
+   * @param ids - UUIDs de los archivos (los repetidos se devuelven una vez)
+   * @param principal - API key que consulta (sin ella no se restringe el acceso)
+   * @returns Resultado de cada archivo, en el orden pedido (404 si no existe, 403 si la key no tiene acceso)
+   */
+  async getFilesMetadata(
+    ids: string[],
+    principal?: ApiKeyPrincipal,
+  ): Promise<({ id: string } & BatchItemOutcome<FileMetadata>)[]> {
+    const uniqueIds = [...new Set(ids)];
+    const found = await this.fileMetadataRepository.find({
+      where: { id: In(uniqueIds), active: true },
+    });
+    const byId = new Map(found.map((file) => [file.id, file]));
+
+    return Promise.all(
+      uniqueIds.map(async (id) => {
+        const outcome = await this.settle(() => {
+          const metadata = byId.get(id);
+          if (!metadata) {
+            throw new NotFoundException('File not found');
+          }
+          assertFileAccess(principal, metadata);
+          return Promise.resolve(metadata);
+        });
+        return { id, ...outcome };
+      }),
+    );
+  }
+
+  /**
+   * Ejecuta la operación de un elemento de un lote y convierte su error en un resultado fallido.
+   * Los errores inesperados se registran en el log y se informan sin detalle.
+   * @private
+   */
+  private async settle<T>(operation: () => Promise<T>): Promise<BatchItemOutcome<T>> {
+    try {
+      return { success: true, value: await operation() };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        return { success: false, statusCode: error.getStatus(), error: error.message };
+      }
+      this.logger.error(`❌ Batch item failed: ${(error as Error).message}`);
+      return { success: false, statusCode: HttpStatus.INTERNAL_SERVER_ERROR, error: 'Internal server error' };
+    }
+  }
+
+  /**
+   * Verifica que un archivo pueda servirse según su análisis antivirus.
+   * @param metadata - Metadatos del archivo
+   * @throws ConflictException si el análisis está pendiente o falló (se puede reintentar)
+   * @throws ForbiddenException si el archivo está en cuarentena
    * @private
    */
-  private getSubdirectoryByCategory(category: FileCategory): string {
-    switch (category) {
-      case FileCategory.PROFILE:
-        return 'profiles';
-      case FileCategory.DOCUMENT:
-        return 'documents';
-      case FileCategory.FORM_FIELD:
-        return 'forms';
+  private assertServable(metadata: Pick<FileMetadata, 'scanStatus'>): void {
+    switch (metadata.scanStatus) {
+      case ScanStatus.CLEAN:
+        return;
+      case ScanStatus.INFECTED:
+        throw new ForbiddenException('File is quarantined: a threat was detected');
+      case ScanStatus.PENDING:
+        throw new ConflictException('File is pending antivirus scan');
       default:
-        return 'temp';
+        throw new ConflictException('File could not be scanned for viruses');
     }
   }
 
   /**
-   * Genera una miniatura para una imagen.
-   * Usa Sharp para redimensionar y comprimir a JPEG.
-   * @param buffer - Buffer de la imagen original
-   * @param filename - Nombre del archivo para generar nombre de thumbnail
+   * Obtiene el driver que almacena un archivo (o una versión) según sus metadatos.
+   * Los registros anteriores a los drivers no tienen valor y se resuelven como locales.
+   * @param metadata - Metadatos del archivo o de la versión
+   * @returns Driver de almacenamiento
+   * @private
+   */
+  private getDriverFor(metadata: Pick<FileMetadata, 'storageDriver' | 'storageBucket'>): StorageDriver {
+    return this.storageDrivers.resolve(metadata.storageDriver, metadata.storageBucket);
+  }
+
+  /**
+   * Genera una miniatura para una imagen o la primera página de un PDF.
+   * Usa Sharp para redimensionar y comprimir a JPEG; los SVG se rasterizan a PNG para conservar la transparencia.
+   * La orientación EXIF se aplica antes de recortar (fotos de celular guardadas sin limpiar).
+   * Los PDF se renderizan con pdf.js y se recortan desde la parte superior de la página.
+   * @param buffer - Buffer de la imagen o PDF original
+   * @param mimetype - Tipo MIME detectado del contenido
+   * @param checksum - Hash del contenido, usado como nombre de la miniatura
+   * @param driver - Driver donde se guarda la miniatura (el mismo del blob)
+   * @returns Ruta relativa del thumbnail
+   * @throws Error si el contenido no puede renderizarse o la miniatura no puede guardarse
+   * @private
+   */
+  private async renderThumbnail(
+    buffer: Buffer,
+    mimetype: string,
+    checksum: string,
+    driver: StorageDriver,
+  ): Promise<string> {
+    const isVector = mimetype === 'image/svg+xml';
+    const thumbnailFilename = `thumb_${checksum}${isVector ? '.png' : '.jpg'}`;
+    const relativePath = path.posix.join('thumbnails', thumbnailFilename);
+
+    const isPdf = mimetype === 'application/pdf';
+    const source = isPdf ? await this.renderPdfPreview(buffer) : sharp(buffer).rotate();
+    const resized = source.resize(this.thumbnailWidth, this.thumbnailHeight, {
+      fit: 'cover',
+      position: isPdf ? 'top' : 'center',
+    });
+    const thumbnail = isVector
+      ? await resized.png().toBuffer()
+      : await resized.jpeg({ quality: this.thumbnailQuality }).toBuffer();
+
+    await driver.put(relativePath, thumbnail, { contentType: isVector ? 'image/png' : 'image/jpeg' });
+    return relativePath;
+  }
+
+  /**
+   * Genera una miniatura como renderThumbnail, sin propagar errores.
    * @returns Ruta relativa del thumbnail o null si falla
    * @private
    */
-  private async generateThumbnail(buffer: Buffer, filename: string): Promise<string | null> {
+  private async generateThumbnail(
+    buffer: Buffer,
+    mimetype: string,
+    checksum: string,
+    driver: StorageDriver,
+  ): Promise<string | null> {
     try {
-      const thumbnailFilename = `thumb_${filename}`;
-      const relativePath = path.join('thumbnails', thumbnailFilename);
-      const fullPath = path.join(this.uploadPath, relativePath);
-
-      await sharp(buffer)
-        .resize(this.thumbnailWidth, this.thumbnailHeight, {
-          fit: 'cover',
-          position: 'center',
-        })
-        .jpeg({ quality: this.thumbnailQuality })
-        .toFile(fullPath);
-
-      return relativePath;
+      return await this.renderThumbnail(buffer, mimetype, checksum, driver);
     } catch (error) {
       console.error('Failed to generate thumbnail:', error);
       return null;
     }
   }
 
+  /**
+   * Ejecuta un trabajo de miniatura: la genera una vez por blob (si otro archivo con el mismo contenido
+   * ya la generó, la reutiliza) y la registra en el blob, en las versiones con ese contenido y, si sigue
+   * siendo el contenido vigente, en el archivo.
+   * Si el archivo se eliminó o su contenido ya no existe, el trabajo termina sin hacer nada.
+   * @param job - Trabajo tomado por la cola
+   * @throws Error si la miniatura no puede generarse (el trabajo se reintenta)
+   * @private
+   */
+  private async runThumbnailJob(job: ProcessingJob): Promise<void> {
+    const metadata = await this.fileMetadataRepository.findOne({ where: { id: job.fileId, active: true } });
+    const blob = await this.blobService.findByChecksum(job.checksum);
+    if (!metadata || !blob) {
+      return;
+    }
+
+    const isCurrent = metadata.checksum === job.checksum;
+    const version = isCurrent
+      ? metadata
+      : await this.fileVersionRepository.findOne({ where: { fileId: job.fileId, checksum: job.checksum } });
+    if (!version) {
+      return;
+    }
+
+    let thumbnailPath = blob.thumbnailPath;
+    if (!thumbnailPath) {
+      const driver = this.blobService.getDriverFor(blob);
+      const content = await driver.get(blob.path);
+      thumbnailPath = await this.renderThumbnail(content, version.detectedMimetype || version.mimetype, blob.checksum, driver);
+      await this.blobService.setThumbnail(blob.checksum, thumbnailPath);
+    }
+
+    await this.fileVersionRepository.update({ fileId: job.fileId, checksum: job.checksum }, { thumbnailPath });
+    const updated = await this.fileMetadataRepository.update({ id: job.fileId, checksum: job.checksum }, { thumbnailPath });
+    if (isCurrent && updated.affected) {
+      metadata.thumbnailPath = thumbnailPath;
+      await this.webhookService.publish([WebhookEvent.THUMBNAIL_GENERATED], metadata);
+    }
+  }
+
+  /**
+   * Renderiza la primera página de un PDF al doble del ancho de la miniatura (para un recorte nítido).
+   * @private
+   */
+  private async renderPdfPreview(buffer: Buffer): Promise<sharp.Sharp> {
+    const page = await this.pdfService.renderFirstPage(buffer, this.thumbnailWidth * 2);
+    return sharp(page.data, { raw: { width: page.width, height: page.height, channels: 4 } });
+  }
+
+  /**
+   * Regenera la miniatura del contenido vigente de un archivo (ej: perdida o desactualizada).
+   * Si el contenido es un blob, la miniatura queda registrada también en el blob.
+   * @param metadata - Archivo de imagen con contenido limpio
+   * @returns Ruta de la nueva miniatura o null si no pudo generarse
+   */
+  async regenerateThumbnail(metadata: FileMetadata): Promise<string | null> {
+    const driver = this.getDriverFor(metadata);
+    const content = await driver.get(metadata.path);
+    const checksum = metadata.checksum || computeChecksum(content);
+
+    const thumbnailPath = await this.generateThumbnail(content, metadata.detectedMimetype || metadata.mimetype, checksum, driver);
+    if (!thumbnailPath) {
+      return null;
+    }
+
+    const blob = metadata.checksum ? await this.blobService.findByChecksum(metadata.checksum) : null;
+    if (blob && blob.path === metadata.path) {
+      await this.blobService.setThumbnail(blob.checksum, thumbnailPath);
+    }
+
+    metadata.thumbnailPath = thumbnailPath;
+    await this.fileMetadataRepository.update({ id: metadata.id }, { thumbnailPath });
+    await this.fileVersionRepository.update({ fileId: metadata.id, versionNumber: metadata.currentVersion }, { thumbnailPath });
+    await this.webhookService.publish([WebhookEvent.THUMBNAIL_GENERATED], metadata);
+    return thumbnailPath;
+  }
+
   /**
    * Limpia archivos huérfanos del sistema.
-   * Busca registros en BD sin archivo físico y los marca como inactivos.
-   * @returns Objeto con cantidad de archivos removidos
+   * Busca registros en BD sin objeto en su driver de almacenamiento y los marca como inactivos.
+   * Los archivos bajo retención legal se conservan y solo se informan.
+   * @returns Objeto con cantidad de archivos removidos y de huérfanos retenidos
    */
-  async cleanupOrphanedFiles(): Promise<{ removed: number }> {
-    const allMetadata = await this.fileMetadataRepository.find();
+  async cleanupOrphanedFiles(): Promise<{ removed: number; held: number }> {
     let removed = 0;
+    let held = 0;
+    let lastId: string | null = null;
 
-    for (const metadata of allMetadata) {
-      const fullPath = path.join(this.uploadPath, metadata.path);
-      try {
-        await fs.access(fullPath);
-      } catch {
-        // File not found on disk, mark as inactive
-        metadata.active = false;
-        await this.fileMetadataRepository.save(metadata);
-        removed++;
+    for (;;) {
+      const batch = await this.fileMetadataRepository.find({
+        where: lastId ? { id: MoreThan(lastId) } : {},
+        order: { id: 'ASC' },
+        take: CLEANUP_BATCH_SIZE,
+      });
+
+      const orphanIds: string[] = [];
+      for (const metadata of batch) {
+        if (await this.getDriverFor(metadata).exists(metadata.path)) {
+          continue;
+        }
+        if (metadata.active && (await this.legalHoldService.isHeld(metadata))) {
+          this.logger.warn(`⚠️ File ${metadata.id} is missing from storage but under legal hold: kept as is`);
+          held++;
+          continue;
+        }
+        orphanIds.push(metadata.id);
+      }
+
+      if (orphanIds.length > 0) {
+        // File not found in storage, mark as inactive.
+        // Los ya eliminados conservan su fecha para no reiniciar el plazo de retención
+        await this.fileMetadataRepository.update({ id: In(orphanIds), deletedAt: IsNull() }, { deletedAt: new Date() });
+        // Solo cuentan los que esta pasada desactiva (los eliminados antes ya estaban inactivos)
+        const result = await this.fileMetadataRepository.update({ id: In(orphanIds), active: true }, { active: false });
+        removed += result.affected ?? 0;
+      }
+
+      if (batch.length < CLEANUP_BATCH_SIZE) {
+        break;
       }
+      lastId = batch[batch.length - 1].id;
     }
 
-    return { removed };
+    return { removed, held };
   }
 }
@@ -0,0 +1,66 @@
+import { ConfigService } from '@nestjs/config';
+import { UploadPolicyService } from './upload-policy.service';
+import { EntityType, FileCategory } from './entities/file-metadata.entity';
+
+// uuid solo se publica como ESM y Jest carga los módulos como CommonJS
+jest.mock('uuid', () => ({ v4: () => jest.requireActual<typeof import('crypto')>('crypto').randomUUID() }));
+
+function createService(env: Record<string, string>) {
+  return new UploadPolicyService(new ConfigService(env));
+}
+
+describe('UploadPolicyService', () => {
+  it('should restrict profile photos and documents by default', () => {
+    const service = createService({ MAX_FILE_SIZE: '1000' });
+
+    expect(service.resolve({ category: FileCategory.PROFILE })).toEqual({
+      allowedMimeTypes: ['image/jpeg', 'image/png', 'image/webp'],
+      maxFileSize: 1000,
+      maxImageWidth: null,
+      maxImageHeight: null,
+      thumbnails: true,
+      allowOverwrite: true,
+    });
+    expect(service.resolve({ category: FileCategory.DOCUMENT }).allowedMimeTypes).not.toContain('image/svg+xml');
+    expect(service.resolve({ category: FileCategory.OTHER }).allowedMimeTypes).toContain('image/svg+xml');
+  });
+
+  it('should layer default, category and entity type overrides', () => {
+    const service = createService({
+      UPLOAD_POLICIES: JSON.stringify({
+        default: { maxFileSize: 5000 },
+        PROFILE: { maxImageWidth: 1024, maxImageHeight: 1024 },
+        FORM_FIELD: { allowOverwrite: false },
+        '*:INSTITUTION': { thumbnails: false, maxFileSize: 9000 },
+        'PROFILE:INSTITUTION': { allowedMimeTypes: ['image/svg+xml'] },
+      }),
+    });
+
+    expect(service.resolve({ category: FileCategory.FORM_FIELD })).toMatchObject({ maxFileSize: 5000, allowOverwrite: false });
+    expect(service.resolve({ category: FileCategory.FORM_FIELD, entityType: EntityType.USER }).allowOverwrite).toBe(false);
+    expect(service.resolve({ category: FileCategory.PROFILE, entityType: EntityType.INSTITUTION })).toEqual({
+      allowedMimeTypes: ['image/svg+xml'],
+      maxFileSize: 9000,
+      maxImageWidth: 1024,
+      maxImageHeight: 1024,
+      thumbnails: false,
+      allowOverwrite: true,
+    });
+    expect(Object.keys(service.getPolicies())).toContain('DOCUMENT:INSTITUTION');
+    expect(Object.keys(service.getPolicies())).not.toContain('DOCUMENT:USER');
+  });
+
+  it('should refuse invalid policies at startup', () => {
+    expect(() => createService({ UPLOAD_POLICIES: '{PROFILE:' })).toThrow('Invalid UPLOAD_POLICIES');
+    expect(() => createService({ UPLOAD_POLICIES: '{"AVATAR":{}}' })).toThrow('Invalid UPLOAD_POLICIES key "AVATAR"');
+    expect(() => createService({ UPLOAD_POLICIES: '{"*":{}}' })).toThrow('Invalid UPLOAD_POLICIES key "*"');
+    expect(() => createService({ UPLOAD_POLICIES: '{"PROFILE":{"maxSize":10}}' })).toThrow('unknown field maxSize');
+    expect(() => createService({ UPLOAD_POLICIES: '{"PROFILE":{"maxFileSize":"2MB"}}' })).toThrow(
+      'Invalid UPLOAD_POLICIES entry "PROFILE": invalid maxFileSize',
+    );
+    expect(() => createService({ UPLOAD_POLICIES: '{"PROFILE":{"constructor":true}}' })).toThrow(
+      'unknown field constructor',
+    );
+    expect(() => createService({ MAX_FILE_SIZE: 'ten' })).toThrow('Invalid MAX_FILE_SIZE');
+  });
+});
@@ -0,0 +1,211 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import { EntityType, FileCategory } from './entities/file-metadata.entity';
+
+/**
+ * Reglas de subida de una categoría (opcionalmente, de una categoría para un tipo de entidad).
+ */
+export interface UploadPolicy {
+  /** Tipos MIME permitidos (vacío = cualquiera) */
+  allowedMimeTypes: string[];
+  /** Tamaño máximo en bytes */
+  maxFileSize: number;
+  /** Ancho máximo en píxeles de las imágenes rasterizadas (null = sin límite) */
+  maxImageWidth: number | null;
+  /** Alto máximo en píxeles de las imágenes rasterizadas (null = sin límite) */
+  maxImageHeight: number | null;
+  /** Generar miniatura de imágenes y PDF */
+  thumbnails: boolean;
+  /** Permitir reemplazar el contenido (subir o restaurar versiones) */
+  allowOverwrite: boolean;
+}
+
+/** Categoría y tipo de entidad de un archivo, para elegir su política */
+export interface UploadPolicyTarget {
+  category: FileCategory;
+  entityType?: EntityType | null;
+}
+
+// MIME types seguros por defecto
+const DEFAULT_ALLOWED_MIME_TYPES = [
+  // Imágenes
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'image/svg+xml',
+  // Documentos
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  // Texto
+  'text/plain',
+  'text/csv',
+  // Comprimidos (opcional, comentar si no se necesitan)
+  // 'application/zip',
+  // 'application/x-rar-compressed',
+];
+
+/** Tipos de las fotos de perfil */
+const PROFILE_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+/**
+ * Restricciones de tipos incluidas por defecto, aplicadas sobre los tipos permitidos en general:
+ * una foto de perfil no puede ser una planilla, ni un documento un SVG.
+ */
+const BUILT_IN_TYPE_RESTRICTIONS: Partial<Record<FileCategory, (types: string[]) => string[]>> = {
+  [FileCategory.PROFILE]: (types) => types.filter((type) => PROFILE_IMAGE_TYPES.includes(type)),
+  [FileCategory.DOCUMENT]: (types) => types.filter((type) => type !== 'image/svg+xml'),
+};
+
+/** Validadores de cada campo configurable */
+const POLICY_FIELDS: Record<keyof UploadPolicy, (value: unknown) => boolean> = {
+  allowedMimeTypes: (value) =>
+    Array.isArray(value) && value.every((type) => typeof type === 'string' && /^[a-z0-9.+-]+\/[a-z0-9.+-]+$/.test(type)),
+  maxFileSize: (value) => Number.isSafeInteger(value) && (value as number) > 0,
+  maxImageWidth: (value) => value === null || (Number.isSafeInteger(value) && (value as number) > 0),
+  maxImageHeight: (value) => value === null || (Number.isSafeInteger(value) && (value as number) > 0),
+  thumbnails: (value) => typeof value === 'boolean',
+  allowOverwrite: (value) => typeof value === 'boolean',
+};
+
+/**
+ * Servicio de políticas de subida por categoría.
+ * Cada categoría tiene tipos permitidos, tamaño máximo, dimensiones máximas de imagen, si genera
+ * miniaturas y si sus archivos pueden reemplazarse. Las políticas se arman al iniciar, por capas:
+ * general (MAX_FILE_SIZE, ALLOWED_MIME_TYPES) ← restricciones incluidas ← UPLOAD_POLICIES "default"
+ * ← UPLOAD_POLICIES "<CATEGORIA>" ← "*:<TIPO_ENTIDAD>" ← "<CATEGORIA>:<TIPO_ENTIDAD>".
+ * Una configuración inválida impide iniciar el servicio.
+ * @class UploadPolicyService
+ */
+@Injectable()
+export class UploadPolicyService {
+  private readonly logger = new Logger(UploadPolicyService.name);
+  /** Políticas por categoría y por "categoría:tipo de entidad" (solo las que difieren de la categoría) */
+  private readonly policies = new Map<string, UploadPolicy>();
+
+  constructor(private configService: ConfigService) {
+    const configMimeTypes = this.configService.get<string>('ALLOWED_MIME_TYPES');
+    const base: UploadPolicy = {
+      allowedMimeTypes: configMimeTypes
+        ? configMimeTypes.split(',').map((type) => type.trim().toLowerCase())
+        : DEFAULT_ALLOWED_MIME_TYPES,
+      maxFileSize: parseInt(this.configService.get<string>('MAX_FILE_SIZE') || '10485760', 10),
+      maxImageWidth: null,
+      maxImageHeight: null,
+      thumbnails: true,
+      allowOverwrite: true,
+    };
+    if (!POLICY_FIELDS.maxFileSize(base.maxFileSize)) {
+      throw new Error('Invalid MAX_FILE_SIZE: expected a positive integer');
+    }
+
+    const overrides = this.loadOverrides();
+    const defaults = { ...base, ...overrides.get('default') };
+
+    for (const category of Object.values(FileCategory)) {
+      const restrictTypes = BUILT_IN_TYPE_RESTRICTIONS[category];
+      const policy: UploadPolicy = {
+        ...defaults,
+        ...(restrictTypes && defaults.allowedMimeTypes.length > 0
+          ? { allowedMimeTypes: restrictTypes(defaults.allowedMimeTypes) }
+          : {}),
+        ...overrides.get(category),
+      };
+      this.policies.set(category, policy);
+
+      for (const entityType of Object.values(EntityType)) {
+        const wildcard = overrides.get(`*:${entityType}`);
+        const specific = overrides.get(`${category}:${entityType}`);
+        if (wildcard || specific) {
+          this.policies.set(`${category}:${entityType}`, { ...policy, ...wildcard, ...specific });
+        }
+      }
+    }
+
+    this.logger.log(`📄 Max file size: ${defaults.maxFileSize} bytes`);
+    this.logger.log(`✅ Allowed MIME types: ${defaults.allowedMimeTypes.length} types`);
+    if (overrides.size > 0) {
+      this.logger.log(`📋 Upload policies configured: ${[...overrides.keys()].join(', ')}`);
+    }
+  }
+
+  /**
+   * Obtiene la política que aplica a un archivo.
+   * @param target - Categoría y tipo de entidad del archivo
+   * @returns Política de la categoría, o la específica del tipo de entidad si está configurada
+   */
+  resolve(target: UploadPolicyTarget): UploadPolicy {
+    return (
+      (target.entityType && this.policies.get(`${target.category}:${target.entityType}`)) ||
+      this.policies.get(target.category)!
+    );
+  }
+
+  /**
+   * Lista las políticas vigentes.
+   * @returns Política de cada categoría y de cada combinación categoría:tipo de entidad configurada
+   */
+  getPolicies(): Record<string, UploadPolicy> {
+    return Object.fromEntries(this.policies);
+  }
+
+  /**
+   * Lee y valida UPLOAD_POLICIES (JSON) o el archivo indicado en UPLOAD_POLICIES_FILE.
+   * @throws Error si el JSON es inválido, una clave no es una categoría/tipo de entidad conocida o un campo es inválido
+   * @private
+   */
+  private loadOverrides(): Map<string, Partial<UploadPolicy>> {
+    const file = this.configService.get<string>('UPLOAD_POLICIES_FILE');
+    const source = file ? 'UPLOAD_POLICIES_FILE' : 'UPLOAD_POLICIES';
+    const raw = file ? fs.readFileSync(file, 'utf8') : this.configService.get<string>('UPLOAD_POLICIES');
+    if (!raw?.trim()) {
+      return new Map();
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      throw new Error(`Invalid ${source}: ${(error as Error).message}`);
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error(`Invalid ${source}: expected a JSON object keyed by category`);
+    }
+
+    const categories = Object.values(FileCategory) as string[];
+    const entityTypes = Object.values(EntityType) as string[];
+    const overrides = new Map<string, Partial<UploadPolicy>>();
+
+    for (const [key, entry] of Object.entries(parsed as Record<string, unknown>)) {
+      const [category, entityType, ...rest] = key.split(':');
+      const validKey =
+        key === 'default' ||
+        (rest.length === 0 &&
+          (category === '*' || categories.includes(category)) &&
+          (entityType === undefined ? category !== '*' : entityTypes.includes(entityType)));
+      if (!validKey) {
+        throw new Error(`Invalid ${source} key "${key}": expected default, CATEGORY, CATEGORY:ENTITY_TYPE or *:ENTITY_TYPE`);
+      }
+      if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+        throw new Error(`Invalid ${source} entry "${key}": expected an object`);
+      }
+
+      for (const [field, value] of Object.entries(entry as Record<string, unknown>)) {
+        if (!Object.hasOwn(POLICY_FIELDS, field)) {
+          throw new Error(`Invalid ${source} entry "${key}": unknown field ${field}`);
+        }
+        if (!POLICY_FIELDS[field as keyof UploadPolicy](value)) {
+          throw new Error(`Invalid ${source} entry "${key}": invalid ${field}`);
+        }
+      }
+      overrides.set(key, entry as Partial<UploadPolicy>);
+    }
+    return overrides;
+  }
+}
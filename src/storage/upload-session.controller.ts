@@ -0,0 +1,252 @@
+import {
+  Controller,
+  Post,
+  Put,
+  Get,
+  Delete,
+  Param,
+  Body,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  ParseUUIDPipe,
+  ParseIntPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiConsumes,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import {
+  UploadSessionService,
+  UploadSessionState,
+} from './upload-session.service';
+import {
+  InitUploadSessionDto,
+  MAX_CHUNK_SIZE,
+} from './dto/init-upload-session.dto';
+import { ApiKeyGuard } from './guards/api-key.guard';
+import { RequireScope } from './decorators/require-scope.decorator';
+import { CurrentApiKey } from './decorators/current-api-key.decorator';
+import { type ApiKeyPrincipal, assertFileAccess } from './api-key.service';
+import { ApiKeyScope } from './entities/api-key.entity';
+import { AuditInterceptor } from './interceptors/audit.interceptor';
+import { Audited } from './decorators/audited.decorator';
+import { AuditAction } from './entities/audit-event.entity';
+
+/**
+ * Controlador de subidas reanudables por partes.
+ * Flujo: POST /storage/uploads → PUT /storage/uploads/:id/chunks/:index (n veces)
+ * → POST /storage/uploads/:id/complete. GET /storage/uploads/:id indica qué partes faltan.
+ * @class UploadSessionController
+ */
+@ApiTags('Storage')
+@ApiSecurity('api-key')
+@Controller('storage/uploads')
+@UseGuards(ApiKeyGuard)
+@RequireScope(ApiKeyScope.UPLOAD)
+@Throttle({ default: { limit: 100, ttl: 60000 } })
+export class UploadSessionController {
+  constructor(private readonly uploadSessionService: UploadSessionService) {}
+
+  /**
+   * Inicia una sesión de subida por partes.
+   * @param dto - Nombre, tipo, tamaño total y metadatos del archivo
+   * @returns Sesión creada con tamaño y cantidad de partes esperadas
+   * @throws BadRequestException si el tipo o tamaño no están permitidos
+   */
+  @Post()
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @ApiOperation({ summary: 'Start a resumable chunked upload' })
+  @ApiResponse({ status: 201, description: 'Upload session created' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  async createSession(
+    @Body() dto: InitUploadSessionDto,
+    @CurrentApiKey() apiKey?: ApiKeyPrincipal,
+  ) {
+    assertFileAccess(apiKey, dto);
+    const session = await this.uploadSessionService.createSession(dto, apiKey);
+    return {
+      success: true,
+      session: {
+        id: session.id,
+        chunkSize: session.chunkSize,
+        totalChunks: session.totalChunks,
+        expiresAt: session.expiresAt,
+      },
+    };
+  }
+
+  /**
+   * Obtiene el estado de una sesión para reanudar la subida.
+   * @param id - UUID de la sesión
+   * @returns Estado con partes recibidas y pendientes
+   * @throws NotFoundException si la sesión no existe
+   * @throws ForbiddenException si la sesión pertenece a otra key
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get upload session status' })
+  @ApiResponse({ status: 200, description: 'Session status retrieved' })
+  @ApiResponse({
+    status: 403,
+    description: 'Session belongs to another API key',
+  })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async getSession(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentApiKey() apiKey?: ApiKeyPrincipal,
+  ) {
+    return this.toResponse(
+      await this.uploadSessionService.getSessionState(id, apiKey),
+    );
+  }
+
+  /**
+   * Sube una parte numerada (base 0). Reenviar una parte la reemplaza.
+   * @param id - UUID de la sesión
+   * @param index - Índice de la parte
+   * @param chunk - Contenido de la parte (multipart/form-data, campo "chunk")
+   * @returns Estado actualizado de la sesión
+   * @throws BadRequestException si la parte no tiene el tamaño esperado
+   * @throws ForbiddenException si la sesión pertenece a otra key
+   */
+  @Put(':id/chunks/:index')
+  @Throttle({ default: { limit: 300, ttl: 60000 } })
+  @UseInterceptors(
+    FileInterceptor('chunk', { limits: { fileSize: MAX_CHUNK_SIZE } }),
+  )
+  @ApiOperation({ summary: 'Upload a chunk of a resumable upload' })
+  @ApiConsumes('multipart/form-data')
+  @ApiResponse({ status: 200, description: 'Chunk stored' })
+  @ApiResponse({ status: 400, description: 'Invalid chunk' })
+  @ApiResponse({
+    status: 403,
+    description: 'Session belongs to another API key',
+  })
+  @ApiResponse({ status: 409, description: 'Session no longer accepts chunks' })
+  async uploadChunk(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('index', ParseIntPipe) index: number,
+    @UploadedFile() chunk: Express.Multer.File,
+    @CurrentApiKey() apiKey?: ApiKeyPrincipal,
+  ) {
+    if (!chunk) {
+      throw new BadRequestException('No chunk provided');
+    }
+
+    return this.toResponse(
+      await this.uploadSessionService.uploadChunk(
+        id,
+        index,
+        chunk.buffer,
+        apiKey,
+      ),
+    );
+  }
+
+  /**
+   * Completa la sesión: ensambla, valida y registra el archivo.
+   * Queda registrado en auditoría como una subida.
+   * @param id - UUID de la sesión
+   * @returns Información del archivo creado, igual que la subida simple
+   * @throws BadRequestException si faltan partes o el archivo no es aceptado
+   * @throws ForbiddenException si la sesión pertenece a otra key
+   */
+  @Post(':id/complete')
+  @Audited(AuditAction.UPLOAD)
+  @UseInterceptors(AuditInterceptor)
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @ApiOperation({ summary: 'Complete a resumable upload' })
+  @ApiResponse({ status: 201, description: 'File assembled and stored' })
+  @ApiResponse({ status: 400, description: 'Missing chunks or invalid file' })
+  @ApiResponse({
+    status: 403,
+    description: 'Session belongs to another API key',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Session already completed or aborted',
+  })
+  async completeSession(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentApiKey() apiKey?: ApiKeyPrincipal,
+  ) {
+    const metadata = await this.uploadSessionService.completeSession(
+      id,
+      apiKey,
+    );
+    return {
+      success: true,
+      file: {
+        id: metadata.id,
+        originalFilename: metadata.originalFilename,
+        storedFilename: metadata.storedFilename,
+        mimetype: metadata.mimetype,
+        size: metadata.size,
+        category: metadata.category,
+        uploadedAt: metadata.uploadedAt,
+        scanStatus: metadata.scanStatus,
+        processingStatus: metadata.processingStatus,
+        downloadUrl: `/storage/download/${metadata.id}`,
+        thumbnailUrl: metadata.thumbnailPath
+          ? `/storage/thumbnail/${metadata.id}`
+          : null,
+      },
+    };
+  }
+
+  /**
+   * Cancela una sesión y descarta las partes recibidas.
+   * @param id - UUID de la sesión
+   * @returns Mensaje de confirmación
+   * @throws ForbiddenException si la sesión pertenece a otra key
+   */
+  @Delete(':id')
+  @ApiOperation({ summary: 'Abort a resumable upload' })
+  @ApiResponse({ status: 200, description: 'Upload session aborted' })
+  @ApiResponse({
+    status: 403,
+    description: 'Session belongs to another API key',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Session already completed or aborted',
+  })
+  async abortSession(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentApiKey() apiKey?: ApiKeyPrincipal,
+  ) {
+    await this.uploadSessionService.abortSession(id, apiKey);
+    return {
+      success: true,
+      message: 'Upload session aborted',
+    };
+  }
+
+  /**
+   * Da formato al estado de la sesión para la respuesta.
+   * @private
+   */
+  private toResponse(state: UploadSessionState) {
+    return {
+      success: true,
+      session: {
+        id: state.session.id,
+        status: state.session.status,
+        originalFilename: state.session.originalFilename,
+        totalSize: state.session.totalSize,
+        chunkSize: state.session.chunkSize,
+        totalChunks: state.session.totalChunks,
+        receivedChunks: state.receivedChunks,
+        missingChunks: state.missingChunks,
+        fileId: state.session.fileId,
+        expiresAt: state.session.expiresAt,
+      },
+    };
+  }
+}
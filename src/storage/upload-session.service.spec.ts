@@ -0,0 +1,200 @@
+import { BadRequestException, ConflictException, ForbiddenException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FindOperator, Repository } from 'typeorm';
+import { UploadSessionService } from './upload-session.service';
+import { StorageService } from './storage.service';
+import { QuotaService } from './quota.service';
+import { StorageDriverRegistry } from './drivers/storage-driver.registry';
+import { type ApiKeyPrincipal } from './api-key.service';
+import { ApiKeyScope } from './entities/api-key.entity';
+import { UploadSession, UploadSessionStatus } from './entities/upload-session.entity';
+import { FileCategory, FileMetadata } from './entities/file-metadata.entity';
+
+// uuid solo se publica como ESM y Jest carga los módulos como CommonJS
+jest.mock('uuid', () => ({ v4: () => jest.requireActual<typeof import('crypto')>('crypto').randomUUID() }));
+
+type Row = UploadSession & Record<string, unknown>;
+
+/**
+ * Tabla en memoria con el subconjunto del Repository que usa UploadSessionService.
+ * `update` acepta un ID o criterios, como el Repository real.
+ */
+function createSessionTable() {
+  const rows: Row[] = [];
+  const matches = (row: Row, where: Record<string, unknown>) =>
+    Object.entries(where).every(([key, expected]) => {
+      if (expected instanceof FindOperator) {
+        return expected.type === 'in'
+          ? (expected.value as unknown[]).includes(row[key])
+          : (row[key] as Date).getTime() < (expected.value as Date).getTime();
+      }
+      return row[key] === expected;
+    });
+
+  return {
+    rows,
+    create: (data: Partial<UploadSession>) => Object.assign(new UploadSession(), data),
+    save: (session: Row) => {
+      session.id = session.id || crypto.randomUUID();
+      rows.push(session);
+      return Promise.resolve(session);
+    },
+    findOne: ({ where }: { where: Record<string, unknown> }) =>
+      Promise.resolve(rows.find((row) => matches(row, where)) ?? null),
+    find: ({ where }: { where: Record<string, unknown> }) => Promise.resolve(rows.filter((row) => matches(row, where))),
+    update: (criteria: string | Record<string, unknown>, changes: Partial<UploadSession>) => {
+      const affected = rows.filter((row) => matches(row, typeof criteria === 'string' ? { id: criteria } : criteria));
+      affected.forEach((row) => Object.assign(row, changes));
+      return Promise.resolve({ affected: affected.length });
+    },
+  };
+}
+
+function principal(overrides: Partial<ApiKeyPrincipal> = {}): ApiKeyPrincipal {
+  return {
+    id: crypto.randomUUID(),
+    name: 'uploader',
+    source: 'database',
+    scopes: [ApiKeyScope.UPLOAD],
+    allowedCategories: null,
+    allowedEntityTypes: null,
+    ...overrides,
+  };
+}
+
+describe('UploadSessionService', () => {
+  let uploadPath: string;
+  let sessions: ReturnType<typeof createSessionTable>;
+  let uploaded: Buffer[];
+  let rejectUpload: boolean;
+  let service: UploadSessionService;
+  const owner = principal();
+
+  beforeEach(async () => {
+    uploadPath = await fs.mkdtemp(path.join(os.tmpdir(), 'fcg-sessions-'));
+    const config = new ConfigService({ UPLOAD_PATH: uploadPath });
+    sessions = createSessionTable();
+    uploaded = [];
+    rejectUpload = false;
+
+    const storage = {
+      assertUploadAllowed: () => undefined,
+      uploadFile: (file: Express.Multer.File) => {
+        if (rejectUpload) {
+          return Promise.reject(new BadRequestException('File content does not match its declared type'));
+        }
+        uploaded.push(file.buffer);
+        return Promise.resolve(Object.assign(new FileMetadata(), { id: crypto.randomUUID(), size: file.size }));
+      },
+    };
+
+    service = new UploadSessionService(
+      sessions as unknown as Repository<UploadSession>,
+      config,
+      storage as unknown as StorageService,
+      new StorageDriverRegistry(config),
+      { assertWithinQuota: () => Promise.resolve() } as unknown as QuotaService,
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(uploadPath, { recursive: true, force: true });
+  });
+
+  function start(totalSize = 10, chunkSize = 4) {
+    return service.createSession(
+      { filename: 'report.txt', mimetype: 'text/plain', totalSize, chunkSize, category: FileCategory.DOCUMENT },
+      owner,
+    );
+  }
+
+  async function storedChunks(session: UploadSession) {
+    return fs.readdir(path.join(uploadPath, 'temp', 'uploads', session.id)).catch(() => []);
+  }
+
+  it('should validate chunk indexes and sizes and report the missing chunks', async () => {
+    const session = await start();
+    expect(session).toMatchObject({ totalChunks: 3, createdByKeyId: owner.id });
+
+    await expect(service.uploadChunk(session.id, 3, Buffer.alloc(4), owner)).rejects.toThrow(
+      'Chunk index must be between 0 and 2',
+    );
+    await expect(service.uploadChunk(session.id, 0, Buffer.alloc(3), owner)).rejects.toThrow(
+      'Chunk 0 must be 4 bytes, received 3',
+    );
+    // La última parte solo lleva el resto
+    await expect(service.uploadChunk(session.id, 2, Buffer.alloc(4), owner)).rejects.toThrow(BadRequestException);
+
+    const state = await service.uploadChunk(session.id, 2, Buffer.from('ij'), owner);
+    expect(state).toMatchObject({ receivedChunks: [2], missingChunks: [0, 1] });
+    await expect(service.completeSession(session.id, owner)).rejects.toThrow('Missing chunks: 0, 1');
+  });
+
+  it('should assemble the chunks in order, store the file and clean up', async () => {
+    const session = await start();
+    await service.uploadChunk(session.id, 1, Buffer.from('efgh'), owner);
+    await service.uploadChunk(session.id, 0, Buffer.from('xxxx'), owner);
+    // Reenviar una parte la reemplaza
+    await service.uploadChunk(session.id, 0, Buffer.from('abcd'), owner);
+    await service.uploadChunk(session.id, 2, Buffer.from('ij'), owner);
+
+    const metadata = await service.completeSession(session.id, owner);
+
+    expect(uploaded.map((buffer) => buffer.toString())).toEqual(['abcdefghij']);
+    expect(sessions.rows[0]).toMatchObject({ status: UploadSessionStatus.COMPLETED, fileId: metadata.id });
+    expect(await storedChunks(session)).toHaveLength(0);
+    await expect(service.completeSession(session.id, owner)).rejects.toThrow(ConflictException);
+  });
+
+  it('should abort sessions whose assembled file is rejected, and on demand', async () => {
+    const rejected = await start(4);
+    await service.uploadChunk(rejected.id, 0, Buffer.from('MZ!!'), owner);
+    rejectUpload = true;
+    await expect(service.completeSession(rejected.id, owner)).rejects.toThrow(BadRequestException);
+    expect(sessions.rows[0].status).toBe(UploadSessionStatus.ABORTED);
+    expect(await storedChunks(rejected)).toHaveLength(0);
+
+    const aborted = await start(4);
+    await service.uploadChunk(aborted.id, 0, Buffer.from('abcd'), owner);
+    await service.abortSession(aborted.id, owner);
+    expect(sessions.rows[1].status).toBe(UploadSessionStatus.ABORTED);
+    expect(await storedChunks(aborted)).toHaveLength(0);
+    await expect(service.uploadChunk(aborted.id, 0, Buffer.from('abcd'), owner)).rejects.toThrow(
+      'Upload session is aborted',
+    );
+  });
+
+  it('should refuse chunks for expired sessions and purge them', async () => {
+    const session = await start(4);
+    await service.uploadChunk(session.id, 0, Buffer.from('abcd'), owner);
+    sessions.rows[0].expiresAt = new Date(Date.now() - 1);
+
+    await expect(service.uploadChunk(session.id, 0, Buffer.from('abcd'), owner)).rejects.toThrow(
+      'Upload session has expired',
+    );
+    await expect(service.purgeExpiredSessions()).resolves.toEqual({ expired: 1 });
+    expect(sessions.rows[0].status).toBe(UploadSessionStatus.EXPIRED);
+    expect(await storedChunks(session)).toHaveLength(0);
+  });
+
+  it('should only let the creating key operate on a session', async () => {
+    const session = await start(4);
+    const other = principal();
+    const restricted = principal({ id: owner.id, allowedCategories: [FileCategory.PROFILE] });
+
+    await expect(service.getSessionState(session.id, other)).rejects.toThrow(ForbiddenException);
+    await expect(service.uploadChunk(session.id, 0, Buffer.from('abcd'), other)).rejects.toThrow(ForbiddenException);
+    await expect(service.completeSession(session.id, other)).rejects.toThrow(ForbiddenException);
+    await expect(service.abortSession(session.id, other)).rejects.toThrow(ForbiddenException);
+    await expect(service.getSessionState(session.id, restricted)).rejects.toThrow(
+      'API key is not allowed to access category DOCUMENT',
+    );
+
+    expect(await storedChunks(session)).toHaveLength(0);
+    expect(sessions.rows[0].status).toBe(UploadSessionStatus.PENDING);
+  });
+});
@@ -0,0 +1,454 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  ConflictException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { In, LessThan, Repository } from 'typeorm';
+import * as path from 'path';
+import {
+  UploadSession,
+  UploadSessionStatus,
+} from './entities/upload-session.entity';
+import { FileMetadata } from './entities/file-metadata.entity';
+import { InitUploadSessionDto } from './dto/init-upload-session.dto';
+import { StorageService } from './storage.service';
+import { QuotaService } from './quota.service';
+import { StorageDriverRegistry } from './drivers/storage-driver.registry';
+import { StorageDriver } from './drivers/storage-driver.interface';
+import { type ApiKeyPrincipal, assertFileAccess } from './api-key.service';
+
+/** Tamaño de parte por defecto (5MB) */
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Estado de una sesión de subida expuesto al cliente para reanudar.
+ */
+export interface UploadSessionState {
+  session: UploadSession;
+  /** Índices (base 0) de las partes ya recibidas */
+  receivedChunks: number[];
+  /** Índices (base 0) de las partes pendientes */
+  missingChunks: number[];
+}
+
+/**
+ * Servicio de subidas reanudables por partes.
+ * Protocolo: iniciar sesión → subir partes numeradas → completar.
+ * El estado se guarda en BD y las partes en temp/uploads/{sessionId}/ del driver de
+ * almacenamiento, por lo que las sesiones sobreviven a reinicios del servicio.
+ * @class UploadSessionService
+ */
+@Injectable()
+export class UploadSessionService {
+  private readonly logger = new Logger(UploadSessionService.name);
+  /** Horas de inactividad tras las cuales una sesión expira */
+  private readonly sessionTtlHours: number;
+
+  constructor(
+    @InjectRepository(UploadSession)
+    private uploadSessionRepository: Repository<UploadSession>,
+    private configService: ConfigService,
+    private storageService: StorageService,
+    private storageDrivers: StorageDriverRegistry,
+    private quotaService: QuotaService,
+  ) {
+    this.sessionTtlHours = parseInt(
+      this.configService.get<string>('UPLOAD_SESSION_TTL_HOURS') || '24',
+      10,
+    );
+  }
+
+  /**
+   * Inicia una sesión de subida por partes.
+   * Valida tamaño, tipo MIME (según la política de la categoría) y cuotas por adelantado con las mismas reglas que la subida simple
+   * (las cuotas se vuelven a verificar al completar).
+   * @param dto - Descripción del archivo completo y sus metadatos
+   * @param principal - Key que crea la sesión (queda como dueña de la sesión)
+   * @returns Sesión creada
+   * @throws BadRequestException si el archivo no sería aceptado
+   * @throws PayloadTooLargeException si el archivo excede alguna cuota
+   */
+  async createSession(
+    dto: InitUploadSessionDto,
+    principal?: ApiKeyPrincipal,
+  ): Promise<UploadSession> {
+    this.storageService.assertUploadAllowed(dto.totalSize, dto.mimetype, dto);
+    await this.quotaService.assertWithinQuota(dto, dto.totalSize);
+
+    const chunkSize = dto.chunkSize || DEFAULT_CHUNK_SIZE;
+    const driver = this.storageDrivers.getDefault();
+
+    const session = this.uploadSessionRepository.create({
+      originalFilename: dto.filename,
+      mimetype: dto.mimetype,
+      totalSize: dto.totalSize,
+      chunkSize,
+      totalChunks: Math.ceil(dto.totalSize / chunkSize),
+      category: dto.category,
+      entityType: dto.entityType,
+      entityId: dto.entityId,
+      uploadedBy: dto.uploadedBy,
+      description: dto.description,
+      metadata: dto.metadata,
+      createdByKeyId: principal?.id ?? null,
+      storageDriver: driver.name,
+      storageBucket: driver.bucket ?? undefined,
+      status: UploadSessionStatus.PENDING,
+      expiresAt: this.nextExpiry(),
+    });
+
+    const saved = await this.uploadSessionRepository.save(session);
+    this.logger.log(
+      `📦 Upload session ${saved.id} started: ${saved.originalFilename} (${saved.totalSize} bytes, ${saved.totalChunks} chunks)`,
+    );
+    return saved;
+  }
+
+  /**
+   * Obtiene el estado de una sesión, incluyendo qué partes faltan.
+   * @param id - UUID de la sesión
+   * @param principal - Key que consulta la sesión
+   * @returns Sesión con partes recibidas y pendientes
+   * @throws NotFoundException si la sesión no existe
+   * @throws ForbiddenException si la key no es la dueña de la sesión o no tiene acceso a su categoría
+   */
+  async getSessionState(
+    id: string,
+    principal?: ApiKeyPrincipal,
+  ): Promise<UploadSessionState> {
+    return this.describeSession(await this.findSession(id, principal));
+  }
+
+  /**
+   * Calcula las partes recibidas y pendientes de una sesión.
+   * @private
+   */
+  private async describeSession(
+    session: UploadSession,
+  ): Promise<UploadSessionState> {
+    const receivedChunks =
+      session.status === UploadSessionStatus.PENDING
+        ? await this.listReceivedChunks(session)
+        : [];
+    const received = new Set(receivedChunks);
+    const missingChunks: number[] = [];
+    for (let index = 0; index < session.totalChunks; index++) {
+      if (!received.has(index)) {
+        missingChunks.push(index);
+      }
+    }
+    return { session, receivedChunks, missingChunks };
+  }
+
+  /**
+   * Guarda una parte de la sesión. Subir de nuevo una parte la reemplaza (reintentos idempotentes).
+   * @param id - UUID de la sesión
+   * @param index - Índice de la parte (base 0)
+   * @param data - Contenido de la parte
+   * @param principal - Key que sube la parte
+   * @returns Estado actualizado de la sesión
+   * @throws BadRequestException si el índice o el tamaño de la parte no son válidos
+   * @throws ConflictException si la sesión ya no acepta partes
+   * @throws ForbiddenException si la key no es la dueña de la sesión o no tiene acceso a su categoría
+   */
+  async uploadChunk(
+    id: string,
+    index: number,
+    data: Buffer,
+    principal?: ApiKeyPrincipal,
+  ): Promise<UploadSessionState> {
+    const session = await this.findSession(id, principal);
+    this.assertPending(session);
+
+    if (!Number.isInteger(index) || index < 0 || index >= session.totalChunks) {
+      throw new BadRequestException(
+        `Chunk index must be between 0 and ${session.totalChunks - 1}`,
+      );
+    }
+
+    const expectedSize = this.expectedChunkSize(session, index);
+    if (data.length !== expectedSize) {
+      throw new BadRequestException(
+        `Chunk ${index} must be ${expectedSize} bytes, received ${data.length}`,
+      );
+    }
+
+    await this.getDriverFor(session).put(this.chunkKey(session, index), data);
+
+    // Cada parte recibida extiende la vida de la sesión
+    session.expiresAt = this.nextExpiry();
+    await this.uploadSessionRepository.update(session.id, {
+      expiresAt: session.expiresAt,
+    });
+
+    return this.describeSession(session);
+  }
+
+  /**
+   * Ensambla las partes, valida el archivo completo y crea sus metadatos.
+   * Si la validación final falla, la sesión se aborta y se eliminan las partes.
+   * @param id - UUID de la sesión
+   * @param principal - Key que completa la sesión
+   * @returns Metadatos del archivo creado
+   * @throws BadRequestException si faltan partes o el archivo no es aceptado
+   * @throws ConflictException si la sesión ya se está completando o terminó
+   * @throws ForbiddenException si la key no es la dueña de la sesión o no tiene acceso a su categoría
+   */
+  async completeSession(
+    id: string,
+    principal?: ApiKeyPrincipal,
+  ): Promise<FileMetadata> {
+    const session = await this.findSession(id, principal);
+    this.assertPending(session);
+
+    const { missingChunks } = await this.describeSession(session);
+    if (missingChunks.length > 0) {
+      throw new BadRequestException(
+        `Missing chunks: ${missingChunks.join(', ')}`,
+      );
+    }
+
+    // Transición atómica para evitar completar dos veces la misma sesión
+    const claim = await this.uploadSessionRepository.update(
+      { id: session.id, status: UploadSessionStatus.PENDING },
+      { status: UploadSessionStatus.COMPLETING },
+    );
+    if (!claim.affected) {
+      throw new ConflictException('Upload session is already being completed');
+    }
+
+    try {
+      const buffer = await this.assembleChunks(session);
+      if (buffer.length !== Number(session.totalSize)) {
+        throw new BadRequestException(
+          `Assembled file is ${buffer.length} bytes, expected ${session.totalSize}`,
+        );
+      }
+
+      const metadata = await this.storageService.uploadFile(
+        {
+          buffer,
+          originalname: session.originalFilename,
+          mimetype: session.mimetype,
+          size: buffer.length,
+        } as Express.Multer.File,
+        {
+          category: session.category,
+          entityType: session.entityType ?? undefined,
+          entityId: session.entityId ?? undefined,
+          uploadedBy: session.uploadedBy ?? undefined,
+          description: session.description ?? undefined,
+          metadata: session.metadata ?? undefined,
+        },
+      );
+
+      await this.uploadSessionRepository.update(session.id, {
+        status: UploadSessionStatus.COMPLETED,
+        fileId: metadata.id,
+      });
+      await this.deleteChunks(session);
+
+      this.logger.log(
+        `✅ Upload session ${session.id} completed as file ${metadata.id}`,
+      );
+      return metadata;
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        // El archivo nunca será aceptado: abortar y liberar espacio
+        await this.uploadSessionRepository.update(session.id, {
+          status: UploadSessionStatus.ABORTED,
+        });
+        await this.deleteChunks(session);
+      } else {
+        // Error transitorio: permitir reintentar la finalización
+        await this.uploadSessionRepository.update(session.id, {
+          status: UploadSessionStatus.PENDING,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Cancela una sesión y elimina sus partes.
+   * @param id - UUID de la sesión
+   * @param principal - Key que cancela la sesión
+   * @throws ConflictException si la sesión ya no está pendiente
+   * @throws ForbiddenException si la key no es la dueña de la sesión o no tiene acceso a su categoría
+   */
+  async abortSession(id: string, principal?: ApiKeyPrincipal): Promise<void> {
+    const session = await this.findSession(id, principal);
+    this.assertPending(session);
+
+    await this.uploadSessionRepository.update(session.id, {
+      status: UploadSessionStatus.ABORTED,
+    });
+    await this.deleteChunks(session);
+  }
+
+  /**
+   * Purga las sesiones abandonadas (sin actividad dentro del TTL).
+   * Incluye sesiones que quedaron en COMPLETING por una caída del proceso.
+   * Se ejecuta cada hora.
+   * @returns Cantidad de sesiones expiradas
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async purgeExpiredSessions(): Promise<{ expired: number }> {
+    const sessions = await this.uploadSessionRepository.find({
+      where: {
+        status: In([
+          UploadSessionStatus.PENDING,
+          UploadSessionStatus.COMPLETING,
+        ]),
+        expiresAt: LessThan(new Date()),
+      },
+    });
+
+    let expired = 0;
+    for (const session of sessions) {
+      try {
+        await this.deleteChunks(session);
+        await this.uploadSessionRepository.update(session.id, {
+          status: UploadSessionStatus.EXPIRED,
+        });
+        expired++;
+      } catch (error) {
+        this.logger.error(
+          `❌ Failed to purge upload session ${session.id}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    if (expired > 0) {
+      this.logger.log(`🧹 Purged ${expired} expired upload sessions`);
+    }
+    return { expired };
+  }
+
+  /**
+   * Busca una sesión por ID y verifica que la key pueda operar sobre ella:
+   * debe ser la key que la creó y tener acceso a su categoría y tipo de entidad.
+   * @private
+   */
+  private async findSession(
+    id: string,
+    principal?: ApiKeyPrincipal,
+  ): Promise<UploadSession> {
+    const session = await this.uploadSessionRepository.findOne({
+      where: { id },
+    });
+    if (!session) {
+      throw new NotFoundException('Upload session not found');
+    }
+
+    if (
+      principal &&
+      session.createdByKeyId &&
+      session.createdByKeyId !== principal.id
+    ) {
+      throw new ForbiddenException('Upload session belongs to another API key');
+    }
+    assertFileAccess(principal, session);
+    return session;
+  }
+
+  /**
+   * Verifica que la sesión siga aceptando partes.
+   * @private
+   */
+  private assertPending(session: UploadSession): void {
+    if (session.status !== UploadSessionStatus.PENDING) {
+      throw new ConflictException(
+        `Upload session is ${session.status.toLowerCase()}`,
+      );
+    }
+    if (session.expiresAt < new Date()) {
+      throw new ConflictException('Upload session has expired');
+    }
+  }
+
+  /**
+   * Lista los índices de partes presentes en el almacenamiento.
+   * @private
+   */
+  private async listReceivedChunks(session: UploadSession): Promise<number[]> {
+    const indexes: number[] = [];
+    for await (const key of this.getDriverFor(session).list(
+      this.sessionPrefix(session),
+    )) {
+      const match = /^(\d+)\.part$/.exec(path.posix.basename(key));
+      if (match) {
+        const index = parseInt(match[1], 10);
+        if (index < session.totalChunks) {
+          indexes.push(index);
+        }
+      }
+    }
+    return indexes.sort((a, b) => a - b);
+  }
+
+  /**
+   * Lee y concatena las partes en orden.
+   * @private
+   */
+  private async assembleChunks(session: UploadSession): Promise<Buffer> {
+    const driver = this.getDriverFor(session);
+    const parts: Buffer[] = [];
+    for (let index = 0; index < session.totalChunks; index++) {
+      parts.push(await driver.get(this.chunkKey(session, index)));
+    }
+    return Buffer.concat(parts);
+  }
+
+  /**
+   * Elimina todas las partes de la sesión.
+   * @private
+   */
+  private async deleteChunks(session: UploadSession): Promise<void> {
+    const driver = this.getDriverFor(session);
+    for await (const key of driver.list(this.sessionPrefix(session))) {
+      await driver.delete(key);
+    }
+  }
+
+  /**
+   * Tamaño esperado de una parte: todas iguales salvo la última.
+   * @private
+   */
+  private expectedChunkSize(session: UploadSession, index: number): number {
+    if (index < session.totalChunks - 1) {
+      return session.chunkSize;
+    }
+    return (
+      Number(session.totalSize) - session.chunkSize * (session.totalChunks - 1)
+    );
+  }
+
+  private sessionPrefix(session: UploadSession): string {
+    return path.posix.join('temp', 'uploads', session.id);
+  }
+
+  private chunkKey(session: UploadSession, index: number): string {
+    return path.posix.join(
+      this.sessionPrefix(session),
+      `${index.toString().padStart(6, '0')}.part`,
+    );
+  }
+
+  private getDriverFor(session: UploadSession): StorageDriver {
+    return this.storageDrivers.resolve(
+      session.storageDriver,
+      session.storageBucket,
+    );
+  }
+
+  private nextExpiry(): Date {
+    return new Date(Date.now() + this.sessionTtlHours * 60 * 60 * 1000);
+  }
+}
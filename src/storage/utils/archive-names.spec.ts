@@ -0,0 +1,20 @@
+import { createEntryNamer, sanitizeEntryName } from './archive-names';
+
+describe('archive entry names', () => {
+  it('should strip paths and control characters', () => {
+    expect(sanitizeEntryName('../../etc/passwd')).toBe('_.._etc_passwd');
+    expect(sanitizeEntryName('C:\\temp\\informe\u0000.pdf')).toBe('C__temp_informe_.pdf');
+    expect(sanitizeEntryName(' .. ')).toBe('file');
+  });
+
+  it('should number repeated names before the extension, ignoring case', () => {
+    const nameFor = createEntryNamer(['manifest.json']);
+
+    expect(nameFor('informe.pdf')).toBe('informe.pdf');
+    expect(nameFor('Informe.PDF')).toBe('Informe (2).PDF');
+    expect(nameFor('informe.pdf')).toBe('informe (3).pdf');
+    expect(nameFor('manifest.json')).toBe('manifest (2).json');
+    expect(nameFor('README')).toBe('README');
+    expect(nameFor('readme')).toBe('readme (2)');
+  });
+});
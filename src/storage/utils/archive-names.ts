@@ -0,0 +1,39 @@
+/** Largo máximo del nombre de una entrada (sin contar el sufijo de duplicado) */
+const MAX_ENTRY_NAME_LENGTH = 200;
+
+/**
+ * Limpia un nombre de archivo para usarlo como entrada de un ZIP: sin rutas ni caracteres de control.
+ * @param filename - Nombre original del archivo
+ * @returns Nombre seguro (o "file" si no queda nada)
+ */
+export function sanitizeEntryName(filename: string): string {
+  const cleaned = filename
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u001f\u007f/\\:*?"<>|]/g, '_')
+    .replace(/^[\s.]+|[\s.]+$/g, '');
+  return cleaned.slice(-MAX_ENTRY_NAME_LENGTH) || 'file';
+}
+
+/**
+ * Crea un generador de nombres únicos para las entradas de un ZIP.
+ * Los repetidos reciben un sufijo antes de la extensión ("informe.pdf", "informe (2).pdf").
+ * La comparación ignora mayúsculas, como los sistemas de archivos de Windows y macOS.
+ * @param reserved - Nombres ya ocupados (ej: el manifiesto)
+ * @returns Función que devuelve un nombre libre para cada nombre original
+ */
+export function createEntryNamer(reserved: string[] = []): (filename: string) => string {
+  const used = new Set(reserved.map((name) => name.toLowerCase()));
+
+  return (filename) => {
+    const name = sanitizeEntryName(filename);
+    const dot = name.lastIndexOf('.');
+    const [base, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+
+    let candidate = name;
+    for (let copy = 2; used.has(candidate.toLowerCase()); copy++) {
+      candidate = `${base} (${copy})${extension}`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  };
+}
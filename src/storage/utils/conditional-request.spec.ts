@@ -0,0 +1,120 @@
+import {
+  ifRangeMatches,
+  isNotModified,
+  parseRangeHeader,
+} from './conditional-request';
+
+describe('conditional-request', () => {
+  describe('parseRangeHeader', () => {
+    it('should return the full resource without a Range header', () => {
+      expect(parseRangeHeader(undefined, 100)).toEqual({ type: 'full' });
+    });
+
+    it('should parse explicit, open-ended and suffix ranges', () => {
+      expect(parseRangeHeader('bytes=0-9', 100)).toEqual({
+        type: 'partial',
+        range: { start: 0, end: 9 },
+      });
+      expect(parseRangeHeader('bytes=90-', 100)).toEqual({
+        type: 'partial',
+        range: { start: 90, end: 99 },
+      });
+      expect(parseRangeHeader('bytes=-10', 100)).toEqual({
+        type: 'partial',
+        range: { start: 90, end: 99 },
+      });
+    });
+
+    it('should clamp the end of the range to the resource size', () => {
+      expect(parseRangeHeader('bytes=50-500', 100)).toEqual({
+        type: 'partial',
+        range: { start: 50, end: 99 },
+      });
+    });
+
+    it('should report ranges starting past the end as unsatisfiable', () => {
+      expect(parseRangeHeader('bytes=100-', 100)).toEqual({
+        type: 'unsatisfiable',
+      });
+      expect(parseRangeHeader('bytes=-0', 100)).toEqual({
+        type: 'unsatisfiable',
+      });
+    });
+
+    it('should ignore invalid and multi-range headers', () => {
+      expect(parseRangeHeader('bytes=9-0', 100)).toEqual({ type: 'full' });
+      expect(parseRangeHeader('bytes=0-1,5-6', 100)).toEqual({ type: 'full' });
+      expect(parseRangeHeader('items=0-1', 100)).toEqual({ type: 'full' });
+    });
+  });
+
+  describe('isNotModified', () => {
+    const etag = '"abc"';
+    const lastModified = new Date('2025-01-01T10:00:00.500Z');
+
+    it('should match If-None-Match including weak and wildcard validators', () => {
+      expect(
+        isNotModified({ 'if-none-match': '"abc"' }, etag, lastModified),
+      ).toBe(true);
+      expect(
+        isNotModified({ 'if-none-match': 'W/"abc"' }, etag, lastModified),
+      ).toBe(true);
+      expect(
+        isNotModified({ 'if-none-match': '"x", "abc"' }, etag, lastModified),
+      ).toBe(true);
+      expect(isNotModified({ 'if-none-match': '*' }, etag, lastModified)).toBe(
+        true,
+      );
+      expect(
+        isNotModified({ 'if-none-match': '"other"' }, etag, lastModified),
+      ).toBe(false);
+    });
+
+    it('should compare If-Modified-Since with second precision', () => {
+      expect(
+        isNotModified(
+          { 'if-modified-since': lastModified.toUTCString() },
+          etag,
+          lastModified,
+        ),
+      ).toBe(true);
+      expect(
+        isNotModified(
+          { 'if-modified-since': 'Wed, 01 Jan 2025 09:59:59 GMT' },
+          etag,
+          lastModified,
+        ),
+      ).toBe(false);
+    });
+
+    it('should ignore If-Modified-Since when If-None-Match is present', () => {
+      expect(
+        isNotModified(
+          {
+            'if-none-match': '"other"',
+            'if-modified-since': lastModified.toUTCString(),
+          },
+          etag,
+          lastModified,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe('ifRangeMatches', () => {
+    const lastModified = new Date('2025-01-01T10:00:00Z');
+
+    it('should require a strong ETag match', () => {
+      expect(ifRangeMatches('"abc"', '"abc"', lastModified)).toBe(true);
+      expect(ifRangeMatches('W/"abc"', '"abc"', lastModified)).toBe(false);
+      expect(ifRangeMatches('"old"', '"abc"', lastModified)).toBe(false);
+    });
+
+    it('should accept an exact Last-Modified date', () => {
+      expect(
+        ifRangeMatches(lastModified.toUTCString(), '"abc"', lastModified),
+      ).toBe(true);
+      expect(ifRangeMatches(undefined, '"abc"', lastModified)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { ByteRange } from '../drivers/storage-driver.interface';
+
+/**
+ * Resultado de interpretar el header Range contra el tamaño del recurso.
+ */
+export type RangeResult =
+  | { type: 'full' }
+  | { type: 'partial'; range: ByteRange }
+  | { type: 'unsatisfiable' };
+
+/**
+ * Interpreta un header Range de bytes (RFC 9110).
+ * Solo se soporta un rango; múltiples rangos o sintaxis inválida devuelven el recurso completo,
+ * como permite la especificación.
+ * @param header - Valor del header Range
+ * @param size - Tamaño total del recurso en bytes
+ * @returns Rango a servir, recurso completo o rango no satisfacible
+ */
+export function parseRangeHeader(
+  header: string | undefined,
+  size: number,
+): RangeResult {
+  if (!header) {
+    return { type: 'full' };
+  }
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return { type: 'full' };
+  }
+
+  let start: number;
+  let end: number;
+
+  if (match[1] === '') {
+    // Rango sufijo: últimos N bytes
+    const suffixLength = parseInt(match[2], 10);
+    if (suffixLength === 0) {
+      return { type: 'unsatisfiable' };
+    }
+    start = Math.max(size - suffixLength, 0);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    const requestedEnd = match[2] === '' ? Infinity : parseInt(match[2], 10);
+    if (requestedEnd < start) {
+      // Rango sintácticamente inválido: se ignora
+      return { type: 'full' };
+    }
+    end = Math.min(requestedEnd, size - 1);
+  }
+
+  if (start >= size || end < start) {
+    return { type: 'unsatisfiable' };
+  }
+
+  return { type: 'partial', range: { start, end } };
+}
+
+/**
+ * Compara ETags usando comparación débil (ignora el prefijo W/).
+ */
+function etagMatches(candidates: string, etag: string): boolean {
+  const normalized = etag.replace(/^W\//, '');
+  return candidates
+    .split(',')
+    .map((candidate) => candidate.trim())
+    .some(
+      (candidate) =>
+        candidate === '*' || candidate.replace(/^W\//, '') === normalized,
+    );
+}
+
+/**
+ * Trunca una fecha a segundos (precisión de los headers HTTP).
+ */
+function toHttpSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * Evalúa If-None-Match / If-Modified-Since para decidir si responder 304.
+ * If-None-Match tiene prioridad: si está presente, If-Modified-Since se ignora.
+ * @param headers - Headers de la petición
+ * @param etag - ETag actual del recurso
+ * @param lastModified - Fecha de modificación del recurso
+ * @returns true si el cliente ya tiene la versión vigente
+ */
+export function isNotModified(
+  headers: Record<string, string | string[] | undefined>,
+  etag: string,
+  lastModified: Date,
+): boolean {
+  const ifNoneMatch = headers['if-none-match'];
+  if (typeof ifNoneMatch === 'string') {
+    return etagMatches(ifNoneMatch, etag);
+  }
+
+  const ifModifiedSince = headers['if-modified-since'];
+  if (typeof ifModifiedSince === 'string') {
+    const since = Date.parse(ifModifiedSince);
+    if (!isNaN(since)) {
+      return toHttpSeconds(lastModified) <= Math.floor(since / 1000);
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Evalúa If-Range: el rango solo se aplica si el validador coincide con el recurso actual.
+ * @param ifRange - Valor del header If-Range (ETag o fecha)
+ * @param etag - ETag actual del recurso
+ * @param lastModified - Fecha de modificación del recurso
+ * @returns true si el rango solicitado puede servirse
+ */
+export function ifRangeMatches(
+  ifRange: string | undefined,
+  etag: string,
+  lastModified: Date,
+): boolean {
+  if (!ifRange) {
+    return true;
+  }
+
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    // If-Range exige comparación fuerte
+    return !ifRange.startsWith('W/') && ifRange === etag;
+  }
+
+  const date = Date.parse(ifRange);
+  return (
+    !isNaN(date) && toHttpSeconds(lastModified) === Math.floor(date / 1000)
+  );
+}
@@ -0,0 +1,23 @@
+import { toCsvField, toCsvRow } from './csv';
+
+describe('csv', () => {
+  it('should leave plain values unquoted', () => {
+    expect(toCsvRow(['download', 200, true, null, undefined])).toBe('download,200,true,,\r\n');
+  });
+
+  it('should serialize dates as ISO 8601', () => {
+    expect(toCsvField(new Date('2025-03-01T12:00:00Z'))).toBe('2025-03-01T12:00:00.000Z');
+  });
+
+  it('should quote fields with separators, quotes or line breaks', () => {
+    expect(toCsvField('a,b')).toBe('"a,b"');
+    expect(toCsvField('say "hi"')).toBe('"say ""hi"""');
+    expect(toCsvField('line1\nline2')).toBe('"line1\nline2"');
+  });
+
+  it('should neutralize spreadsheet formulas in text fields', () => {
+    expect(toCsvField('=HYPERLINK("http://evil")')).toBe('"\'=HYPERLINK(""http://evil"")"');
+    expect(toCsvField('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(toCsvField(-5)).toBe('-5');
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Serialización CSV (RFC 4180) para exportaciones.
+ */
+
+/** Caracteres iniciales que Excel/LibreOffice interpretan como fórmula */
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+/**
+ * Serializa un valor como campo CSV.
+ * Los textos que empiezan como fórmula se prefijan con ' para evitar inyección de fórmulas
+ * al abrir la exportación en una hoja de cálculo (user agents y nombres los controla el cliente).
+ * @param value - Valor a serializar (null/undefined = campo vacío, Date = ISO 8601)
+ */
+export function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === 'string') {
+    text = FORMULA_PREFIXES.some((prefix) => value.startsWith(prefix)) ? `'${value}` : value;
+  } else if (typeof value === 'number' || typeof value === 'boolean') {
+    text = String(value);
+  } else {
+    text = JSON.stringify(value);
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializa una fila CSV terminada en CRLF.
+ * @param values - Campos de la fila
+ */
+export function toCsvRow(values: unknown[]): string {
+  return `${values.map(toCsvField).join(',')}\r\n`;
+}
@@ -0,0 +1,89 @@
+import {
+  detectFileType,
+  isDeclaredTypeConsistent,
+  normalizeMimeType,
+} from './file-signature';
+
+describe('file-signature', () => {
+  describe('detectFileType', () => {
+    it('should detect images by their magic bytes', () => {
+      expect(detectFileType(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00]))).toEqual({
+        mimetype: 'image/jpeg',
+        extension: '.jpg',
+      });
+      expect(
+        detectFileType(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]))?.mimetype,
+      ).toBe('image/png');
+      expect(detectFileType(Buffer.from('GIF89a\x01\x00', 'latin1'))?.mimetype).toBe('image/gif');
+      expect(detectFileType(Buffer.from('RIFF\x10\x00\x00\x00WEBPVP8 ', 'latin1'))?.mimetype).toBe(
+        'image/webp',
+      );
+    });
+
+    it('should detect PDF documents', () => {
+      expect(detectFileType(Buffer.from('%PDF-1.7\n%\xe2\xe3\xcf\xd3', 'latin1'))).toEqual({
+        mimetype: 'application/pdf',
+        extension: '.pdf',
+      });
+    });
+
+    it('should tell OOXML documents apart from plain ZIP archives', () => {
+      const zipHeader = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+      const docx = Buffer.concat([zipHeader, Buffer.from('....[Content_Types].xml....word/document.xml')]);
+      const xlsx = Buffer.concat([zipHeader, Buffer.from('....[Content_Types].xml....xl/workbook.xml')]);
+      const zip = Buffer.concat([zipHeader, Buffer.from('....readme.txt')]);
+
+      expect(detectFileType(docx)?.extension).toBe('.docx');
+      expect(detectFileType(xlsx)?.extension).toBe('.xlsx');
+      expect(detectFileType(zip)?.mimetype).toBe('application/zip');
+    });
+
+    it('should detect legacy Office documents inside compound files', () => {
+      const cfbHeader = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+      const doc = Buffer.concat([cfbHeader, Buffer.alloc(16), Buffer.from('WordDocument', 'utf16le')]);
+
+      expect(detectFileType(doc)).toEqual({ mimetype: 'application/msword', extension: '.doc' });
+    });
+
+    it('should detect SVG, CSV and plain text content', () => {
+      const svg = Buffer.from('<?xml version="1.0"?>\n<!-- logo -->\n<svg xmlns="http://www.w3.org/2000/svg"></svg>');
+      const csv = Buffer.from('name,email\nAna,ana@example.com\nLuis,luis@example.com\n');
+
+      expect(detectFileType(svg)?.mimetype).toBe('image/svg+xml');
+      expect(detectFileType(csv)?.mimetype).toBe('text/csv');
+      expect(detectFileType(Buffer.from('Informe de actividades\nsin separadores'))?.mimetype).toBe(
+        'text/plain',
+      );
+    });
+
+    it('should return null for unknown binary or empty content', () => {
+      expect(detectFileType(Buffer.from([0x4d, 0x5a, 0x90, 0x00, 0x03]))).toBeNull();
+      expect(detectFileType(Buffer.from([0x01, 0x02, 0x03]))).toBeNull();
+      expect(detectFileType(Buffer.alloc(0))).toBeNull();
+    });
+  });
+
+  describe('normalizeMimeType', () => {
+    it('should lowercase, strip parameters and resolve aliases', () => {
+      expect(normalizeMimeType('Text/CSV; charset=utf-8')).toBe('text/csv');
+      expect(normalizeMimeType('image/jpg')).toBe('image/jpeg');
+    });
+  });
+
+  describe('isDeclaredTypeConsistent', () => {
+    it('should accept matching types and aliases', () => {
+      expect(isDeclaredTypeConsistent('image/jpeg', 'image/jpeg')).toBe(true);
+      expect(isDeclaredTypeConsistent('image/pjpeg', 'image/jpeg')).toBe(true);
+    });
+
+    it('should treat plain text and CSV as interchangeable', () => {
+      expect(isDeclaredTypeConsistent('text/csv', 'text/plain')).toBe(true);
+      expect(isDeclaredTypeConsistent('text/plain', 'text/csv')).toBe(true);
+    });
+
+    it('should reject a declared type that disagrees with the content', () => {
+      expect(isDeclaredTypeConsistent('image/png', 'application/pdf')).toBe(false);
+      expect(isDeclaredTypeConsistent('application/pdf', 'text/plain')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Tipo de archivo detectado a partir del contenido.
+ */
+export interface DetectedFileType {
+  /** Tipo MIME detectado */
+  mimetype: string;
+  /** Extensión normalizada (con punto) */
+  extension: string;
+}
+
+/** Extensión canónica por tipo MIME detectable */
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/svg+xml': '.svg',
+  'application/pdf': '.pdf',
+  'application/zip': '.zip',
+  'application/msword': '.doc',
+  'application/vnd.ms-excel': '.xls',
+  'application/vnd.ms-powerpoint': '.ppt',
+  'application/x-cfb': '.cfb',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': '.pptx',
+  'text/plain': '.txt',
+  'text/csv': '.csv',
+};
+
+/** Tipos de texto intercambiables (un CSV de una columna es texto plano y viceversa) */
+const TEXT_TYPES = ['text/plain', 'text/csv'];
+
+/** Alias no estándar que envían algunos clientes */
+const MIME_ALIASES: Record<string, string> = {
+  'image/jpg': 'image/jpeg',
+  'image/pjpeg': 'image/jpeg',
+  'image/x-png': 'image/png',
+  'application/csv': 'text/csv',
+  'text/comma-separated-values': 'text/csv',
+};
+
+/** Bytes inspeccionados para heurísticas de texto */
+const TEXT_SAMPLE_SIZE = 8192;
+
+function startsWith(buffer: Buffer, signature: number[], offset = 0): boolean {
+  if (buffer.length < offset + signature.length) {
+    return false;
+  }
+  return signature.every((byte, index) => buffer[offset + index] === byte);
+}
+
+function asciiAt(buffer: Buffer, offset: number, text: string): boolean {
+  return buffer.toString('latin1', offset, offset + text.length) === text;
+}
+
+/**
+ * Distingue documentos OOXML (docx/xlsx/pptx) de un ZIP genérico
+ * buscando las entradas características en los headers del ZIP.
+ */
+function detectZipContainer(buffer: Buffer): string {
+  if (!buffer.includes('[Content_Types].xml')) {
+    return 'application/zip';
+  }
+  if (buffer.includes('word/')) {
+    return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+  }
+  if (buffer.includes('xl/')) {
+    return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+  }
+  if (buffer.includes('ppt/')) {
+    return 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+  }
+  return 'application/zip';
+}
+
+/**
+ * Distingue documentos Office legacy (doc/xls/ppt) dentro de un Compound File Binary
+ * buscando los nombres de stream (UTF-16LE) del directorio.
+ */
+function detectCompoundFile(buffer: Buffer): string {
+  const has = (name: string) => buffer.includes(Buffer.from(name, 'utf16le'));
+  if (has('WordDocument')) {
+    return 'application/msword';
+  }
+  if (has('Workbook') || has('Book')) {
+    return 'application/vnd.ms-excel';
+  }
+  if (has('PowerPoint Document')) {
+    return 'application/vnd.ms-powerpoint';
+  }
+  return 'application/x-cfb';
+}
+
+/**
+ * Decodifica una muestra como UTF-8 estricto; null si no es texto.
+ */
+function decodeText(buffer: Buffer): string | null {
+  const sample = buffer.subarray(0, TEXT_SAMPLE_SIZE);
+  if (sample.includes(0)) {
+    return null;
+  }
+  try {
+    // stream: true tolera un carácter multibyte cortado al final de la muestra
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    // Rechazar caracteres de control distintos de tab, saltos de línea y form feed
+    // eslint-disable-next-line no-control-regex
+    return /[\x01-\x08\x0b\x0e-\x1f\x7f]/.test(text) ? null : text;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Indica si un texto es un documento SVG (raíz <svg> tras declaración, comentarios o doctype).
+ */
+function isSvg(text: string): boolean {
+  const body = text
+    .replace(/^\uFEFF/, '')
+    .replace(/<\?xml[\s\S]*?\?>/, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<!DOCTYPE[\s\S]*?>/i, '')
+    .trimStart();
+  return /^<svg[\s>]/i.test(body);
+}
+
+/**
+ * Heurística de CSV: al menos dos líneas con la misma cantidad (>0) de separadores.
+ */
+function isCsv(text: string): boolean {
+  const lines = text
+    .split(/\r?\n/)
+    .slice(0, 20)
+    .filter((line) => line.trim().length > 0);
+  if (lines.length < 2) {
+    return false;
+  }
+  // La última línea de la muestra puede estar cortada
+  const complete = lines.length > 2 ? lines.slice(0, -1) : lines;
+  return [',', ';', '\t'].some((separator) => {
+    const counts = complete.map((line) => line.split(separator).length - 1);
+    return counts[0] > 0 && counts.every((count) => count === counts[0]);
+  });
+}
+
+/**
+ * Detecta el tipo de un archivo a partir de sus firmas (magic bytes).
+ * Soporta JPEG, PNG, GIF, WebP, PDF, OOXML, Office legacy, SVG, CSV y texto plano.
+ * @param buffer - Contenido del archivo
+ * @returns Tipo detectado o null si el contenido no coincide con ningún tipo conocido
+ */
+export function detectFileType(buffer: Buffer): DetectedFileType | null {
+  const mimetype = detectMimeType(buffer);
+  return mimetype ? { mimetype, extension: EXTENSIONS[mimetype] } : null;
+}
+
+function detectMimeType(buffer: Buffer): string | null {
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) {
+    return 'image/jpeg';
+  }
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'image/png';
+  }
+  if (asciiAt(buffer, 0, 'GIF87a') || asciiAt(buffer, 0, 'GIF89a')) {
+    return 'image/gif';
+  }
+  if (asciiAt(buffer, 0, 'RIFF') && asciiAt(buffer, 8, 'WEBP')) {
+    return 'image/webp';
+  }
+  if (asciiAt(buffer, 0, '%PDF-')) {
+    return 'application/pdf';
+  }
+  if (startsWith(buffer, [0x50, 0x4b, 0x03, 0x04])) {
+    return detectZipContainer(buffer);
+  }
+  if (startsWith(buffer, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+    return detectCompoundFile(buffer);
+  }
+
+  const text = decodeText(buffer);
+  if (text === null || text.trim().length === 0) {
+    return null;
+  }
+  if (isSvg(text)) {
+    return 'image/svg+xml';
+  }
+  return isCsv(text) ? 'text/csv' : 'text/plain';
+}
+
+/**
+ * Normaliza un tipo MIME declarado (minúsculas, sin parámetros, alias resueltos).
+ * @param mimetype - Tipo MIME declarado por el cliente
+ * @returns Tipo MIME normalizado
+ */
+export function normalizeMimeType(mimetype: string): string {
+  const base = mimetype.split(';')[0].trim().toLowerCase();
+  return MIME_ALIASES[base] ?? base;
+}
+
+/**
+ * Indica si el tipo declarado por el cliente es coherente con el detectado.
+ * @param declared - Tipo MIME declarado
+ * @param detected - Tipo MIME detectado por firma
+ * @returns true si coinciden (considerando alias y la familia de texto)
+ */
+export function isDeclaredTypeConsistent(declared: string, detected: string): boolean {
+  const normalized = normalizeMimeType(declared);
+  if (normalized === detected) {
+    return true;
+  }
+  return TEXT_TYPES.includes(normalized) && TEXT_TYPES.includes(detected);
+}
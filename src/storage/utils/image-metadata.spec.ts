@@ -0,0 +1,46 @@
+import sharp from 'sharp';
+import { ImageProcessingError, processImage } from './image-metadata';
+
+/** Foto de 40x20 como la guarda un celular girado: orientación 6, cámara y ubicación GPS */
+function phonePhoto(): Promise<Buffer> {
+  return sharp({ create: { width: 40, height: 20, channels: 3, background: '#336699' } })
+    .jpeg()
+    .withMetadata({ orientation: 6 })
+    .withExif({
+      IFD0: { Make: 'PhoneMaker', Model: 'X1' },
+      IFD3: { GPSLatitudeRef: 'S', GPSLatitude: '33/1 26/1 0/1' },
+    })
+    .toBuffer();
+}
+
+describe('image-metadata', () => {
+  it('should strip EXIF data and apply the orientation to the pixels', async () => {
+    const { content, info } = await processImage(await phonePhoto(), 'image/jpeg', { strip: true });
+
+    expect(info).toEqual({ width: 20, height: 40, format: 'jpeg', orientation: 6, stripped: true });
+    const stored = await sharp(content).metadata();
+    expect(stored).toMatchObject({ width: 20, height: 40 });
+    expect(stored.exif).toBeUndefined();
+    expect(stored.orientation).toBeUndefined();
+    expect(content.includes('PhoneMaker')).toBe(false);
+  });
+
+  it('should keep the original bytes when stripping is disabled or there is nothing to strip', async () => {
+    const photo = await phonePhoto();
+    const plain = await sharp({ create: { width: 8, height: 8, channels: 4, background: '#ffffff' } }).png().toBuffer();
+
+    const kept = await processImage(photo, 'image/jpeg', { strip: false });
+    expect(kept.content).toBe(photo);
+    expect(kept.info).toMatchObject({ width: 20, height: 40, orientation: 6, stripped: false });
+
+    const untouched = await processImage(plain, 'image/png', { strip: true });
+    expect(untouched.content).toBe(plain);
+    expect(untouched.info).toEqual({ width: 8, height: 8, format: 'png', orientation: null, stripped: false });
+  });
+
+  it('should fail on content that cannot be decoded', async () => {
+    const truncated = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+
+    await expect(processImage(truncated, 'image/jpeg', { strip: true })).rejects.toThrow(ImageProcessingError);
+  });
+});
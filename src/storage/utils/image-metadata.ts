@@ -0,0 +1,104 @@
+import sharp from 'sharp';
+
+/**
+ * Error lanzado cuando una imagen no se puede decodificar para leer o limpiar sus metadatos.
+ */
+export class ImageProcessingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageProcessingError';
+  }
+}
+
+/**
+ * Campos seguros extraídos de una imagen (se guardan en FileMetadata.metadata.image).
+ * No incluye datos de EXIF/XMP/IPTC como ubicación GPS, cámara o número de serie.
+ */
+export interface ImageInfo {
+  /** Ancho en píxeles, tal como se muestra (ya orientada) */
+  width: number;
+  /** Alto en píxeles, tal como se muestra (ya orientada) */
+  height: number;
+  /** Formato detectado (jpeg, png, webp, gif) */
+  format: string;
+  /** Orientación EXIF original (1-8), null si no la tenía */
+  orientation: number | null;
+  /** Indica si se eliminaron los metadatos y se normalizó la orientación */
+  stripped: boolean;
+}
+
+/**
+ * Resultado del procesamiento de una imagen subida.
+ */
+export interface ProcessedImage {
+  /** Contenido a guardar (el original si no hubo nada que limpiar) */
+  content: Buffer;
+  /** Campos seguros de la imagen */
+  info: ImageInfo;
+}
+
+/** Tipos rasterizados cuyos metadatos se leen al subir */
+export const RASTER_IMAGE_TYPES = new Set(['image/jpeg', 'image/png', 'image/webp', 'image/gif']);
+
+/**
+ * Tipos que se re-codifican para limpiar metadatos.
+ * GIF queda fuera: no lleva EXIF y re-codificarlo perdería la animación.
+ */
+const SCRUBBABLE_IMAGE_TYPES = new Set(['image/jpeg', 'image/png', 'image/webp']);
+
+/** Calidad de la re-codificación de JPEG y WebP al limpiar metadatos */
+const SCRUB_QUALITY = 92;
+
+/**
+ * Lee los campos seguros de una imagen y, si se pide, elimina sus metadatos EXIF/XMP/IPTC
+ * (y comentarios PNG) aplicando antes la orientación EXIF a los píxeles.
+ * Solo se re-codifica cuando hay algo que limpiar; el perfil de color ICC se conserva.
+ * @param buffer - Contenido de la imagen
+ * @param mimetype - Tipo MIME detectado por contenido
+ * @param options - strip: limpiar metadatos y normalizar la orientación
+ * @returns Contenido a guardar y campos seguros
+ * @throws ImageProcessingError si la imagen no se puede decodificar
+ */
+export async function processImage(
+  buffer: Buffer,
+  mimetype: string,
+  options: { strip: boolean },
+): Promise<ProcessedImage> {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(buffer).metadata();
+  } catch (error) {
+    throw new ImageProcessingError((error as Error).message);
+  }
+
+  const orientation = metadata.orientation ?? null;
+  const hasMetadata = Boolean(metadata.exif || metadata.xmp || metadata.iptc || metadata.comments?.length);
+  const needsScrub =
+    options.strip && SCRUBBABLE_IMAGE_TYPES.has(mimetype) && (hasMetadata || (orientation ?? 1) !== 1);
+
+  const info: ImageInfo = {
+    width: metadata.autoOrient?.width ?? metadata.width ?? 0,
+    height: metadata.autoOrient?.height ?? metadata.height ?? 0,
+    format: metadata.format ?? mimetype.replace('image/', ''),
+    orientation,
+    stripped: needsScrub,
+  };
+
+  if (!needsScrub) {
+    return { content: buffer, info };
+  }
+
+  // Sharp descarta todos los metadatos al escribir salvo que se pidan; solo se conserva el ICC
+  const pipeline = sharp(buffer).rotate().keepIccProfile();
+  try {
+    const content =
+      mimetype === 'image/png'
+        ? await pipeline.png().toBuffer()
+        : mimetype === 'image/webp'
+          ? await pipeline.webp({ quality: SCRUB_QUALITY }).toBuffer()
+          : await pipeline.jpeg({ quality: SCRUB_QUALITY }).toBuffer();
+    return { content, info };
+  } catch (error) {
+    throw new ImageProcessingError((error as Error).message);
+  }
+}
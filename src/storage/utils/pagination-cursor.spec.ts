@@ -0,0 +1,26 @@
+import { decodeCursor, encodeCursor, InvalidCursorError } from './pagination-cursor';
+
+describe('pagination cursor', () => {
+  it('should round-trip a position through an opaque cursor', () => {
+    const position = {
+      sort: 'uploadedAt',
+      order: 'desc' as const,
+      value: '2024-05-01 10:00:00.123456',
+      id: '7f0c1f9e-7d1c-4a5b-9b7e-2f7d1c0e4a11',
+    };
+
+    const cursor = encodeCursor(position);
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor)).toEqual(position);
+  });
+
+  it('should reject malformed cursors', () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+    expect(() => decodeCursor('not a cursor')).toThrow(InvalidCursorError);
+    expect(() => decodeCursor(encode({ sort: 'size' }))).toThrow(InvalidCursorError);
+    expect(() => decodeCursor(encode(['size', 'up', '10', 'id']))).toThrow(InvalidCursorError);
+    expect(() => decodeCursor(encode(['size', 'asc', 10, 'id']))).toThrow(InvalidCursorError);
+  });
+});
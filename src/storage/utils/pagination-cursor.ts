@@ -0,0 +1,59 @@
+/**
+ * Error lanzado cuando un cursor de paginación no se puede decodificar.
+ */
+export class InvalidCursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * Posición de un cursor: orden con el que se generó y último registro entregado.
+ */
+export interface CursorPosition {
+  /** Campo de orden */
+  sort: string;
+  /** Dirección del orden */
+  order: 'asc' | 'desc';
+  /** Valor del campo de orden del último registro, como texto de Postgres */
+  value: string;
+  /** ID del último registro (desempate entre valores iguales) */
+  id: string;
+}
+
+/**
+ * Codifica una posición como cursor opaco (JSON en base64url).
+ * @param position - Último registro entregado y orden de la consulta
+ * @returns Cursor para pedir la página siguiente
+ */
+export function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(JSON.stringify([position.sort, position.order, position.value, position.id])).toString('base64url');
+}
+
+/**
+ * Decodifica un cursor generado por encodeCursor.
+ * @param cursor - Cursor recibido del cliente
+ * @returns Posición del cursor
+ * @throws InvalidCursorError si el cursor está mal formado
+ */
+export function decodeCursor(cursor: string): CursorPosition {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError('Malformed cursor');
+  }
+
+  if (
+    !Array.isArray(decoded) ||
+    decoded.length !== 4 ||
+    !decoded.every((part) => typeof part === 'string') ||
+    (decoded[1] !== 'asc' && decoded[1] !== 'desc')
+  ) {
+    throw new InvalidCursorError('Malformed cursor');
+  }
+
+  const [sort, order, value, id] = decoded as [string, 'asc' | 'desc', string, string];
+  return { sort, order, value, id };
+}
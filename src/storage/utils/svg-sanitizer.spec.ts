@@ -0,0 +1,89 @@
+import { sanitizeSvg, SvgSanitizationError } from './svg-sanitizer';
+
+const sanitize = (svg: string) => sanitizeSvg(Buffer.from(svg)).content.toString('utf8');
+
+describe('svg-sanitizer', () => {
+  it('should keep harmless markup and internal references', () => {
+    const svg =
+      '<?xml version="1.0"?><svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10">' +
+      '<defs><linearGradient id="g"/></defs><rect width="10" height="10" fill="url(#g)"/>' +
+      '<use href="#g"/></svg>';
+
+    const result = sanitizeSvg(Buffer.from(svg));
+
+    expect(result.content.toString('utf8')).toBe(svg);
+    expect(result.removed).toEqual([]);
+  });
+
+  it('should remove scripts and foreignObject with their content', () => {
+    const output = sanitize(
+      '<svg><script type="text/javascript"><![CDATA[alert(1)]]></script>' +
+        '<foreignObject><div xmlns="http://www.w3.org/1999/xhtml"><iframe src="x"/></div></foreignObject>' +
+        '<svg:script>alert(2)</svg:script><circle r="1"/></svg>',
+    );
+
+    expect(output).toBe('<svg><circle r="1"/></svg>');
+  });
+
+  it('should strip event handlers and javascript or external links', () => {
+    const output = sanitize(
+      '<svg onload="alert(1)"><a xlink:href="javascript:alert(1)"><text>x</text></a>' +
+        '<image href="https://tracker.example.com/p.png"/><g ONCLICK=\'x()\'/></svg>',
+    );
+
+    expect(output).toBe('<svg><a><text>x</text></a><image/><g/></svg>');
+  });
+
+  it('should keep embedded raster images but drop nested SVG data URIs', () => {
+    const output = sanitize(
+      '<svg><image href="data:image/png;base64,iVBORw0KGgo="/>' +
+        '<image href="data:image/svg+xml;base64,PHN2Zz4="/></svg>',
+    );
+
+    expect(output).toBe('<svg><image href="data:image/png;base64,iVBORw0KGgo="/><image/></svg>');
+  });
+
+  it('should remove animations that rewrite links or handlers', () => {
+    const output = sanitize(
+      '<svg><a><set attributeName="href" to="javascript:alert(1)"/><animate attributeName="opacity"/></a></svg>',
+    );
+
+    expect(output).toBe('<svg><a><animate attributeName="opacity"/></a></svg>');
+  });
+
+  it('should remove animations whose target or values are encoded to hide links', () => {
+    const output = sanitize(
+      '<svg><a><animate attributeName="&#104;ref" values="javascript:alert(1)"/></a>' +
+        '<a><set attributeName="&#x48;REF" to="x"/><set attributeName=" On&#x63;lick" to="alert(1)"/></a>' +
+        '<a><animate attributeName="class" values="a;&#x20;JavaScript&#58;alert(1)"/></a></svg>',
+    );
+
+    expect(output).toBe('<svg><a></a><a></a><a></a></svg>');
+  });
+
+  it('should neutralize external references in CSS', () => {
+    const output = sanitize(
+      '<svg><style>@import url(https://evil.example.com/x.css); .a { fill: url(#g); background: url("https://evil.example.com/p.png") }</style>' +
+        '<rect style="fill: u\\72l(https://evil.example.com)"/></svg>',
+    );
+
+    expect(output).not.toContain('@import');
+    expect(output).not.toMatch(/url\(\s*["']?https?:/);
+    expect(output).toContain('url(#g)');
+  });
+
+  it('should drop DOCTYPE declarations with entities and processing instructions', () => {
+    const output = sanitize(
+      '<?xml version="1.0"?><!DOCTYPE svg [<!ENTITY xxe SYSTEM "file:///etc/passwd">]>' +
+        '<?xml-stylesheet href="https://evil.example.com/x.css"?><svg><text>&xxe;</text></svg>',
+    );
+
+    expect(output).toBe('<?xml version="1.0"?><svg><text>&xxe;</text></svg>');
+  });
+
+  it('should reject malformed documents and documents without an svg root', () => {
+    expect(() => sanitizeSvg(Buffer.from('<svg><!-- unterminated'))).toThrow(SvgSanitizationError);
+    expect(() => sanitizeSvg(Buffer.from('<svg><rect width="1" <x></svg>'))).toThrow(SvgSanitizationError);
+    expect(() => sanitizeSvg(Buffer.from('<html><body/></html>'))).toThrow(SvgSanitizationError);
+  });
+});
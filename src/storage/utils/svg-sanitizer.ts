@@ -0,0 +1,327 @@
+/**
+ * Error lanzado cuando un SVG no se puede sanear (marcado mal formado o sin raíz <svg>).
+ */
+export class SvgSanitizationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SvgSanitizationError';
+  }
+}
+
+/**
+ * Resultado del saneamiento de un SVG.
+ */
+export interface SvgSanitizationResult {
+  /** Contenido saneado (UTF-8) */
+  content: Buffer;
+  /** Elementos y atributos eliminados (para logging) */
+  removed: string[];
+}
+
+/** Elementos que se eliminan junto con todo su contenido */
+const BLOCKED_ELEMENTS = new Set([
+  'script',
+  'foreignobject',
+  'iframe',
+  'frame',
+  'embed',
+  'object',
+  'applet',
+  'handler',
+  'listener',
+  'base',
+  'meta',
+  'link',
+]);
+
+/** Elementos de animación que pueden reescribir atributos peligrosos */
+const ANIMATION_ELEMENTS = new Set(['set', 'animate', 'animatetransform', 'animatemotion']);
+
+/** Atributos de animación con los valores que se asignan */
+const ANIMATION_VALUE_ATTRIBUTES = new Set(['values', 'to', 'from', 'by']);
+
+/** Esquema de URL al inicio de un valor o de un elemento de una lista separada por ; */
+const URL_SCHEME = /(^|;)[a-z][a-z\d+.-]*:/;
+
+/** Referencia de carácter numérica (hexadecimal o decimal) o con nombre */
+const CHARACTER_REFERENCE = /&#x([\da-f]+);?|&#(\d+);?|&(amp|lt|gt|quot|apos);/gi;
+
+/** Referencias de carácter con nombre predefinidas en XML */
+const NAMED_REFERENCES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/** Atributos que referencian recursos */
+const REFERENCE_ATTRIBUTES = new Set(['href', 'src', 'action', 'formaction', 'base']);
+
+/** Data URIs permitidas en referencias (imágenes rasterizadas embebidas) */
+const SAFE_DATA_URI = /^data:image\/(png|jpeg|gif|webp);base64,[a-z0-9+/=\s]*$/i;
+
+const TAG_PATTERN =
+  /^<(\/?)([A-Za-z_][\w:.-]*)((?:\s+[^\s=/<>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*(\/?)>/;
+const ATTRIBUTE_PATTERN = /([^\s=/<>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+interface ParsedTag {
+  closing: boolean;
+  selfClosing: boolean;
+  name: string;
+  attributes: { name: string; value: string | null }[];
+  length: number;
+}
+
+/** Nombre local en minúsculas (sin prefijo de namespace) */
+function localName(name: string): string {
+  return name.substring(name.indexOf(':') + 1).toLowerCase();
+}
+
+/** Indica si una referencia apunta solo dentro del mismo documento */
+function isInternalReference(value: string): boolean {
+  const trimmed = value.trim();
+  return trimmed.startsWith('#') || SAFE_DATA_URI.test(trimmed);
+}
+
+/**
+ * Sanea CSS eliminando escapes, @import, expression() y url() que no sean internas.
+ * Los escapes se eliminan (no se decodifican) para que no oculten url( ni marcado.
+ */
+function sanitizeCss(css: string, removed: string[]): string {
+  return css
+    .replace(/\\[0-9a-f]{1,6}\s?|\\[\s\S]/gi, () => {
+      removed.push('css:escape');
+      return '';
+    })
+    .replace(/@import[^;]*;?/gi, () => {
+      removed.push('css:@import');
+      return '';
+    })
+    .replace(/expression\s*\(/gi, () => {
+      removed.push('css:expression');
+      return '(';
+    })
+    .replace(/url\(\s*(['"]?)(.*?)\1\s*\)/gi, (match: string, _quote: string, target: string) => {
+      if (isInternalReference(target)) {
+        return match;
+      }
+      removed.push('css:url');
+      return 'none';
+    });
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&(?![a-z]+;|#\d+;|#x[\da-f]+;)/gi, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+function parseTag(source: string): ParsedTag | null {
+  const match = TAG_PATTERN.exec(source);
+  if (!match) {
+    return null;
+  }
+  const attributes: ParsedTag['attributes'] = [];
+  for (const attribute of match[3].matchAll(ATTRIBUTE_PATTERN)) {
+    attributes.push({ name: attribute[1], value: attribute[2] ?? attribute[3] ?? attribute[4] ?? null });
+  }
+  return {
+    closing: match[1] === '/',
+    selfClosing: match[4] === '/',
+    name: match[2],
+    attributes,
+    length: match[0].length,
+  };
+}
+
+/**
+ * Filtra los atributos de un elemento y lo serializa.
+ */
+function serializeTag(tag: ParsedTag, removed: string[]): string {
+  if (tag.closing) {
+    return `</${tag.name}>`;
+  }
+  const kept: string[] = [];
+  for (const { name, value } of tag.attributes) {
+    const local = localName(name);
+    if (local.startsWith('on')) {
+      removed.push(`@${name}`);
+      continue;
+    }
+    if (REFERENCE_ATTRIBUTES.has(local) && value !== null && !isInternalReference(value)) {
+      removed.push(`@${name}`);
+      continue;
+    }
+    if (value === null) {
+      kept.push(name);
+      continue;
+    }
+    const sanitized = local === 'style' || /url\(/i.test(value) ? sanitizeCss(value, removed) : value;
+    kept.push(`${name}="${escapeAttribute(sanitized)}"`);
+  }
+  const attributes = kept.length > 0 ? ` ${kept.join(' ')}` : '';
+  return `<${tag.name}${attributes}${tag.selfClosing ? '/' : ''}>`;
+}
+
+/**
+ * Decodifica las referencias de carácter de un valor de atributo y quita espacios y caracteres de control,
+ * como hace el navegador antes de interpretarlo.
+ */
+function decodeAttribute(value: string): string {
+  const decoded = value.replace(CHARACTER_REFERENCE, (match, hex?: string, decimal?: string, named?: string) => {
+    if (named) {
+      return NAMED_REFERENCES[named.toLowerCase()];
+    }
+    const codePoint = hex ? parseInt(hex, 16) : Number(decimal);
+    return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+  });
+  // eslint-disable-next-line no-control-regex
+  return decoded.replace(/[\u0000-\u0020\u007f]/g, '').toLowerCase();
+}
+
+/**
+ * Indica si un elemento de animación apunta a un atributo de referencia o evento,
+ * o si alguno de sus valores es una URL con esquema (p. ej. javascript:).
+ */
+function isDangerousAnimation(tag: ParsedTag): boolean {
+  if (!ANIMATION_ELEMENTS.has(localName(tag.name))) {
+    return false;
+  }
+  return tag.attributes.some(({ name, value }) => {
+    if (value === null) {
+      return false;
+    }
+    const local = localName(name);
+    if (local === 'attributename') {
+      const attribute = localName(decodeAttribute(value));
+      return attribute.startsWith('on') || REFERENCE_ATTRIBUTES.has(attribute);
+    }
+    return ANIMATION_VALUE_ATTRIBUTES.has(local) && URL_SCHEME.test(decodeAttribute(value));
+  });
+}
+
+function indexOrThrow(source: string, search: string, from: number, what: string): number {
+  const index = source.indexOf(search, from);
+  if (index === -1) {
+    throw new SvgSanitizationError(`Unterminated ${what}`);
+  }
+  return index;
+}
+
+/**
+ * Encuentra el final de una declaración <!DOCTYPE ...>, incluyendo su subset interno [...].
+ */
+function doctypeEnd(source: string, from: number): number {
+  let inSubset = false;
+  for (let index = from; index < source.length; index++) {
+    const char = source[index];
+    if (char === '[') {
+      inSubset = true;
+    } else if (char === ']') {
+      inSubset = false;
+    } else if (char === '>' && !inSubset) {
+      return index + 1;
+    }
+  }
+  throw new SvgSanitizationError('Unterminated DOCTYPE');
+}
+
+/**
+ * Sanea un documento SVG para que pueda servirse inline sin ejecutar código.
+ * Elimina scripts, foreignObject, manejadores de eventos (on*), referencias externas
+ * (href/src a otros documentos, url() y @import en CSS), DOCTYPE/entidades e
+ * instrucciones de procesamiento. Las referencias internas (#id) y las imágenes
+ * embebidas como data URI rasterizada se conservan.
+ * @param buffer - Contenido SVG original
+ * @returns Contenido saneado y la lista de elementos/atributos eliminados
+ * @throws SvgSanitizationError si el marcado está mal formado o no tiene raíz <svg>
+ */
+export function sanitizeSvg(buffer: Buffer): SvgSanitizationResult {
+  const source = buffer.toString('utf8').replace(/^\uFEFF/, '');
+  const removed: string[] = [];
+  const output: string[] = [];
+  /** Profundidad dentro de un elemento bloqueado (0 = no se está descartando) */
+  let skipDepth = 0;
+  /** Indica si el texto actual pertenece a un <style> */
+  let inStyle = false;
+  let hasSvgRoot = false;
+  let index = 0;
+
+  while (index < source.length) {
+    const next = source.indexOf('<', index);
+    const textEnd = next === -1 ? source.length : next;
+    if (textEnd > index) {
+      if (skipDepth === 0) {
+        const text = source.substring(index, textEnd);
+        output.push(inStyle ? sanitizeCss(text, removed) : text);
+      }
+      index = textEnd;
+      continue;
+    }
+
+    if (source.startsWith('<!--', index)) {
+      index = indexOrThrow(source, '-->', index + 4, 'comment') + 3;
+      continue;
+    }
+    if (source.startsWith('<![CDATA[', index)) {
+      const end = indexOrThrow(source, ']]>', index + 9, 'CDATA section');
+      if (skipDepth === 0) {
+        const data = source.substring(index + 9, end);
+        output.push(`<![CDATA[${inStyle ? sanitizeCss(data, removed) : data}]]>`);
+      }
+      index = end + 3;
+      continue;
+    }
+    if (source.startsWith('<!', index)) {
+      removed.push('doctype');
+      index = doctypeEnd(source, index + 2);
+      continue;
+    }
+    if (source.startsWith('<?', index)) {
+      const end = indexOrThrow(source, '?>', index + 2, 'processing instruction') + 2;
+      // Solo se conserva la declaración XML
+      if (/^<\?xml\s/.test(source.substring(index, end)) && output.length === 0) {
+        output.push(source.substring(index, end));
+      } else {
+        removed.push('processing-instruction');
+      }
+      index = end;
+      continue;
+    }
+
+    const tag = parseTag(source.substring(index));
+    if (!tag) {
+      throw new SvgSanitizationError(`Malformed tag at offset ${index}`);
+    }
+    index += tag.length;
+    const name = localName(tag.name);
+
+    if (skipDepth > 0) {
+      if (tag.closing) {
+        skipDepth--;
+      } else if (!tag.selfClosing) {
+        skipDepth++;
+      }
+      continue;
+    }
+
+    if (!tag.closing && (BLOCKED_ELEMENTS.has(name) || isDangerousAnimation(tag))) {
+      removed.push(`<${tag.name}>`);
+      if (!tag.selfClosing) {
+        skipDepth = 1;
+      }
+      continue;
+    }
+    if (tag.closing && BLOCKED_ELEMENTS.has(name)) {
+      // Cierre huérfano de un elemento bloqueado
+      continue;
+    }
+
+    if (name === 'svg' && !tag.closing) {
+      hasSvgRoot = true;
+    }
+    if (name === 'style') {
+      inStyle = !tag.closing && !tag.selfClosing;
+    }
+    output.push(serializeTag(tag, removed));
+  }
+
+  if (!hasSvgRoot) {
+    throw new SvgSanitizationError('Document has no <svg> root element');
+  }
+
+  return { content: Buffer.from(output.join(''), 'utf8'), removed };
+}
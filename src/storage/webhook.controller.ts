@@ -0,0 +1,126 @@
+import { Controller, Get, Post, Delete, Body, Param, Query, UseGuards, ParseUUIDPipe } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiSecurity } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { WebhookService } from './webhook.service';
+import { ApiKeyGuard } from './guards/api-key.guard';
+import { RequireScope } from './decorators/require-scope.decorator';
+import { ApiKeyScope } from './entities/api-key.entity';
+import { WebhookDeliveryStatus } from './entities/webhook-delivery.entity';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { QueryWebhookDeliveriesDto } from './dto/query-webhook-deliveries.dto';
+
+/**
+ * Controlador de webhooks salientes.
+ * Permite suscribir URLs a eventos de archivos, consultar las entregas y sus dead letters
+ * y reenviarlas manualmente.
+ * Requiere una key con permiso admin.
+ * @class WebhookController
+ */
+@ApiTags('Webhooks')
+@ApiSecurity('api-key')
+@Controller('storage/webhooks')
+@UseGuards(ApiKeyGuard)
+@RequireScope(ApiKeyScope.ADMIN)
+@Throttle({ default: { limit: 20, ttl: 60000 } })
+export class WebhookController {
+  constructor(private readonly webhookService: WebhookService) {}
+
+  /**
+   * Crea una suscripción. El secreto de la firma solo se retorna en esta respuesta.
+   * @param dto - URL, eventos, filtros y secreto opcional
+   * @returns Suscripción creada y su secreto
+   */
+  @Post()
+  @ApiOperation({ summary: 'Subscribe a URL to file lifecycle events' })
+  @ApiResponse({ status: 201, description: 'Webhook subscribed (secret shown only once)' })
+  @ApiResponse({ status: 400, description: 'Invalid subscription' })
+  async create(@Body() dto: CreateWebhookDto) {
+    const { subscription, secret } = await this.webhookService.create(dto);
+    return {
+      success: true,
+      subscription,
+      secret,
+    };
+  }
+
+  /**
+   * Lista las suscripciones (sin secretos).
+   * @returns Suscripciones registradas, incluyendo las desactivadas
+   */
+  @Get()
+  @ApiOperation({ summary: 'List webhook subscriptions' })
+  @ApiResponse({ status: 200, description: 'Webhook subscriptions listed' })
+  async list() {
+    return {
+      success: true,
+      data: await this.webhookService.list(),
+    };
+  }
+
+  /**
+   * Lista las entregas, filtradas por suscripción, estado, evento o archivo.
+   * @param dto - Filtros y paginación
+   * @returns Página de entregas con total
+   */
+  @Get('deliveries')
+  @ApiOperation({ summary: 'List webhook deliveries' })
+  @ApiResponse({ status: 200, description: 'Webhook deliveries listed' })
+  async listDeliveries(@Query() dto: QueryWebhookDeliveriesDto) {
+    const { data, total } = await this.webhookService.listDeliveries(dto);
+    return {
+      success: true,
+      data,
+      total,
+    };
+  }
+
+  /**
+   * Lista las dead letters: entregas que agotaron sus reintentos o cuya suscripción se desactivó.
+   * @param dto - Filtros y paginación (el estado se ignora)
+   * @returns Página de dead letters con total
+   */
+  @Get('dead-letters')
+  @ApiOperation({ summary: 'List webhook deliveries that exhausted their retries' })
+  @ApiResponse({ status: 200, description: 'Dead letters listed' })
+  async listDeadLetters(@Query() dto: QueryWebhookDeliveriesDto) {
+    const { data, total } = await this.webhookService.listDeliveries({ ...dto, status: WebhookDeliveryStatus.DEAD });
+    return {
+      success: true,
+      data,
+      total,
+    };
+  }
+
+  /**
+   * Reenvía una entrega de inmediato, con sus reintentos restablecidos.
+   * @param deliveryId - UUID de la entrega
+   * @returns Entrega tras el nuevo intento
+   */
+  @Post('deliveries/:deliveryId/redeliver')
+  @ApiOperation({ summary: 'Redeliver a webhook delivery now' })
+  @ApiResponse({ status: 201, description: 'Delivery attempted (see its status)' })
+  @ApiResponse({ status: 404, description: 'Webhook delivery not found' })
+  @ApiResponse({ status: 409, description: 'Webhook subscription is disabled' })
+  async redeliver(@Param('deliveryId', ParseUUIDPipe) deliveryId: string) {
+    return {
+      success: true,
+      delivery: await this.webhookService.redeliver(deliveryId),
+    };
+  }
+
+  /**
+   * Desactiva una suscripción. Sus entregas pendientes pasan a dead letter.
+   * @param id - UUID de la suscripción
+   * @returns Suscripción desactivada
+   */
+  @Delete(':id')
+  @ApiOperation({ summary: 'Disable a webhook subscription' })
+  @ApiResponse({ status: 200, description: 'Webhook subscription disabled' })
+  @ApiResponse({ status: 404, description: 'Webhook subscription not found' })
+  async disable(@Param('id', ParseUUIDPipe) id: string) {
+    return {
+      success: true,
+      subscription: await this.webhookService.disable(id),
+    };
+  }
+}
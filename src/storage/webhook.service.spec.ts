@@ -0,0 +1,236 @@
+import { ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FindOperator, Repository } from 'typeorm';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { signWebhookPayload, WebhookService } from './webhook.service';
+import { WebhookEvent, WebhookSubscription } from './entities/webhook-subscription.entity';
+import { WebhookDelivery, WebhookDeliveryStatus } from './entities/webhook-delivery.entity';
+import { EntityType, FileCategory, FileMetadata, ScanStatus } from './entities/file-metadata.entity';
+
+// uuid solo se publica como ESM y Jest carga los módulos como CommonJS
+jest.mock('uuid', () => ({ v4: () => jest.requireActual<typeof import('crypto')>('crypto').randomUUID() }));
+
+type Row = { id: string; createdAt?: Date; generateId?: () => void } & Record<string, unknown>;
+
+/**
+ * Tabla en memoria con el subconjunto del Repository que usa WebhookService.
+ */
+function createTable<T extends Row>(entity: new () => T) {
+  const rows: T[] = [];
+  const matches = (row: T, where: Record<string, unknown> = {}) =>
+    Object.entries(where).every(([key, expected]) => {
+      const value = row[key];
+      if (expected instanceof FindOperator) {
+        return value instanceof Date && value.getTime() <= (expected.value as Date).getTime();
+      }
+      return expected instanceof Date ? value instanceof Date && value.getTime() === expected.getTime() : value === expected;
+    });
+  type FindOptions = { where?: Record<string, unknown>; order?: Record<string, 'ASC' | 'DESC'>; take?: number };
+  const find = (options: FindOptions = {}) => {
+    const [[key, direction] = []] = Object.entries(options.order ?? {});
+    const found = rows.filter((row) => matches(row, options.where));
+    if (key) {
+      const sign = direction === 'DESC' ? -1 : 1;
+      found.sort((a, b) => sign * (Number(a[key]) - Number(b[key])));
+    }
+    return found.slice(0, options.take);
+  };
+
+  return {
+    rows,
+    create: (data: Partial<T>) => Object.assign(new entity(), data),
+    save: <S extends T | T[]>(items: S) => {
+      for (const item of (Array.isArray(items) ? items : [items]) as T[]) {
+        if (!rows.includes(item)) {
+          item.generateId?.();
+          item.createdAt = new Date();
+          rows.push(item);
+        }
+      }
+      return Promise.resolve(items);
+    },
+    find: (options?: FindOptions) => Promise.resolve(find(options)),
+    findAndCount: (options: FindOptions) =>
+      Promise.resolve([find({ ...options, take: undefined }).slice(0, options.take), find({ where: options.where }).length]),
+    findOne: (options: { where: Record<string, unknown> }) => Promise.resolve(find(options)[0] ?? null),
+    update: (criteria: Record<string, unknown>, changes: Partial<T>) => {
+      const affected = rows.filter((row) => matches(row, criteria));
+      affected.forEach((row) => Object.assign(row, changes));
+      return Promise.resolve({ affected: affected.length });
+    },
+    createQueryBuilder: () => {
+      let id: unknown;
+      const builder = {
+        addSelect: () => builder,
+        where: (_condition: string, parameters: { id: unknown }) => {
+          id = parameters.id;
+          return builder;
+        },
+        getOne: () => Promise.resolve(rows.find((row) => row.id === id) ?? null),
+      };
+      return builder;
+    },
+  };
+}
+
+describe('WebhookService', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let received: { headers: http.IncomingHttpHeaders; body: string }[];
+  let responseStatus: number;
+  let subscriptions: ReturnType<typeof createTable<WebhookSubscription & Row>>;
+  let deliveries: ReturnType<typeof createTable<WebhookDelivery & Row>>;
+
+  const file = Object.assign(new FileMetadata(), {
+    id: '3c2b1a09-8f7e-4d6c-9b5a-493827161504',
+    originalFilename: 'informe.pdf',
+    mimetype: 'application/pdf',
+    size: 1234,
+    category: FileCategory.DOCUMENT,
+    entityType: EntityType.APPLICATION,
+    entityId: '6f1c2d3e-4a5b-4c6d-8e7f-8091a2b3c4d5',
+    scanStatus: ScanStatus.CLEAN,
+    thumbnailPath: 'thumbnails/informe.webp',
+    path: 'blobs/ab/cd/abcd',
+    currentVersion: 1,
+  });
+
+  beforeAll(async () => {
+    // Destino local que registra los POST y responde con el estado configurado
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body: Buffer.concat(chunks).toString() });
+        res.writeHead(responseStatus).end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    responseStatus = 204;
+    subscriptions = createTable(WebhookSubscription as new () => WebhookSubscription & Row);
+    deliveries = createTable(WebhookDelivery as new () => WebhookDelivery & Row);
+  });
+
+  function createService(env: Record<string, string> = {}) {
+    return new WebhookService(
+      subscriptions as unknown as Repository<WebhookSubscription>,
+      deliveries as unknown as Repository<WebhookDelivery>,
+      new ConfigService(env),
+    );
+  }
+
+  /** Adelanta el próximo intento de las entregas pendientes, como si hubiera pasado la espera */
+  function makeDue() {
+    for (const delivery of deliveries.rows) {
+      if (delivery.nextAttemptAt) {
+        delivery.nextAttemptAt = new Date(Date.now() - 1);
+      }
+    }
+  }
+
+  it('should deliver signed events only to the matching subscriptions', async () => {
+    const service = createService();
+    const documents = await service.create({
+      url: `${baseUrl}/documents`,
+      events: [WebhookEvent.FILE_UPLOADED],
+      categories: [FileCategory.DOCUMENT],
+    });
+    await service.create({ url: `${baseUrl}/deletes`, events: [WebhookEvent.FILE_DELETED] });
+    await service.create({ url: `${baseUrl}/users`, events: [WebhookEvent.FILE_UPLOADED], entityTypes: [EntityType.USER] });
+
+    await service.publish([WebhookEvent.FILE_UPLOADED, WebhookEvent.SCAN_COMPLETED], file, { version: 1 });
+    await service.dispatchDue();
+
+    expect(documents.subscription.secret).toBeUndefined();
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    const signature = signWebhookPayload(documents.secret, Number(headers['x-webhook-timestamp']), body);
+    expect(headers['x-webhook-signature']).toBe(`sha256=${signature}`);
+    expect(headers['x-webhook-event']).toBe(WebhookEvent.FILE_UPLOADED);
+    expect(headers['x-webhook-delivery']).toBe(deliveries.rows[0].id);
+    expect(JSON.parse(body)).toMatchObject({
+      event: WebhookEvent.FILE_UPLOADED,
+      data: { version: 1, file: { id: file.id, category: FileCategory.DOCUMENT, hasThumbnail: true } },
+    });
+    expect(body).not.toContain(file.path);
+    expect(deliveries.rows[0]).toMatchObject({ status: WebhookDeliveryStatus.DELIVERED, attempts: 1, lastStatusCode: 204 });
+  });
+
+  it('should retry with exponential backoff, dead-letter exhausted deliveries and redeliver them', async () => {
+    const service = createService({ WEBHOOK_MAX_ATTEMPTS: '3', WEBHOOK_RETRY_BASE_SECONDS: '10' });
+    await service.create({ url: baseUrl, events: [WebhookEvent.FILE_DELETED] });
+    responseStatus = 500;
+
+    await service.publish([WebhookEvent.FILE_DELETED], file);
+    await service.dispatchDue();
+    const [delivery] = deliveries.rows;
+    expect(delivery).toMatchObject({ status: WebhookDeliveryStatus.PENDING, attempts: 1, lastError: 'HTTP 500' });
+    expect(delivery.nextAttemptAt!.getTime() - Date.now()).toBeGreaterThan(9000);
+
+    // Nada que enviar hasta que vence la espera; luego se duplica
+    await expect(service.dispatchDue()).resolves.toEqual({ delivered: 0, failed: 0 });
+    makeDue();
+    await service.dispatchDue();
+    expect(delivery.attempts).toBe(2);
+    expect(delivery.nextAttemptAt!.getTime() - Date.now()).toBeGreaterThan(19000);
+
+    makeDue();
+    await service.dispatchDue();
+    expect(delivery).toMatchObject({ status: WebhookDeliveryStatus.DEAD, attempts: 3, nextAttemptAt: null });
+    await expect(service.listDeliveries({ status: WebhookDeliveryStatus.DEAD })).resolves.toMatchObject({ total: 1 });
+
+    responseStatus = 200;
+    await expect(service.redeliver(delivery.id)).resolves.toMatchObject({
+      status: WebhookDeliveryStatus.DELIVERED,
+      attempts: 1,
+      lastError: null,
+    });
+    expect(received).toHaveLength(4);
+  });
+
+  it('should dead-letter pending deliveries of disabled subscriptions', async () => {
+    const service = createService();
+    const { subscription } = await service.create({ url: baseUrl, events: [WebhookEvent.FILE_RESTORED] });
+    responseStatus = 503;
+
+    await service.publish([WebhookEvent.FILE_RESTORED], file);
+    await service.dispatchDue();
+    await service.disable(subscription.id);
+    makeDue();
+    await service.dispatchDue();
+
+    expect(deliveries.rows[0]).toMatchObject({
+      status: WebhookDeliveryStatus.DEAD,
+      lastError: 'Webhook subscription is disabled',
+    });
+    await expect(service.redeliver(deliveries.rows[0].id)).rejects.toThrow(ConflictException);
+    await service.publish([WebhookEvent.FILE_RESTORED], file);
+    expect(deliveries.rows).toHaveLength(1);
+    expect(received).toHaveLength(1);
+  });
+
+  it('should keep deliveries pending when loading them fails', async () => {
+    const service = createService();
+    await service.create({ url: baseUrl, events: [WebhookEvent.FILE_RESTORED] });
+    const find = jest.spyOn(deliveries, 'find').mockRejectedValueOnce(new Error('Connection terminated'));
+
+    await service.publish([WebhookEvent.FILE_RESTORED], file);
+    await expect(service.dispatchDue()).resolves.toEqual({ delivered: 0, failed: 0 });
+
+    expect(find).toHaveBeenCalled();
+    expect(deliveries.rows[0].status).toBe(WebhookDeliveryStatus.PENDING);
+    expect(received).toHaveLength(0);
+    await expect(service.dispatchDue()).resolves.toEqual({ delivered: 1, failed: 0 });
+  });
+});
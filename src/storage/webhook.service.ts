@@ -0,0 +1,438 @@
+import { Injectable, NotFoundException, ConflictException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { FindOptionsWhere, LessThanOrEqual, Repository } from 'typeorm';
+import * as crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { WebhookEvent, WebhookSubscription } from './entities/webhook-subscription.entity';
+import { WebhookDelivery, WebhookDeliveryStatus } from './entities/webhook-delivery.entity';
+import { FileMetadata } from './entities/file-metadata.entity';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { QueryWebhookDeliveriesDto } from './dto/query-webhook-deliveries.dto';
+
+/** Entregas leídas por lote al despachar */
+const DISPATCH_BATCH_SIZE = 20;
+
+/** Largo máximo del error guardado (columna last_error) */
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * Firma el cuerpo de una entrega: HMAC-SHA256 en hex de "<timestamp>.<cuerpo>".
+ * El destino recalcula la firma con su secreto y el header X-Webhook-Timestamp, y puede
+ * rechazar timestamps antiguos para evitar reenvíos.
+ * @param secret - Secreto de la suscripción
+ * @param timestamp - Segundos Unix del envío
+ * @param body - Cuerpo JSON tal como se envía
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Servicio de webhooks salientes.
+ * Registra una entrega por cada evento y suscripción interesada (por evento, categoría y tipo de entidad)
+ * y la envía como POST JSON firmado (X-Webhook-Signature: sha256=<firma>, ver signWebhookPayload).
+ * Las entregas fallidas se reintentan con espera exponencial (WEBHOOK_RETRY_BASE_SECONDS, duplicándose
+ * hasta WEBHOOK_RETRY_MAX_SECONDS); tras WEBHOOK_MAX_ATTEMPTS intentos quedan como dead letter
+ * y pueden reenviarse manualmente.
+ * @class WebhookService
+ */
+@Injectable()
+export class WebhookService {
+  private readonly logger = new Logger(WebhookService.name);
+  /** Intentos antes de pasar a dead letter */
+  private readonly maxAttempts: number;
+  /** Espera antes del primer reintento en ms */
+  private readonly retryBaseMs: number;
+  /** Espera máxima entre reintentos en ms */
+  private readonly retryMaxMs: number;
+  /** Tiempo máximo de respuesta del destino en ms */
+  private readonly timeoutMs: number;
+  /** Despacho en curso (evita solapar el programado con el que sigue a una publicación) */
+  private dispatching: Promise<{ delivered: number; failed: number }> | null = null;
+
+  constructor(
+    @InjectRepository(WebhookSubscription)
+    private subscriptionRepository: Repository<WebhookSubscription>,
+    @InjectRepository(WebhookDelivery)
+    private deliveryRepository: Repository<WebhookDelivery>,
+    private configService: ConfigService,
+  ) {
+    this.maxAttempts = this.parsePositiveInt('WEBHOOK_MAX_ATTEMPTS', 8);
+    this.retryBaseMs = this.parsePositiveInt('WEBHOOK_RETRY_BASE_SECONDS', 30) * 1000;
+    this.retryMaxMs = this.parsePositiveInt('WEBHOOK_RETRY_MAX_SECONDS', 6 * 60 * 60) * 1000;
+    this.timeoutMs = this.parsePositiveInt('WEBHOOK_TIMEOUT_MS', 10000);
+  }
+
+  /**
+   * Crea una suscripción.
+   * @param dto - URL, eventos, filtros y secreto opcional
+   * @returns Suscripción creada y su secreto (solo se muestra esta vez)
+   */
+  async create(dto: CreateWebhookDto): Promise<{ subscription: WebhookSubscription; secret: string }> {
+    const secret = dto.secret ?? `whsec_${crypto.randomBytes(24).toString('hex')}`;
+    const saved = await this.subscriptionRepository.save(
+      this.subscriptionRepository.create({
+        url: dto.url,
+        secret,
+        events: [...new Set(dto.events)],
+        categories: dto.categories?.length ? dto.categories : null,
+        entityTypes: dto.entityTypes?.length ? dto.entityTypes : null,
+        description: dto.description ?? null,
+        active: true,
+      }),
+    );
+
+    this.logger.log(`🪝 Webhook ${saved.id} subscribed to ${saved.events.join(', ')} at ${saved.url}`);
+    return { subscription: this.withoutSecret(saved), secret };
+  }
+
+  /**
+   * Lista las suscripciones (sin secretos), de la más reciente a la más antigua.
+   */
+  async list(): Promise<WebhookSubscription[]> {
+    return this.subscriptionRepository.find({ order: { createdAt: 'DESC' } });
+  }
+
+  /**
+   * Desactiva una suscripción: deja de recibir eventos y sus entregas pendientes pasan a dead letter.
+   * @param id - UUID de la suscripción
+   * @returns Suscripción desactivada
+   * @throws NotFoundException si la suscripción no existe
+   */
+  async disable(id: string): Promise<WebhookSubscription> {
+    const subscription = await this.subscriptionRepository.findOne({ where: { id } });
+    if (!subscription) {
+      throw new NotFoundException('Webhook subscription not found');
+    }
+
+    subscription.active = false;
+    const saved = await this.subscriptionRepository.save(subscription);
+    this.logger.log(`🪝 Webhook ${id} disabled`);
+    return saved;
+  }
+
+  /**
+   * Registra las entregas de eventos sobre un archivo para las suscripciones interesadas
+   * y dispara su envío en segundo plano.
+   * Nunca lanza: un fallo al registrar se informa en el log sin afectar la operación del archivo.
+   * @param events - Eventos ocurridos
+   * @param file - Archivo afectado
+   * @param data - Datos adicionales del evento (ej: número de versión)
+   */
+  async publish(events: WebhookEvent[], file: FileMetadata, data: Record<string, unknown> = {}): Promise<void> {
+    try {
+      const subscriptions = await this.subscriptionRepository.find({ where: { active: true } });
+      const now = new Date();
+      const deliveries: WebhookDelivery[] = [];
+
+      for (const event of events) {
+        const eventId = uuidv4();
+        const payload = { id: eventId, event, createdAt: now.toISOString(), data: { file: this.describeFile(file), ...data } };
+
+        for (const subscription of subscriptions) {
+          if (!this.matches(subscription, event, file)) {
+            continue;
+          }
+          deliveries.push(
+            this.deliveryRepository.create({
+              subscriptionId: subscription.id,
+              eventId,
+              event,
+              fileId: file.id,
+              payload,
+              status: WebhookDeliveryStatus.PENDING,
+              attempts: 0,
+              nextAttemptAt: now,
+            }),
+          );
+        }
+      }
+
+      if (deliveries.length === 0) {
+        return;
+      }
+      await this.deliveryRepository.save(deliveries);
+      void this.dispatchDue();
+    } catch (error) {
+      this.logger.error(`❌ Failed to queue webhooks ${events.join(', ')} for file ${file.id}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Envía las entregas pendientes cuyo intento ya venció.
+   * Se ejecuta cada 30 segundos y después de cada publicación.
+   * @returns Entregas enviadas con éxito y fallidas en esta pasada
+   */
+  @Cron(CronExpression.EVERY_30_SECONDS)
+  async dispatchDue(): Promise<{ delivered: number; failed: number }> {
+    if (!this.dispatching) {
+      this.dispatching = this.dispatchBatches().finally(() => {
+        this.dispatching = null;
+      });
+    }
+    return this.dispatching;
+  }
+
+  /**
+   * Lista entregas con filtros, de la más reciente a la más antigua.
+   * @param filters - Suscripción, estado, evento, archivo, limit y offset
+   * @returns Página de entregas con total
+   */
+  async listDeliveries(filters: QueryWebhookDeliveriesDto): Promise<{ data: WebhookDelivery[]; total: number }> {
+    const where: FindOptionsWhere<WebhookDelivery> = {};
+    if (filters.subscriptionId) {
+      where.subscriptionId = filters.subscriptionId;
+    }
+    if (filters.status) {
+      where.status = filters.status;
+    }
+    if (filters.event) {
+      where.event = filters.event;
+    }
+    if (filters.fileId) {
+      where.fileId = filters.fileId;
+    }
+
+    const [data, total] = await this.deliveryRepository.findAndCount({
+      where,
+      order: { createdAt: 'DESC' },
+      take: filters.limit ?? 50,
+      skip: filters.offset ?? 0,
+    });
+    return { data, total };
+  }
+
+  /**
+   * Reenvía una entrega de inmediato, con todos sus reintentos disponibles otra vez.
+   * Sirve para dead letters y también para repetir una entrega ya recibida.
+   * @param id - UUID de la entrega
+   * @returns Entrega tras el nuevo intento
+   * @throws NotFoundException si la entrega no existe
+   * @throws ConflictException si su suscripción está desactivada
+   */
+  async redeliver(id: string): Promise<WebhookDelivery> {
+    const delivery = await this.deliveryRepository.findOne({ where: { id } });
+    if (!delivery) {
+      throw new NotFoundException('Webhook delivery not found');
+    }
+    const subscription = await this.findSubscriptionWithSecret(delivery.subscriptionId);
+    if (!subscription?.active) {
+      throw new ConflictException('Webhook subscription is disabled');
+    }
+
+    // Queda reclamada mientras dura el intento, igual que en el despacho programado
+    delivery.status = WebhookDeliveryStatus.PENDING;
+    delivery.attempts = 0;
+    delivery.nextAttemptAt = new Date(Date.now() + this.timeoutMs * 2);
+    delivery.deliveredAt = null;
+    await this.deliveryRepository.save(delivery);
+
+    this.logger.log(`🔁 Redelivering webhook ${id} (${delivery.event})`);
+    await this.attempt(delivery, subscription);
+    return delivery;
+  }
+
+  /**
+   * Despacha lotes de entregas vencidas hasta que no queden. Nunca lanza: un error de base de datos se registra.
+   * Cada entrega se reclama antes de enviarse moviendo su próximo intento más allá del timeout,
+   * de modo que otra instancia (o una caída a mitad del envío) no la duplique ni la pierda.
+   * @private
+   */
+  private async dispatchBatches(): Promise<{ delivered: number; failed: number }> {
+    let delivered = 0;
+    let failed = 0;
+
+    for (;;) {
+      let batch: WebhookDelivery[];
+      try {
+        batch = await this.deliveryRepository.find({
+          where: { status: WebhookDeliveryStatus.PENDING, nextAttemptAt: LessThanOrEqual(new Date()) },
+          order: { nextAttemptAt: 'ASC' },
+          take: DISPATCH_BATCH_SIZE,
+        });
+      } catch (error) {
+        // Las entregas siguen pendientes: las toma el próximo despacho
+        this.logger.error(`❌ Failed to load pending webhook deliveries: ${(error as Error).message}`);
+        break;
+      }
+      if (batch.length === 0) {
+        break;
+      }
+
+      for (const delivery of batch) {
+        try {
+          // next_attempt_at tiene precisión de milisegundos, igual que Date: sirve de versión para reclamar
+          const lease = new Date(Date.now() + this.timeoutMs * 2);
+          const claim = await this.deliveryRepository.update(
+            { id: delivery.id, status: WebhookDeliveryStatus.PENDING, nextAttemptAt: delivery.nextAttemptAt! },
+            { nextAttemptAt: lease },
+          );
+          if (claim.affected !== 1) {
+            continue;
+          }
+          delivery.nextAttemptAt = lease;
+
+          const subscription = await this.findSubscriptionWithSecret(delivery.subscriptionId);
+          if (await this.attempt(delivery, subscription)) {
+            delivered++;
+          } else {
+            failed++;
+          }
+        } catch (error) {
+          this.logger.error(`❌ Failed to dispatch webhook ${delivery.id}: ${(error as Error).message}`);
+        }
+      }
+    }
+
+    if (delivered + failed > 0) {
+      this.logger.log(`🪝 Webhooks dispatched: ${delivered} delivered, ${failed} failed`);
+    }
+    return { delivered, failed };
+  }
+
+  /**
+   * Realiza un intento de entrega y registra su resultado (entregada, reintento programado o dead letter).
+   * @returns true si el destino respondió 2xx
+   * @private
+   */
+  private async attempt(delivery: WebhookDelivery, subscription: WebhookSubscription | null): Promise<boolean> {
+    if (!subscription?.active) {
+      Object.assign(delivery, {
+        status: WebhookDeliveryStatus.DEAD,
+        nextAttemptAt: null,
+        lastError: 'Webhook subscription is disabled',
+      });
+      await this.deliveryRepository.save(delivery);
+      return false;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    let statusCode: number | null = null;
+    let error: string | null = null;
+
+    try {
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'fcg-storage-webhooks',
+          'X-Webhook-Delivery': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': `sha256=${signWebhookPayload(subscription.secret, timestamp, body)}`,
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      statusCode = response.status;
+      await response.body?.cancel();
+      if (!response.ok) {
+        error = `HTTP ${response.status}`;
+      }
+    } catch (cause) {
+      const failure = cause as Error & { cause?: Error };
+      error = failure.cause?.message ?? failure.message;
+    }
+
+    delivery.attempts += 1;
+    delivery.lastAttemptAt = new Date();
+    delivery.lastStatusCode = statusCode;
+    delivery.lastError = error?.slice(0, MAX_ERROR_LENGTH) ?? null;
+
+    if (!error) {
+      delivery.status = WebhookDeliveryStatus.DELIVERED;
+      delivery.deliveredAt = delivery.lastAttemptAt;
+      delivery.nextAttemptAt = null;
+    } else if (delivery.attempts >= this.maxAttempts) {
+      delivery.status = WebhookDeliveryStatus.DEAD;
+      delivery.nextAttemptAt = null;
+      this.logger.warn(`☠️ Webhook ${delivery.id} (${delivery.event}) dead after ${delivery.attempts} attempts: ${error}`);
+    } else {
+      const delay = Math.min(this.retryBaseMs * 2 ** (delivery.attempts - 1), this.retryMaxMs);
+      delivery.nextAttemptAt = new Date(Date.now() + delay);
+      this.logger.warn(`⚠️ Webhook ${delivery.id} (${delivery.event}) failed: ${error}; retry in ${delay / 1000}s`);
+    }
+
+    await this.deliveryRepository.save(delivery);
+    return !error;
+  }
+
+  /**
+   * Indica si una suscripción quiere un evento sobre un archivo.
+   * @private
+   */
+  private matches(subscription: WebhookSubscription, event: WebhookEvent, file: FileMetadata): boolean {
+    return (
+      subscription.events.includes(event) &&
+      (!subscription.categories?.length || subscription.categories.includes(file.category)) &&
+      (!subscription.entityTypes?.length || subscription.entityTypes.includes(file.entityType))
+    );
+  }
+
+  /**
+   * Datos del archivo que se envían en los eventos (sin rutas internas ni texto extraído).
+   * @private
+   */
+  private describeFile(file: FileMetadata) {
+    return {
+      id: file.id,
+      originalFilename: file.originalFilename,
+      mimetype: file.mimetype,
+      size: file.size,
+      checksum: file.checksum,
+      category: file.category,
+      entityType: file.entityType,
+      entityId: file.entityId,
+      uploadedBy: file.uploadedBy,
+      currentVersion: file.currentVersion,
+      scanStatus: file.scanStatus,
+      scanDetail: file.scanDetail,
+      hasThumbnail: Boolean(file.thumbnailPath),
+      uploadedAt: file.uploadedAt,
+      deletedAt: file.deletedAt,
+    };
+  }
+
+  /**
+   * Copia de la suscripción sin su secreto (para respuestas).
+   * @private
+   */
+  private withoutSecret(subscription: WebhookSubscription): WebhookSubscription {
+    const copy = Object.assign(new WebhookSubscription(), subscription);
+    delete (copy as Partial<WebhookSubscription>).secret;
+    return copy;
+  }
+
+  /**
+   * Obtiene una suscripción incluyendo su secreto.
+   * @private
+   */
+  private async findSubscriptionWithSecret(id: string): Promise<WebhookSubscription | null> {
+    return this.subscriptionRepository
+      .createQueryBuilder('subscription')
+      .addSelect('subscription.secret')
+      .where('subscription.id = :id', { id })
+      .getOne();
+  }
+
+  /**
+   * Lee un entero positivo de la configuración.
+   * @throws Error si el valor no es un entero positivo
+   * @private
+   */
+  private parsePositiveInt(key: string, fallback: number): number {
+    const raw = this.configService.get<string>(key);
+    if (raw === undefined || raw === '') {
+      return fallback;
+    }
+    const value = Number(raw);
+    if (!Number.isSafeInteger(value) || value < 1) {
+      throw new Error(`Invalid ${key}: expected a positive integer`);
+    }
+    return value;
+  }
+}